@@ -1,3 +1,7 @@
+const fs = require('fs');
+const os = require('os');
+const path = require('path');
+
 // Set up environment variables for testing
 process.env.GEMINI_API_KEY = 'test-api-key';
 process.env.INSTAGRAM_ACCESS_TOKEN = 'test-token';
@@ -6,4 +10,7 @@ process.env.TWITTER_API_KEY = 'test-twitter-key';
 process.env.TWITTER_API_SECRET = 'test-twitter-secret';
 process.env.TWITTER_ACCESS_TOKEN = 'test-twitter-token';
 process.env.TWITTER_ACCESS_SECRET = 'test-twitter-secret';
-process.env.BEARER = 'test-bearer-token';
\ No newline at end of file
+process.env.BEARER = 'test-bearer-token';
+
+// Keep persisted state of each test file away from the local data directory
+process.env.DATA_DIR = fs.mkdtempSync(path.join(os.tmpdir(), 'insta-data-fetching-'));
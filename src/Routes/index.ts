@@ -2,6 +2,17 @@ import { Router } from 'express';
 import InstagramController from '../controllers/instagram.controller';
 import { twitterController } from '../controllers/twitter.controller';
 import { commonController } from '../controllers/common.controller';
+import { sourceController } from '../controllers/source.controller';
+import { historyController } from '../controllers/history.controller';
+import { pollerController } from '../controllers/poller.controller';
+import { draftController } from '../controllers/draft.controller';
+import { jobController } from '../controllers/job.controller';
+import { scheduleController } from '../controllers/schedule.controller';
+import { webhookController } from '../controllers/webhook.controller';
+import { runController } from '../controllers/run.controller';
+import { backfillController } from '../controllers/backfill.controller';
+import { promptTemplateController } from '../controllers/promptTemplate.controller';
+import { idempotent } from '../utils/idempotency';
 
 const router = Router();
 
@@ -11,29 +22,102 @@ const instagramController = new InstagramController();
  * /instagram/latest:
  *   post:
  *     summary: get latestpost with caption and image from instagram
+ *     description: Accepts an optional `sourceId` query parameter, defaults to the default source.
  */
 router.get('/instagram/latest', instagramController.getLatestPost);
 /**
  * @swagger
- * /instagram/username:
+ * /instagram/posts:
+ *   get:
+ *     summary: get the most recent posts, newest first
+ *     description: Accepts optional `sourceId`, `limit` (1-50, default 10) and `since` (ISO date) query parameters.
+ */
+router.get('/instagram/posts', instagramController.getRecentPosts);
+/**
+ * @swagger
+ * /instagram/profile:
+ *   get:
+ *     summary: get profile metadata such as full name, bio, avatar and follower counts
+ *     description: Accepts an optional `sourceId` query parameter, defaults to the default source.
+ */
+router.get('/instagram/profile', instagramController.getProfile);
+
+/**
+ * @swagger
+ * /sources:
+ *   get:
+ *     summary: list the registered Instagram sources
  *   post:
- *     summary: change the username at runtime
+ *     summary: register an Instagram source with its own username, access token and settings
  */
-router.post('/instagram/username', instagramController.updateUsername);
+router.get('/sources', sourceController.listSources);
+router.post('/sources', sourceController.createSource);
+
+/**
+ * @swagger
+ * /sources/{id}:
+ *   get:
+ *     summary: get an Instagram source
+ *   put:
+ *     summary: update an Instagram source
+ *   delete:
+ *     summary: remove an Instagram source
+ */
+router.get('/sources/:id', sourceController.getSource);
+router.put('/sources/:id', sourceController.updateSource);
+router.delete('/sources/:id', sourceController.deleteSource);
+
+/**
+ * @swagger
+ * /sources/{id}/token:
+ *   get:
+ *     summary: get the expiry and refresh state of the access token of a source
+ * /sources/{id}/token/refresh:
+ *   post:
+ *     summary: exchange the access token of a source for a new long-lived token
+ */
+router.get('/sources/:id/token', sourceController.getTokenStatus);
+router.post('/sources/:id/token/refresh', sourceController.refreshToken);
+
+/**
+ * @swagger
+ * /polling:
+ *   get:
+ *     summary: list the polling state of every source with its last and next run
+ * /sources/{id}/polling:
+ *   get:
+ *     summary: get the polling state of a source with its last and next run
+ * /sources/{id}/polling/pause:
+ *   post:
+ *     summary: stop polling a source until it is resumed
+ * /sources/{id}/polling/resume:
+ *   post:
+ *     summary: resume polling a source
+ * /sources/{id}/polling/run:
+ *   post:
+ *     summary: poll a source now and cross-post posts newer than the last one seen
+ */
+router.get('/polling', pollerController.listPollers);
+router.get('/sources/:id/polling', pollerController.getPoller);
+router.post('/sources/:id/polling/pause', pollerController.pausePoller);
+router.post('/sources/:id/polling/resume', pollerController.resumePoller);
+router.post('/sources/:id/polling/run', pollerController.runPoller);
 
 /**
  * @swagger
  * /api/tweet:
  *   post:
  *     summary: Summarize Instagram caption and post as a tweet
+ *     description: The tweet is posted by a tweet job; a temporary Twitter error returns 202 with the job, which is retried in the background. An optional `publishAt` schedules the tweet instead: ISO 8601 with an offset, or local time with an IANA `timeZone`. An optional `promptTemplate` picks the prompt template of the summary. With `mode: thread` the caption is posted as a numbered thread of replies; a thread that fails partway returns 207 with the tweets posted and the job that posts the rest, resumable with `POST /api/jobs/{id}/retry`. Accepts an optional `Idempotency-Key` header; repeats with the same key replay the first response.
  */
-router.post('/tweet', twitterController.postTweet);
+router.post('/tweet', idempotent, twitterController.postTweet);
 
 /**
  * @swagger
  * /api/summarize:
  *   post:
  *     summary: Summarize Instagram caption without posting
+ *     description: An optional `promptTemplate` picks the prompt template of the summary; the response names the template version used. An optional `candidates` (1 to 5) writes several scored summaries, returned best first so editors can pick one by hand.
  */
 router.post('/summarize', twitterController.summarizeCaption);
 
@@ -42,16 +126,186 @@ router.post('/summarize', twitterController.summarizeCaption);
  * /api/tweet-with-media:
  *   post:
  *     summary: Summarize Instagram caption and post as a tweet with media
+ *     description: The tweet is posted by a tweet job; a temporary Twitter error returns 202 with the job, which is retried in the background. An optional `publishAt` schedules the tweet instead: ISO 8601 with an offset, or local time with an IANA `timeZone`. An optional `promptTemplate` picks the prompt template of the summary. With `mode: thread` the caption is posted as a numbered thread of replies, the image attached to the first tweet; a thread that fails partway returns 207 with the tweets posted and the job that posts the rest, resumable with `POST /api/jobs/{id}/retry`. Accepts an optional `Idempotency-Key` header; repeats with the same key replay the first response.
  */
-router.post('/tweet-with-media', twitterController.postTweetWithMedia);
+router.post('/tweet-with-media', idempotent, twitterController.postTweetWithMedia);
 
 /**
  * @swagger
  * /api/instagram-to-twitter:
  *   post:
  *     summary: Fetch latest Instagram post, summarize caption, and post to Twitter
- *     description: Fetches the latest Instagram post, summarizes the caption, and posts to Twitter. If imageUpload is true, the image will also be posted.
+ *     description: Fetches the latest Instagram post of the source given by `sourceId`, summarizes the caption, and posts to Twitter. If imageUpload is true, the image will also be posted. Posts that were already published are skipped unless `force` is true. An optional `publishAt` schedules the tweet instead: ISO 8601 with an offset, or local time with an IANA `timeZone`. An optional `promptTemplate` overrides the prompt template of the source. With `mode: thread` the caption is posted as a numbered thread of replies, the image attached to the first tweet; a thread that fails partway returns 207 with the tweets posted and the job that posts the rest, resumable with `POST /api/jobs/{id}/retry`. Accepts an optional `Idempotency-Key` header; repeats with the same key replay the first response. The run ID for `/api/runs/{id}/events` is taken from `runId` or the `X-Run-Id` header, or generated, and returned in the `X-Run-Id` header.
+ */
+router.post('/instagram-to-twitter', idempotent, commonController.fetchAndPostToTwitter);
+
+/**
+ * @swagger
+ * /api/history:
+ *   get:
+ *     summary: list cross-posted Instagram posts with their tweet IDs and summaries, newest first
+ *     description: Accepts optional `sourceId`, `status` (published or failed), `since` and `until` (ISO dates), `search`, `limit` (1-200, default 50) and `offset` query parameters.
+ */
+router.get('/history', historyController.listHistory);
+
+/**
+ * @swagger
+ * /api/drafts:
+ *   get:
+ *     summary: list drafts waiting for approval or already reviewed, newest first
+ *     description: Accepts optional `sourceId` and `status` (pending, published or rejected) query parameters.
+ * /api/drafts/{id}:
+ *   get:
+ *     summary: get a draft
+ *   put:
+ *     summary: edit the summary or the attached image of a pending draft
+ * /api/drafts/{id}/approve:
+ *   post:
+ *     summary: approve a pending draft and post it to Twitter
+ *     description: Accepts an optional `Idempotency-Key` header; repeats with the same key replay the first response.
+ * /api/drafts/{id}/reject:
+ *   post:
+ *     summary: reject a pending draft
+ * /api/drafts/{id}/regenerate:
+ *   post:
+ *     summary: generate a new summary for a pending draft
+ *     description: An optional `promptTemplate` overrides the prompt template of the source.
+ */
+router.get('/drafts', draftController.listDrafts);
+router.get('/drafts/:id', draftController.getDraft);
+router.put('/drafts/:id', draftController.updateDraft);
+router.post('/drafts/:id/approve', idempotent, draftController.approveDraft);
+router.post('/drafts/:id/reject', draftController.rejectDraft);
+router.post('/drafts/:id/regenerate', draftController.regenerateDraft);
+
+/**
+ * @swagger
+ * /api/jobs:
+ *   get:
+ *     summary: list background jobs such as tweets waiting for a retry, newest first
+ *     description: Accepts optional `status` (queued, running, completed or dead) and `type` query parameters. `status=dead` lists the dead-letter jobs.
+ * /api/jobs/{id}:
+ *   get:
+ *     summary: get a job with its attempts and failures
+ *   delete:
+ *     summary: discard a job that is not running
+ * /api/jobs/{id}/retry:
+ *   post:
+ *     summary: queue a dead or waiting job for an immediate attempt
+ */
+router.get('/jobs', jobController.listJobs);
+router.get('/jobs/:id', jobController.getJob);
+router.delete('/jobs/:id', jobController.discardJob);
+router.post('/jobs/:id/retry', jobController.retryJob);
+
+/**
+ * @swagger
+ * /api/scheduled:
+ *   get:
+ *     summary: list tweets scheduled with `publishAt`, by publication time
+ *     description: Accepts optional `status` (scheduled, publishing, retrying, published or failed) and `type` (tweet or crossPost) query parameters.
+ * /api/scheduled/{id}:
+ *   get:
+ *     summary: get a scheduled tweet
+ *   delete:
+ *     summary: cancel a scheduled tweet
+ */
+router.get('/scheduled', scheduleController.listScheduled);
+router.get('/scheduled/:id', scheduleController.getScheduled);
+router.delete('/scheduled/:id', scheduleController.cancelScheduled);
+
+/**
+ * @swagger
+ * /api/webhooks:
+ *   get:
+ *     summary: list webhooks notified of pipeline events, without their secrets
+ *   post:
+ *     summary: register a webhook for post.detected, summary.generated, tweet.published or tweet.failed events
+ *     description: Requires `url`; `events` defaults to every event and `secret` is generated when not given. The response is the only one that includes the secret.
+ * /api/webhooks/{id}:
+ *   get:
+ *     summary: get a webhook
+ *   put:
+ *     summary: update the URL, events, secret, active flag or description of a webhook
+ *   delete:
+ *     summary: remove a webhook
+ * /api/webhooks/{id}/deliveries:
+ *   get:
+ *     summary: list the delivery log of a webhook, newest first
+ *     description: Accepts optional `status` (pending, delivered or failed) and `limit` (1-200, default 50) query parameters.
+ */
+router.get('/webhooks', webhookController.listWebhooks);
+router.post('/webhooks', webhookController.createWebhook);
+router.get('/webhooks/:id', webhookController.getWebhook);
+router.put('/webhooks/:id', webhookController.updateWebhook);
+router.delete('/webhooks/:id', webhookController.deleteWebhook);
+router.get('/webhooks/:id/deliveries', webhookController.listDeliveries);
+
+/**
+ * @swagger
+ * /api/templates:
+ *   get:
+ *     summary: list the prompt templates that give the tweets of a source their voice
+ *   post:
+ *     summary: create a prompt template
+ *     description: Requires `id` and a `body` with the `{{caption}}` variable; `{{username}}`, `{{postUrl}}`, `{{maxLength}}` and `{{date}}` are also available. `emoji` and `hashtags` (default true) keep or drop them from the tweet, `suffix` is appended to every tweet.
+ * /api/templates/{id}:
+ *   get:
+ *     summary: get a prompt template with all its versions
+ *   put:
+ *     summary: update a prompt template; changing the body, emoji, hashtags or suffix creates a new version
+ *   delete:
+ *     summary: remove a prompt template; sources using it fall back to the default template
+ * /api/templates/{id}/preview:
+ *   post:
+ *     summary: render the prompt of a template for a caption without summarizing it
+ */
+router.get('/templates', promptTemplateController.listTemplates);
+router.post('/templates', promptTemplateController.createTemplate);
+router.get('/templates/:id', promptTemplateController.getTemplate);
+router.put('/templates/:id', promptTemplateController.updateTemplate);
+router.delete('/templates/:id', promptTemplateController.deleteTemplate);
+router.post('/templates/:id/preview', promptTemplateController.previewTemplate);
+
+/**
+ * @swagger
+ * /api/backfills:
+ *   get:
+ *     summary: list backfills, newest first
+ *     description: Accepts optional `sourceId` and `status` (running, paused, completed or cancelled) query parameters.
+ *   post:
+ *     summary: cross-post the most recent posts of a source, oldest first, one tweet per interval
+ *     description: Accepts optional `sourceId`, `limit` (1-50, default 10), `since`, `intervalMs` (default `BACKFILL_INTERVAL_MS`) and `imageUpload`. Posts that were already published are skipped. Accepts an optional `Idempotency-Key` header.
+ * /api/backfills/{id}:
+ *   get:
+ *     summary: get the progress of a backfill and the outcome of every post
+ *   delete:
+ *     summary: cancel a backfill
+ * /api/backfills/{id}/pause:
+ *   post:
+ *     summary: pause a running backfill
+ * /api/backfills/{id}/resume:
+ *   post:
+ *     summary: resume a paused backfill
+ */
+router.get('/backfills', backfillController.listBackfills);
+router.post('/backfills', idempotent, backfillController.createBackfill);
+router.get('/backfills/:id', backfillController.getBackfill);
+router.delete('/backfills/:id', backfillController.cancelBackfill);
+router.post('/backfills/:id/pause', backfillController.pauseBackfill);
+router.post('/backfills/:id/resume', backfillController.resumeBackfill);
+
+/**
+ * @swagger
+ * /api/runs/{id}:
+ *   get:
+ *     summary: get the status and stage events of a pipeline run
+ * /api/runs/{id}/events:
+ *   get:
+ *     summary: stream the stage events of a pipeline run as Server-Sent Events
+ *     description: Events such as `fetch:strategy-start`, `fetch:selector-failed`, `summarize:done` and `publish:done` carry the time since the run started and, when a stage ends, its duration. Connect before starting the run with a chosen `runId`, or later to replay the events so far; `Last-Event-ID` resumes after an event. The stream ends with `run:done` or `run:failed`.
  */
-router.post('/instagram-to-twitter', commonController.fetchAndPostToTwitter);
+router.get('/runs/:id', runController.getRun);
+router.get('/runs/:id/events', runController.streamEvents);
 
 export const mainRoutes = router;
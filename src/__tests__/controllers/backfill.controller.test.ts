@@ -0,0 +1,107 @@
+import request from 'supertest';
+import app from '../../index';
+import { backfillService } from '../../services/backfill.service';
+import { ApiError } from '../../utils';
+
+jest.mock('../../services/backfill.service');
+
+describe('Backfill Controller', () => {
+  const mockBackfill = {
+    id: 'backfill-1',
+    sourceId: 'default',
+    limit: 3,
+    intervalMs: 1800000,
+    imageUpload: false,
+    status: 'running',
+    items: [],
+    progress: { total: 3, published: 0, skipped: 1, failed: 0, pending: 2 },
+    jobId: 'job-1',
+    nextRunAt: '2024-01-01T09:00:00.000Z',
+    createdAt: '2024-01-01T09:00:00.000Z',
+    updatedAt: '2024-01-01T09:00:00.000Z',
+  };
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  it('should return 201 and the started backfill', async () => {
+    (backfillService.create as jest.Mock).mockResolvedValueOnce(mockBackfill);
+
+    const response = await request(app)
+      .post('/api/backfills')
+      .send({ sourceId: 'default', limit: 3, since: '2024-01-01', intervalMs: 1800000 });
+
+    expect(response.status).toBe(201);
+    expect(response.body.message).toBe('Backfill started: 2 posts to publish');
+    expect(response.body.data).toEqual(mockBackfill);
+    expect(backfillService.create).toHaveBeenCalledWith({
+      sourceId: 'default',
+      limit: 3,
+      since: '2024-01-01',
+      intervalMs: 1800000,
+      imageUpload: undefined,
+    });
+  });
+
+  it('should return 409 when the source already has a backfill', async () => {
+    (backfillService.create as jest.Mock).mockRejectedValueOnce(
+      new ApiError('Source default already has backfill backfill-1', 409)
+    );
+
+    const response = await request(app).post('/api/backfills').send({});
+
+    expect(response.status).toBe(409);
+    expect(response.body.error).toBe('Source default already has backfill backfill-1');
+  });
+
+  it('should return 200 and the backfills matching the filters', async () => {
+    (backfillService.list as jest.Mock).mockReturnValueOnce([mockBackfill]);
+
+    const response = await request(app).get('/api/backfills?sourceId=default&status=running');
+
+    expect(response.status).toBe(200);
+    expect(response.body.data).toEqual([mockBackfill]);
+    expect(backfillService.list).toHaveBeenCalledWith({ sourceId: 'default', status: 'running' });
+  });
+
+  it('should return 400 for an unknown status', async () => {
+    const response = await request(app).get('/api/backfills?status=failed');
+
+    expect(response.status).toBe(400);
+    expect(response.body.error).toBe(
+      'Status must be one of: running, paused, completed, cancelled'
+    );
+    expect(backfillService.list).not.toHaveBeenCalled();
+  });
+
+  it('should return 200 when a backfill is paused, resumed or cancelled', async () => {
+    (backfillService.pause as jest.Mock).mockReturnValueOnce({ ...mockBackfill, status: 'paused' });
+    (backfillService.resume as jest.Mock).mockReturnValueOnce(mockBackfill);
+    (backfillService.cancel as jest.Mock).mockReturnValueOnce({
+      ...mockBackfill,
+      status: 'cancelled',
+    });
+
+    const paused = await request(app).post('/api/backfills/backfill-1/pause');
+    const resumed = await request(app).post('/api/backfills/backfill-1/resume');
+    const cancelled = await request(app).delete('/api/backfills/backfill-1');
+
+    expect(paused.body.message).toBe('Backfill paused: backfill-1');
+    expect(resumed.body.message).toBe('Backfill resumed: backfill-1');
+    expect(cancelled.status).toBe(200);
+    expect(cancelled.body.data.status).toBe('cancelled');
+    expect(backfillService.cancel).toHaveBeenCalledWith('backfill-1');
+  });
+
+  it('should return 404 for an unknown backfill', async () => {
+    (backfillService.get as jest.Mock).mockImplementationOnce(() => {
+      throw new ApiError('Backfill not found: unknown', 404);
+    });
+
+    const response = await request(app).get('/api/backfills/unknown');
+
+    expect(response.status).toBe(404);
+    expect(response.body.success).toBe(false);
+  });
+});
@@ -3,10 +3,14 @@ import app from '../../index';
 import InstagramService from '../../services/instagram.service';
 import { llmService } from '../../services/llm.service';
 import { twitterService } from '../../services/twitter.service';
+import { historyService } from '../../services/history.service';
+import { webhookService } from '../../services/webhook.service';
+import { progressService } from '../../services/progress.service';
 
 jest.mock('../../services/instagram.service');
 jest.mock('../../services/llm.service');
 jest.mock('../../services/twitter.service');
+jest.mock('../../services/history.service');
 
 describe('Common Controller', () => {
   beforeEach(() => {
@@ -69,9 +73,19 @@ describe('Common Controller', () => {
       expect(InstagramService.prototype.getLatestPost).toHaveBeenCalledTimes(1);
       expect(llmService.summarizeText).toHaveBeenCalledWith({
         text: mockInstagramPost.caption,
+        variables: {
+          username: 'bbcnews',
+          postUrl: mockInstagramPost.postUrl,
+          date: '2023-01-01',
+        },
       });
       expect(twitterService.postTweet).toHaveBeenCalledWith(mockSummary);
       expect(twitterService.postTweetWithMedia).not.toHaveBeenCalled();
+      expect(historyService.record).toHaveBeenCalledWith('default', mockInstagramPost, {
+        status: 'published',
+        tweetId: mockTweetId,
+        summary: mockSummary,
+      });
     });
 
     it('should fetch Instagram post, summarize caption, and post to Twitter with image', async () => {
@@ -127,9 +141,9 @@ describe('Common Controller', () => {
 
       // Verify service calls
       expect(InstagramService.prototype.getLatestPost).toHaveBeenCalledTimes(1);
-      expect(llmService.summarizeText).toHaveBeenCalledWith({
-        text: mockInstagramPost.caption,
-      });
+      expect(llmService.summarizeText).toHaveBeenCalledWith(
+        expect.objectContaining({ text: mockInstagramPost.caption })
+      );
       expect(twitterService.postTweetWithMedia).toHaveBeenCalledWith(
         mockSummary,
         mockInstagramPost.imageUrl
@@ -165,6 +179,22 @@ describe('Common Controller', () => {
       expect(twitterService.postTweetWithMedia).not.toHaveBeenCalled();
     });
 
+    it('should return 404 when the source does not exist', async () => {
+      const mockGetLatestPost = jest.fn();
+      jest.spyOn(InstagramService.prototype, 'getLatestPost').mockImplementation(mockGetLatestPost);
+
+      const response = await request(app)
+        .post('/api/instagram-to-twitter')
+        .send({ sourceId: 'unknown-source' });
+
+      expect(response.status).toBe(404);
+      expect(response.body.success).toBe(false);
+      expect(response.body.error).toBe('Source not found: unknown-source');
+
+      expect(mockGetLatestPost).not.toHaveBeenCalled();
+      expect(twitterService.postTweet).not.toHaveBeenCalled();
+    });
+
     it('should return 400 when Twitter post fails', async () => {
       // Mock Instagram service response
       const mockInstagramPost = {
@@ -213,10 +243,325 @@ describe('Common Controller', () => {
 
       // Verify service calls
       expect(InstagramService.prototype.getLatestPost).toHaveBeenCalledTimes(1);
-      expect(llmService.summarizeText).toHaveBeenCalledWith({
-        text: mockInstagramPost.caption,
-      });
+      expect(llmService.summarizeText).toHaveBeenCalledWith(
+        expect.objectContaining({ text: mockInstagramPost.caption })
+      );
       expect(twitterService.postTweet).toHaveBeenCalledWith(mockSummary);
+      expect(historyService.record).toHaveBeenCalledWith('default', mockInstagramPost, {
+        status: 'failed',
+        summary: mockSummary,
+        error: 'Twitter API error',
+      });
+    });
+
+    it('should report a thread that failed partway with the job that posts the rest', async () => {
+      const mockInstagramPost = {
+        caption: 'A long caption about the election night',
+        id: '12345',
+        timestamp: '2023-01-01T00:00:00Z',
+        postUrl: 'https://instagram.com/p/thread',
+      };
+      const mockGetLatestPost = jest
+        .fn()
+        .mockResolvedValue({ success: true, data: mockInstagramPost });
+      jest.spyOn(InstagramService.prototype, 'getLatestPost').mockImplementation(mockGetLatestPost);
+
+      const tweets = ['Polls open at 7am 1/2', 'Results by dawn 2/2'];
+      const first = { id: '1', text: tweets[0] };
+      (llmService.summarizeThread as jest.Mock).mockResolvedValue({ tweets });
+      (twitterService.postThread as jest.Mock).mockResolvedValue({
+        success: false,
+        message: 'Posted 1 of 2 tweets of the thread',
+        error: 'Twitter API error',
+        retryable: false,
+        posted: [first],
+        total: 2,
+      });
+
+      const response = await request(app)
+        .post('/api/instagram-to-twitter')
+        .send({ imageUpload: false, mode: 'thread' });
+
+      expect(response.status).toBe(207);
+      expect(response.body).toMatchObject({
+        success: false,
+        partial: true,
+        message: `Posted 1 of 2 tweets of the thread, retry job ${response.body.data.job.id} to post the rest`,
+        error: 'Twitter API error',
+        data: { thread: [first] },
+      });
+      expect(response.body.data.job.payload.posted).toEqual([first]);
+      expect(twitterService.postThread).toHaveBeenCalledWith(tweets, undefined, undefined);
+      expect(historyService.record).toHaveBeenCalledWith('default', mockInstagramPost, {
+        status: 'failed',
+        summary: tweets.join('\n\n'),
+        thread: [first],
+        error: 'Twitter API error',
+      });
+    });
+
+    it('should return 400 for an unknown mode', async () => {
+      const response = await request(app)
+        .post('/api/instagram-to-twitter')
+        .send({ mode: 'carousel' });
+
+      expect(response.status).toBe(400);
+      expect(response.body.error).toBe('mode must be one of: single, thread');
+    });
+
+    it('should skip a post that was already posted to Twitter', async () => {
+      const mockInstagramPost = {
+        caption: 'Already cross-posted caption',
+        imageUrl: 'https://example.com/image.jpg',
+        id: '12345',
+        timestamp: '2023-01-01T00:00:00Z',
+        postUrl: 'https://instagram.com/p/test',
+      };
+      const mockHistoryEntry = {
+        id: 'history-1',
+        sourceId: 'default',
+        postKey: '12345',
+        instagramPostId: '12345',
+        caption: mockInstagramPost.caption,
+        status: 'published',
+        tweetId: '67890',
+        summary: 'Already cross-posted',
+        postedAt: '2023-01-01T01:00:00.000Z',
+        createdAt: '2023-01-01T01:00:00.000Z',
+      };
+
+      const mockGetLatestPost = jest
+        .fn()
+        .mockResolvedValue({ success: true, data: mockInstagramPost });
+      jest.spyOn(InstagramService.prototype, 'getLatestPost').mockImplementation(mockGetLatestPost);
+      (historyService.findPublished as jest.Mock).mockReturnValueOnce(mockHistoryEntry);
+
+      const response = await request(app).post('/api/instagram-to-twitter').send({});
+
+      expect(response.status).toBe(200);
+      expect(response.body).toMatchObject({
+        success: true,
+        skipped: true,
+        message: 'Instagram post was already posted to Twitter',
+        data: {
+          instagram: mockInstagramPost,
+          twitter: { tweetId: '67890', tweetText: 'Already cross-posted' },
+          history: mockHistoryEntry,
+        },
+      });
+      expect(llmService.summarizeText).not.toHaveBeenCalled();
+      expect(twitterService.postTweet).not.toHaveBeenCalled();
+      expect(historyService.record).not.toHaveBeenCalled();
+    });
+
+    it('should post an already published post again when force is true', async () => {
+      const mockInstagramPost = {
+        caption: 'Already cross-posted caption',
+        id: '12345',
+        timestamp: '2023-01-01T00:00:00Z',
+      };
+
+      const mockGetLatestPost = jest
+        .fn()
+        .mockResolvedValue({ success: true, data: mockInstagramPost });
+      jest.spyOn(InstagramService.prototype, 'getLatestPost').mockImplementation(mockGetLatestPost);
+      (historyService.findPublished as jest.Mock).mockReturnValueOnce({ tweetId: '67890' });
+      (llmService.summarizeText as jest.Mock).mockResolvedValue({ summary: 'Posted again' });
+      (twitterService.postTweet as jest.Mock).mockResolvedValue({
+        success: true,
+        data: { id: '67891', text: 'Posted again' },
+      });
+
+      const response = await request(app).post('/api/instagram-to-twitter').send({ force: true });
+
+      expect(response.status).toBe(200);
+      expect(response.body.skipped).toBeUndefined();
+      expect(response.body.data.twitter.tweetId).toBe('67891');
+      expect(twitterService.postTweet).toHaveBeenCalledWith('Posted again');
+    });
+
+    it('should notify webhooks of the detected post, its summary and the tweet', async () => {
+      const mockInstagramPost = {
+        caption: 'Caption of a new post',
+        id: '12347',
+        timestamp: '2023-01-01T00:00:00Z',
+      };
+
+      const mockGetLatestPost = jest
+        .fn()
+        .mockResolvedValue({ success: true, data: mockInstagramPost });
+      jest.spyOn(InstagramService.prototype, 'getLatestPost').mockImplementation(mockGetLatestPost);
+      (llmService.summarizeText as jest.Mock).mockResolvedValue({ summary: 'New summary' });
+      (twitterService.postTweet as jest.Mock).mockResolvedValue({
+        success: true,
+        data: { id: '67893', text: 'New summary' },
+      });
+      const emit = jest.spyOn(webhookService, 'emit');
+
+      await request(app).post('/api/instagram-to-twitter').send({ imageUpload: false });
+
+      expect(emit.mock.calls.map(call => call[0])).toEqual([
+        'post.detected',
+        'summary.generated',
+        'tweet.published',
+      ]);
+      expect(emit).toHaveBeenLastCalledWith('tweet.published', {
+        sourceId: 'default',
+        post: mockInstagramPost,
+        summary: 'New summary',
+        tweet: { id: '67893', text: 'New summary' },
+      });
+      emit.mockRestore();
+    });
+
+    it('should record the progress of the run under the requested run ID', async () => {
+      const mockInstagramPost = {
+        caption: 'Caption of a tracked run',
+        id: '12347',
+        timestamp: '2023-01-01T00:00:00Z',
+      };
+
+      const mockGetLatestPost = jest
+        .fn()
+        .mockResolvedValue({ success: true, data: mockInstagramPost });
+      jest.spyOn(InstagramService.prototype, 'getLatestPost').mockImplementation(mockGetLatestPost);
+      (llmService.summarizeText as jest.Mock).mockResolvedValue({ summary: 'Tracked summary' });
+      (twitterService.postTweet as jest.Mock).mockResolvedValue({
+        success: true,
+        data: { id: '67894', text: 'Tracked summary' },
+      });
+
+      const response = await request(app)
+        .post('/api/instagram-to-twitter')
+        .set('X-Run-Id', 'tracked-run')
+        .send({ imageUpload: false });
+
+      expect(response.status).toBe(200);
+      expect(response.headers['x-run-id']).toBe('tracked-run');
+
+      const run = progressService.get('tracked-run');
+      expect(run.status).toBe('completed');
+      expect(run.events.map(event => event.stage)).toEqual([
+        'run:start',
+        'summarize:start',
+        'summarize:done',
+        'publish:start',
+        'publish:done',
+        'run:done',
+      ]);
+      expect(run.events[4].data).toEqual({ tweetId: '67894' });
+    });
+
+    it('should return 400 for a malformed run ID', async () => {
+      const response = await request(app)
+        .post('/api/instagram-to-twitter')
+        .send({ imageUpload: false, runId: 'not a run id' });
+
+      expect(response.status).toBe(400);
+      expect(InstagramService.prototype.getLatestPost).not.toHaveBeenCalled();
+    });
+
+    it('should replay the response of a retried request with the same Idempotency-Key', async () => {
+      const mockInstagramPost = {
+        caption: 'Caption of a slow request',
+        id: '12346',
+        timestamp: '2023-01-01T00:00:00Z',
+      };
+
+      const mockGetLatestPost = jest
+        .fn()
+        .mockResolvedValue({ success: true, data: mockInstagramPost });
+      jest.spyOn(InstagramService.prototype, 'getLatestPost').mockImplementation(mockGetLatestPost);
+      (llmService.summarizeText as jest.Mock).mockResolvedValue({ summary: 'Posted once' });
+      (twitterService.postTweet as jest.Mock).mockResolvedValue({
+        success: true,
+        data: { id: '67892', text: 'Posted once' },
+      });
+
+      const send = () =>
+        request(app)
+          .post('/api/instagram-to-twitter')
+          .set('Idempotency-Key', 'retry-after-timeout')
+          .send({ imageUpload: false });
+      const first = await send();
+      const retried = await send();
+
+      expect(retried.status).toBe(200);
+      expect(retried.body).toEqual(first.body);
+      expect(retried.headers['idempotent-replayed']).toBe('true');
+      expect(mockGetLatestPost).toHaveBeenCalledTimes(1);
+      expect(twitterService.postTweet).toHaveBeenCalledTimes(1);
+    });
+
+    it('should preview the tweet without posting it on a dry run', async () => {
+      const mockInstagramPost = {
+        caption: 'Caption to preview',
+        imageUrl: 'https://example.com/image.jpg',
+        id: '12345',
+        timestamp: '2023-01-01T00:00:00Z',
+      };
+      const mockPreview = {
+        text: 'Previewed summary',
+        characterCount: 17,
+        maxCharacters: 280,
+        valid: true,
+        errors: [],
+        media: {
+          url: mockInstagramPost.imageUrl,
+          valid: true,
+          format: 'jpeg',
+          contentType: 'image/jpeg',
+          sizeBytes: 48213,
+        },
+      };
+
+      const mockGetLatestPost = jest
+        .fn()
+        .mockResolvedValue({ success: true, data: mockInstagramPost });
+      jest.spyOn(InstagramService.prototype, 'getLatestPost').mockImplementation(mockGetLatestPost);
+      (llmService.summarizeText as jest.Mock).mockResolvedValue({ summary: 'Previewed summary' });
+      (twitterService.previewTweet as jest.Mock).mockResolvedValue(mockPreview);
+
+      const response = await request(app)
+        .post('/api/instagram-to-twitter')
+        .send({ dryRun: true, imageUpload: true });
+
+      expect(response.status).toBe(200);
+      expect(response.body).toEqual({
+        success: true,
+        dryRun: true,
+        message: 'Dry run completed, nothing was posted to Twitter',
+        data: { instagram: mockInstagramPost, twitter: mockPreview },
+      });
+      expect(twitterService.previewTweet).toHaveBeenCalledWith(
+        'Previewed summary',
+        mockInstagramPost.imageUrl
+      );
+      expect(twitterService.postTweet).not.toHaveBeenCalled();
+      expect(twitterService.postTweetWithMedia).not.toHaveBeenCalled();
+      expect(historyService.record).not.toHaveBeenCalled();
+    });
+
+    it('should return 400 when the dry run finds problems', async () => {
+      const mockGetLatestPost = jest.fn().mockResolvedValue({
+        success: true,
+        data: { caption: 'Caption', id: '12345', timestamp: '2023-01-01T00:00:00Z' },
+      });
+      jest.spyOn(InstagramService.prototype, 'getLatestPost').mockImplementation(mockGetLatestPost);
+      (llmService.summarizeText as jest.Mock).mockResolvedValue({ summary: 'x'.repeat(281) });
+      (twitterService.previewTweet as jest.Mock).mockResolvedValue({
+        text: 'x'.repeat(281),
+        characterCount: 281,
+        maxCharacters: 280,
+        valid: false,
+        errors: ['Tweet must be 280 characters or less'],
+      });
+
+      const response = await request(app).post('/api/instagram-to-twitter').send({ dryRun: true });
+
+      expect(response.status).toBe(400);
+      expect(response.body.success).toBe(false);
+      expect(response.body.data.twitter.errors).toEqual(['Tweet must be 280 characters or less']);
     });
 
     it('should return 500 when an unexpected error occurs', async () => {
@@ -0,0 +1,159 @@
+import request from 'supertest';
+import app from '../../index';
+import { draftService } from '../../services/draft.service';
+import { crossPostService } from '../../services/crossPost.service';
+import { ApiError } from '../../utils';
+
+jest.mock('../../services/draft.service');
+jest.mock('../../services/crossPost.service');
+
+describe('Draft Controller', () => {
+  const mockDraft = {
+    id: 'draft-1',
+    sourceId: 'bbc',
+    postKey: '12345',
+    post: {
+      id: '12345',
+      caption: 'Breaking news',
+      imageUrl: 'https://example.com/image.jpg',
+      mediaType: 'image',
+      media: [],
+      timestamp: '2024-01-01T08:00:00.000Z',
+    },
+    summary: 'Breaking news summary',
+    imageUrl: 'https://example.com/image.jpg',
+    status: 'pending',
+    createdAt: '2024-01-01T09:00:00.000Z',
+    updatedAt: '2024-01-01T09:00:00.000Z',
+  };
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  describe('GET /api/drafts', () => {
+    it('should return 200 and the filtered drafts', async () => {
+      (draftService.list as jest.Mock).mockReturnValue([mockDraft]);
+
+      const response = await request(app).get('/api/drafts?sourceId=bbc&status=pending');
+
+      expect(response.status).toBe(200);
+      expect(response.body.data).toEqual([mockDraft]);
+      expect(draftService.list).toHaveBeenCalledWith({ sourceId: 'bbc', status: 'pending' });
+    });
+
+    it('should return 400 for an unknown status', async () => {
+      const response = await request(app).get('/api/drafts?status=queued');
+
+      expect(response.status).toBe(400);
+      expect(response.body.error).toBe('Status must be one of: pending, published, rejected');
+    });
+  });
+
+  describe('GET /api/drafts/:id', () => {
+    it('should return 404 when the draft does not exist', async () => {
+      (draftService.get as jest.Mock).mockImplementation(() => {
+        throw new ApiError('Draft not found: unknown', 404);
+      });
+
+      const response = await request(app).get('/api/drafts/unknown');
+
+      expect(response.status).toBe(404);
+      expect(response.body.error).toBe('Draft not found: unknown');
+    });
+  });
+
+  describe('PUT /api/drafts/:id', () => {
+    it('should return 200 and the edited draft', async () => {
+      (draftService.update as jest.Mock).mockReturnValue({ ...mockDraft, summary: 'Edited' });
+
+      const response = await request(app)
+        .put('/api/drafts/draft-1')
+        .send({ summary: 'Edited', imageUrl: null });
+
+      expect(response.status).toBe(200);
+      expect(response.body.data.summary).toBe('Edited');
+      expect(draftService.update).toHaveBeenCalledWith('draft-1', {
+        summary: 'Edited',
+        imageUrl: null,
+      });
+    });
+
+    it('should return 409 when the draft was already reviewed', async () => {
+      (draftService.update as jest.Mock).mockImplementation(() => {
+        throw new ApiError('Draft draft-1 is already published', 409);
+      });
+
+      const response = await request(app).put('/api/drafts/draft-1').send({ summary: 'Edited' });
+
+      expect(response.status).toBe(409);
+    });
+  });
+
+  describe('POST /api/drafts/:id/approve', () => {
+    it('should return 200 with the tweet when the draft is posted', async () => {
+      const publishedDraft = { ...mockDraft, status: 'published', tweetId: '67890' };
+      (crossPostService.approveDraft as jest.Mock).mockResolvedValue({
+        status: 'published',
+        tweetId: '67890',
+        summary: mockDraft.summary,
+        draft: publishedDraft,
+      });
+
+      const response = await request(app).post('/api/drafts/draft-1/approve');
+
+      expect(response.status).toBe(200);
+      expect(response.body).toEqual({
+        success: true,
+        message: 'Draft approved and posted to Twitter',
+        data: {
+          draft: publishedDraft,
+          twitter: { tweetId: '67890', tweetText: mockDraft.summary },
+        },
+      });
+      expect(crossPostService.approveDraft).toHaveBeenCalledWith('draft-1');
+    });
+
+    it('should return 400 when posting the draft fails', async () => {
+      (crossPostService.approveDraft as jest.Mock).mockResolvedValue({
+        status: 'failed',
+        error: 'Twitter API error',
+        draft: { ...mockDraft, error: 'Twitter API error' },
+      });
+
+      const response = await request(app).post('/api/drafts/draft-1/approve');
+
+      expect(response.status).toBe(400);
+      expect(response.body.message).toBe('Failed to post to Twitter');
+      expect(response.body.data.draft.status).toBe('pending');
+    });
+  });
+
+  describe('POST /api/drafts/:id/reject', () => {
+    it('should return 200 and the rejected draft', async () => {
+      (draftService.reject as jest.Mock).mockReturnValue({ ...mockDraft, status: 'rejected' });
+
+      const response = await request(app)
+        .post('/api/drafts/draft-1/reject')
+        .send({ reason: 'Off-brand' });
+
+      expect(response.status).toBe(200);
+      expect(response.body.message).toBe('Draft rejected: draft-1');
+      expect(draftService.reject).toHaveBeenCalledWith('draft-1', 'Off-brand');
+    });
+  });
+
+  describe('POST /api/drafts/:id/regenerate', () => {
+    it('should return 200 and the draft with a new summary', async () => {
+      (draftService.regenerate as jest.Mock).mockResolvedValue({
+        ...mockDraft,
+        summary: 'New summary',
+      });
+
+      const response = await request(app).post('/api/drafts/draft-1/regenerate');
+
+      expect(response.status).toBe(200);
+      expect(response.body.data.summary).toBe('New summary');
+    });
+  });
+});
@@ -0,0 +1,84 @@
+import request from 'supertest';
+import app from '../../index';
+import { historyService } from '../../services/history.service';
+
+jest.mock('../../services/history.service');
+
+describe('History Controller', () => {
+  const mockEntry = {
+    id: 'history-1',
+    sourceId: 'bbc',
+    postKey: '12345',
+    instagramPostId: '12345',
+    postUrl: 'https://www.instagram.com/p/ABC/',
+    caption: 'Breaking news',
+    status: 'published',
+    tweetId: '67890',
+    summary: 'Breaking news summary',
+    postedAt: '2023-01-01T01:00:00.000Z',
+    createdAt: '2023-01-01T01:00:00.000Z',
+  };
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  describe('GET /api/history', () => {
+    it('should return 200 and the history page', async () => {
+      (historyService.list as jest.Mock).mockReturnValue({ entries: [mockEntry], total: 1 });
+
+      const response = await request(app).get('/api/history');
+
+      expect(response.status).toBe(200);
+      expect(response.body).toEqual({ success: true, data: [mockEntry], total: 1 });
+      expect(historyService.list).toHaveBeenCalledWith({});
+    });
+
+    it('should pass the filters to the history service', async () => {
+      (historyService.list as jest.Mock).mockReturnValue({ entries: [], total: 0 });
+
+      const response = await request(app).get('/api/history').query({
+        sourceId: 'bbc',
+        status: 'failed',
+        since: '2023-01-01',
+        until: '2023-02-01',
+        search: 'news',
+        limit: '10',
+        offset: '20',
+      });
+
+      expect(response.status).toBe(200);
+      expect(historyService.list).toHaveBeenCalledWith({
+        sourceId: 'bbc',
+        status: 'failed',
+        since: new Date('2023-01-01'),
+        until: new Date('2023-02-01'),
+        search: 'news',
+        limit: 10,
+        offset: 20,
+      });
+    });
+
+    it('should return 400 for an unknown status', async () => {
+      const response = await request(app).get('/api/history').query({ status: 'queued' });
+
+      expect(response.status).toBe(400);
+      expect(response.body.error).toBe('Status must be one of: published, failed');
+      expect(historyService.list).not.toHaveBeenCalled();
+    });
+
+    it('should return 400 for an invalid date', async () => {
+      const response = await request(app).get('/api/history').query({ until: 'yesterday' });
+
+      expect(response.status).toBe(400);
+      expect(response.body.error).toBe('Until must be a valid date');
+    });
+
+    it('should return 400 when the limit is too high', async () => {
+      const response = await request(app).get('/api/history').query({ limit: '500' });
+
+      expect(response.status).toBe(400);
+      expect(response.body.error).toBe('Limit must not exceed 200');
+    });
+  });
+});
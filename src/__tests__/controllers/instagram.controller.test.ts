@@ -15,6 +15,15 @@ describe('Instagram Controller', () => {
         id: 'test-id',
         caption: 'Test caption',
         imageUrl: 'https://example.com/image.jpg',
+        mediaType: 'carousel',
+        media: [
+          { type: 'image', url: 'https://example.com/image.jpg', width: 1080, height: 1080 },
+          {
+            type: 'video',
+            url: 'https://example.com/video.mp4',
+            thumbnailUrl: 'https://example.com/poster.jpg',
+          },
+        ],
         timestamp: '2023-01-01T00:00:00Z',
         likes: 100,
         postUrl: 'https://instagram.com/p/test',
@@ -36,6 +45,33 @@ describe('Instagram Controller', () => {
       expect(mockGetLatestPost).toHaveBeenCalledTimes(1);
     });
 
+    it('should report the strategy that succeeded and the earlier failures', async () => {
+      const attempts = [
+        {
+          strategy: 'puppeteer',
+          success: false,
+          skipped: true,
+          error: 'Strategy disabled',
+          durationMs: 0,
+        },
+        { strategy: 'api', success: false, error: 'API error: Invalid token', durationMs: 120 },
+        { strategy: 'cheerio', success: true, durationMs: 850 },
+      ];
+      const mockGetLatestPost = jest.fn().mockResolvedValue({
+        success: true,
+        data: { caption: 'Test caption', imageUrl: 'https://example.com/image.jpg' },
+        strategy: 'cheerio',
+        attempts,
+      });
+      jest.spyOn(InstagramService.prototype, 'getLatestPost').mockImplementation(mockGetLatestPost);
+
+      const response = await request(app).get('/api/instagram/latest');
+
+      expect(response.status).toBe(200);
+      expect(response.body.strategy).toBe('cheerio');
+      expect(response.body.attempts).toEqual(attempts);
+    });
+
     it('should return 404 when post is not found', async () => {
       const mockResponse = {
         success: false,
@@ -53,6 +89,20 @@ describe('Instagram Controller', () => {
       expect(mockGetLatestPost).toHaveBeenCalledTimes(1);
     });
 
+    it('should return 404 when the source does not exist', async () => {
+      const mockGetLatestPost = jest.fn();
+      jest.spyOn(InstagramService.prototype, 'getLatestPost').mockImplementation(mockGetLatestPost);
+
+      const response = await request(app)
+        .get('/api/instagram/latest')
+        .query({ sourceId: 'unknown-source' });
+
+      expect(response.status).toBe(404);
+      expect(response.body.success).toBe(false);
+      expect(response.body.error).toBe('Source not found: unknown-source');
+      expect(mockGetLatestPost).not.toHaveBeenCalled();
+    });
+
     it('should return 500 when an unexpected error occurs', async () => {
       const mockGetLatestPost = jest.fn().mockRejectedValue(new Error('Server error'));
       jest.spyOn(InstagramService.prototype, 'getLatestPost').mockImplementation(mockGetLatestPost);
@@ -66,43 +116,125 @@ describe('Instagram Controller', () => {
     });
   });
 
-  describe('POST /api/instagram/username', () => {
-    it('should return 200 when username is updated successfully', async () => {
-      const mockSetUsername = jest.fn();
-      jest.spyOn(InstagramService.prototype, 'setUsername').mockImplementation(mockSetUsername);
+  describe('GET /api/instagram/posts', () => {
+    it('should return 200 and the recent posts when successful', async () => {
+      const mockPosts = [
+        {
+          id: 'post-2',
+          caption: 'Newest caption',
+          imageUrl: 'https://example.com/image-2.jpg',
+          timestamp: '2023-01-02T00:00:00Z',
+          postUrl: 'https://instagram.com/p/post-2',
+        },
+        {
+          id: 'post-1',
+          caption: 'Older caption',
+          imageUrl: 'https://example.com/image-1.jpg',
+          timestamp: '2023-01-01T00:00:00Z',
+          postUrl: 'https://instagram.com/p/post-1',
+        },
+      ];
+
+      const mockGetRecentPosts = jest.fn().mockResolvedValue({ success: true, data: mockPosts });
+      jest
+        .spyOn(InstagramService.prototype, 'getRecentPosts')
+        .mockImplementation(mockGetRecentPosts);
 
       const response = await request(app)
-        .post('/api/instagram/username')
-        .send({ username: 'testuser' });
+        .get('/api/instagram/posts')
+        .query({ limit: 2, since: '2023-01-01T00:00:00Z' });
 
       expect(response.status).toBe(200);
       expect(response.body.success).toBe(true);
-      expect(response.body.message).toContain('testuser');
-      expect(mockSetUsername).toHaveBeenCalledWith('testuser');
+      expect(response.body.data).toEqual(mockPosts);
+      expect(mockGetRecentPosts).toHaveBeenCalledWith({
+        limit: 2,
+        since: '2023-01-01T00:00:00Z',
+      });
     });
 
-    it('should return 400 when username is missing', async () => {
-      const response = await request(app).post('/api/instagram/username').send({});
+    it('should return 400 when limit is invalid', async () => {
+      const mockGetRecentPosts = jest.fn();
+      jest
+        .spyOn(InstagramService.prototype, 'getRecentPosts')
+        .mockImplementation(mockGetRecentPosts);
+
+      const response = await request(app).get('/api/instagram/posts').query({ limit: 'abc' });
 
       expect(response.status).toBe(400);
       expect(response.body.success).toBe(false);
-      expect(response.body.error).toBe('Username is required');
+      expect(response.body.error).toBe('Limit must be a positive integer');
+      expect(mockGetRecentPosts).not.toHaveBeenCalled();
     });
 
-    it('should return 500 when an unexpected error occurs', async () => {
-      const mockSetUsername = jest.fn().mockImplementation(() => {
-        throw new Error('Server error');
+    it('should return 400 when since is not a valid date', async () => {
+      const response = await request(app).get('/api/instagram/posts').query({ since: 'yesterday' });
+
+      expect(response.status).toBe(400);
+      expect(response.body.success).toBe(false);
+      expect(response.body.error).toBe('Since must be a valid date');
+    });
+
+    it('should return 404 when no posts can be fetched', async () => {
+      const mockGetRecentPosts = jest
+        .fn()
+        .mockResolvedValue({ success: false, error: 'Failed to fetch Instagram data' });
+      jest
+        .spyOn(InstagramService.prototype, 'getRecentPosts')
+        .mockImplementation(mockGetRecentPosts);
+
+      const response = await request(app).get('/api/instagram/posts');
+
+      expect(response.status).toBe(404);
+      expect(response.body.success).toBe(false);
+      expect(response.body.error).toBe('Failed to fetch Instagram data');
+      expect(mockGetRecentPosts).toHaveBeenCalledWith({ limit: undefined, since: undefined });
+    });
+  });
+
+  describe('GET /api/instagram/profile', () => {
+    it('should return 200 and the profile metadata when successful', async () => {
+      const mockProfile = {
+        id: '16278726',
+        username: 'bbcnews',
+        fullName: 'BBC News',
+        biography: 'News from the BBC',
+        avatarUrl: 'https://example.com/avatar.jpg',
+        followers: 25000000,
+        following: 120,
+        postCount: 30000,
+        isVerified: true,
+        externalUrl: 'https://www.bbc.co.uk/news',
+      };
+      const mockGetProfile = jest
+        .fn()
+        .mockResolvedValue({ success: true, data: mockProfile, strategy: 'cheerio', attempts: [] });
+      jest.spyOn(InstagramService.prototype, 'getProfile').mockImplementation(mockGetProfile);
+
+      const response = await request(app).get('/api/instagram/profile');
+
+      expect(response.status).toBe(200);
+      expect(response.body.success).toBe(true);
+      expect(response.body.data).toEqual(mockProfile);
+      expect(response.body.strategy).toBe('cheerio');
+    });
+
+    it('should return 404 when the profile cannot be fetched', async () => {
+      const attempts = [
+        { strategy: 'cheerio', success: false, error: 'Cheerio error: blocked', durationMs: 40 },
+      ];
+      const mockGetProfile = jest.fn().mockResolvedValue({
+        success: false,
+        error: 'Failed to fetch the Instagram profile using all available methods',
+        attempts,
       });
-      jest.spyOn(InstagramService.prototype, 'setUsername').mockImplementation(mockSetUsername);
+      jest.spyOn(InstagramService.prototype, 'getProfile').mockImplementation(mockGetProfile);
 
-      const response = await request(app)
-        .post('/api/instagram/username')
-        .send({ username: 'testuser' });
+      const response = await request(app).get('/api/instagram/profile');
 
-      expect(response.status).toBe(500);
+      expect(response.status).toBe(404);
       expect(response.body.success).toBe(false);
-      expect(response.body.error).toContain('Server error');
-      expect(mockSetUsername).toHaveBeenCalledWith('testuser');
+      expect(response.body.attempts).toEqual(attempts);
     });
   });
 });
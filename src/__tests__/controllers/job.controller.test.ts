@@ -0,0 +1,82 @@
+import request from 'supertest';
+import app from '../../index';
+import { jobQueue } from '../../services/jobQueue.service';
+import { ApiError } from '../../utils';
+
+jest.mock('../../services/jobQueue.service');
+
+describe('Job Controller', () => {
+  const mockJob = {
+    id: 'job-1',
+    type: 'publish',
+    status: 'dead',
+    payload: { sourceId: 'default', summary: 'Summary' },
+    attempts: 5,
+    maxAttempts: 5,
+    runAt: '2024-01-01T09:00:00.000Z',
+    lastError: 'Service unavailable',
+    failures: [{ attempt: 5, at: '2024-01-01T09:00:00.000Z', error: 'Service unavailable' }],
+    createdAt: '2024-01-01T08:00:00.000Z',
+    updatedAt: '2024-01-01T09:00:00.000Z',
+  };
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  it('should return 200 and the jobs matching the filters', async () => {
+    (jobQueue.list as jest.Mock).mockReturnValue([mockJob]);
+
+    const response = await request(app).get('/api/jobs?status=dead&type=publish');
+
+    expect(response.status).toBe(200);
+    expect(response.body.data).toEqual([mockJob]);
+    expect(jobQueue.list).toHaveBeenCalledWith({ status: 'dead', type: 'publish' });
+  });
+
+  it('should return 400 for an unknown status', async () => {
+    const response = await request(app).get('/api/jobs?status=failed');
+
+    expect(response.status).toBe(400);
+    expect(response.body.error).toBe('Status must be one of: queued, running, completed, dead');
+    expect(jobQueue.list).not.toHaveBeenCalled();
+  });
+
+  it('should return 404 when the job does not exist', async () => {
+    (jobQueue.get as jest.Mock).mockImplementationOnce(() => {
+      throw new ApiError('Job not found: unknown', 404);
+    });
+
+    const response = await request(app).get('/api/jobs/unknown');
+
+    expect(response.status).toBe(404);
+    expect(response.body.success).toBe(false);
+  });
+
+  it('should queue a dead job for retry', async () => {
+    (jobQueue.retry as jest.Mock).mockReturnValue({ ...mockJob, status: 'queued', attempts: 0 });
+
+    const response = await request(app).post('/api/jobs/job-1/retry');
+
+    expect(response.status).toBe(200);
+    expect(response.body.data).toMatchObject({ status: 'queued', attempts: 0 });
+    expect(jobQueue.retry).toHaveBeenCalledWith('job-1');
+  });
+
+  it('should return 409 when discarding a running job', async () => {
+    (jobQueue.discard as jest.Mock).mockImplementationOnce(() => {
+      throw new ApiError('Job job-1 is running and cannot be discarded', 409);
+    });
+
+    const response = await request(app).delete('/api/jobs/job-1');
+
+    expect(response.status).toBe(409);
+  });
+
+  it('should discard a job', async () => {
+    const response = await request(app).delete('/api/jobs/job-1');
+
+    expect(response.status).toBe(200);
+    expect(jobQueue.discard).toHaveBeenCalledWith('job-1');
+  });
+});
@@ -0,0 +1,92 @@
+import request from 'supertest';
+import app from '../../index';
+import { pollerService } from '../../services/poller.service';
+import { ApiError } from '../../utils';
+
+jest.mock('../../services/poller.service');
+
+describe('Poller Controller', () => {
+  const mockStatus = {
+    sourceId: 'bbc',
+    paused: false,
+    enabled: true,
+    running: false,
+    lastSeenPostAt: '2024-01-01T08:00:00.000Z',
+    lastSeenPostKey: '17900000000000001',
+    lastRunAt: '2024-01-01T09:00:00.000Z',
+    nextRunAt: '2024-01-01T09:15:00.000Z',
+  };
+
+  const mockRun = {
+    trigger: 'manual',
+    startedAt: '2024-01-01T09:00:00.000Z',
+    finishedAt: '2024-01-01T09:00:05.000Z',
+    found: 1,
+    published: 1,
+    skipped: 0,
+    failed: 0,
+  };
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  it('should return 200 and the polling state of every source', async () => {
+    (pollerService.list as jest.Mock).mockReturnValue([mockStatus]);
+
+    const response = await request(app).get('/api/polling');
+
+    expect(response.status).toBe(200);
+    expect(response.body.data).toEqual([mockStatus]);
+  });
+
+  it('should return 404 when the source does not exist', async () => {
+    (pollerService.getStatus as jest.Mock).mockImplementation(() => {
+      throw new ApiError('Source not found: unknown', 404);
+    });
+
+    const response = await request(app).get('/api/sources/unknown/polling');
+
+    expect(response.status).toBe(404);
+    expect(response.body.success).toBe(false);
+  });
+
+  it('should return 200 when polling is paused and resumed', async () => {
+    (pollerService.pause as jest.Mock).mockReturnValue({ ...mockStatus, paused: true });
+    (pollerService.resume as jest.Mock).mockReturnValue(mockStatus);
+
+    const paused = await request(app).post('/api/sources/bbc/polling/pause');
+    const resumed = await request(app).post('/api/sources/bbc/polling/resume');
+
+    expect(paused.status).toBe(200);
+    expect(paused.body.message).toBe('Polling paused: bbc');
+    expect(paused.body.data.paused).toBe(true);
+    expect(resumed.status).toBe(200);
+    expect(pollerService.resume).toHaveBeenCalledWith('bbc');
+  });
+
+  it('should return 200 with the run when a poll is triggered', async () => {
+    (pollerService.run as jest.Mock).mockResolvedValue(mockRun);
+    (pollerService.getStatus as jest.Mock).mockReturnValue(mockStatus);
+
+    const response = await request(app).post('/api/sources/bbc/polling/run');
+
+    expect(response.status).toBe(200);
+    expect(response.body).toEqual({
+      success: true,
+      message: 'Poll finished',
+      data: { run: mockRun, status: mockStatus },
+    });
+    expect(pollerService.run).toHaveBeenCalledWith('bbc');
+  });
+
+  it('should report errors of a triggered poll', async () => {
+    (pollerService.run as jest.Mock).mockResolvedValue({ ...mockRun, error: 'All methods failed' });
+
+    const response = await request(app).post('/api/sources/bbc/polling/run');
+
+    expect(response.status).toBe(200);
+    expect(response.body.success).toBe(false);
+    expect(response.body.message).toBe('Poll finished with errors: All methods failed');
+  });
+});
@@ -0,0 +1,76 @@
+import request from 'supertest';
+import app from '../../index';
+
+describe('Prompt Template Controller', () => {
+  const body = 'Tweet about {{caption}} by @{{username}} in {{ maxLength }} characters';
+
+  it('should list the built-in templates', async () => {
+    const response = await request(app).get('/api/templates');
+
+    expect(response.status).toBe(200);
+    expect(response.body.data.map((template: { id: string }) => template.id)).toEqual([
+      'default',
+      'news',
+      'lifestyle',
+    ]);
+  });
+
+  it('should create a template and version changes of its content', async () => {
+    const created = await request(app)
+      .post('/api/templates')
+      .send({ id: 'sports', body, hashtags: false, suffix: 'Full story in bio' });
+    const renamed = await request(app).put('/api/templates/sports').send({ name: 'Sports desk' });
+    const edited = await request(app)
+      .put('/api/templates/sports')
+      .send({ body: `${body}, neutral tone`, suffix: null });
+
+    expect(created.status).toBe(201);
+    expect(created.body.data).toMatchObject({ id: 'sports', version: 1, emoji: true });
+    expect(renamed.body.data).toMatchObject({ name: 'Sports desk', version: 1 });
+    expect(edited.status).toBe(200);
+    expect(edited.body.data.version).toBe(2);
+    expect(edited.body.data.suffix).toBeUndefined();
+    expect(edited.body.data.versions).toEqual([
+      expect.objectContaining({ version: 1, body, suffix: 'Full story in bio' }),
+      expect.objectContaining({ version: 2, body: `${body}, neutral tone` }),
+    ]);
+  });
+
+  it('should return 400 for unknown variables or a body without the caption', async () => {
+    const unknown = await request(app)
+      .post('/api/templates')
+      .send({ id: 'broken', body: '{{caption}} for {{audience}}' });
+    const noCaption = await request(app)
+      .post('/api/templates')
+      .send({ id: 'broken', body: 'Write a tweet' });
+
+    expect(unknown.status).toBe(400);
+    expect(unknown.body.error).toContain('Unknown template variables: audience');
+    expect(noCaption.status).toBe(400);
+    expect(noCaption.body.error).toBe('Body must include the {{caption}} variable');
+  });
+
+  it('should render the prompt of a template, leaving room for the suffix', async () => {
+    await request(app).post('/api/templates').send({ id: 'promo', body, suffix: 'Link in bio' });
+
+    const response = await request(app)
+      .post('/api/templates/promo/preview')
+      .send({ caption: 'New season', username: 'club', maxLength: 100 });
+
+    expect(response.status).toBe(200);
+    expect(response.body.data).toEqual({
+      template: { id: 'promo', version: 1 },
+      prompt: 'Tweet about New season by @club in 88 characters',
+    });
+  });
+
+  it('should return 404 for unknown templates and 409 when deleting the default one', async () => {
+    const missing = await request(app).get('/api/templates/unknown');
+    const deleteDefault = await request(app).delete('/api/templates/default');
+    const deleteNews = await request(app).delete('/api/templates/news');
+
+    expect(missing.status).toBe(404);
+    expect(deleteDefault.status).toBe(409);
+    expect(deleteNews.status).toBe(200);
+  });
+});
@@ -0,0 +1,112 @@
+import request from 'supertest';
+import app from '../../index';
+import { progressService } from '../../services/progress.service';
+
+interface StreamedEvent {
+  id: string;
+  event: string;
+  data: { stage: string; seq: number };
+}
+
+/**
+ * Parses a Server-Sent Events stream, skipping comments
+ */
+const parseEvents = (text: string): StreamedEvent[] =>
+  text
+    .split('\n\n')
+    .filter(block => block.trim() && !block.startsWith(':'))
+    .map(block => {
+      const fields = Object.fromEntries(
+        block
+          .split('\n')
+          .map(line => [line.slice(0, line.indexOf(':')), line.slice(line.indexOf(':') + 2)])
+      );
+      return { id: fields.id, event: fields.event, data: JSON.parse(fields.data) };
+    });
+
+describe('Run Controller', () => {
+  it('should stream the events of a finished run and end the stream', async () => {
+    await progressService.track('finished-run', async () => {
+      progressService.emit('fetch:strategy-start', { strategy: 'cheerio' });
+    });
+
+    const response = await request(app).get('/api/runs/finished-run/events');
+
+    expect(response.status).toBe(200);
+    expect(response.headers['content-type']).toContain('text/event-stream');
+    expect(response.headers['cache-control']).toBe('no-cache');
+
+    const events = parseEvents(response.text);
+    expect(events.map(event => event.event)).toEqual([
+      'run:start',
+      'fetch:strategy-start',
+      'run:done',
+    ]);
+    expect(events.map(event => event.id)).toEqual(['1', '2', '3']);
+    expect(events[1].data).toMatchObject({ stage: 'fetch:strategy-start', seq: 2 });
+  });
+
+  it('should resume after the Last-Event-ID', async () => {
+    await progressService.track('resumed-run', async () => {
+      progressService.emit('summarize:start');
+      progressService.emit('summarize:done');
+    });
+
+    const response = await request(app)
+      .get('/api/runs/resumed-run/events')
+      .set('Last-Event-ID', '2');
+
+    expect(parseEvents(response.text).map(event => event.event)).toEqual([
+      'summarize:done',
+      'run:done',
+    ]);
+  });
+
+  it('should stream a run that starts after the client connected', async () => {
+    const subscribe = jest.spyOn(progressService, 'subscribe');
+    const streamed = request(app)
+      .get('/api/runs/live-run/events')
+      .then(response => response);
+
+    // Wait for the client to subscribe
+    for (let i = 0; i < 50 && subscribe.mock.calls.length === 0; i++) {
+      await new Promise(resolve => setTimeout(resolve, 10));
+    }
+    subscribe.mockRestore();
+
+    await progressService.track('live-run', async () => {
+      progressService.emit('publish:done', { tweetId: '42' });
+    });
+
+    const response = await streamed;
+    expect(parseEvents(response.text).map(event => event.event)).toEqual([
+      'run:start',
+      'publish:done',
+      'run:done',
+    ]);
+  });
+
+  it('should return the status and events of a run', async () => {
+    await progressService.track('snapshot-run', async () => undefined);
+
+    const response = await request(app).get('/api/runs/snapshot-run');
+
+    expect(response.status).toBe(200);
+    expect(response.body.data).toMatchObject({ id: 'snapshot-run', status: 'completed' });
+    expect(response.body.data.events).toHaveLength(2);
+  });
+
+  it('should return 404 for an unknown run', async () => {
+    const response = await request(app).get('/api/runs/unknown-run');
+
+    expect(response.status).toBe(404);
+    expect(response.body.success).toBe(false);
+  });
+
+  it('should return 400 for a malformed run ID', async () => {
+    const response = await request(app).get('/api/runs/bad.id/events');
+
+    expect(response.status).toBe(400);
+    expect(response.body.success).toBe(false);
+  });
+});
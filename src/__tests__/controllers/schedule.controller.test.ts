@@ -0,0 +1,74 @@
+import request from 'supertest';
+import app from '../../index';
+import { scheduleService } from '../../services/schedule.service';
+import { ApiError } from '../../utils';
+
+jest.mock('../../services/schedule.service');
+
+describe('Schedule Controller', () => {
+  const mockScheduled = {
+    id: 'job-1',
+    type: 'crossPost',
+    status: 'scheduled',
+    publishAt: '2024-01-02T08:00:00.000Z',
+    timeZone: 'Europe/London',
+    localPublishAt: '2024-01-02T08:00:00+00:00',
+    text: 'Summarized caption text',
+    sourceId: 'bbc',
+    postKey: '17900000000000001',
+    jobStatus: 'queued',
+    createdAt: '2024-01-01T23:00:00.000Z',
+  };
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  it('should return 200 and the scheduled tweets matching the filters', async () => {
+    (scheduleService.list as jest.Mock).mockReturnValue([mockScheduled]);
+
+    const response = await request(app).get('/api/scheduled?status=scheduled&type=crossPost');
+
+    expect(response.status).toBe(200);
+    expect(response.body.data).toEqual([mockScheduled]);
+    expect(scheduleService.list).toHaveBeenCalledWith({ status: 'scheduled', type: 'crossPost' });
+  });
+
+  it('should return 400 for an unknown status or type', async () => {
+    const status = await request(app).get('/api/scheduled?status=cancelled');
+    const type = await request(app).get('/api/scheduled?type=thread');
+
+    expect(status.status).toBe(400);
+    expect(status.body.error).toBe(
+      'Status must be one of: scheduled, publishing, retrying, published, failed'
+    );
+    expect(type.status).toBe(400);
+    expect(scheduleService.list).not.toHaveBeenCalled();
+  });
+
+  it('should return 200 and the cancelled tweet', async () => {
+    (scheduleService.cancel as jest.Mock).mockReturnValue(mockScheduled);
+
+    const response = await request(app).delete('/api/scheduled/job-1');
+
+    expect(response.status).toBe(200);
+    expect(response.body.message).toBe('Scheduled tweet cancelled: job-1');
+    expect(scheduleService.cancel).toHaveBeenCalledWith('job-1');
+  });
+
+  it('should return 404 or 409 when the tweet cannot be cancelled', async () => {
+    (scheduleService.cancel as jest.Mock)
+      .mockImplementationOnce(() => {
+        throw new ApiError('Scheduled tweet not found: unknown', 404);
+      })
+      .mockImplementationOnce(() => {
+        throw new ApiError('Scheduled tweet job-1 was already published', 409);
+      });
+
+    const missing = await request(app).delete('/api/scheduled/unknown');
+    const published = await request(app).delete('/api/scheduled/job-1');
+
+    expect(missing.status).toBe(404);
+    expect(published.status).toBe(409);
+  });
+});
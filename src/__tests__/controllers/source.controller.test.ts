@@ -0,0 +1,198 @@
+import request from 'supertest';
+import app from '../../index';
+import { sourceService } from '../../services/source.service';
+import { tokenService } from '../../services/token.service';
+import { ApiError } from '../../utils';
+
+jest.mock('../../services/source.service');
+jest.mock('../../services/token.service');
+
+describe('Source Controller', () => {
+  const mockSource = {
+    id: 'bbc',
+    name: 'BBC News',
+    username: 'bbcnews',
+    accessToken: 'secret-token',
+    settings: { imageUpload: true },
+    createdAt: '2023-01-01T00:00:00.000Z',
+    updatedAt: '2023-01-01T00:00:00.000Z',
+  };
+
+  const mockPublicSource = {
+    id: 'bbc',
+    name: 'BBC News',
+    username: 'bbcnews',
+    hasAccessToken: true,
+    settings: { imageUpload: true },
+    createdAt: '2023-01-01T00:00:00.000Z',
+    updatedAt: '2023-01-01T00:00:00.000Z',
+  };
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    (sourceService.toPublic as jest.Mock).mockReturnValue(mockPublicSource);
+  });
+
+  describe('GET /api/sources', () => {
+    it('should return 200 and the sources without access tokens', async () => {
+      (sourceService.list as jest.Mock).mockReturnValue([mockSource]);
+
+      const response = await request(app).get('/api/sources');
+
+      expect(response.status).toBe(200);
+      expect(response.body.success).toBe(true);
+      expect(response.body.data).toEqual([mockPublicSource]);
+      expect(sourceService.toPublic).toHaveBeenCalledWith(mockSource);
+    });
+  });
+
+  describe('GET /api/sources/:id', () => {
+    it('should return 200 and the source when it exists', async () => {
+      (sourceService.get as jest.Mock).mockReturnValue(mockSource);
+
+      const response = await request(app).get('/api/sources/bbc');
+
+      expect(response.status).toBe(200);
+      expect(response.body.data).toEqual(mockPublicSource);
+      expect(sourceService.get).toHaveBeenCalledWith('bbc');
+    });
+
+    it('should return 404 when the source does not exist', async () => {
+      (sourceService.get as jest.Mock).mockImplementation(() => {
+        throw new ApiError('Source not found: missing', 404);
+      });
+
+      const response = await request(app).get('/api/sources/missing');
+
+      expect(response.status).toBe(404);
+      expect(response.body.success).toBe(false);
+      expect(response.body.error).toBe('Source not found: missing');
+    });
+  });
+
+  describe('POST /api/sources', () => {
+    it('should return 201 when the source is created', async () => {
+      (sourceService.create as jest.Mock).mockReturnValue(mockSource);
+
+      const response = await request(app)
+        .post('/api/sources')
+        .send({
+          id: 'bbc',
+          name: 'BBC News',
+          username: 'bbcnews',
+          accessToken: 'secret-token',
+          settings: { imageUpload: true },
+        });
+
+      expect(response.status).toBe(201);
+      expect(response.body.success).toBe(true);
+      expect(response.body.message).toBe('Source created: bbc');
+      expect(response.body.data).toEqual(mockPublicSource);
+      expect(sourceService.create).toHaveBeenCalledWith({
+        id: 'bbc',
+        name: 'BBC News',
+        username: 'bbcnews',
+        accessToken: 'secret-token',
+        settings: { imageUpload: true },
+      });
+    });
+
+    it('should return 400 when the username is missing', async () => {
+      (sourceService.create as jest.Mock).mockImplementation(() => {
+        throw new ApiError('Username is required', 400);
+      });
+
+      const response = await request(app).post('/api/sources').send({ name: 'BBC News' });
+
+      expect(response.status).toBe(400);
+      expect(response.body.success).toBe(false);
+      expect(response.body.error).toBe('Username is required');
+    });
+  });
+
+  describe('PUT /api/sources/:id', () => {
+    it('should return 200 when the source is updated', async () => {
+      (sourceService.update as jest.Mock).mockReturnValue(mockSource);
+
+      const response = await request(app)
+        .put('/api/sources/bbc')
+        .send({ username: 'bbcnews', settings: { imageUpload: true } });
+
+      expect(response.status).toBe(200);
+      expect(response.body.message).toBe('Source updated: bbc');
+      expect(sourceService.update).toHaveBeenCalledWith('bbc', {
+        name: undefined,
+        username: 'bbcnews',
+        accessToken: undefined,
+        settings: { imageUpload: true },
+      });
+    });
+  });
+
+  describe('DELETE /api/sources/:id', () => {
+    it('should return 200 when the source is deleted', async () => {
+      const response = await request(app).delete('/api/sources/bbc');
+
+      expect(response.status).toBe(200);
+      expect(response.body.success).toBe(true);
+      expect(response.body.message).toBe('Source deleted: bbc');
+      expect(sourceService.remove).toHaveBeenCalledWith('bbc');
+    });
+
+    it('should return 404 when the source does not exist', async () => {
+      (sourceService.remove as jest.Mock).mockImplementation(() => {
+        throw new ApiError('Source not found: missing', 404);
+      });
+
+      const response = await request(app).delete('/api/sources/missing');
+
+      expect(response.status).toBe(404);
+      expect(response.body.error).toBe('Source not found: missing');
+    });
+  });
+
+  describe('GET /api/sources/:id/token', () => {
+    it('should return 200 and the token expiry', async () => {
+      const mockStatus = {
+        sourceId: 'bbc',
+        hasAccessToken: true,
+        expiresAt: '2023-03-02T00:00:00.000Z',
+        expiresInDays: 59,
+        expired: false,
+        refreshedAt: '2023-01-01T00:00:00.000Z',
+        nextRefreshAt: '2023-02-23T00:00:00.000Z',
+      };
+      (tokenService.getStatus as jest.Mock).mockReturnValue(mockStatus);
+
+      const response = await request(app).get('/api/sources/bbc/token');
+
+      expect(response.status).toBe(200);
+      expect(response.body.data).toEqual(mockStatus);
+      expect(tokenService.getStatus).toHaveBeenCalledWith('bbc');
+    });
+  });
+
+  describe('POST /api/sources/:id/token/refresh', () => {
+    it('should return 200 when the token is refreshed', async () => {
+      const mockStatus = { sourceId: 'bbc', hasAccessToken: true, expired: false };
+      (tokenService.refresh as jest.Mock).mockResolvedValue(mockStatus);
+
+      const response = await request(app).post('/api/sources/bbc/token/refresh');
+
+      expect(response.status).toBe(200);
+      expect(response.body.message).toBe('Access token refreshed for source: bbc');
+      expect(response.body.data).toEqual(mockStatus);
+    });
+
+    it('should return 502 when the refresh fails', async () => {
+      (tokenService.refresh as jest.Mock).mockRejectedValue(
+        new ApiError('Token refresh failed: Instagram access token is expired or invalid', 502)
+      );
+
+      const response = await request(app).post('/api/sources/bbc/token/refresh');
+
+      expect(response.status).toBe(502);
+      expect(response.body.success).toBe(false);
+    });
+  });
+});
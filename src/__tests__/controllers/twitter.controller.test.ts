@@ -2,6 +2,8 @@ import request from 'supertest';
 import app from '../../index';
 import { llmService } from '../../services/llm.service';
 import { twitterService } from '../../services/twitter.service';
+import { jobQueue } from '../../services/jobQueue.service';
+import { webhookService } from '../../services/webhook.service';
 
 jest.mock('../../services/llm.service');
 jest.mock('../../services/twitter.service');
@@ -39,6 +41,34 @@ describe('Twitter Controller', () => {
       expect(response.body.error).toBe('Instagram caption is required');
     });
 
+    it('should return the scored candidates when several are requested', async () => {
+      const candidates = [
+        { summary: 'Best summary', temperature: 0.3, score: { total: 0.9 } },
+        { summary: 'Other summary', temperature: 0.7, score: { total: 0.6 } },
+      ];
+      (llmService.summarizeText as jest.Mock).mockResolvedValue({
+        summary: 'Best summary',
+        candidates,
+      });
+
+      const response = await request(app)
+        .post('/api/summarize')
+        .send({ instagramCaption: 'This is a caption', candidates: 2 });
+      const invalid = await request(app)
+        .post('/api/summarize')
+        .send({ instagramCaption: 'This is a caption', candidates: 9 });
+
+      expect(response.status).toBe(200);
+      expect(response.body.data).toEqual({ tweetText: 'Best summary', candidates });
+      expect(llmService.summarizeText).toHaveBeenCalledTimes(1);
+      expect(llmService.summarizeText).toHaveBeenCalledWith({
+        text: 'This is a caption',
+        candidates: 2,
+      });
+      expect(invalid.status).toBe(400);
+      expect(invalid.body.error).toBe('candidates must be an integer between 1 and 5');
+    });
+
     it('should return 500 when an error occurs during summarization', async () => {
       (llmService.summarizeText as jest.Mock).mockRejectedValue(new Error('Summarization failed'));
 
@@ -72,7 +102,10 @@ describe('Twitter Controller', () => {
         .send({ instagramCaption: 'This is a long Instagram caption that needs to be summarized' });
 
       expect(response.status).toBe(200);
-      expect(response.body).toEqual(mockTweetResult);
+      expect(response.body).toMatchObject({
+        ...mockTweetResult,
+        data: { ...mockTweetResult.data, job: { type: 'tweet', status: 'completed' } },
+      });
       expect(llmService.summarizeText).toHaveBeenCalledWith({
         text: 'This is a long Instagram caption that needs to be summarized',
       });
@@ -105,7 +138,56 @@ describe('Twitter Controller', () => {
         .send({ instagramCaption: 'This is a caption' });
 
       expect(response.status).toBe(400);
-      expect(response.body).toEqual(mockTweetResult);
+      expect(response.body).toMatchObject({
+        ...mockTweetResult,
+        data: { job: { status: 'dead', lastError: 'Twitter API error' } },
+      });
+    });
+
+    it('should return 202 and retry the tweet after a temporary error', async () => {
+      const emit = jest.spyOn(webhookService, 'emit');
+      (llmService.summarizeText as jest.Mock).mockResolvedValue({ summary: 'Retried summary' });
+      (twitterService.postTweet as jest.Mock)
+        .mockResolvedValueOnce({
+          success: false,
+          message: 'Failed to post tweet',
+          error: 'Service unavailable',
+          statusCode: 503,
+          retryable: true,
+        })
+        .mockResolvedValueOnce({
+          success: true,
+          message: 'Tweet posted successfully',
+          data: { id: 'tweet-9', text: 'Retried summary' },
+        });
+
+      const response = await request(app)
+        .post('/api/tweet')
+        .send({ instagramCaption: 'This is a caption' });
+
+      expect(response.status).toBe(202);
+      expect(response.body).toMatchObject({
+        success: true,
+        queued: true,
+        error: 'Service unavailable',
+        data: { job: { type: 'tweet', status: 'queued', attempts: 1 } },
+      });
+
+      const retried = await jobQueue.runNow(response.body.data.job.id);
+
+      expect(retried).toMatchObject({ status: 'completed', result: { tweetId: 'tweet-9' } });
+      expect(twitterService.postTweet).toHaveBeenCalledTimes(2);
+      expect(emit.mock.calls.map(call => call[0])).toEqual([
+        'summary.generated',
+        'tweet.published',
+      ]);
+      expect(emit).toHaveBeenLastCalledWith('tweet.published', {
+        caption: 'This is a caption',
+        summary: 'Retried summary',
+        imageUrl: undefined,
+        tweet: { id: 'tweet-9', text: 'Retried summary' },
+      });
+      emit.mockRestore();
     });
 
     it('should return 500 when an unexpected error occurs', async () => {
@@ -120,6 +202,122 @@ describe('Twitter Controller', () => {
       expect(response.body.message).toBe('Failed to process request');
       expect(response.body.error).toBe('Unexpected error');
     });
+
+    it('should return 202 and schedule the tweet when publishAt is given', async () => {
+      (llmService.summarizeText as jest.Mock).mockResolvedValue({ summary: 'Morning summary' });
+
+      const response = await request(app).post('/api/tweet').send({
+        instagramCaption: 'This is a caption',
+        publishAt: '2099-01-02T08:00',
+        timeZone: 'Europe/London',
+      });
+
+      expect(response.status).toBe(202);
+      expect(response.body.scheduled).toBe(true);
+      expect(response.body.message).toBe('Tweet scheduled for 2099-01-02T08:00:00+00:00');
+      expect(response.body.data).toMatchObject({
+        type: 'tweet',
+        status: 'scheduled',
+        publishAt: '2099-01-02T08:00:00.000Z',
+        timeZone: 'Europe/London',
+        text: 'Morning summary',
+      });
+      expect(twitterService.postTweet).not.toHaveBeenCalled();
+    });
+
+    it('should return 400 without summarizing when publishAt is invalid', async () => {
+      const past = await request(app)
+        .post('/api/tweet')
+        .send({ instagramCaption: 'This is a caption', publishAt: '2020-01-01T08:00:00Z' });
+      const withoutTimeZone = await request(app)
+        .post('/api/tweet')
+        .send({ instagramCaption: 'This is a caption', publishAt: '2099-01-02T08:00' });
+
+      expect(past.status).toBe(400);
+      expect(past.body.error).toBe('publishAt must be in the future: 2020-01-01T08:00:00.000Z');
+      expect(withoutTimeZone.status).toBe(400);
+      expect(withoutTimeZone.body.error).toBe(
+        'Date and time without a UTC offset needs a time zone: 2099-01-02T08:00'
+      );
+      expect(llmService.summarizeText).not.toHaveBeenCalled();
+    });
+
+    it('should post a thread as a reply chain when mode is thread', async () => {
+      const tweets = ['First part 1/2', 'Second part 2/2'];
+      const posted = [
+        { id: '1', text: tweets[0] },
+        { id: '2', text: tweets[1] },
+      ];
+      (llmService.summarizeThread as jest.Mock).mockResolvedValue({ tweets });
+      (twitterService.postThread as jest.Mock).mockResolvedValue({
+        success: true,
+        message: 'Thread of 2 tweets posted successfully',
+        posted,
+        total: 2,
+      });
+
+      const response = await request(app)
+        .post('/api/tweet')
+        .send({ instagramCaption: 'A long caption', mode: 'thread' });
+
+      expect(response.status).toBe(200);
+      expect(response.body.message).toBe('Thread of 2 tweets posted successfully');
+      expect(response.body.data.thread).toEqual(posted);
+      expect(response.body.data.job.status).toBe('completed');
+      expect(llmService.summarizeThread).toHaveBeenCalledWith({ text: 'A long caption' });
+      expect(twitterService.postThread).toHaveBeenCalledWith(tweets, undefined, undefined);
+      expect(twitterService.postTweet).not.toHaveBeenCalled();
+    });
+
+    it('should report a thread that failed partway and resume it when its job is retried', async () => {
+      const tweets = ['First part 1/3', 'Second part 2/3', 'Third part 3/3'];
+      const first = { id: '1', text: tweets[0] };
+      (llmService.summarizeThread as jest.Mock).mockResolvedValue({ tweets });
+      (twitterService.postThread as jest.Mock).mockResolvedValueOnce({
+        success: false,
+        message: 'Posted 1 of 3 tweets of the thread',
+        error: 'You are not allowed to create a Tweet with duplicate content.',
+        retryable: false,
+        posted: [first],
+        total: 3,
+      });
+
+      const response = await request(app)
+        .post('/api/tweet')
+        .send({ instagramCaption: 'A long caption', mode: 'thread' });
+      const { job } = response.body.data;
+
+      expect(response.status).toBe(207);
+      expect(response.body).toMatchObject({
+        success: false,
+        partial: true,
+        message: `Posted 1 of 3 tweets of the thread, retry job ${job.id} to post the rest`,
+        data: { thread: [first] },
+      });
+      expect(job.status).toBe('dead');
+
+      (twitterService.postThread as jest.Mock).mockResolvedValueOnce({
+        success: true,
+        message: 'Thread of 3 tweets posted successfully',
+        posted: [first, { id: '2', text: tweets[1] }, { id: '3', text: tweets[2] }],
+        total: 3,
+      });
+      await request(app).post(`/api/jobs/${job.id}/retry`);
+      const resumed = await jobQueue.runNow(job.id);
+
+      expect(twitterService.postThread).toHaveBeenLastCalledWith(tweets, undefined, [first]);
+      expect(resumed.status).toBe('completed');
+    });
+
+    it('should return 400 for an unknown mode', async () => {
+      const response = await request(app)
+        .post('/api/tweet')
+        .send({ instagramCaption: 'A long caption', mode: 'carousel' });
+
+      expect(response.status).toBe(400);
+      expect(response.body.error).toBe('mode must be one of: single, thread');
+      expect(llmService.summarizeText).not.toHaveBeenCalled();
+    });
   });
 
   describe('POST /api/tweet-with-media', () => {
@@ -142,7 +340,10 @@ describe('Twitter Controller', () => {
       });
 
       expect(response.status).toBe(200);
-      expect(response.body).toEqual(mockTweetResult);
+      expect(response.body).toMatchObject({
+        ...mockTweetResult,
+        data: { ...mockTweetResult.data, job: { type: 'tweet', status: 'completed' } },
+      });
       expect(llmService.summarizeText).toHaveBeenCalledWith({
         text: 'This is a long Instagram caption that needs to be summarized',
       });
@@ -190,7 +391,10 @@ describe('Twitter Controller', () => {
       });
 
       expect(response.status).toBe(400);
-      expect(response.body).toEqual(mockTweetResult);
+      expect(response.body).toMatchObject({
+        ...mockTweetResult,
+        data: { job: { status: 'dead', lastError: 'Twitter API error' } },
+      });
     });
 
     it('should return 500 when an unexpected error occurs', async () => {
@@ -0,0 +1,92 @@
+import request from 'supertest';
+import app from '../../index';
+import { webhookService } from '../../services/webhook.service';
+import { ApiError } from '../../utils';
+
+jest.mock('../../services/webhook.service');
+
+describe('Webhook Controller', () => {
+  const publicWebhook = {
+    id: 'hook-1',
+    url: 'https://slack-bot.example.com/hooks',
+    events: ['tweet.published', 'tweet.failed'],
+    active: true,
+    createdAt: '2024-01-01T00:00:00.000Z',
+    updatedAt: '2024-01-01T00:00:00.000Z',
+  };
+  const mockWebhook = { ...publicWebhook, secret: 'generated-secret-of-the-webhook' };
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    (webhookService.toPublic as jest.Mock).mockReturnValue(publicWebhook);
+  });
+
+  it('should return 201 and the secret only when the webhook is created', async () => {
+    (webhookService.create as jest.Mock).mockReturnValue(mockWebhook);
+    (webhookService.list as jest.Mock).mockReturnValue([mockWebhook]);
+
+    const created = await request(app)
+      .post('/api/webhooks')
+      .send({ url: mockWebhook.url, events: mockWebhook.events });
+    const listed = await request(app).get('/api/webhooks');
+
+    expect(created.status).toBe(201);
+    expect(created.body.data.secret).toBe(mockWebhook.secret);
+    expect(webhookService.create).toHaveBeenCalledWith({
+      url: mockWebhook.url,
+      events: mockWebhook.events,
+    });
+    expect(listed.body.data).toEqual([publicWebhook]);
+  });
+
+  it('should return 400 when the service rejects the webhook', async () => {
+    (webhookService.create as jest.Mock).mockImplementationOnce(() => {
+      throw new ApiError('URL is required', 400);
+    });
+
+    const response = await request(app).post('/api/webhooks').send({});
+
+    expect(response.status).toBe(400);
+    expect(response.body.error).toBe('URL is required');
+  });
+
+  it('should return 200 when the webhook is updated or removed', async () => {
+    (webhookService.update as jest.Mock).mockReturnValue({ ...mockWebhook, active: false });
+
+    const updated = await request(app).put('/api/webhooks/hook-1').send({ active: false });
+    const removed = await request(app).delete('/api/webhooks/hook-1');
+
+    expect(updated.status).toBe(200);
+    expect(updated.body.data).not.toHaveProperty('secret');
+    expect(webhookService.update).toHaveBeenCalledWith('hook-1', { active: false });
+    expect(removed.status).toBe(200);
+    expect(webhookService.remove).toHaveBeenCalledWith('hook-1');
+  });
+
+  it('should return 404 when the webhook does not exist', async () => {
+    (webhookService.get as jest.Mock).mockImplementationOnce(() => {
+      throw new ApiError('Webhook not found: unknown', 404);
+    });
+
+    const response = await request(app).get('/api/webhooks/unknown');
+
+    expect(response.status).toBe(404);
+  });
+
+  it('should return the delivery log with filters', async () => {
+    const delivery = { id: 'delivery-1', webhookId: 'hook-1', status: 'failed', attempts: [] };
+    (webhookService.listDeliveries as jest.Mock).mockReturnValue([delivery]);
+
+    const response = await request(app).get('/api/webhooks/hook-1/deliveries?status=failed');
+    const invalid = await request(app).get('/api/webhooks/hook-1/deliveries?limit=500');
+
+    expect(response.status).toBe(200);
+    expect(response.body.data).toEqual([delivery]);
+    expect(webhookService.listDeliveries).toHaveBeenCalledWith('hook-1', {
+      status: 'failed',
+      limit: 50,
+    });
+    expect(invalid.status).toBe(400);
+    expect(invalid.body.error).toBe('Limit must be an integer from 1 to 200');
+  });
+});
@@ -0,0 +1,224 @@
+import { ApiFetcher } from '../../services/fetchers/api.fetcher';
+import { InstagramTransport, TransportError } from '../../services/fetchers/transport';
+
+const mediaItem = (id: string, timestamp: string) => ({
+  id,
+  caption: `Caption ${id}`,
+  media_type: 'IMAGE',
+  media_url: `https://cdn.example.com/${id}.jpg`,
+  permalink: `https://www.instagram.com/p/${id}/`,
+  timestamp,
+  like_count: 5,
+});
+
+describe('API fetcher', () => {
+  const get = jest.fn();
+  const transport: InstagramTransport = { get };
+  const fetcher = new ApiFetcher(transport);
+
+  beforeEach(() => {
+    get.mockReset();
+  });
+
+  describe('business discovery', () => {
+    const config = {
+      username: 'bbcnews',
+      accessToken: 'test-token',
+      businessAccountId: '17841400000000000',
+      strategies: [],
+    };
+
+    it('should look up the configured username and follow the after cursor', async () => {
+      get
+        .mockResolvedValueOnce({
+          status: 200,
+          data: {
+            business_discovery: {
+              media: {
+                data: [mediaItem('post-3', '2024-01-03T10:00:00+0000')],
+                paging: { cursors: { after: 'cursor-1' }, next: 'https://graph.facebook.com/next' },
+              },
+            },
+          },
+        })
+        .mockResolvedValueOnce({
+          status: 200,
+          data: {
+            business_discovery: {
+              media: { data: [mediaItem('post-2', '2024-01-02T10:00:00+0000')] },
+            },
+          },
+        });
+
+      const response = await fetcher.fetchRecentPosts(config, { limit: 2 });
+
+      expect(response.success).toBe(true);
+      expect(response.data?.map(post => post.id)).toEqual(['post-3', 'post-2']);
+      expect(response.data?.[0]).toMatchObject({ likes: 5, mediaType: 'image' });
+
+      const firstUrl = decodeURIComponent(get.mock.calls[0][0]);
+      expect(firstUrl).toContain('/17841400000000000?fields=business_discovery.username(bbcnews)');
+      expect(firstUrl).not.toContain('.after(');
+      expect(decodeURIComponent(get.mock.calls[1][0])).toContain('media.after(cursor-1).limit(2)');
+    });
+
+    it('should report expired tokens with the Graph error code', async () => {
+      get.mockRejectedValueOnce(
+        new TransportError('Request failed with status code 400', 400, {
+          error: {
+            message: 'Error validating access token',
+            type: 'OAuthException',
+            code: 190,
+            error_subcode: 463,
+          },
+        })
+      );
+
+      const response = await fetcher.fetchRecentPosts(config, { limit: 1 });
+
+      expect(response).toEqual({
+        success: false,
+        error:
+          'API error: Instagram access token is expired or invalid: ' +
+          'Error validating access token (code 190/463)',
+      });
+    });
+
+    it('should report rate limits', async () => {
+      get.mockRejectedValueOnce(
+        new TransportError('Request failed with status code 403', 403, {
+          error: { message: 'Application request limit reached', code: 4 },
+        })
+      );
+
+      const response = await fetcher.fetchRecentPosts(config, { limit: 1 });
+
+      expect(response.error).toBe(
+        'API error: Instagram Graph API rate limit reached: Application request limit reached (code 4)'
+      );
+    });
+  });
+
+  describe('media', () => {
+    const config = { username: 'bbcnews', accessToken: 'test-token', strategies: [] };
+
+    const fetchItem = async (item: Record<string, unknown>) => {
+      get.mockResolvedValueOnce({ status: 200, data: { data: [item] } });
+      const response = await fetcher.fetchRecentPosts(config, { limit: 1 });
+      return response.data?.[0];
+    };
+
+    it('should map carousel children in order and use the first image as imageUrl', async () => {
+      const post = await fetchItem({
+        ...mediaItem('carousel', '2024-01-01T10:00:00+0000'),
+        media_type: 'CAROUSEL_ALBUM',
+        media_url: 'https://cdn.example.com/cover.jpg',
+        children: {
+          data: [
+            {
+              media_type: 'VIDEO',
+              media_url: 'https://cdn.example.com/slide-1.mp4',
+              thumbnail_url: 'https://cdn.example.com/slide-1.jpg',
+            },
+            { media_type: 'IMAGE', media_url: 'https://cdn.example.com/slide-2.jpg' },
+          ],
+        },
+      });
+
+      expect(post).toMatchObject({
+        mediaType: 'carousel',
+        imageUrl: 'https://cdn.example.com/slide-2.jpg',
+        media: [
+          {
+            type: 'video',
+            url: 'https://cdn.example.com/slide-1.mp4',
+            thumbnailUrl: 'https://cdn.example.com/slide-1.jpg',
+          },
+          { type: 'image', url: 'https://cdn.example.com/slide-2.jpg' },
+        ],
+      });
+    });
+
+    it('should use the thumbnail of a video as imageUrl', async () => {
+      const post = await fetchItem({
+        ...mediaItem('video', '2024-01-01T10:00:00+0000'),
+        media_type: 'VIDEO',
+        media_url: 'https://cdn.example.com/video.mp4',
+        thumbnail_url: 'https://cdn.example.com/video.jpg',
+      });
+
+      expect(post).toMatchObject({
+        mediaType: 'video',
+        imageUrl: 'https://cdn.example.com/video.jpg',
+        media: [
+          {
+            type: 'video',
+            url: 'https://cdn.example.com/video.mp4',
+            thumbnailUrl: 'https://cdn.example.com/video.jpg',
+          },
+        ],
+      });
+    });
+
+    it('should map a reel as a video post with its reel permalink', async () => {
+      const post = await fetchItem({
+        ...mediaItem('reel', '2024-01-01T10:00:00+0000'),
+        media_type: 'VIDEO',
+        media_url: 'https://cdn.example.com/reel.mp4',
+        thumbnail_url: 'https://cdn.example.com/reel.jpg',
+        permalink: 'https://www.instagram.com/reel/REEL1/',
+      });
+
+      expect(post).toMatchObject({
+        mediaType: 'video',
+        imageUrl: 'https://cdn.example.com/reel.jpg',
+        postUrl: 'https://www.instagram.com/reel/REEL1/',
+      });
+    });
+
+    it('should keep the album itself when a carousel has no children', async () => {
+      const post = await fetchItem({
+        ...mediaItem('album', '2024-01-01T10:00:00+0000'),
+        media_type: 'CAROUSEL_ALBUM',
+      });
+
+      expect(post).toMatchObject({
+        mediaType: 'image',
+        media: [{ type: 'image', url: 'https://cdn.example.com/album.jpg' }],
+      });
+    });
+  });
+
+  describe('own media', () => {
+    it('should reject a token that belongs to another account', async () => {
+      get.mockResolvedValueOnce({
+        status: 200,
+        data: { data: [{ ...mediaItem('post-1', '2024-01-01T10:00:00+0000'), username: 'other' }] },
+      });
+
+      const response = await fetcher.fetchRecentPosts(
+        { username: 'bbcnews', accessToken: 'test-token', strategies: [] },
+        { limit: 1 }
+      );
+
+      expect(response.success).toBe(false);
+      expect(response.error).toContain('Access token belongs to other, not bbcnews');
+    });
+
+    it('should encode the access token in the query string', async () => {
+      get.mockResolvedValueOnce({
+        status: 200,
+        data: {
+          data: [{ ...mediaItem('post-1', '2024-01-01T10:00:00+0000'), username: 'bbcnews' }],
+        },
+      });
+
+      await fetcher.fetchRecentPosts(
+        { username: 'bbcnews', accessToken: 'IGQ+token/with&symbols=', strategies: [] },
+        { limit: 1 }
+      );
+
+      expect(get.mock.calls[0][0]).toContain('&access_token=IGQ%2Btoken%2Fwith%26symbols%3D');
+    });
+  });
+});
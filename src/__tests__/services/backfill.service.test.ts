@@ -0,0 +1,336 @@
+import InstagramService from '../../services/instagram.service';
+import { backfillService } from '../../services/backfill.service';
+import { sourceService } from '../../services/source.service';
+import { historyService } from '../../services/history.service';
+import { draftService } from '../../services/draft.service';
+import { jobQueue } from '../../services/jobQueue.service';
+import { webhookService } from '../../services/webhook.service';
+import { llmService } from '../../services/llm.service';
+import { twitterService } from '../../services/twitter.service';
+import { InstagramPost } from '../../interfaces/instagram.interface';
+
+jest.mock('../../services/llm.service');
+jest.mock('../../services/twitter.service');
+
+describe('Backfill service', () => {
+  const HOUR_MS = 60 * 60 * 1000;
+
+  const makePost = (id: string, day: number): InstagramPost => ({
+    id,
+    caption: `Caption ${id}`,
+    imageUrl: `https://cdn.example.com/${id}.jpg`,
+    timestamp: `2024-01-0${day}T09:00:00.000Z`,
+    mediaType: 'image',
+    media: [],
+  });
+
+  let sourceCount = 0;
+  const createSource = () => {
+    sourceCount += 1;
+    return sourceService.create({ id: `archive-${sourceCount}`, username: 'archive' }).id;
+  };
+
+  const mockPosts = (posts: InstagramPost[]) =>
+    jest
+      .spyOn(InstagramService.prototype, 'getRecentPosts')
+      .mockResolvedValueOnce({ success: true, data: posts });
+
+  const runStep = async (backfillId: string) => {
+    const { jobId } = backfillService.get(backfillId);
+    return jobQueue.runNow(jobId as string);
+  };
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    (llmService.summarizeText as jest.Mock).mockImplementation(async ({ text }) => ({
+      summary: `Summary of ${text}`,
+    }));
+    (twitterService.postTweet as jest.Mock).mockImplementation(async (text: string) => ({
+      success: true,
+      data: { id: `tweet-${text.split(' ').pop()}`, text },
+    }));
+  });
+
+  it('should publish the posts oldest first, one per interval, skipping published posts', async () => {
+    const sourceId = createSource();
+    // Newest first, as fetched
+    const posts = [makePost('c', 3), makePost('b', 2), makePost('a', 1)];
+    mockPosts(posts);
+    historyService.record(sourceId, posts[1], { status: 'published', tweetId: 'earlier' });
+
+    const backfill = await backfillService.create({
+      sourceId,
+      limit: 3,
+      intervalMs: HOUR_MS,
+      imageUpload: false,
+    });
+
+    expect(InstagramService.prototype.getRecentPosts).toHaveBeenCalledWith({
+      limit: 3,
+      since: undefined,
+    });
+    expect(backfill.items.map(item => [item.postKey, item.status])).toEqual([
+      ['a', 'pending'],
+      ['b', 'skipped'],
+      ['c', 'pending'],
+    ]);
+    expect(backfill.progress).toEqual({
+      total: 3,
+      published: 0,
+      skipped: 1,
+      failed: 0,
+      pending: 2,
+    });
+    expect(new Date(backfill.nextRunAt as string).getTime()).toBeLessThanOrEqual(Date.now());
+
+    await runStep(backfill.id);
+
+    expect(twitterService.postTweet).toHaveBeenCalledWith('Summary of Caption a');
+    const afterFirst = backfillService.get(backfill.id);
+    expect(afterFirst.items[0]).toMatchObject({ status: 'published', tweetId: 'tweet-a' });
+    expect(historyService.findPublished(posts[2])?.tweetId).toBe('tweet-a');
+    expect(new Date(afterFirst.nextRunAt as string).getTime()).toBeGreaterThan(
+      Date.now() + HOUR_MS - 60 * 1000
+    );
+
+    await runStep(backfill.id);
+
+    expect(twitterService.postTweet).toHaveBeenCalledTimes(2);
+    expect(backfillService.get(backfill.id)).toMatchObject({
+      status: 'completed',
+      progress: { published: 2, skipped: 1, pending: 0 },
+    });
+  });
+
+  it('should skip posts that were published while the backfill waited', async () => {
+    const sourceId = createSource();
+    const posts = [makePost('e', 2), makePost('d', 1)];
+    mockPosts(posts);
+
+    const backfill = await backfillService.create({ sourceId, intervalMs: HOUR_MS });
+    historyService.record(sourceId, posts[1], { status: 'published', tweetId: 'elsewhere' });
+
+    await runStep(backfill.id);
+
+    expect(twitterService.postTweet).toHaveBeenCalledTimes(1);
+    expect(twitterService.postTweet).toHaveBeenCalledWith('Summary of Caption e');
+    expect(backfillService.get(backfill.id).items.map(item => item.status)).toEqual([
+      'skipped',
+      'published',
+    ]);
+  });
+
+  it('should retry temporary failures without summarizing again', async () => {
+    const sourceId = createSource();
+    mockPosts([makePost('f', 1)]);
+    (twitterService.postTweet as jest.Mock).mockResolvedValueOnce({
+      success: false,
+      error: 'Service unavailable',
+      retryable: true,
+    });
+
+    const backfill = await backfillService.create({ sourceId, intervalMs: HOUR_MS });
+    const job = await runStep(backfill.id);
+
+    expect(job.status).toBe('queued');
+    expect(backfillService.get(backfill.id).items[0]).toMatchObject({
+      status: 'pending',
+      summary: 'Summary of Caption f',
+      error: 'Service unavailable',
+    });
+
+    await jobQueue.runNow(job.id);
+
+    expect(llmService.summarizeText).toHaveBeenCalledTimes(1);
+    expect(backfillService.get(backfill.id)).toMatchObject({
+      status: 'completed',
+      items: [{ status: 'published', tweetId: 'tweet-f', error: undefined }],
+    });
+  });
+
+  it('should record posts that fail for good and go on with the next one', async () => {
+    const sourceId = createSource();
+    mockPosts([makePost('h', 2), makePost('g', 1)]);
+    (twitterService.postTweet as jest.Mock).mockResolvedValueOnce({
+      success: false,
+      error: 'Duplicate content',
+      retryable: false,
+    });
+
+    const backfill = await backfillService.create({ sourceId, intervalMs: HOUR_MS });
+    await runStep(backfill.id);
+
+    const afterFailure = backfillService.get(backfill.id);
+    expect(afterFailure.items[0]).toMatchObject({ status: 'failed', error: 'Duplicate content' });
+    // Nothing was tweeted, so the next post does not wait for the interval
+    expect(new Date(afterFailure.nextRunAt as string).getTime()).toBeLessThanOrEqual(Date.now());
+    expect(historyService.list({ sourceId, status: 'failed' }).total).toBe(1);
+
+    await runStep(backfill.id);
+
+    expect(backfillService.get(backfill.id).progress).toMatchObject({ published: 1, failed: 1 });
+  });
+
+  it('should pause, resume and cancel a backfill', async () => {
+    const sourceId = createSource();
+    mockPosts([makePost('j', 2), makePost('i', 1)]);
+
+    const backfill = await backfillService.create({ sourceId, intervalMs: HOUR_MS });
+    const firstJobId = backfill.jobId as string;
+
+    expect(backfillService.pause(backfill.id).status).toBe('paused');
+    expect(() => jobQueue.get(firstJobId)).toThrow(`Job not found: ${firstJobId}`);
+    expect(() => backfillService.pause(backfill.id)).toThrow(
+      expect.objectContaining({ statusCode: 409 })
+    );
+
+    const resumed = backfillService.resume(backfill.id);
+    expect(resumed.status).toBe('running');
+    expect(jobQueue.get(resumed.jobId as string).status).toBe('queued');
+
+    await runStep(backfill.id);
+    const cancelled = backfillService.cancel(backfill.id);
+
+    expect(cancelled).toMatchObject({
+      status: 'cancelled',
+      progress: { published: 1, pending: 1 },
+    });
+    expect(jobQueue.list({ type: 'backfill', status: 'queued' })).toEqual([]);
+    expect(() => backfillService.cancel(backfill.id)).toThrow(
+      expect.objectContaining({ statusCode: 409 })
+    );
+  });
+
+  it('should reject invalid options and a second backfill of the same source', async () => {
+    const sourceId = createSource();
+
+    await expect(backfillService.create({ sourceId, limit: 51 })).rejects.toMatchObject({
+      statusCode: 400,
+    });
+    await expect(backfillService.create({ sourceId, since: 'yesterday' })).rejects.toThrow(
+      'Since must be a valid date'
+    );
+    await expect(backfillService.create({ sourceId, intervalMs: -1 })).rejects.toThrow(
+      'intervalMs must be a non-negative integer'
+    );
+
+    mockPosts([makePost('k', 1)]);
+    await backfillService.create({ sourceId });
+
+    await expect(backfillService.create({ sourceId })).rejects.toMatchObject({
+      statusCode: 409,
+    });
+  });
+
+  it('should refuse sources that require approval and pause when a source switches to it', async () => {
+    const approvalSourceId = sourceService.create({
+      id: 'archive-approval',
+      username: 'archive',
+      settings: { publishMode: 'approval' },
+    }).id;
+
+    await expect(backfillService.create({ sourceId: approvalSourceId })).rejects.toMatchObject({
+      statusCode: 400,
+      message: 'Sources that require approval cannot be backfilled',
+    });
+
+    const sourceId = createSource();
+    mockPosts([makePost('l', 1)]);
+    const backfill = await backfillService.create({ sourceId, intervalMs: HOUR_MS });
+    sourceService.update(sourceId, { settings: { publishMode: 'approval' } });
+
+    await runStep(backfill.id);
+
+    expect(twitterService.postTweet).not.toHaveBeenCalled();
+    expect(backfillService.get(backfill.id)).toMatchObject({
+      status: 'paused',
+      progress: { pending: 1 },
+    });
+    expect(() => backfillService.resume(backfill.id)).toThrow(
+      'Sources that require approval cannot be backfilled'
+    );
+  });
+
+  it('should skip posts whose draft was rejected', async () => {
+    const sourceId = createSource();
+    const posts = [makePost('n', 2), makePost('m', 1)];
+    const draft = draftService.create(sourceId, posts[1], 'Rejected summary');
+    draftService.reject(draft.id);
+    mockPosts(posts);
+
+    const backfill = await backfillService.create({ sourceId, intervalMs: HOUR_MS });
+    expect(backfill.items.map(item => item.status)).toEqual(['skipped', 'pending']);
+
+    await runStep(backfill.id);
+
+    expect(twitterService.postTweet).toHaveBeenCalledTimes(1);
+    expect(twitterService.postTweet).toHaveBeenCalledWith('Summary of Caption n');
+  });
+
+  it('should notify webhooks of the posts it publishes and of those that fail', async () => {
+    const sourceId = createSource();
+    const posts = [makePost('p', 2), makePost('o', 1)];
+    mockPosts(posts);
+    (twitterService.postTweet as jest.Mock).mockResolvedValueOnce({
+      success: false,
+      error: 'Duplicate content',
+      retryable: false,
+    });
+    const emit = jest.spyOn(webhookService, 'emit');
+
+    const backfill = await backfillService.create({ sourceId, intervalMs: HOUR_MS });
+    await runStep(backfill.id);
+    await runStep(backfill.id);
+
+    expect(emit.mock.calls.map(call => call[0])).toEqual([
+      'post.detected',
+      'summary.generated',
+      'tweet.failed',
+      'post.detected',
+      'summary.generated',
+      'tweet.published',
+    ]);
+    expect(emit).toHaveBeenCalledWith('tweet.failed', {
+      sourceId,
+      post: posts[1],
+      summary: 'Summary of Caption o',
+      error: 'Duplicate content',
+    });
+    expect(emit).toHaveBeenLastCalledWith('tweet.published', {
+      sourceId,
+      post: posts[0],
+      summary: 'Summary of Caption p',
+      tweet: { id: 'tweet-p', text: 'Summary of Caption p' },
+    });
+    emit.mockRestore();
+  });
+
+  it('should pause a backfill whose step fails with an unexpected error', async () => {
+    const sourceId = createSource();
+    mockPosts([makePost('r', 2), makePost('q', 1)]);
+    const record = jest.spyOn(historyService, 'record').mockImplementationOnce(() => {
+      throw new Error('Disk full');
+    });
+
+    const backfill = await backfillService.create({ sourceId, intervalMs: HOUR_MS });
+    const job = await runStep(backfill.id);
+
+    expect(job).toMatchObject({ status: 'dead', lastError: 'Disk full' });
+    expect(backfillService.get(backfill.id)).toMatchObject({
+      status: 'paused',
+      jobId: undefined,
+    });
+    record.mockRestore();
+
+    // The tweet was posted before the error, so resuming skips the post instead of tweeting again
+    historyService.record(sourceId, makePost('q', 1), { status: 'published', tweetId: 'tweet-q' });
+    backfillService.resume(backfill.id);
+    await runStep(backfill.id);
+
+    expect(twitterService.postTweet).toHaveBeenCalledTimes(2);
+    expect(backfillService.get(backfill.id)).toMatchObject({
+      status: 'completed',
+      progress: { published: 1, skipped: 1 },
+    });
+  });
+});
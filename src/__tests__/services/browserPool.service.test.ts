@@ -0,0 +1,162 @@
+import { EventEmitter } from 'events';
+import puppeteer, { Browser, Page } from 'puppeteer';
+import { BrowserPool, BrowserPoolOptions } from '../../services/browserPool.service';
+
+jest.mock('puppeteer', () => ({ __esModule: true, default: { launch: jest.fn() } }));
+jest.mock('chrome-launcher', () => ({ getChromePath: () => '/usr/bin/chromium' }));
+
+interface FakeBrowser extends EventEmitter {
+  newPage: jest.Mock;
+  close: jest.Mock;
+}
+
+const fakePage = (): Page => {
+  let closed = false;
+  return {
+    isClosed: () => closed,
+    close: jest.fn(async () => {
+      closed = true;
+    }),
+  } as unknown as Page;
+};
+
+const fakeBrowser = (): FakeBrowser => {
+  const browser = new EventEmitter() as FakeBrowser;
+  browser.newPage = jest.fn(async () => fakePage());
+  browser.close = jest.fn(async () => undefined);
+  return browser;
+};
+
+describe('Browser pool service', () => {
+  const launch = puppeteer.launch as jest.Mock;
+  let browsers: FakeBrowser[];
+  let pool: BrowserPool;
+
+  const createPool = (options: Partial<BrowserPoolOptions> = {}): BrowserPool => {
+    pool = new BrowserPool({
+      maxBrowsers: 1,
+      pagesPerBrowser: 2,
+      idleTimeoutMs: 60000,
+      acquireTimeoutMs: 1000,
+      ...options,
+    });
+    return pool;
+  };
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    browsers = [];
+    launch.mockImplementation(async () => {
+      const browser = fakeBrowser();
+      browsers.push(browser);
+      return browser as unknown as Browser;
+    });
+  });
+
+  afterEach(async () => {
+    await pool.shutdown();
+    jest.useRealTimers();
+  });
+
+  it('should share a browser up to its page limit and launch another one beyond', async () => {
+    createPool({ maxBrowsers: 2, pagesPerBrowser: 2 });
+
+    await Promise.all([pool.acquirePage(), pool.acquirePage()]);
+    expect(launch).toHaveBeenCalledTimes(1);
+
+    await pool.acquirePage();
+    expect(launch).toHaveBeenCalledTimes(2);
+    expect(pool.getStats()).toEqual({ browsers: 2, activePages: 3, waiting: 0 });
+  });
+
+  it('should queue callers at the page cap and serve them as pages are released', async () => {
+    createPool({ maxConcurrentPages: 1 });
+
+    const first = await pool.acquirePage();
+    const second = pool.acquirePage();
+    await Promise.resolve();
+
+    expect(pool.getStats()).toEqual({ browsers: 1, activePages: 1, waiting: 1 });
+
+    await pool.releasePage(first);
+
+    await expect(second).resolves.toBeDefined();
+    expect(first.close).toHaveBeenCalled();
+    expect(pool.getStats()).toEqual({ browsers: 1, activePages: 1, waiting: 0 });
+  });
+
+  it('should give up waiting after the acquire timeout', async () => {
+    createPool({ maxConcurrentPages: 1, acquireTimeoutMs: 20 });
+
+    await pool.acquirePage();
+
+    await expect(pool.acquirePage()).rejects.toThrow(
+      'Timed out after 20ms waiting for a browser page'
+    );
+    expect(pool.getStats().waiting).toBe(0);
+  });
+
+  it('should drop an aborted waiter and release an aborted page', async () => {
+    createPool({ maxConcurrentPages: 1 });
+    const holder = new AbortController();
+    const waiter = new AbortController();
+
+    const page = await pool.acquirePage(holder.signal);
+    const waiting = pool.acquirePage(waiter.signal);
+    waiter.abort();
+
+    await expect(waiting).rejects.toThrow('Browser page request was aborted');
+    expect(pool.getStats()).toEqual({ browsers: 1, activePages: 1, waiting: 0 });
+
+    holder.abort();
+    await new Promise(resolve => setImmediate(resolve));
+
+    expect(page.close).toHaveBeenCalled();
+    expect(pool.getStats().activePages).toBe(0);
+    await expect(pool.acquirePage()).resolves.toBeDefined();
+  });
+
+  it('should close browsers that stay idle', async () => {
+    jest.useFakeTimers();
+    createPool({ idleTimeoutMs: 2000 });
+
+    await pool.releasePage(await pool.acquirePage());
+    jest.advanceTimersByTime(1000);
+    expect(pool.getStats().browsers).toBe(1);
+
+    jest.advanceTimersByTime(1000);
+    await Promise.resolve();
+
+    expect(pool.getStats().browsers).toBe(0);
+    expect(browsers[0].close).toHaveBeenCalled();
+  });
+
+  it('should replace a browser that crashed or failed to launch', async () => {
+    createPool();
+
+    await pool.acquirePage();
+    browsers[0].emit('disconnected');
+    expect(pool.getStats().browsers).toBe(0);
+
+    launch.mockRejectedValueOnce(new Error('Failed to launch the browser process'));
+    await expect(pool.acquirePage()).rejects.toThrow('Failed to launch the browser process');
+    expect(pool.getStats()).toEqual({ browsers: 0, activePages: 0, waiting: 0 });
+
+    await pool.acquirePage();
+    expect(launch).toHaveBeenCalledTimes(3);
+    expect(pool.getStats()).toEqual({ browsers: 1, activePages: 1, waiting: 0 });
+  });
+
+  it('should reject waiters and close every browser on shutdown', async () => {
+    createPool({ maxConcurrentPages: 1 });
+
+    await pool.acquirePage();
+    const waiting = pool.acquirePage();
+    await pool.shutdown();
+
+    await expect(waiting).rejects.toThrow('Browser pool is shutting down');
+    await expect(pool.acquirePage()).rejects.toThrow('Browser pool is shutting down');
+    expect(browsers[0].close).toHaveBeenCalled();
+    expect(pool.getStats()).toEqual({ browsers: 0, activePages: 0, waiting: 0 });
+  });
+});
@@ -0,0 +1,175 @@
+import path from 'path';
+import { CheerioFetcher } from '../../services/fetchers/cheerio.fetcher';
+import { FixtureStore } from '../../services/fetchers/fixtures';
+import { InstagramTransport, ReplayTransport } from '../../services/fetchers/transport';
+
+// Recorded with INSTAGRAM_FIXTURE_MODE=record, replayed without touching instagram.com
+const fixtures = new FixtureStore(path.join(__dirname, '..', 'fixtures', 'instagram'));
+
+describe('Cheerio fetcher with replayed fixtures', () => {
+  const fetcher = new CheerioFetcher(new ReplayTransport(fixtures));
+  const config = { username: 'fixtureuser', strategies: [] };
+
+  it('should parse posts from window._sharedData and follow the timeline cursor', async () => {
+    const response = await fetcher.fetchRecentPosts(config, { limit: 3 });
+
+    expect(response.success).toBe(true);
+    expect(response.data?.map(post => post.id)).toEqual(['post-3', 'post-2', 'post-1']);
+
+    const [carousel, image, video] = response.data || [];
+    expect(carousel).toMatchObject({
+      caption: 'Carousel with a video',
+      mediaType: 'carousel',
+      timestamp: '2024-01-02T11:00:00.000Z',
+      likes: 42,
+      postUrl: 'https://www.instagram.com/p/CAROUSEL3/',
+    });
+    expect(carousel.media).toEqual([
+      {
+        type: 'image',
+        url: 'https://cdn.example.com/post-3-slide-1.jpg',
+        width: 1080,
+        height: 1350,
+      },
+      {
+        type: 'video',
+        url: 'https://cdn.example.com/post-3-slide-2.mp4',
+        thumbnailUrl: 'https://cdn.example.com/post-3-slide-2.jpg',
+        width: 1080,
+        height: 1920,
+      },
+    ]);
+    expect(image.mediaType).toBe('image');
+    expect(video).toMatchObject({ mediaType: 'video', caption: 'No caption' });
+  });
+
+  it('should not load further pages when the profile page has enough posts', async () => {
+    const response = await fetcher.fetchRecentPosts(config, { limit: 2 });
+
+    expect(response.success).toBe(true);
+    expect(response.data).toHaveLength(2);
+  });
+
+  it('should stop at posts older than since', async () => {
+    const response = await fetcher.fetchRecentPosts(config, {
+      limit: 3,
+      since: new Date('2024-01-02T00:00:00Z'),
+    });
+
+    expect(response.success).toBe(true);
+    expect(response.data?.map(post => post.id)).toEqual(['post-3']);
+  });
+
+  it('should not let an older pinned post take the place of the latest post', async () => {
+    const response = await fetcher.fetchRecentPosts(
+      { username: 'pinneduser', strategies: [] },
+      { limit: 1 }
+    );
+
+    expect(response.success).toBe(true);
+    expect(response.data?.map(post => post.id)).toEqual(['post-5']);
+  });
+
+  it('should map a reel as a video with its cover as thumbnail', async () => {
+    const sharedData = {
+      entry_data: {
+        ProfilePage: [
+          {
+            graphql: {
+              user: {
+                id: '7654321',
+                edge_owner_to_timeline_media: {
+                  page_info: { has_next_page: false },
+                  edges: [
+                    {
+                      node: {
+                        id: 'reel-1',
+                        shortcode: 'REEL1',
+                        product_type: 'clips',
+                        is_video: true,
+                        video_url: 'https://cdn.example.com/reel-1.mp4',
+                        display_url: 'https://cdn.example.com/reel-1.jpg',
+                        dimensions: { width: 1080, height: 1920 },
+                        taken_at_timestamp: 1704193200,
+                        edge_media_to_caption: { edges: [{ node: { text: 'A reel' } }] },
+                      },
+                    },
+                  ],
+                },
+              },
+            },
+          },
+        ],
+      },
+    };
+    const transport: InstagramTransport = {
+      get: jest.fn().mockResolvedValue({
+        status: 200,
+        data: `<html><body><script>window._sharedData = ${JSON.stringify(sharedData)};</script></body></html>`,
+      }),
+    };
+
+    const response = await new CheerioFetcher(transport).fetchRecentPosts(
+      { username: 'reeluser', strategies: [] },
+      { limit: 1 }
+    );
+
+    expect(response.data).toEqual([
+      expect.objectContaining({
+        caption: 'A reel',
+        mediaType: 'video',
+        imageUrl: 'https://cdn.example.com/reel-1.jpg',
+        media: [
+          {
+            type: 'video',
+            url: 'https://cdn.example.com/reel-1.mp4',
+            thumbnailUrl: 'https://cdn.example.com/reel-1.jpg',
+            width: 1080,
+            height: 1920,
+          },
+        ],
+      }),
+    ]);
+  });
+
+  it('should reject requests that were never recorded', async () => {
+    const transport = new ReplayTransport(fixtures);
+
+    await expect(transport.get('https://www.instagram.com/unknownuser/')).rejects.toThrow(
+      'No recorded fixture for https://www.instagram.com/unknownuser/'
+    );
+  });
+
+  it('should read the profile from the graphql.user data', async () => {
+    const response = await fetcher.fetchProfile(config);
+
+    expect(response).toEqual({
+      success: true,
+      data: {
+        id: '1234567',
+        username: 'fixtureuser',
+        fullName: 'Fixture User',
+        biography: 'Recorded for parser tests',
+        avatarUrl: 'https://cdn.example.com/avatar.jpg',
+        followers: 1520,
+        following: 12,
+        postCount: 3,
+        isVerified: true,
+        externalUrl: 'https://example.com/',
+      },
+    });
+  });
+
+  it('should fall back to the meta tags when the profile has no embedded data', async () => {
+    const response = await fetcher.fetchProfile({ username: 'metaonlyuser', strategies: [] });
+
+    expect(response.data).toEqual({
+      username: 'metaonlyuser',
+      fullName: 'Meta Only',
+      avatarUrl: 'https://cdn.example.com/meta-avatar.jpg',
+      followers: 1200000,
+      following: 80,
+      postCount: 4321,
+    });
+  });
+});
@@ -0,0 +1,246 @@
+import { crossPostService } from '../../services/crossPost.service';
+import { draftService } from '../../services/draft.service';
+import { historyService } from '../../services/history.service';
+import { llmService } from '../../services/llm.service';
+import { twitterService } from '../../services/twitter.service';
+import { jobQueue } from '../../services/jobQueue.service';
+import { webhookService } from '../../services/webhook.service';
+import { InstagramPost } from '../../interfaces/instagram.interface';
+import { InstagramSource } from '../../interfaces/source.interface';
+import { Draft } from '../../interfaces/draft.interface';
+
+jest.mock('../../services/llm.service');
+jest.mock('../../services/twitter.service');
+
+describe('Cross-post service', () => {
+  const source: InstagramSource = {
+    id: 'newsroom',
+    name: 'Newsroom',
+    username: 'newsroom',
+    settings: { imageUpload: true, publishMode: 'approval' },
+    createdAt: '2024-01-01T00:00:00.000Z',
+    updatedAt: '2024-01-01T00:00:00.000Z',
+  };
+
+  const post = (id: string): InstagramPost => ({
+    id,
+    caption: `Caption of ${id}`,
+    imageUrl: `https://cdn.example.com/${id}.jpg`,
+    mediaType: 'carousel',
+    media: [
+      { type: 'image', url: `https://cdn.example.com/${id}.jpg` },
+      {
+        type: 'video',
+        url: `https://cdn.example.com/${id}.mp4`,
+        thumbnailUrl: `https://cdn.example.com/${id}-thumb.jpg`,
+      },
+    ],
+    timestamp: '2024-01-01T08:00:00.000Z',
+  });
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    (llmService.summarizeText as jest.Mock).mockResolvedValue({ summary: 'Generated summary' });
+    (twitterService.postTweetWithMedia as jest.Mock).mockResolvedValue({
+      success: true,
+      data: { id: 'tweet-1' },
+    });
+    (twitterService.postTweet as jest.Mock).mockResolvedValue({
+      success: true,
+      data: { id: 'tweet-2' },
+    });
+  });
+
+  it('should store a pending draft instead of tweeting when approval is required', async () => {
+    const result = await crossPostService.crossPost(source, post('a'));
+
+    expect(result.status).toBe('drafted');
+    expect(result.draft).toMatchObject({
+      sourceId: 'newsroom',
+      postKey: 'a',
+      summary: 'Generated summary',
+      imageUrl: 'https://cdn.example.com/a.jpg',
+      status: 'pending',
+    });
+    expect(twitterService.postTweet).not.toHaveBeenCalled();
+    expect(twitterService.postTweetWithMedia).not.toHaveBeenCalled();
+  });
+
+  it('should reuse the pending draft of a post', async () => {
+    const result = await crossPostService.crossPost(source, post('a'));
+
+    expect(result.status).toBe('drafted');
+    expect(llmService.summarizeText).not.toHaveBeenCalled();
+    expect(draftService.list({ status: 'pending' })).toHaveLength(1);
+  });
+
+  it('should post an edited draft on approval and record it in the history', async () => {
+    const draft = draftService.findByPost(post('a')) as Draft;
+    draftService.update(draft.id, {
+      summary: 'Edited summary',
+      imageUrl: 'https://cdn.example.com/a-thumb.jpg',
+    });
+
+    const result = await crossPostService.approveDraft(draft.id);
+
+    expect(twitterService.postTweetWithMedia).toHaveBeenCalledWith(
+      'Edited summary',
+      'https://cdn.example.com/a-thumb.jpg'
+    );
+    expect(result).toMatchObject({ status: 'published', tweetId: 'tweet-1' });
+    expect(result.draft).toMatchObject({ status: 'published', tweetId: 'tweet-1' });
+    expect(historyService.findPublished(post('a'))?.summary).toBe('Edited summary');
+    expect(() => draftService.getPending(draft.id)).toThrow(
+      `Draft ${draft.id} is already published`
+    );
+  });
+
+  it('should keep the draft pending when the approved tweet fails', async () => {
+    const draft = (await crossPostService.crossPost(source, post('b'))).draft as Draft;
+    draftService.update(draft.id, { imageUrl: null });
+    (twitterService.postTweet as jest.Mock).mockResolvedValueOnce({
+      success: false,
+      error: 'Twitter API error',
+    });
+
+    const result = await crossPostService.approveDraft(draft.id);
+
+    expect(twitterService.postTweet).toHaveBeenCalledWith('Generated summary');
+    expect(result.status).toBe('failed');
+    expect(result.draft).toMatchObject({ status: 'pending', error: 'Twitter API error' });
+  });
+
+  it('should only accept images of the post when editing', () => {
+    const draft = draftService.findByPost(post('b')) as Draft;
+
+    expect(() =>
+      draftService.update(draft.id, { imageUrl: 'https://elsewhere.example.com/x.jpg' })
+    ).toThrow('Image URL must be one of the images of the Instagram post');
+  });
+
+  it('should skip a rejected post unless forced', async () => {
+    const draft = draftService.findByPost(post('b')) as Draft;
+    draftService.reject(draft.id, 'Off-brand');
+
+    const skipped = await crossPostService.crossPost(source, post('b'));
+    const forced = await crossPostService.crossPost(source, post('b'), { force: true });
+
+    expect(skipped).toMatchObject({ status: 'skipped', draft: { rejectionReason: 'Off-brand' } });
+    expect(forced.status).toBe('drafted');
+    expect(forced.draft?.id).not.toBe(draft.id);
+  });
+
+  it('should tweet right away in auto mode', async () => {
+    const result = await crossPostService.crossPost(
+      { ...source, settings: { imageUpload: false, publishMode: 'auto' } },
+      post('c')
+    );
+
+    expect(result).toMatchObject({ status: 'published', tweetId: 'tweet-2' });
+    expect(draftService.findByPost(post('c'))).toBeUndefined();
+  });
+
+  it('should queue a retry when the tweet fails with a temporary error', async () => {
+    const auto = { ...source, settings: { imageUpload: false, publishMode: 'auto' as const } };
+    (twitterService.postTweet as jest.Mock).mockResolvedValueOnce({
+      success: false,
+      error: 'Service unavailable',
+      statusCode: 503,
+      retryable: true,
+    });
+
+    const result = await crossPostService.crossPost(auto, post('d'));
+
+    expect(result).toMatchObject({ status: 'queued', error: 'Service unavailable' });
+    expect(result.job).toMatchObject({ type: 'publish', status: 'queued', attempts: 1 });
+    expect(
+      historyService.list({ status: 'failed' }).entries.map(entry => entry.postKey)
+    ).not.toContain('d');
+
+    const retried = await jobQueue.runNow(result.job?.id as string);
+
+    expect(retried).toMatchObject({ status: 'completed', attempts: 2 });
+    expect(historyService.findPublished(post('d'))).toMatchObject({ tweetId: 'tweet-2' });
+  });
+
+  it('should not change a draft whose approval is queued for a retry', async () => {
+    const draft = (await crossPostService.crossPost(source, post('e'))).draft as Draft;
+    (twitterService.postTweetWithMedia as jest.Mock).mockResolvedValueOnce({
+      success: false,
+      error: 'Service unavailable',
+      statusCode: 503,
+      retryable: true,
+    });
+
+    const result = await crossPostService.approveDraft(draft.id);
+    const jobId = result.job?.id as string;
+
+    expect(result.status).toBe('queued');
+    expect(() => draftService.reject(draft.id)).toThrow(
+      `Draft ${draft.id} is queued for publishing as job ${jobId}`
+    );
+    expect(() => draftService.update(draft.id, { summary: 'Too late' })).toThrow(
+      `Draft ${draft.id} is queued for publishing as job ${jobId}`
+    );
+
+    jobQueue.discard(jobId);
+    expect(draftService.reject(draft.id).status).toBe('rejected');
+  });
+
+  it('should notify webhooks of a queued post once its retry is published', async () => {
+    const auto = { ...source, settings: { imageUpload: false, publishMode: 'auto' as const } };
+    (twitterService.postTweet as jest.Mock).mockResolvedValueOnce({
+      success: false,
+      error: 'Service unavailable',
+      statusCode: 503,
+      retryable: true,
+    });
+    const emit = jest.spyOn(webhookService, 'emit');
+
+    const result = await crossPostService.crossPost(auto, post('f'));
+    expect(emit.mock.calls.map(call => call[0])).toEqual(['post.detected', 'summary.generated']);
+
+    await jobQueue.runNow(result.job?.id as string);
+
+    expect(emit.mock.calls.map(call => call[0])).toEqual([
+      'post.detected',
+      'summary.generated',
+      'tweet.published',
+    ]);
+    expect(emit).toHaveBeenLastCalledWith('tweet.published', {
+      sourceId: 'newsroom',
+      post: post('f'),
+      summary: 'Generated summary',
+      tweet: { id: 'tweet-2', text: 'Generated summary' },
+    });
+    emit.mockRestore();
+  });
+
+  it('should notify webhooks of approved drafts and of tweets that will not be retried', async () => {
+    const draft = (await crossPostService.crossPost(source, post('g'))).draft as Draft;
+    const emit = jest.spyOn(webhookService, 'emit');
+
+    await crossPostService.approveDraft(draft.id);
+
+    expect(emit.mock.calls.map(call => call[0])).toEqual(['tweet.published']);
+
+    const auto = { ...source, settings: { imageUpload: false, publishMode: 'auto' as const } };
+    (twitterService.postTweet as jest.Mock).mockResolvedValueOnce({
+      success: false,
+      error: 'Forbidden',
+      statusCode: 403,
+    });
+
+    const result = await crossPostService.crossPost(auto, post('h'));
+
+    expect(result.status).toBe('failed');
+    expect(emit).toHaveBeenLastCalledWith('tweet.failed', {
+      sourceId: 'newsroom',
+      post: post('h'),
+      summary: 'Generated summary',
+      error: 'Forbidden',
+    });
+    expect(emit.mock.calls.filter(call => call[0] === 'tweet.failed')).toHaveLength(1);
+    emit.mockRestore();
+  });
+});
@@ -0,0 +1,51 @@
+import {
+  extractiveSummarizer,
+  splitSentences,
+} from '../../services/summarizers/extractive.summarizer';
+
+describe('Extractive summarizer', () => {
+  const caption =
+    'Storm Ciarán has brought winds of up to 100mph to parts of the UK. ' +
+    'Thousands of homes are without power after the storm hit overnight. ' +
+    'Schools in Jersey are closed. ' +
+    'Read more at bbc.co.uk/news\n\n#storm #weather @bbcnews';
+
+  it('should leave out sentences with links and the trailing hashtags', () => {
+    expect(
+      splitSentences(
+        'Flooding in #York this morning. Roads are shut.\nSee https://bbc.in/x\n#uk #news'
+      )
+    ).toEqual(['Flooding in York this morning.', 'Roads are shut.']);
+  });
+
+  it('should return the caption sentences that fit, in their original order', async () => {
+    const summary = await extractiveSummarizer.summarize(caption, 280);
+
+    expect(summary).toBe(
+      'Storm Ciarán has brought winds of up to 100mph to parts of the UK. ' +
+        'Thousands of homes are without power after the storm hit overnight. ' +
+        'Schools in Jersey are closed.'
+    );
+  });
+
+  it('should pick the most telling sentences when not all of them fit', async () => {
+    const summary = await extractiveSummarizer.summarize(caption, 140);
+
+    expect(summary.length).toBeLessThanOrEqual(140);
+    expect(summary).toBe(
+      'Storm Ciarán has brought winds of up to 100mph to parts of the UK. ' +
+        'Thousands of homes are without power after the storm hit overnight.'
+    );
+    await expect(extractiveSummarizer.summarize(caption, 140)).resolves.toBe(summary);
+  });
+
+  it('should shorten a single long sentence at a word boundary', async () => {
+    const summary = await extractiveSummarizer.summarize(
+      'The council has confirmed that the bridge will stay closed for repairs until next spring',
+      40
+    );
+
+    expect(summary).toBe('The council has confirmed that the…');
+    expect(summary.length).toBeLessThanOrEqual(40);
+  });
+});
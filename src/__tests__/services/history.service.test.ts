@@ -0,0 +1,109 @@
+import fs from 'fs';
+import path from 'path';
+import { historyService } from '../../services/history.service';
+import { InstagramPost } from '../../interfaces/instagram.interface';
+
+describe('History service', () => {
+  const post: InstagramPost = {
+    id: '17900000000000001',
+    caption: 'Morning headlines',
+    imageUrl: 'https://cdn.example.com/headlines.jpg',
+    mediaType: 'image',
+    media: [],
+    timestamp: '2024-01-01T08:00:00.000Z',
+    postUrl: 'https://www.instagram.com/p/HEADLINES/',
+  };
+
+  it('should identify posts by their shortcode', () => {
+    expect(historyService.getPostKey(post)).toBe('shortcode:HEADLINES');
+    expect(historyService.getPostKey({ ...post, postUrl: undefined })).toBe('17900000000000001');
+    expect(
+      historyService.getPostKey({
+        caption: '',
+        postUrl: 'https://www.instagram.com/p/HEADLINES/?img_index=2',
+      })
+    ).toBe('shortcode:HEADLINES');
+    expect(
+      historyService.getPostKey({ caption: '', postUrl: 'https://instagram.com/reel/HEADLINES' })
+    ).toBe('shortcode:HEADLINES');
+  });
+
+  it('should only treat published cross-posts as duplicates', () => {
+    historyService.record('default', post, { status: 'failed', error: 'Twitter API error' });
+    expect(historyService.findPublished(post)).toBeUndefined();
+
+    const entry = historyService.record('default', post, {
+      status: 'published',
+      tweetId: '67890',
+      summary: 'Morning headlines, summarized',
+    });
+
+    expect(historyService.findPublished({ ...post, postUrl: undefined })).toBeUndefined();
+    expect(historyService.findPublished(post)).toEqual(entry);
+    expect(entry).toMatchObject({
+      sourceId: 'default',
+      postKey: 'shortcode:HEADLINES',
+      postUrl: post.postUrl,
+    });
+    expect(entry.postedAt).toBe(entry.createdAt);
+  });
+
+  it('should persist the history to the data directory', () => {
+    const file = path.join(process.env.DATA_DIR as string, 'history.json');
+    const stored = JSON.parse(fs.readFileSync(file, 'utf8'));
+
+    expect(stored.entries.map((entry: { status: string }) => entry.status)).toEqual([
+      'failed',
+      'published',
+    ]);
+  });
+
+  it('should list entries newest first with filters and pagination', () => {
+    historyService.record(
+      'bbc',
+      { ...post, id: 'bbc-1', caption: 'Election results' },
+      {
+        status: 'published',
+        tweetId: '1',
+        summary: 'Results are in',
+      }
+    );
+
+    expect(historyService.list().entries.map(entry => entry.sourceId)).toEqual([
+      'bbc',
+      'default',
+      'default',
+    ]);
+    expect(historyService.list({ sourceId: 'bbc' }).total).toBe(1);
+    expect(historyService.list({ status: 'failed' }).entries[0].error).toBe('Twitter API error');
+    expect(historyService.list({ search: 'RESULTS' }).entries[0].instagramPostId).toBe('bbc-1');
+    expect(historyService.list({ until: new Date('2000-01-01') }).total).toBe(0);
+    expect(historyService.list({ limit: 1, offset: 1 })).toMatchObject({
+      total: 3,
+      entries: [{ status: 'published', sourceId: 'default' }],
+    });
+  });
+
+  it('should match the same post fetched by different methods', () => {
+    const viaApi: InstagramPost = {
+      ...post,
+      id: '17900000000000002',
+      postUrl: 'https://www.instagram.com/reel/SAMEPOST/',
+    };
+    const viaCheerio: InstagramPost = {
+      ...post,
+      id: '3300000000000000002',
+      postUrl: 'https://www.instagram.com/p/SAMEPOST/',
+    };
+    const viaPuppeteer: InstagramPost = {
+      ...post,
+      id: undefined,
+      postUrl: 'https://www.instagram.com/p/SAMEPOST/?img_index=1',
+    };
+
+    const entry = historyService.record('default', viaApi, { status: 'published', tweetId: '2' });
+
+    expect(historyService.findPublished(viaCheerio)).toEqual(entry);
+    expect(historyService.findPublished(viaPuppeteer)).toEqual(entry);
+  });
+});
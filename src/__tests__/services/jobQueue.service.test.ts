@@ -0,0 +1,163 @@
+import * as fs from 'fs';
+import path from 'path';
+import { jobQueue, JobError } from '../../services/jobQueue.service';
+import { getDataDir } from '../../utils/jsonStore';
+
+describe('Job queue service', () => {
+  const handler = jest.fn();
+
+  beforeAll(() => {
+    jobQueue.register('test', handler, { maxAttempts: 3, baseDelayMs: 1000, maxDelayMs: 1500 });
+  });
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    handler.mockResolvedValue('done');
+    jobQueue.list().forEach(job => jobQueue.discard(job.id));
+  });
+
+  afterEach(() => {
+    jobQueue.stop();
+    jest.useRealTimers();
+    delete process.env.JOB_RETENTION_COUNT;
+  });
+
+  it('should complete a job and keep the result of its handler', async () => {
+    const job = jobQueue.enqueue('test', { value: 1 });
+
+    const attempted = await jobQueue.runNow(job.id);
+
+    expect(handler).toHaveBeenCalledWith(expect.objectContaining({ payload: { value: 1 } }));
+    expect(attempted).toMatchObject({ status: 'completed', attempts: 1, result: 'done' });
+    expect(attempted.completedAt).toBeDefined();
+  });
+
+  it('should back off exponentially after retryable failures', async () => {
+    handler.mockRejectedValue(new Error('Service unavailable'));
+    const job = jobQueue.enqueue('test', {});
+
+    const before = Date.now();
+    const first = await jobQueue.runNow(job.id);
+    const firstDelay = new Date(first.runAt).getTime() - before;
+
+    expect(first).toMatchObject({
+      status: 'queued',
+      attempts: 1,
+      lastError: 'Service unavailable',
+    });
+    expect(firstDelay).toBeGreaterThanOrEqual(1000);
+    expect(firstDelay).toBeLessThan(1500);
+
+    const second = await jobQueue.runNow(job.id);
+    expect(new Date(second.runAt).getTime() - Date.now()).toBeGreaterThan(1400);
+    expect(second.failures.map(failure => failure.attempt)).toEqual([1, 2]);
+  });
+
+  it('should wait until the retry time of the error', async () => {
+    const retryAt = new Date(Date.now() + 60 * 1000);
+    handler.mockRejectedValueOnce(new JobError('Rate limited', { retryAt }));
+    const job = jobQueue.enqueue('test', {});
+
+    const attempted = await jobQueue.runNow(job.id);
+
+    expect(attempted.runAt).toBe(retryAt.toISOString());
+  });
+
+  it('should move a job to the dead-letter list when it runs out of attempts', async () => {
+    handler.mockRejectedValue(new Error('Service unavailable'));
+    const job = jobQueue.enqueue('test', {});
+
+    await jobQueue.runNow(job.id);
+    await jobQueue.runNow(job.id);
+    const attempted = await jobQueue.runNow(job.id);
+
+    expect(attempted).toMatchObject({ status: 'dead', attempts: 3 });
+    expect(jobQueue.list({ status: 'dead' }).map(dead => dead.id)).toContain(job.id);
+  });
+
+  it('should not retry errors that are not retryable', async () => {
+    handler.mockRejectedValueOnce(new JobError('Tweet too long', { retryable: false }));
+    const job = jobQueue.enqueue('test', {});
+
+    const attempted = await jobQueue.runNow(job.id);
+
+    expect(attempted).toMatchObject({ status: 'dead', attempts: 1, lastError: 'Tweet too long' });
+  });
+
+  it('should retry a dead job with a fresh set of attempts', async () => {
+    handler.mockRejectedValueOnce(new JobError('Tweet too long', { retryable: false }));
+    const job = jobQueue.enqueue('test', {});
+    await jobQueue.runNow(job.id);
+
+    const retried = jobQueue.retry(job.id);
+    expect(retried).toMatchObject({ status: 'queued', attempts: 0 });
+
+    const attempted = await jobQueue.runNow(job.id);
+    expect(attempted).toMatchObject({ status: 'completed', attempts: 1 });
+    expect(attempted.failures).toHaveLength(1);
+  });
+
+  it('should refuse to retry or run a completed job', async () => {
+    const job = jobQueue.enqueue('test', {});
+    await jobQueue.runNow(job.id);
+
+    expect(() => jobQueue.retry(job.id)).toThrow(expect.objectContaining({ statusCode: 409 }));
+    await expect(jobQueue.runNow(job.id)).rejects.toMatchObject({ statusCode: 409 });
+  });
+
+  it('should discard a job', () => {
+    const job = jobQueue.enqueue('test', {});
+
+    jobQueue.discard(job.id);
+
+    expect(() => jobQueue.get(job.id)).toThrow(expect.objectContaining({ statusCode: 404 }));
+  });
+
+  it('should drop finished jobs past their retention when a job finishes', async () => {
+    process.env.JOB_RETENTION_COUNT = '2';
+    handler.mockRejectedValueOnce(new JobError('Tweet too long', { retryable: false }));
+    const dead = jobQueue.enqueue('test', {});
+    await jobQueue.runNow(dead.id);
+
+    const completed = [];
+    for (let i = 0; i < 3; i++) {
+      completed.push(await jobQueue.runNow(jobQueue.enqueue('test', { value: i }).id));
+    }
+
+    // Only the newest completed jobs are kept, dead jobs stay retriable
+    expect(jobQueue.list().map(job => job.id)).toEqual([completed[2].id, completed[1].id, dead.id]);
+
+    jest.useFakeTimers({ doNotFake: ['nextTick', 'setImmediate'] });
+    jest.setSystemTime(Date.now() + 31 * 24 * 60 * 60 * 1000);
+    const latest = await jobQueue.runNow(jobQueue.enqueue('test', {}).id);
+
+    expect(jobQueue.list().map(job => job.id)).toEqual([latest.id]);
+  });
+
+  it('should run due jobs in the background once started', async () => {
+    jest.useFakeTimers({ doNotFake: ['nextTick', 'setImmediate'] });
+    const job = jobQueue.enqueue('test', {}, { runAt: new Date(Date.now() + 5000) });
+
+    jobQueue.start();
+    await jest.advanceTimersByTimeAsync(4000);
+    expect(handler).not.toHaveBeenCalled();
+
+    await jest.advanceTimersByTimeAsync(1000);
+    expect(handler).toHaveBeenCalledTimes(1);
+    expect(jobQueue.get(job.id).status).toBe('completed');
+  });
+
+  it('should requeue jobs that were running when the process stopped', async () => {
+    const job = jobQueue.enqueue('test', {});
+    const filePath = path.join(getDataDir(), 'jobs.json');
+    const state = JSON.parse(fs.readFileSync(filePath, 'utf8'));
+    state.jobs.find((stored: { id: string }) => stored.id === job.id).status = 'running';
+    fs.writeFileSync(filePath, JSON.stringify(state));
+
+    await jest.isolateModulesAsync(async () => {
+      const { jobQueue: restarted } = await import('../../services/jobQueue.service');
+
+      expect(restarted.get(job.id)).toMatchObject({ status: 'queued', payload: {} });
+    });
+  });
+});
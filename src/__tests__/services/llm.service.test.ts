@@ -0,0 +1,281 @@
+import http from 'http';
+import { AddressInfo } from 'net';
+import { llmService } from '../../services/llm.service';
+import { SUMMARIZERS } from '../../services/summarizers';
+import { promptTemplateService } from '../../services/promptTemplate.service';
+
+describe('LLM service', () => {
+  const originalEnv = { ...process.env };
+  let server: http.Server;
+  let baseUrl: string;
+  let received: { url?: string; headers: http.IncomingHttpHeaders; body: string } | undefined;
+  let reply: { status: number; body: unknown };
+
+  // Local stand-in of a self-hosted OpenAI-compatible server
+  beforeAll(async () => {
+    server = http.createServer((req, res) => {
+      let body = '';
+      req.on('data', chunk => (body += chunk));
+      req.on('end', () => {
+        received = { url: req.url, headers: req.headers, body };
+        res.writeHead(reply.status, { 'Content-Type': 'application/json' });
+        res.end(JSON.stringify(reply.body));
+      });
+    });
+    await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+    baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}/v1/`;
+  });
+
+  afterAll(async () => {
+    await new Promise(resolve => server.close(resolve));
+  });
+
+  beforeEach(() => {
+    received = undefined;
+    reply = { status: 200, body: { choices: [{ message: { content: '"Local summary"' } }] } };
+  });
+
+  afterEach(() => {
+    process.env = { ...originalEnv };
+    jest.restoreAllMocks();
+  });
+
+  it('should fall back to the next provider when the primary fails', async () => {
+    process.env.LLM_PROVIDERS = 'gemini,extractive';
+    jest.spyOn(SUMMARIZERS.gemini, 'summarize').mockRejectedValue(new Error('503 Unavailable'));
+
+    const result = await llmService.summarizeText({
+      text: 'Floods close the main road. Drivers are asked to avoid the area.',
+    });
+
+    expect(result).toEqual({
+      summary: 'Floods close the main road. Drivers are asked to avoid the area.',
+      provider: 'extractive',
+      model: undefined,
+      template: { id: 'default', version: 1 },
+    });
+  });
+
+  it('should skip providers that are not configured', async () => {
+    process.env.LLM_PROVIDERS = 'gemini,extractive';
+    delete process.env.GEMINI_API_KEY;
+    const gemini = jest.spyOn(SUMMARIZERS.gemini, 'summarize');
+
+    const result = await llmService.summarizeText({ text: 'Offline caption.' });
+
+    expect(result.provider).toBe('extractive');
+    expect(gemini).not.toHaveBeenCalled();
+  });
+
+  it('should use the configured model and keep summaries within the maximum length', async () => {
+    process.env.LLM_PROVIDERS = 'gemini';
+    process.env.GEMINI_MODEL = 'gemini-2.5-flash';
+    jest.spyOn(SUMMARIZERS.gemini, 'summarize').mockResolvedValue('x'.repeat(300));
+
+    const result = await llmService.summarizeText({ text: 'Caption', maxLength: 100 });
+
+    expect(result).toEqual({
+      summary: `${'x'.repeat(98)}…`,
+      provider: 'gemini',
+      model: 'gemini-2.5-flash',
+      template: { id: 'default', version: 1 },
+    });
+  });
+
+  it('should report the error of every provider when all of them fail', async () => {
+    process.env.LLM_PROVIDERS = 'gemini,unknown,extractive';
+    jest.spyOn(SUMMARIZERS.gemini, 'summarize').mockRejectedValue(new Error('Quota exceeded'));
+
+    expect(llmService.getProviders().map(provider => provider.name)).toEqual([
+      'gemini',
+      'extractive',
+    ]);
+    await expect(llmService.summarizeText({ text: '#only #hashtags' })).rejects.toThrow(
+      'Failed to summarize text: gemini: Quota exceeded; extractive: The caption has no text to summarize'
+    );
+  });
+
+  it('should summarize with an OpenAI-compatible server', async () => {
+    process.env.LLM_PROVIDERS = 'openai';
+    process.env.OPENAI_BASE_URL = baseUrl;
+    process.env.OPENAI_MODEL = 'llama3.1:8b';
+    process.env.OPENAI_API_KEY = 'local-key';
+
+    const result = await llmService.summarizeText({ text: 'Caption to summarize' });
+
+    expect(result).toEqual({
+      summary: 'Local summary',
+      provider: 'openai',
+      model: 'llama3.1:8b',
+      template: { id: 'default', version: 1 },
+    });
+    expect(received?.url).toBe('/v1/chat/completions');
+    expect(received?.headers.authorization).toBe('Bearer local-key');
+    expect(JSON.parse(received?.body || '{}')).toMatchObject({
+      model: 'llama3.1:8b',
+      messages: [{ role: 'user', content: expect.stringContaining('Caption to summarize') }],
+    });
+  });
+
+  it('should fall back when the OpenAI-compatible server fails', async () => {
+    process.env.LLM_PROVIDERS = 'openai,extractive';
+    process.env.OPENAI_BASE_URL = baseUrl;
+    delete process.env.OPENAI_API_KEY;
+    reply = { status: 500, body: { error: 'model not loaded' } };
+
+    const result = await llmService.summarizeText({ text: 'Server down.' });
+
+    expect(result.provider).toBe('extractive');
+    expect(received?.headers.authorization).toBeUndefined();
+  });
+
+  it('should reject a reply from the OpenAI-compatible server without message text', async () => {
+    process.env.LLM_PROVIDERS = 'openai';
+    process.env.OPENAI_BASE_URL = baseUrl;
+    reply = { status: 200, body: { choices: [{ message: { content: null } }] } };
+
+    await expect(llmService.summarizeText({ text: 'Caption to summarize' })).rejects.toThrow(
+      'Failed to summarize text: openai: The OpenAI-compatible server returned no message'
+    );
+  });
+
+  it('should write with the requested template, else the one of the source', async () => {
+    process.env.LLM_PROVIDERS = 'gemini';
+    const gemini = jest
+      .spyOn(SUMMARIZERS.gemini, 'summarize')
+      .mockResolvedValue('Kick-off moved to 8pm 🎉 #matchday');
+    promptTemplateService.create({
+      id: 'matchday',
+      body: 'Tweet for @{{username}} on {{date}}: {{caption}} ({{postUrl}}, {{maxLength}})',
+      emoji: false,
+      hashtags: false,
+      suffix: 'Tickets in bio',
+    });
+
+    const fromSource = await llmService.summarizeText({
+      text: 'Kick-off is moved',
+      sourceTemplate: 'matchday',
+      variables: { username: 'club', date: '2024-05-01' },
+    });
+    const requested = await llmService.summarizeText({
+      text: 'Kick-off is moved',
+      template: 'news',
+      sourceTemplate: 'matchday',
+    });
+
+    expect(gemini).toHaveBeenNthCalledWith(
+      1,
+      'Kick-off is moved',
+      265,
+      'Tweet for @club on 2024-05-01: Kick-off is moved (, 265)'
+    );
+    expect(fromSource).toMatchObject({
+      summary: 'Kick-off moved to 8pm Tickets in bio',
+      template: { id: 'matchday', version: 1 },
+    });
+    expect(requested).toMatchObject({
+      summary: 'Kick-off moved to 8pm',
+      template: { id: 'news', version: 1 },
+    });
+    await expect(
+      llmService.summarizeText({ text: 'Caption', template: 'unknown' })
+    ).rejects.toThrow('Prompt template not found: unknown');
+  });
+
+  it('should ask again for a shorter summary, then shorten it at a word boundary', async () => {
+    process.env.LLM_PROVIDERS = 'gemini';
+    const long = `Match report: ${'goal '.repeat(20).trim()} https://example.com/report`;
+    const gemini = jest
+      .spyOn(SUMMARIZERS.gemini, 'summarize')
+      .mockResolvedValueOnce(long)
+      .mockResolvedValueOnce('Late winner seals the title 🏆')
+      .mockResolvedValueOnce(long)
+      .mockRejectedValueOnce(new Error('Quota exceeded'));
+
+    const retried = await llmService.summarizeText({ text: 'Caption', maxLength: 100 });
+    const shortened = await llmService.summarizeText({ text: 'Caption', maxLength: 100 });
+
+    // 14 characters, 99 of goals, a space and 23 for the link are 37 over the limit
+    expect(gemini).toHaveBeenNthCalledWith(2, 'Caption', 63, expect.stringContaining('max 63'));
+    expect(retried.summary).toBe('Late winner seals the title 🏆');
+    expect(shortened.summary).toBe(`Match report: ${'goal '.repeat(17).trim()}…`);
+  });
+
+  it('should write a numbered thread from tweets separated by --- lines', async () => {
+    process.env.LLM_PROVIDERS = 'gemini';
+    const gemini = jest
+      .spyOn(SUMMARIZERS.gemini, 'summarize')
+      .mockResolvedValue(
+        'Polls open at 7am.\n---\nCounting starts at 10pm #vote\n---\nResults by dawn.'
+      );
+
+    const result = await llmService.summarizeThread({ text: 'Caption', template: 'news' });
+
+    expect(result).toEqual({
+      tweets: ['Polls open at 7am. 1/3', 'Counting starts at 10pm 2/3', 'Results by dawn. 3/3'],
+      provider: 'gemini',
+      model: expect.any(String),
+      template: { id: 'news', version: 1 },
+    });
+    // Every tweet leaves room for the widest number, " 8/8"
+    expect(gemini).toHaveBeenCalledWith(
+      'Caption',
+      276 * 8,
+      expect.stringContaining('at most 8 tweets of at most 276 characters each')
+    );
+  });
+
+  it('should split a thread at sentence boundaries and keep it within the most tweets', async () => {
+    process.env.LLM_PROVIDERS = 'gemini';
+    jest
+      .spyOn(SUMMARIZERS.gemini, 'summarize')
+      .mockResolvedValue(
+        'The river burst its banks overnight. Homes near the bridge were evacuated. ' +
+          'Volunteers hand out sandbags at the town hall.'
+      );
+
+    const result = await llmService.summarizeThread({
+      text: 'Caption',
+      maxLength: 60,
+      maxTweets: 2,
+    });
+
+    expect(result.tweets).toEqual([
+      'The river burst its banks overnight. 1/2',
+      'Homes near the bridge were evacuated. 2/2',
+    ]);
+  });
+
+  it('should write candidates with their own temperature and pick the best scored one', async () => {
+    process.env.LLM_PROVIDERS = 'gemini';
+    process.env.SUMMARY_BANNED_WORDS = 'shocking, must see';
+    const caption =
+      'Leeds United beat Everton 3-1 on Saturday. Fans celebrated in the city centre.';
+    const outputs: Record<number, string> = {
+      0.7: 'A football match happened.',
+      0.3: 'Leeds United beat Everton 3-1 on Saturday, and fans celebrated in the city centre.',
+      0.5: 'Shocking: Leeds United beat Everton 3-1 on Saturday!',
+    };
+    const gemini = jest
+      .spyOn(SUMMARIZERS.gemini, 'summarize')
+      .mockImplementation(async (_text, _maxLength, _prompt, options) =>
+        options?.temperature === 0.9
+          ? Promise.reject(new Error('Quota exceeded'))
+          : outputs[options?.temperature ?? 0] || outputs[0.7]
+      );
+
+    const result = await llmService.summarizeText({ text: caption, maxLength: 100, candidates: 4 });
+
+    expect(gemini).toHaveBeenCalledTimes(4);
+    expect(gemini).toHaveBeenCalledWith(
+      caption,
+      100,
+      expect.stringContaining('Lead with the most important fact.'),
+      { temperature: 0.3 }
+    );
+    expect(result.summary).toBe(outputs[0.3]);
+    expect(result.candidates?.map(candidate => candidate.temperature)).toEqual([0.3, 0.7, 0.5]);
+    expect(result.candidates?.[0].score).toMatchObject({ entities: 1, bannedWords: [] });
+    expect(result.candidates?.[2].score).toMatchObject({ total: 0, bannedWords: ['shocking'] });
+  });
+});
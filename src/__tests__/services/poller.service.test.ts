@@ -0,0 +1,127 @@
+import InstagramService from '../../services/instagram.service';
+import { crossPostService } from '../../services/crossPost.service';
+import { pollerService } from '../../services/poller.service';
+import { sourceService } from '../../services/source.service';
+import { InstagramPost } from '../../interfaces/instagram.interface';
+
+jest.mock('../../services/crossPost.service');
+
+const post = (id: string, hour: number): InstagramPost => ({
+  id,
+  caption: `Post ${id}`,
+  imageUrl: `https://cdn.example.com/${id}.jpg`,
+  mediaType: 'image',
+  media: [],
+  timestamp: new Date(Date.UTC(2024, 0, 1, hour)).toISOString(),
+});
+
+describe('Poller service', () => {
+  const getRecentPosts = jest.spyOn(InstagramService.prototype, 'getRecentPosts');
+  const crossPost = crossPostService.crossPost as jest.Mock;
+
+  const respondWith = (...posts: InstagramPost[]) =>
+    getRecentPosts.mockResolvedValueOnce({ success: true, data: posts });
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    crossPost.mockImplementation(async (source, item) => ({ status: 'published', post: item }));
+  });
+
+  afterEach(() => {
+    pollerService.stop();
+    delete process.env.POLL_ENABLED;
+    delete process.env.POLL_JITTER_MS;
+  });
+
+  it('should only remember the latest post on the first poll', async () => {
+    respondWith(post('p2', 2), post('p1', 1));
+
+    const run = await pollerService.run('default');
+
+    expect(run).toMatchObject({ trigger: 'manual', found: 0, published: 0 });
+    expect(crossPost).not.toHaveBeenCalled();
+    expect(pollerService.getStatus('default')).toMatchObject({
+      lastSeenPostKey: 'p2',
+      lastSeenPostAt: post('p2', 2).timestamp,
+      lastRunAt: run.startedAt,
+    });
+  });
+
+  it('should cross-post newer posts oldest first', async () => {
+    respondWith(post('p4', 4), post('p3', 3), post('p2', 2));
+
+    const run = await pollerService.run('default');
+
+    expect(getRecentPosts).toHaveBeenCalledWith({ limit: 5, since: post('p2', 2).timestamp });
+    expect(crossPost.mock.calls.map(call => call[1].id)).toEqual(['p3', 'p4']);
+    expect(crossPost.mock.calls[0][0]).toMatchObject({ id: 'default' });
+    expect(run).toMatchObject({ found: 2, published: 2, failed: 0 });
+    expect(pollerService.getStatus('default').lastSeenPostKey).toBe('p4');
+  });
+
+  it('should stop at a failed cross-post so it is retried on the next poll', async () => {
+    respondWith(post('p6', 6), post('p5', 5));
+    crossPost.mockResolvedValueOnce({ status: 'failed', error: 'Twitter API error' });
+
+    const run = await pollerService.run('default');
+
+    expect(crossPost).toHaveBeenCalledTimes(1);
+    expect(run).toMatchObject({ found: 2, published: 0, failed: 1, error: 'Twitter API error' });
+    expect(pollerService.getStatus('default').lastSeenPostKey).toBe('p4');
+  });
+
+  it('should record a failed fetch', async () => {
+    getRecentPosts.mockResolvedValueOnce({ success: false, error: 'All methods failed' });
+
+    const run = await pollerService.run('default');
+
+    expect(run.error).toBe('All methods failed');
+    expect(pollerService.getStatus('default').lastRun?.error).toBe('All methods failed');
+  });
+
+  it('should share a running poll between concurrent triggers', async () => {
+    respondWith();
+
+    const [first, second] = await Promise.all([
+      pollerService.run('default'),
+      pollerService.run('default'),
+    ]);
+
+    expect(first).toBe(second);
+    expect(getRecentPosts).toHaveBeenCalledTimes(1);
+  });
+
+  it('should schedule the next poll only while enabled and not paused', () => {
+    pollerService.start();
+    expect(pollerService.getStatus('default')).toMatchObject({ enabled: false });
+    expect(pollerService.getStatus('default').nextRunAt).toBeUndefined();
+
+    process.env.POLL_ENABLED = 'true';
+    pollerService.start();
+    expect(pollerService.getStatus('default')).toMatchObject({ enabled: true, paused: false });
+    expect(pollerService.getStatus('default').nextRunAt).toBeDefined();
+
+    expect(pollerService.pause('default')).toMatchObject({ paused: true, nextRunAt: undefined });
+    expect(pollerService.resume('default').nextRunAt).toBeDefined();
+  });
+
+  it('should poll sources registered while running and forget removed ones', async () => {
+    process.env.POLL_ENABLED = 'true';
+    process.env.POLL_JITTER_MS = '0';
+    pollerService.pause('default');
+    pollerService.start();
+    respondWith(post('n1', 1));
+
+    sourceService.create({ id: 'newsource', username: 'newsource' });
+    await new Promise(resolve => setTimeout(resolve, 50));
+
+    expect(getRecentPosts).toHaveBeenCalledTimes(1);
+    expect(pollerService.getStatus('newsource')).toMatchObject({
+      lastSeenPostKey: 'n1',
+      lastRun: { trigger: 'schedule' },
+    });
+
+    sourceService.remove('newsource');
+    expect(pollerService.list().map(status => status.sourceId)).not.toContain('newsource');
+  });
+});
@@ -0,0 +1,127 @@
+import { progressService } from '../../services/progress.service';
+import { ProgressEvent } from '../../interfaces/progress.interface';
+
+describe('Progress service', () => {
+  const stages = (events: ProgressEvent[]) => events.map(event => event.stage);
+
+  it('should record the stages of a run with their timings', async () => {
+    const result = await progressService.track('run-1', async () => {
+      progressService.emit('fetch:strategy-start', { strategy: 'puppeteer' });
+      return progressService.stage('summarize', async () => 'Summary');
+    });
+
+    expect(result).toBe('Summary');
+
+    const run = progressService.get('run-1');
+    expect(run.status).toBe('completed');
+    expect(run.finishedAt).toBeDefined();
+    expect(stages(run.events)).toEqual([
+      'run:start',
+      'fetch:strategy-start',
+      'summarize:start',
+      'summarize:done',
+      'run:done',
+    ]);
+    expect(run.events.map(event => event.seq)).toEqual([1, 2, 3, 4, 5]);
+    expect(run.events[1].data).toEqual({ strategy: 'puppeteer' });
+    expect(run.events[3].durationMs).toEqual(expect.any(Number));
+    expect(run.events[4].durationMs).toEqual(expect.any(Number));
+    expect(run.events[4].elapsedMs).toBeGreaterThanOrEqual(run.events[3].elapsedMs);
+  });
+
+  it('should record the failed stage and fail the run when it throws', async () => {
+    await expect(
+      progressService.track('run-2', () =>
+        progressService.stage('summarize', async () => {
+          throw new Error('Quota exceeded');
+        })
+      )
+    ).rejects.toThrow('Quota exceeded');
+
+    const run = progressService.get('run-2');
+    expect(run.status).toBe('failed');
+    expect(stages(run.events)).toEqual([
+      'run:start',
+      'summarize:start',
+      'summarize:failed',
+      'run:failed',
+    ]);
+    expect(run.events[2].data).toEqual({ error: 'Quota exceeded' });
+    expect(run.events[3].data).toEqual({ error: 'Quota exceeded' });
+  });
+
+  it('should keep the events of concurrent runs apart', async () => {
+    const wait = () => new Promise(resolve => setTimeout(resolve, 5));
+
+    await Promise.all(
+      ['run-a', 'run-b'].map(runId =>
+        progressService.track(runId, async () => {
+          await wait();
+          progressService.emit('fetch:wait', { runId });
+          await wait();
+        })
+      )
+    );
+
+    ['run-a', 'run-b'].forEach(runId => {
+      const waits = progressService.get(runId).events.filter(event => event.stage === 'fetch:wait');
+      expect(waits.map(event => event.data)).toEqual([{ runId }]);
+    });
+  });
+
+  it('should ignore events outside a run', async () => {
+    progressService.emit('fetch:start');
+
+    await expect(progressService.stage('summarize', async () => 'Summary')).resolves.toBe(
+      'Summary'
+    );
+  });
+
+  it('should send live events to subscribers that connected before the run', async () => {
+    const received: ProgressEvent[] = [];
+    const { run } = progressService.subscribe('run-3', event => received.push(event));
+    expect(run.status).toBe('pending');
+
+    await progressService.track('run-3', async () => {
+      progressService.emit('publish:done', { tweetId: '42' });
+    });
+
+    expect(stages(received)).toEqual(['run:start', 'publish:done', 'run:done']);
+  });
+
+  it('should replay the events after the last one a subscriber has', async () => {
+    await progressService.track('run-4', async () => {
+      progressService.emit('fetch:start');
+      progressService.emit('fetch:done');
+    });
+
+    const received: ProgressEvent[] = [];
+    const { run } = progressService.subscribe('run-4', event => received.push(event), 2);
+
+    expect(run.status).toBe('completed');
+    expect(stages(received)).toEqual(['fetch:done', 'run:done']);
+  });
+
+  it('should forget runs that nobody started once their subscribers leave', () => {
+    const { unsubscribe } = progressService.subscribe('run-5', jest.fn());
+    expect(progressService.get('run-5').status).toBe('pending');
+
+    unsubscribe();
+
+    expect(() => progressService.get('run-5')).toThrow('Run not found: run-5');
+  });
+
+  it('should reject run IDs that were already used or are malformed', async () => {
+    await progressService.track('run-6', async () => undefined);
+
+    await expect(progressService.track('run-6', async () => undefined)).rejects.toMatchObject({
+      statusCode: 409,
+    });
+    await expect(progressService.track('run 7', async () => undefined)).rejects.toMatchObject({
+      statusCode: 400,
+    });
+    expect(() => progressService.subscribe('x'.repeat(65), jest.fn())).toThrow(
+      'Run ID may only contain letters, digits, dashes and underscores, up to 64 characters'
+    );
+  });
+});
@@ -0,0 +1,148 @@
+import path from 'path';
+import { getChromePath } from 'chrome-launcher';
+import { PuppeteerFetcher } from '../../services/fetchers/puppeteer.fetcher';
+import { FixtureStore } from '../../services/fetchers/fixtures';
+import { browserPool } from '../../services/browserPool.service';
+import { progressService } from '../../services/progress.service';
+
+// Rendered pages recorded with INSTAGRAM_FIXTURE_MODE=record, replayed in a local Chrome
+const fixtures = new FixtureStore(path.join(__dirname, '..', 'fixtures', 'instagram'));
+
+// The pool runs the Chrome found by chrome-launcher, or the one CHROME_PATH points to
+const findChrome = (): string | undefined => {
+  try {
+    return getChromePath();
+  } catch {
+    return undefined;
+  }
+};
+const describeWithChrome = findChrome() ? describe : describe.skip;
+
+describeWithChrome('Puppeteer fetcher with replayed fixtures', () => {
+  const fetcher = new PuppeteerFetcher('replay', fixtures);
+  const config = { username: 'rendereduser', strategies: [] };
+
+  afterAll(async () => {
+    await browserPool.shutdown();
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('should collect the post links of the profile and scrape every post page', async () => {
+    const emit = jest.spyOn(progressService, 'emit');
+
+    const response = await fetcher.fetchRecentPosts(config, { limit: 4 });
+
+    expect(response.success).toBe(true);
+    expect(response.data).toEqual([
+      {
+        caption: 'Rendered carousel caption',
+        imageUrl: 'https://cdn.example.com/rendered-3-slide-1.jpg',
+        mediaType: 'image',
+        media: [{ type: 'image', url: 'https://cdn.example.com/rendered-3-slide-1.jpg' }],
+        postUrl: 'https://www.instagram.com/p/RENDERED3/',
+        timestamp: '2024-02-03T10:00:00.000Z',
+      },
+      expect.objectContaining({
+        caption: 'Rendered video caption',
+        imageUrl: 'https://cdn.example.com/rendered-2-poster.jpg',
+        mediaType: 'video',
+        media: [
+          expect.objectContaining({
+            type: 'video',
+            url: 'https://cdn.example.com/rendered-2.mp4',
+            thumbnailUrl: 'https://cdn.example.com/rendered-2-poster.jpg',
+          }),
+        ],
+      }),
+      expect.objectContaining({
+        caption: 'Rendered image caption',
+        postUrl: 'https://www.instagram.com/p/RENDERED1/',
+      }),
+      // Pinned first on the profile, but older than the rest
+      expect.objectContaining({
+        caption: 'Rendered pinned caption',
+        postUrl: 'https://www.instagram.com/p/PINNED0/',
+      }),
+    ]);
+    // The removed post has none of the post page selectors
+    expect(emit).toHaveBeenCalledWith('fetch:post-failed', {
+      url: 'https://www.instagram.com/p/BROKEN1/',
+      error: expect.any(String),
+    });
+    expect(emit).toHaveBeenCalledWith(
+      'fetch:selector-failed',
+      { selector: 'article[role="presentation"]', timeoutMs: 500 },
+      expect.anything()
+    );
+  }, 60000);
+
+  it('should stop collecting post links at the limit', async () => {
+    const response = await fetcher.fetchRecentPosts(config, { limit: 2 });
+
+    expect(response.data?.map(post => post.postUrl)).toEqual([
+      'https://www.instagram.com/p/RENDERED3/',
+      'https://www.instagram.com/p/RENDERED2/',
+    ]);
+  }, 60000);
+
+  it('should not count the pinned post toward the limit', async () => {
+    const response = await fetcher.fetchRecentPosts(config, { limit: 1 });
+
+    expect(response.data?.map(post => post.caption)).toEqual(['Rendered carousel caption']);
+  }, 60000);
+
+  it('should leave out posts older than since', async () => {
+    const response = await fetcher.fetchRecentPosts(config, {
+      limit: 2,
+      since: new Date('2024-02-03T00:00:00Z'),
+    });
+
+    expect(response.data?.map(post => post.caption)).toEqual(['Rendered carousel caption']);
+  }, 60000);
+
+  it('should report every post link selector that fails on a profile without posts', async () => {
+    const emit = jest.spyOn(progressService, 'emit');
+
+    const response = await fetcher.fetchRecentPosts(
+      { username: 'metaonlyuser', strategies: [] },
+      { limit: 1 }
+    );
+
+    expect(response).toEqual({
+      success: false,
+      error: 'Puppeteer error: No posts found on the profile after trying all selectors',
+    });
+    const failed = emit.mock.calls.filter(call => call[0] === 'fetch:selector-failed');
+    expect(failed).toHaveLength(10);
+    expect(failed[0][1]).toEqual({ selector: 'article a, a[href*="/p/"]', timeoutMs: 500 });
+  }, 60000);
+
+  it('should read the profile from the meta tags and the page header', async () => {
+    const response = await fetcher.fetchProfile(config);
+
+    expect(response).toEqual({
+      success: true,
+      data: {
+        username: 'rendereduser',
+        fullName: 'Rendered User',
+        biography: 'Rendered for Puppeteer tests',
+        avatarUrl: 'https://cdn.example.com/rendered-avatar.jpg',
+        followers: 2048,
+        following: 31,
+        postCount: 5,
+        isVerified: true,
+        externalUrl: 'https://example.com/rendered',
+      },
+    });
+  }, 60000);
+
+  it('should fail on profiles that were never recorded', async () => {
+    const response = await fetcher.fetchProfile({ username: 'unknownuser', strategies: [] });
+
+    expect(response.success).toBe(false);
+    expect(response.error).toMatch(/^Puppeteer error: /);
+  }, 60000);
+});
@@ -0,0 +1,136 @@
+import { crossPostService } from '../../services/crossPost.service';
+import { scheduleService } from '../../services/schedule.service';
+import { jobQueue } from '../../services/jobQueue.service';
+import { llmService } from '../../services/llm.service';
+import { twitterService } from '../../services/twitter.service';
+import { InstagramPost } from '../../interfaces/instagram.interface';
+import { InstagramSource } from '../../interfaces/source.interface';
+
+jest.mock('../../services/llm.service');
+jest.mock('../../services/twitter.service');
+
+describe('Schedule service', () => {
+  const source: InstagramSource = {
+    id: 'newsroom',
+    name: 'Newsroom',
+    username: 'newsroom',
+    settings: { imageUpload: false, publishMode: 'auto' },
+    createdAt: '2024-01-01T00:00:00.000Z',
+    updatedAt: '2024-01-01T00:00:00.000Z',
+  };
+
+  const post: InstagramPost = {
+    id: 'overnight',
+    caption: 'Scraped overnight',
+    imageUrl: 'https://cdn.example.com/overnight.jpg',
+    mediaType: 'image',
+    media: [],
+  };
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    (llmService.summarizeText as jest.Mock).mockResolvedValue({ summary: 'Generated summary' });
+    (twitterService.postTweet as jest.Mock).mockResolvedValue({
+      success: true,
+      data: { id: 'tweet-1' },
+    });
+  });
+
+  it('should resolve local times of a time zone and reject times in the past', () => {
+    expect(scheduleService.resolve('2099-07-02T08:00', 'Europe/London')).toEqual({
+      publishAt: '2099-07-02T07:00:00.000Z',
+      timeZone: 'Europe/London',
+    });
+    expect(scheduleService.resolve('2099-07-02T08:00:00+02:00')).toEqual({
+      publishAt: '2099-07-02T06:00:00.000Z',
+      timeZone: undefined,
+    });
+    expect(() => scheduleService.resolve('2020-01-01T00:00:00Z')).toThrow(
+      expect.objectContaining({ statusCode: 400 })
+    );
+    expect(() => scheduleService.resolve(20990101)).toThrow(
+      'publishAt must be an ISO 8601 date and time string'
+    );
+  });
+
+  it('should post a scheduled tweet with the Twitter service when it is due', async () => {
+    const scheduled = scheduleService.scheduleTweet(
+      'Scheduled text',
+      undefined,
+      scheduleService.resolve('2099-01-02T08:00', 'America/New_York')
+    );
+
+    expect(scheduled).toMatchObject({
+      type: 'tweet',
+      status: 'scheduled',
+      publishAt: '2099-01-02T13:00:00.000Z',
+      localPublishAt: '2099-01-02T08:00:00-05:00',
+    });
+    expect(jobQueue.get(scheduled.id).runAt).toBe('2099-01-02T13:00:00.000Z');
+
+    await jobQueue.runNow(scheduled.id);
+
+    expect(twitterService.postTweet).toHaveBeenCalledWith('Scheduled text');
+    expect(scheduleService.get(scheduled.id)).toMatchObject({
+      status: 'published',
+      tweetId: 'tweet-1',
+    });
+  });
+
+  it('should schedule a cross-post once and list it by publication time', async () => {
+    const later = await crossPostService.crossPost(source, post, {
+      schedule: scheduleService.resolve('2099-03-01T08:00:00Z'),
+    });
+    const again = await crossPostService.crossPost(source, post, {
+      schedule: scheduleService.resolve('2099-03-02T08:00:00Z'),
+    });
+    const earlier = scheduleService.scheduleTweet(
+      'Earlier text',
+      'https://cdn.example.com/earlier.jpg',
+      scheduleService.resolve('2099-02-01T08:00:00Z')
+    );
+
+    expect(later.status).toBe('scheduled');
+    expect(again.job?.id).toBe(later.job?.id);
+    expect(llmService.summarizeText).toHaveBeenCalledTimes(1);
+    expect(twitterService.postTweet).not.toHaveBeenCalled();
+
+    const pending = scheduleService.list({ status: 'scheduled' });
+    expect(pending.map(item => item.id)).toEqual([earlier.id, later.job?.id]);
+    expect(pending[1]).toMatchObject({
+      type: 'crossPost',
+      sourceId: 'newsroom',
+      postKey: 'overnight',
+      text: 'Generated summary',
+    });
+    expect(scheduleService.list({ type: 'crossPost', status: 'scheduled' })).toHaveLength(1);
+  });
+
+  it('should not schedule tweets for sources that require approval', async () => {
+    await expect(
+      crossPostService.crossPost(
+        { ...source, settings: { imageUpload: false, publishMode: 'approval' } },
+        post,
+        { schedule: scheduleService.resolve('2099-03-01T08:00:00Z') }
+      )
+    ).rejects.toMatchObject({ statusCode: 400 });
+  });
+
+  it('should cancel a scheduled tweet but not a published one', async () => {
+    const scheduled = scheduleService.scheduleTweet(
+      'Cancelled text',
+      undefined,
+      scheduleService.resolve('2099-04-01T08:00:00Z')
+    );
+
+    expect(scheduleService.cancel(scheduled.id).id).toBe(scheduled.id);
+    expect(() => scheduleService.get(scheduled.id)).toThrow(
+      expect.objectContaining({ statusCode: 404 })
+    );
+
+    const published = scheduleService.list({ status: 'published' })[0];
+    expect(() => scheduleService.cancel(published.id)).toThrow(
+      expect.objectContaining({ statusCode: 409 })
+    );
+  });
+});
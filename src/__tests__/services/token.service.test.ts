@@ -0,0 +1,120 @@
+import http from 'http';
+import { AddressInfo } from 'net';
+import { sourceService } from '../../services/source.service';
+import { tokenService } from '../../services/token.service';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+describe('Token service', () => {
+  let server: http.Server;
+  let requests: URL[] = [];
+  let reply: { status: number; body: unknown };
+
+  // Local stand-in of the Graph token endpoints
+  beforeAll(async () => {
+    server = http.createServer((req, res) => {
+      requests.push(new URL(req.url || '/', 'http://localhost'));
+      res.writeHead(reply.status, { 'Content-Type': 'application/json' });
+      res.end(JSON.stringify(reply.body));
+    });
+    await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+    const { port } = server.address() as AddressInfo;
+    process.env.INSTAGRAM_TOKEN_API_URL = `http://127.0.0.1:${port}`;
+  });
+
+  afterAll(async () => {
+    tokenService.stop();
+    await new Promise(resolve => server.close(resolve));
+  });
+
+  beforeEach(() => {
+    requests = [];
+    sourceService.update('default', { accessToken: 'old-token' });
+  });
+
+  it('should report an unknown expiry before the first refresh', () => {
+    expect(tokenService.getStatus('default')).toEqual({
+      sourceId: 'default',
+      hasAccessToken: true,
+      expired: false,
+    });
+  });
+
+  it('should replace the token of the source and record its expiry', async () => {
+    reply = {
+      status: 200,
+      body: { access_token: 'new-token', token_type: 'bearer', expires_in: 60 * 24 * 60 * 60 },
+    };
+
+    const status = await tokenService.refresh('default');
+
+    expect(requests[0].pathname).toBe('/refresh_access_token');
+    expect(requests[0].searchParams.get('grant_type')).toBe('ig_refresh_token');
+    expect(requests[0].searchParams.get('access_token')).toBe('old-token');
+    expect(sourceService.get('default').accessToken).toBe('new-token');
+    expect(status.expiresInDays).toBe(59);
+    expect(status.expired).toBe(false);
+    expect(new Date(status.nextRefreshAt as string).getTime()).toBeGreaterThan(
+      Date.now() + 50 * DAY_MS
+    );
+  });
+
+  it('should keep the token and record the error when the refresh fails', async () => {
+    reply = {
+      status: 400,
+      body: { error: { message: 'Error validating access token', code: 190 } },
+    };
+
+    await expect(tokenService.refresh('default')).rejects.toMatchObject({ statusCode: 502 });
+
+    const status = tokenService.getStatus('default');
+    expect(sourceService.get('default').accessToken).toBe('old-token');
+    expect(status.lastError).toBe(
+      'Instagram access token is expired or invalid: Error validating access token (code 190)'
+    );
+  });
+
+  it('should wait for the retry delay before refreshing again after a failure', async () => {
+    sourceService.update('default', { accessToken: 'rejected-token' });
+    reply = { status: 400, body: { error: { message: 'Unsupported request', code: 100 } } };
+
+    await tokenService.refreshDueTokens();
+    await tokenService.refreshDueTokens();
+
+    const status = tokenService.getStatus('default');
+    expect(requests).toHaveLength(1);
+    expect(new Date(status.nextRefreshAt as string).getTime()).toBe(
+      new Date(status.lastAttemptAt as string).getTime() + DAY_MS
+    );
+
+    process.env.INSTAGRAM_TOKEN_RETRY_MS = '1';
+    await new Promise(resolve => setTimeout(resolve, 5));
+    reply = { status: 200, body: { access_token: 'fresh-token', expires_in: 60 * 24 * 60 * 60 } };
+    await tokenService.refreshDueTokens();
+    delete process.env.INSTAGRAM_TOKEN_RETRY_MS;
+
+    expect(requests).toHaveLength(2);
+    expect(tokenService.getStatus('default').lastError).toBeUndefined();
+  });
+
+  it('should not refresh the tokens of business sources on schedule', async () => {
+    sourceService.update('default', { businessAccountId: '17841400000000000' });
+
+    await tokenService.refreshDueTokens();
+    const status = tokenService.getStatus('default');
+    sourceService.update('default', { businessAccountId: null });
+
+    expect(requests).toHaveLength(0);
+    expect(status.nextRefreshAt).toBeUndefined();
+  });
+
+  it('should only refresh tokens that are due', async () => {
+    reply = { status: 200, body: { access_token: 'fresh-token', expires_in: 60 * 24 * 60 * 60 } };
+
+    await tokenService.refreshDueTokens();
+    expect(requests).toHaveLength(1);
+
+    await tokenService.refreshDueTokens();
+    expect(requests).toHaveLength(1);
+  });
+});
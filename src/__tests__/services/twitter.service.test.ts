@@ -0,0 +1,162 @@
+import http from 'http';
+import { AddressInfo } from 'net';
+import { TwitterApi } from 'twitter-api-v2';
+import { twitterService } from '../../services/twitter.service';
+
+const PNG = Buffer.concat([
+  Buffer.from('89504e470d0a1a0a', 'hex'),
+  Buffer.from('0000000d49484452000000010000000108060000001f15c489', 'hex'),
+]);
+
+describe('Twitter service previews', () => {
+  let server: http.Server;
+  let baseUrl: string;
+  const { client } = twitterService as unknown as { client: TwitterApi };
+  const tweet = jest.spyOn(client.v2, 'tweet');
+  const uploadMedia = jest.spyOn(client.v1, 'uploadMedia');
+
+  // Local stand-in of the Instagram CDN
+  beforeAll(async () => {
+    server = http.createServer((req, res) => {
+      if (req.url === '/image.png') {
+        res.writeHead(200, { 'Content-Type': 'image/png' });
+        res.end(PNG);
+      } else {
+        res.writeHead(200, { 'Content-Type': 'text/html' });
+        res.end('<html>Login required</html>');
+      }
+    });
+    await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+    baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  });
+
+  afterAll(async () => {
+    await new Promise(resolve => server.close(resolve));
+  });
+
+  afterEach(() => {
+    expect(tweet).not.toHaveBeenCalled();
+    expect(uploadMedia).not.toHaveBeenCalled();
+  });
+
+  it('should report the character count and the checked image', async () => {
+    const preview = await twitterService.previewTweet('Breaking news', `${baseUrl}/image.png`);
+
+    expect(preview).toEqual({
+      text: 'Breaking news',
+      characterCount: 13,
+      maxCharacters: 280,
+      valid: true,
+      errors: [],
+      media: {
+        url: `${baseUrl}/image.png`,
+        valid: true,
+        format: 'png',
+        contentType: 'image/png',
+        sizeBytes: PNG.length,
+      },
+    });
+  });
+
+  it('should report text over the limit and media that is not an image', async () => {
+    const preview = await twitterService.previewTweet('a'.repeat(281), `${baseUrl}/login`);
+
+    expect(preview.valid).toBe(false);
+    expect(preview.characterCount).toBe(281);
+    expect(preview.errors).toEqual([
+      'Tweet must be 280 characters or less',
+      'Failed to download image: Unsupported image format (text/html), expected JPEG, PNG, GIF or WebP',
+    ]);
+    expect(preview.media).toMatchObject({ valid: false });
+  });
+
+  it('should count links and CJK characters like Twitter does', async () => {
+    const withLink = `${'a'.repeat(200)} https://example.com/${'b'.repeat(100)}`;
+    const japanese = '東'.repeat(141);
+
+    const linkPreview = await twitterService.previewTweet(withLink);
+    const japanesePreview = await twitterService.previewTweet(japanese);
+
+    expect(linkPreview).toMatchObject({ characterCount: 224, valid: true });
+    expect(japanesePreview).toMatchObject({ characterCount: 282, valid: false });
+  });
+
+  it('should preview text-only tweets without media', async () => {
+    const preview = await twitterService.previewTweet('Breaking news');
+
+    expect(preview.media).toBeUndefined();
+    expect(preview.valid).toBe(true);
+  });
+});
+
+describe('Twitter service threads', () => {
+  const { client } = twitterService as unknown as { client: TwitterApi };
+  const tweets = ['Polls open at 7am 1/3', 'Counting starts at 10pm 2/3', 'Results by dawn 3/3'];
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('should post the first tweet with the image and reply to the previous tweet', async () => {
+    const withMedia = jest
+      .spyOn(twitterService, 'postTweetWithMedia')
+      .mockResolvedValue({ success: true, message: 'Posted', data: { id: '1', text: tweets[0] } });
+    const tweet = jest
+      .spyOn(client.v2, 'tweet')
+      .mockResolvedValueOnce({ data: { id: '2', text: tweets[1] } })
+      .mockResolvedValueOnce({ data: { id: '3', text: tweets[2] } });
+
+    const result = await twitterService.postThread(tweets, 'https://cdn.example.com/image.jpg');
+
+    expect(result).toEqual({
+      success: true,
+      message: 'Thread of 3 tweets posted successfully',
+      posted: [
+        { id: '1', text: tweets[0] },
+        { id: '2', text: tweets[1] },
+        { id: '3', text: tweets[2] },
+      ],
+      total: 3,
+    });
+    expect(withMedia).toHaveBeenCalledWith(tweets[0], 'https://cdn.example.com/image.jpg');
+    expect(tweet).toHaveBeenNthCalledWith(1, tweets[1], { reply: { in_reply_to_tweet_id: '1' } });
+    expect(tweet).toHaveBeenNthCalledWith(2, tweets[2], { reply: { in_reply_to_tweet_id: '2' } });
+  });
+
+  it('should stop at the tweet that fails and resume with it', async () => {
+    const tweet = jest
+      .spyOn(client.v2, 'tweet')
+      .mockResolvedValueOnce({ data: { id: '1', text: tweets[0] } })
+      .mockRejectedValueOnce(new Error('Service unavailable'))
+      .mockResolvedValueOnce({ data: { id: '2', text: tweets[1] } })
+      .mockResolvedValueOnce({ data: { id: '3', text: tweets[2] } });
+
+    const failed = await twitterService.postThread(tweets);
+    const resumed = await twitterService.postThread(tweets, undefined, failed.posted);
+
+    expect(failed).toMatchObject({
+      success: false,
+      message: 'Posted 1 of 3 tweets of the thread',
+      error: 'Service unavailable',
+      posted: [{ id: '1', text: tweets[0] }],
+    });
+    expect(resumed.success).toBe(true);
+    expect(resumed.posted.map(posted => posted.id)).toEqual(['1', '2', '3']);
+    expect(tweet).toHaveBeenNthCalledWith(3, tweets[1], { reply: { in_reply_to_tweet_id: '1' } });
+    expect(tweet).toHaveBeenCalledTimes(4);
+  });
+
+  it('should post nothing when a tweet of the thread is too long', async () => {
+    const tweet = jest.spyOn(client.v2, 'tweet');
+
+    const result = await twitterService.postThread([tweets[0], 'a'.repeat(281)]);
+
+    expect(result).toMatchObject({
+      success: false,
+      error: 'Tweet 2 of the thread: Tweet must be 280 characters or less',
+      retryable: false,
+      posted: [],
+    });
+    expect(tweet).not.toHaveBeenCalled();
+  });
+});
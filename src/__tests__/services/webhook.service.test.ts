@@ -0,0 +1,143 @@
+import http from 'http';
+import { AddressInfo } from 'net';
+import { signPayload, webhookService } from '../../services/webhook.service';
+import { jobQueue } from '../../services/jobQueue.service';
+import { InstagramPost } from '../../interfaces/instagram.interface';
+
+interface ReceivedRequest {
+  headers: http.IncomingHttpHeaders;
+  body: string;
+}
+
+describe('Webhook service', () => {
+  let server: http.Server;
+  let baseUrl: string;
+  const received: ReceivedRequest[] = [];
+  // Status codes the receiver answers with, in order; 200 once they run out
+  const responses: number[] = [];
+
+  const post: InstagramPost = {
+    id: '17900000000000001',
+    caption: 'Breaking news',
+    imageUrl: 'https://cdn.example.com/news.jpg',
+    mediaType: 'image',
+    media: [],
+  };
+
+  // Local stand-in of a receiver such as a Slack bot
+  beforeAll(async () => {
+    server = http.createServer((req, res) => {
+      let body = '';
+      req.on('data', chunk => (body += chunk));
+      req.on('end', () => {
+        received.push({ headers: req.headers, body });
+        res.writeHead(responses.shift() || 200);
+        res.end();
+      });
+    });
+    await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+    baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  });
+
+  afterAll(async () => {
+    await new Promise(resolve => server.close(resolve));
+  });
+
+  beforeEach(() => {
+    received.length = 0;
+    responses.length = 0;
+    webhookService.list().forEach(webhook => webhookService.remove(webhook.id));
+  });
+
+  it('should deliver a signed event to subscribed webhooks', async () => {
+    const webhook = webhookService.create({
+      url: `${baseUrl}/hooks`,
+      events: ['tweet.published'],
+      secret: 'a-secret-of-sixteen',
+    });
+    webhookService.create({ url: `${baseUrl}/other`, events: ['tweet.failed'] });
+    webhookService.create({ url: `${baseUrl}/inactive`, active: false });
+
+    const deliveries = webhookService.emit('tweet.published', {
+      sourceId: 'default',
+      post,
+      summary: 'Summary',
+      tweet: { id: 'tweet-1', text: 'Summary' },
+    });
+    expect(deliveries).toHaveLength(1);
+
+    await jobQueue.runNow(deliveries[0].jobId);
+
+    expect(received).toHaveLength(1);
+    const { headers, body } = received[0];
+    const timestamp = Number(headers['x-webhook-timestamp']);
+    expect(headers['x-webhook-event']).toBe('tweet.published');
+    expect(headers['x-webhook-id']).toBe(deliveries[0].id);
+    expect(headers['x-webhook-signature']).toBe(
+      signPayload('a-secret-of-sixteen', timestamp, body)
+    );
+    expect(JSON.parse(body)).toMatchObject({
+      type: 'tweet.published',
+      data: { post: { id: post.id }, tweet: { id: 'tweet-1' } },
+    });
+    expect(webhookService.listDeliveries(webhook.id)[0]).toMatchObject({
+      status: 'delivered',
+      attempts: [{ statusCode: 200 }],
+    });
+  });
+
+  it('should retry server errors and log every attempt', async () => {
+    const webhook = webhookService.create({ url: `${baseUrl}/hooks` });
+    responses.push(503);
+
+    const [delivery] = webhookService.emit('post.detected', { sourceId: 'default', post });
+    const failed = await jobQueue.runNow(delivery.jobId);
+
+    expect(failed).toMatchObject({
+      status: 'queued',
+      lastError: 'Webhook responded with status 503',
+    });
+    expect(webhookService.listDeliveries(webhook.id)[0].status).toBe('pending');
+
+    await jobQueue.runNow(delivery.jobId);
+
+    expect(received.map(request => request.headers['x-webhook-id'])).toEqual([
+      delivery.id,
+      delivery.id,
+    ]);
+    expect(webhookService.listDeliveries(webhook.id)[0]).toMatchObject({
+      status: 'delivered',
+      attempts: [{ statusCode: 503 }, { statusCode: 200 }],
+    });
+  });
+
+  it('should not retry client errors', async () => {
+    const webhook = webhookService.create({ url: `${baseUrl}/hooks` });
+    responses.push(404);
+
+    const [delivery] = webhookService.emit('tweet.failed', { post, error: 'Rate limit' });
+    const job = await jobQueue.runNow(delivery.jobId);
+
+    expect(job.status).toBe('dead');
+    expect(webhookService.listDeliveries(webhook.id, { status: 'failed' })).toHaveLength(1);
+  });
+
+  it('should keep the secret out of the public representation', () => {
+    const webhook = webhookService.create({ url: `${baseUrl}/hooks` });
+
+    expect(webhook.secret).toHaveLength(64);
+    expect(webhookService.toPublic(webhook)).not.toHaveProperty('secret');
+  });
+
+  it('should validate the URL, events and secret', () => {
+    expect(() => webhookService.create({ url: 'ftp://example.com/hooks' })).toThrow(
+      'URL must be an http or https URL'
+    );
+    expect(() =>
+      webhookService.create({ url: `${baseUrl}/hooks`, events: ['tweet.deleted' as never] })
+    ).toThrow('Events must be a non-empty list of');
+    expect(() => webhookService.create({ url: `${baseUrl}/hooks`, secret: 'short' })).toThrow(
+      'Secret must be a string of at least 16 characters'
+    );
+  });
+});
@@ -0,0 +1,52 @@
+import { flattenEntities, parseCaption } from '../../utils/captionParser';
+
+describe('Caption parser', () => {
+  it('should find hashtags, mentions, links, emoji and line breaks with their offsets', () => {
+    const caption = 'Breaking 🚨 via @BBCWorld.\nRead more at bbc.co.uk/news #News #UK2024';
+    const entities = parseCaption(caption);
+
+    expect(entities.hashtags.map(tag => [tag.text, tag.value])).toEqual([
+      ['#News', 'news'],
+      ['#UK2024', 'uk2024'],
+    ]);
+    expect(entities.mentions).toEqual([
+      { type: 'mention', text: '@BBCWorld', value: 'bbcworld', start: 16, end: 25 },
+    ]);
+    expect(entities.urls).toEqual([
+      {
+        type: 'url',
+        text: 'bbc.co.uk/news',
+        value: 'https://bbc.co.uk/news',
+        start: 40,
+        end: 54,
+      },
+    ]);
+    expect(entities.emoji.map(emoji => emoji.text)).toEqual(['🚨']);
+    expect(entities.lineBreaks).toHaveLength(1);
+
+    for (const entity of flattenEntities(entities)) {
+      expect(caption.slice(entity.start, entity.end)).toBe(entity.text);
+    }
+  });
+
+  it('should strip trailing punctuation from links and ignore tags inside links', () => {
+    const entities = parseCaption('Watch https://example.com/live#@team#stream, now!');
+
+    expect(entities.urls.map(url => url.text)).toEqual(['https://example.com/live#@team#stream']);
+    expect(entities.hashtags).toEqual([]);
+    expect(entities.mentions).toEqual([]);
+  });
+
+  it('should not treat e-mail addresses as mentions or links', () => {
+    const entities = parseCaption('Tips to news@bbc.co.uk');
+
+    expect(entities.mentions).toEqual([]);
+    expect(entities.urls).toEqual([]);
+  });
+
+  it('should keep multi-codepoint emoji together', () => {
+    const entities = parseCaption('Family 👨‍👩‍👧 in 🇬🇧 👍🏽');
+
+    expect(entities.emoji.map(emoji => emoji.text)).toEqual(['👨‍👩‍👧', '🇬🇧', '👍🏽']);
+  });
+});
@@ -0,0 +1,138 @@
+import express, { Request, Response } from 'express';
+import request from 'supertest';
+import { idempotent } from '../../utils/idempotency';
+import { idempotencyService } from '../../services/idempotency.service';
+
+describe('Idempotency middleware', () => {
+  const handler = jest.fn();
+  const app = express();
+  app.use(express.json());
+  app.post('/publish', idempotent, (req: Request, res: Response) => handler(req, res));
+
+  let counter = 0;
+  const publish = (key?: string, body: object = { caption: 'Caption' }) => {
+    const call = request(app).post('/publish').send(body);
+    return key ? call.set('Idempotency-Key', key) : call;
+  };
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    handler.mockImplementation((req: Request, res: Response) => {
+      counter += 1;
+      res.status(201).json({ success: true, data: { id: `tweet-${counter}` } });
+    });
+  });
+
+  afterEach(() => {
+    delete process.env.IDEMPOTENCY_TTL_MS;
+  });
+
+  it('should replay the first response to repeats with the same key', async () => {
+    const first = await publish('key-1');
+    const repeat = await publish('key-1', { caption: 'Caption' });
+
+    expect(handler).toHaveBeenCalledTimes(1);
+    expect(repeat.status).toBe(201);
+    expect(repeat.body).toEqual(first.body);
+    expect(repeat.headers['idempotent-replayed']).toBe('true');
+    expect(first.headers['idempotent-replayed']).toBeUndefined();
+  });
+
+  it('should run every request without a key', async () => {
+    await publish();
+    await publish();
+
+    expect(handler).toHaveBeenCalledTimes(2);
+  });
+
+  it('should return 409 while a request with the key is in progress', async () => {
+    let finish: () => void = () => undefined;
+    handler.mockImplementationOnce(
+      (req: Request, res: Response) =>
+        new Promise<void>(resolve => {
+          finish = () => {
+            res.status(200).json({ success: true });
+            resolve();
+          };
+        })
+    );
+
+    const first = publish('key-2').then(response => response);
+    await new Promise(resolve => setTimeout(resolve, 50));
+    const concurrent = await publish('key-2');
+    finish();
+
+    expect(concurrent.status).toBe(409);
+    expect(concurrent.body.error).toBe('A request with this Idempotency-Key is still in progress');
+    expect((await first).status).toBe(200);
+    expect(handler).toHaveBeenCalledTimes(1);
+  });
+
+  it('should keep the key claimed when the client disconnects before the response', async () => {
+    let finish: () => void = () => undefined;
+    handler.mockImplementationOnce(
+      (req: Request, res: Response) =>
+        new Promise<void>(resolve => {
+          finish = () => {
+            res.status(201).json({ success: true, data: { id: 'tweet-aborted' } });
+            resolve();
+          };
+        })
+    );
+
+    await expect(publish('key-5').timeout(50)).rejects.toThrow();
+    const retried = await publish('key-5');
+    finish();
+    await new Promise(resolve => setTimeout(resolve, 20));
+    const replayed = await publish('key-5');
+
+    expect(retried.status).toBe(409);
+    expect(replayed.status).toBe(201);
+    expect(replayed.body).toEqual({ success: true, data: { id: 'tweet-aborted' } });
+    expect(replayed.headers['idempotent-replayed']).toBe('true');
+    expect(handler).toHaveBeenCalledTimes(1);
+  });
+
+  it('should return 422 when the key is reused with a different body', async () => {
+    await publish('key-3');
+    const response = await publish('key-3', { caption: 'Another caption' });
+
+    expect(response.status).toBe(422);
+    expect(handler).toHaveBeenCalledTimes(1);
+  });
+
+  it('should not store server errors so the request can be retried', async () => {
+    handler.mockImplementationOnce((req: Request, res: Response) => {
+      res.status(500).json({ success: false, message: 'Failed to process request' });
+    });
+
+    const failed = await publish('key-4');
+    const retried = await publish('key-4');
+
+    expect(failed.status).toBe(500);
+    expect(retried.status).toBe(201);
+    expect(handler).toHaveBeenCalledTimes(2);
+  });
+
+  it('should return 400 for an empty or overlong key', async () => {
+    const empty = await publish(' ');
+    const overlong = await publish('k'.repeat(256));
+
+    expect(empty.status).toBe(400);
+    expect(overlong.status).toBe(400);
+    expect(handler).not.toHaveBeenCalled();
+  });
+
+  it('should forget stored responses after the TTL', async () => {
+    process.env.IDEMPOTENCY_TTL_MS = '10';
+    const fingerprint = idempotencyService.fingerprint({ b: 1, a: [1, 2] });
+
+    expect(idempotencyService.fingerprint({ a: [1, 2], b: 1 })).toBe(fingerprint);
+    expect(idempotencyService.begin('ttl', fingerprint)).toBeUndefined();
+    idempotencyService.complete('ttl', 200, { success: true });
+    expect(idempotencyService.begin('ttl', fingerprint)).toMatchObject({ statusCode: 200 });
+
+    await new Promise(resolve => setTimeout(resolve, 20));
+    expect(idempotencyService.begin('ttl', fingerprint)).toBeUndefined();
+  });
+});
@@ -0,0 +1,51 @@
+import { extractEntities, getReadability, scoreSummary } from '../../utils/summaryScore';
+
+describe('Summary score utils', () => {
+  const caption =
+    'The Prime Minister visited Leeds on Monday. More than 2,000 people joined the march, ' +
+    'organised by the NHS Confederation. #leeds @bbcnews https://bbc.in/leeds';
+
+  it('should find names and numbers, but not words that only start a sentence', () => {
+    expect(extractEntities(caption)).toEqual([
+      'Prime Minister',
+      'Leeds',
+      'Monday',
+      'NHS Confederation',
+      '2,000',
+    ]);
+  });
+
+  it('should rate plain sentences as more readable than long words', () => {
+    expect(getReadability('The cat sat on the mat. It was warm.')).toBe(1);
+    expect(
+      getReadability('Unprecedented infrastructural reorganisation necessitates consultation.')
+    ).toBe(0);
+    expect(getReadability('東京で大雨')).toBe(1);
+  });
+
+  it('should reward summaries that keep names and numbers and fill the tweet', () => {
+    const kept = scoreSummary(
+      'Prime Minister visits Leeds on Monday as 2000 people join an NHS Confederation march.',
+      caption,
+      { maxLength: 100 }
+    );
+    const vague = scoreSummary('A politician visited a city.', caption, { maxLength: 100 });
+
+    expect(kept).toMatchObject({ length: 1, entities: 1, missingEntities: [], bannedWords: [] });
+    expect(vague.missingEntities).toHaveLength(5);
+    expect(vague.length).toBeLessThan(1);
+    expect(kept.total).toBeGreaterThan(vague.total);
+  });
+
+  it('should score 0 with a banned word and halve the length score of cut summaries', () => {
+    const summary = 'Prime Minister visits Leeds on Monday as 2000 people join an NHS march.';
+
+    const banned = scoreSummary(summary, caption, { maxLength: 100, bannedWords: ['monday'] });
+    const partOfWord = scoreSummary(summary, caption, { maxLength: 100, bannedWords: ['mon'] });
+    const truncated = scoreSummary(summary, caption, { maxLength: 100, truncated: true });
+
+    expect(banned).toMatchObject({ total: 0, bannedWords: ['monday'] });
+    expect(partOfWord.bannedWords).toEqual([]);
+    expect(truncated.length).toBe(0.5);
+  });
+});
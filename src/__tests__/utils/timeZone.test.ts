@@ -0,0 +1,53 @@
+import { formatInTimeZone, isValidTimeZone, parseDateTime } from '../../utils/timeZone';
+
+describe('Time zone utils', () => {
+  it('should convert local time of a time zone to UTC across daylight saving time', () => {
+    expect(parseDateTime('2024-01-02T08:00', 'Europe/London').toISOString()).toBe(
+      '2024-01-02T08:00:00.000Z'
+    );
+    expect(parseDateTime('2024-07-02 08:00:30', 'Europe/London').toISOString()).toBe(
+      '2024-07-02T07:00:30.000Z'
+    );
+    expect(parseDateTime('2024-07-02T08:00', 'Asia/Kolkata').toISOString()).toBe(
+      '2024-07-02T02:30:00.000Z'
+    );
+  });
+
+  it('should use the offset of the value and ignore the time zone for the instant', () => {
+    expect(parseDateTime('2024-01-02T08:00:00+01:00').toISOString()).toBe(
+      '2024-01-02T07:00:00.000Z'
+    );
+    expect(parseDateTime('2024-01-02T08:00:00Z', 'America/New_York').toISOString()).toBe(
+      '2024-01-02T08:00:00.000Z'
+    );
+  });
+
+  it('should reject local times that the clocks skip and pick the first of repeated ones', () => {
+    expect(() => parseDateTime('2024-03-31T01:30', 'Europe/London')).toThrow(
+      '2024-03-31T01:30 does not exist in Europe/London, the clocks skip it'
+    );
+    expect(parseDateTime('2024-11-03T01:30', 'America/New_York').toISOString()).toBe(
+      '2024-11-03T05:30:00.000Z'
+    );
+  });
+
+  it('should reject malformed values, unknown time zones and local times without a zone', () => {
+    expect(() => parseDateTime('tomorrow at 8', 'Europe/London')).toThrow('Invalid date and time');
+    expect(() => parseDateTime('2024-02-30T08:00', 'Europe/London')).toThrow(
+      'Invalid date and time: 2024-02-30T08:00'
+    );
+    expect(() => parseDateTime('2024-01-02T08:00', 'Mars/Olympus')).toThrow(
+      'Unknown time zone: Mars/Olympus'
+    );
+    expect(() => parseDateTime('2024-01-02T08:00')).toThrow('needs a time zone');
+    expect(isValidTimeZone('Europe/London')).toBe(true);
+  });
+
+  it('should format an instant in a time zone with its offset', () => {
+    const instant = new Date('2024-07-02T07:00:00Z');
+
+    expect(formatInTimeZone(instant, 'Europe/London')).toBe('2024-07-02T08:00:00+01:00');
+    expect(formatInTimeZone(instant, 'America/St_Johns')).toBe('2024-07-02T04:30:00-02:30');
+    expect(formatInTimeZone(instant, 'UTC')).toBe('2024-07-02T07:00:00+00:00');
+  });
+});
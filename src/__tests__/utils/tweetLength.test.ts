@@ -0,0 +1,56 @@
+import { getTweetLength, shortenTweet, splitThread } from '../../utils/tweetLength';
+
+describe('Tweet length utils', () => {
+  it('should count links as 23 characters whatever their length', () => {
+    expect(getTweetLength('Hello world')).toBe(11);
+    expect(getTweetLength('Read more https://www.bbc.co.uk/news/articles/c0000000000o')).toBe(33);
+    expect(getTweetLength('More at bbc.co.uk/news')).toBe(31);
+  });
+
+  it('should count emoji and CJK characters as two', () => {
+    expect(getTweetLength('👍🏽')).toBe(2);
+    expect(getTweetLength('👨‍👩‍👧 family')).toBe(9);
+    expect(getTweetLength('Go 🇬🇧')).toBe(5);
+    expect(getTweetLength('日本語')).toBe(6);
+    expect(getTweetLength('“Quoted” — café')).toBe(15);
+    expect(getTweetLength('café')).toBe(4);
+    expect(getTweetLength('Wait…')).toBe(6);
+  });
+
+  it('should keep texts that fit and shorten at a sentence boundary', () => {
+    expect(shortenTweet('  Short tweet ', 280)).toBe('Short tweet');
+    expect(
+      shortenTweet('Storm warning issued. Trains are cancelled across the whole region.', 40)
+    ).toBe('Storm warning issued.');
+  });
+
+  it('should shorten at a word boundary without splitting links or characters', () => {
+    const shortened = shortenTweet(
+      'Tickets for the final go on sale at https://example.com/tickets/final today',
+      50
+    );
+    expect(shortened).toBe('Tickets for the final go on sale at…');
+    expect(getTweetLength(shortened)).toBeLessThanOrEqual(50);
+
+    expect(shortenTweet('Hi. The council confirmed the bridge stays closed until spring', 30)).toBe(
+      'Hi. The council confirmed…'
+    );
+    expect(shortenTweet('東京で大雨が降っています', 10)).toBe('東京で大…');
+  });
+
+  it('should split threads between sentences, then between words', () => {
+    expect(
+      splitThread('Storm warning issued. Trains are cancelled.\n\nStay at home if you can.', 45)
+    ).toEqual(['Storm warning issued. Trains are cancelled.', 'Stay at home if you can.']);
+    expect(splitThread('One two three four five six', 10)).toEqual([
+      'One two',
+      'three four',
+      'five six',
+    ]);
+    expect(splitThread('東京で大雨が降っています', 10)).toEqual([
+      '東京で大雨',
+      'が降ってい',
+      'ます',
+    ]);
+  });
+});
@@ -0,0 +1,123 @@
+import 'dotenv/config';
+import logger from '../utils/logger';
+import { ApiError } from '../utils/errorHandler';
+import { backfillService } from '../services/backfill.service';
+import { jobQueue } from '../services/jobQueue.service';
+import { browserPool } from '../services/browserPool.service';
+import { Backfill, BackfillInput } from '../interfaces/backfill.interface';
+
+const USAGE = `Usage:
+  pnpm backfill --source <id> [--limit <posts>] [--since <date>] [--interval-minutes <minutes>]
+                [--image | --no-image]
+  pnpm backfill --resume <backfill id>`;
+
+const POLL_INTERVAL_MS = 1000;
+
+interface BackfillArgs {
+  input: BackfillInput;
+  resume?: string;
+}
+
+const OPTIONS: Record<string, (args: BackfillArgs, value: string) => void> = {
+  '--source': (args, value) => (args.input.sourceId = value),
+  '--limit': (args, value) => (args.input.limit = Number(value)),
+  '--since': (args, value) => (args.input.since = value),
+  '--interval-minutes': (args, value) =>
+    (args.input.intervalMs = Math.round(Number(value) * 60 * 1000)),
+  '--resume': (args, value) => (args.resume = value),
+};
+
+/**
+ * Parses the command line options of the backfill command
+ * @param argv - The arguments after the script name
+ * @throws Error with the usage if an option is unknown or has no value
+ */
+const parseArgs = (argv: string[]): BackfillArgs => {
+  const args: BackfillArgs = { input: {} };
+
+  for (let i = 0; i < argv.length; i++) {
+    const option = argv[i];
+    if (option === '--image' || option === '--no-image') {
+      args.input.imageUpload = option === '--image';
+      continue;
+    }
+
+    const setOption = OPTIONS[option];
+    if (!setOption) {
+      throw new Error(`Unknown option ${option}\n${USAGE}`);
+    }
+
+    const value = argv[++i];
+    if (value === undefined || value.startsWith('--')) {
+      throw new Error(`Missing value of ${option}\n${USAGE}`);
+    }
+    setOption(args, value);
+  }
+
+  return args;
+};
+
+const formatProgress = (backfill: Backfill): string => {
+  const { total, published, skipped, failed, pending } = backfill.progress;
+  const next = backfill.nextRunAt ? `, next post at ${backfill.nextRunAt}` : '';
+  return (
+    `Backfill ${backfill.id} ${backfill.status}: ${published}/${total} published, ` +
+    `${skipped} skipped, ${failed} failed, ${pending} pending${next}`
+  );
+};
+
+/**
+ * Starts or resumes a backfill and runs it in this process until it finishes
+ * The backfill is stored in `DATA_DIR`, so an interrupted run continues with `--resume`; do not
+ * run it next to a server that uses the same data directory, the server runs it already
+ */
+const main = async (): Promise<void> => {
+  const args = parseArgs(process.argv.slice(2));
+
+  let backfill: Backfill;
+  if (args.resume) {
+    backfill = backfillService.get(args.resume);
+    if (backfill.status === 'paused') {
+      backfill = backfillService.resume(backfill.id);
+    }
+  } else {
+    backfill = await backfillService.create(args.input);
+  }
+
+  logger.info(formatProgress(backfill));
+  jobQueue.start();
+
+  const stop = async (signal: string) => {
+    jobQueue.stop();
+    await browserPool.shutdown();
+    logger.info(`Received ${signal}, resume with: pnpm backfill --resume ${backfill.id}`);
+    process.exit(0);
+  };
+  process.once('SIGINT', () => stop('SIGINT'));
+  process.once('SIGTERM', () => stop('SIGTERM'));
+
+  let lastReport = formatProgress(backfill);
+  while (backfill.status === 'running') {
+    await new Promise(resolve => setTimeout(resolve, POLL_INTERVAL_MS));
+    backfill = backfillService.get(backfill.id);
+
+    const report = formatProgress(backfill);
+    if (report !== lastReport) {
+      logger.info(report);
+      lastReport = report;
+    }
+  }
+
+  jobQueue.stop();
+  await browserPool.shutdown();
+};
+
+main().catch(error => {
+  const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+  logger.error(
+    error instanceof ApiError
+      ? `Backfill failed (${error.statusCode}): ${errorMessage}`
+      : errorMessage
+  );
+  browserPool.shutdown().finally(() => process.exit(1));
+});
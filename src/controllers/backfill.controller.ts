@@ -0,0 +1,116 @@
+import { Request, Response } from 'express';
+import { backfillService } from '../services/backfill.service';
+import { BackfillInput, BackfillStatus } from '../interfaces/backfill.interface';
+import { asyncHandler, handleValidationError, logger } from '../utils';
+
+const BACKFILL_STATUSES: BackfillStatus[] = ['running', 'paused', 'completed', 'cancelled'];
+
+class BackfillController {
+  constructor() {
+    logger.info('Backfill controller initialized');
+  }
+
+  /**
+   * Starts cross-posting the most recent posts of a source, oldest first and paced
+   * @param req Request object with the optional sourceId, limit, since, intervalMs and
+   * imageUpload
+   * @param res Response object
+   */
+  public createBackfill = asyncHandler(async (req: Request, res: Response) => {
+    const { sourceId, limit, since, intervalMs, imageUpload } = req.body as BackfillInput;
+
+    const backfill = await backfillService.create({
+      sourceId,
+      limit,
+      since,
+      intervalMs,
+      imageUpload,
+    });
+
+    return res.status(201).json({
+      success: true,
+      message: `Backfill started: ${backfill.progress.pending} posts to publish`,
+      data: backfill,
+    });
+  });
+
+  /**
+   * Lists backfills, newest first
+   * @param req Request object with optional `sourceId` and `status` query parameters
+   * @param res Response object
+   */
+  public listBackfills = asyncHandler(async (req: Request, res: Response) => {
+    const { sourceId, status } = req.query;
+
+    if (status !== undefined && !BACKFILL_STATUSES.includes(status as BackfillStatus)) {
+      return handleValidationError(res, `Status must be one of: ${BACKFILL_STATUSES.join(', ')}`);
+    }
+
+    return res.status(200).json({
+      success: true,
+      data: backfillService.list({
+        sourceId: typeof sourceId === 'string' ? sourceId : undefined,
+        status: status as BackfillStatus | undefined,
+      }),
+    });
+  });
+
+  /**
+   * Gets a backfill with its progress and the outcome of every post
+   * @param req Request object with the backfill ID as route parameter
+   * @param res Response object
+   */
+  public getBackfill = asyncHandler(async (req: Request, res: Response) => {
+    return res.status(200).json({
+      success: true,
+      data: backfillService.get(req.params.id),
+    });
+  });
+
+  /**
+   * Pauses a running backfill
+   * @param req Request object with the backfill ID as route parameter
+   * @param res Response object
+   */
+  public pauseBackfill = asyncHandler(async (req: Request, res: Response) => {
+    const backfill = backfillService.pause(req.params.id);
+
+    return res.status(200).json({
+      success: true,
+      message: `Backfill paused: ${backfill.id}`,
+      data: backfill,
+    });
+  });
+
+  /**
+   * Resumes a paused backfill
+   * @param req Request object with the backfill ID as route parameter
+   * @param res Response object
+   */
+  public resumeBackfill = asyncHandler(async (req: Request, res: Response) => {
+    const backfill = backfillService.resume(req.params.id);
+
+    return res.status(200).json({
+      success: true,
+      message: `Backfill resumed: ${backfill.id}`,
+      data: backfill,
+    });
+  });
+
+  /**
+   * Cancels a backfill that is not finished
+   * @param req Request object with the backfill ID as route parameter
+   * @param res Response object
+   */
+  public cancelBackfill = asyncHandler(async (req: Request, res: Response) => {
+    const backfill = backfillService.cancel(req.params.id);
+
+    return res.status(200).json({
+      success: true,
+      message: `Backfill cancelled: ${backfill.id}`,
+      data: backfill,
+    });
+  });
+}
+
+export const backfillController = new BackfillController();
@@ -1,87 +1,197 @@
 import { Request, Response } from 'express';
-import InstagramService from '../services/instagram.service';
-import { llmService } from '../services/llm.service';
-import { twitterService } from '../services/twitter.service';
-import { logger, asyncHandler } from '../utils';
+import { v4 as uuidv4 } from 'uuid';
+import { sourceService } from '../services/source.service';
+import { crossPostService } from '../services/crossPost.service';
+import { scheduleService } from '../services/schedule.service';
+import { progressService } from '../services/progress.service';
+import { PublishJobPayload } from '../interfaces/crossPost.interface';
+import { TweetMode } from '../interfaces/twitter.interface';
+import { logger, asyncHandler, handleValidationError } from '../utils';
 
-class CommonController {
-  private instagramService: InstagramService;
+const TWEET_MODES: TweetMode[] = ['single', 'thread'];
 
+class CommonController {
   constructor() {
-    this.instagramService = new InstagramService();
     logger.info('Common controller initialized');
   }
 
   /**
-   * Fetches the latest Instagram post, summarizes the caption, and posts to Twitter
+   * Fetches the latest Instagram post of a source, summarizes the caption, and posts to Twitter
    * If imageUpload is true, the image will also be posted to Twitter
-   * @param req Request object containing imageUpload flag
+   * Sources that require approval get a draft instead of a tweet
+   * Posts that were already published or rejected are skipped unless force is true
+   * With dryRun, the tweet is previewed with its character count and media details, not posted
+   * With publishAt, the summary is scheduled and posted at that time
+   * With mode thread, the caption is posted as a numbered thread; a thread that fails partway
+   * reports the tweets posted and the job that posts the rest
+   * The progress of the run is streamed at /api/runs/:id/events; the run ID is taken from
+   * runId or the X-Run-Id header, or generated, and returned in the X-Run-Id header
+   * @param req Request object containing the optional sourceId, imageUpload, force and dryRun
+   * flags, the optional publishAt and timeZone, the optional promptTemplate, the optional mode
+   * and the optional runId
    * @param res Response object
    */
   public fetchAndPostToTwitter = asyncHandler(
     async (req: Request, res: Response): Promise<void> => {
       logger.info('Received request to fetch Instagram data and post to Twitter');
 
-      const { imageUpload = false } = req.body;
-
-      const instagramResult = await this.instagramService.getLatestPost();
+      const runId = progressService.validateRunId(
+        req.body.runId ?? req.get('X-Run-Id') ?? uuidv4()
+      );
+      res.setHeader('X-Run-Id', runId);
+      await progressService.track(runId, () => this.crossPostLatest(req, res));
+    }
+  );
 
-      if (!instagramResult.success || !instagramResult.data) {
-        logger.error(`Failed to fetch Instagram post: ${instagramResult.error}`);
-        res.status(404).json({
-          success: false,
-          message: 'Failed to fetch Instagram post',
-          error: instagramResult.error || 'No Instagram post found',
-        });
-        return;
-      }
+  /**
+   * Cross-posts the latest post of a source, inside the tracked run of the request
+   */
+  private crossPostLatest = async (req: Request, res: Response): Promise<void> => {
+    const source = sourceService.resolve(req.body.sourceId);
+    const { imageUpload, force, dryRun, publishAt, timeZone, promptTemplate, mode } = req.body;
+    if (mode !== undefined && !TWEET_MODES.includes(mode as TweetMode)) {
+      handleValidationError(res, `mode must be one of: ${TWEET_MODES.join(', ')}`);
+      return;
+    }
+    const schedule =
+      publishAt !== undefined ? scheduleService.resolve(publishAt, timeZone) : undefined;
 
-      const { caption, imageUrl } = instagramResult.data;
+    const instagramService = sourceService.getInstagramService(source.id);
+    const instagramResult = await instagramService.getLatestPost();
 
-      const summarizationResult = await llmService.summarizeText({
-        text: caption,
+    if (!instagramResult.success || !instagramResult.data) {
+      logger.error(`Failed to fetch Instagram post: ${instagramResult.error}`);
+      res.status(404).json({
+        success: false,
+        message: 'Failed to fetch Instagram post',
+        error: instagramResult.error || 'No Instagram post found',
+        attempts: instagramResult.attempts,
       });
+      return;
+    }
 
-      let tweetResult;
-
-      if (imageUpload && imageUrl) {
-        logger.info('Posting tweet with media');
-        tweetResult = await twitterService.postTweetWithMedia(
-          summarizationResult.summary,
-          imageUrl
-        );
-      } else {
-        logger.info('Posting tweet without media');
-        tweetResult = await twitterService.postTweet(summarizationResult.summary);
-      }
+    const result = await crossPostService.crossPost(source, instagramResult.data, {
+      imageUpload,
+      force,
+      dryRun,
+      schedule,
+      promptTemplate,
+      mode,
+    });
 
-      if (tweetResult.success) {
-        logger.info('Successfully posted to Twitter');
-        res.status(200).json({
-          success: true,
-          message: 'Successfully fetched Instagram data and posted to Twitter',
-          data: {
-            instagram: instagramResult.data,
-            twitter: {
-              tweetId: tweetResult.data?.id,
-              tweetText: summarizationResult.summary,
-            },
+    if (result.status === 'previewed' && result.preview) {
+      res.status(result.preview.valid ? 200 : 400).json({
+        success: result.preview.valid,
+        dryRun: true,
+        message: result.preview.valid
+          ? 'Dry run completed, nothing was posted to Twitter'
+          : 'Dry run found problems, the tweet would be rejected',
+        data: {
+          instagram: instagramResult.data,
+          twitter: result.preview,
+          template: result.template,
+          history: result.history,
+        },
+      });
+    } else if (result.status === 'scheduled' && result.job) {
+      const scheduled = scheduleService.get(result.job.id);
+      res.status(202).json({
+        success: true,
+        scheduled: true,
+        message: `Tweet scheduled for ${scheduled.localPublishAt || scheduled.publishAt}`,
+        data: {
+          instagram: instagramResult.data,
+          scheduled,
+        },
+      });
+    } else if (result.partial && result.job) {
+      const posted = result.thread?.length || 0;
+      const total = (result.job.payload as PublishJobPayload).thread?.length || 0;
+      const next =
+        result.status === 'queued'
+          ? 'a retry is scheduled for the rest'
+          : `retry job ${result.job.id} to post the rest`;
+      res.status(207).json({
+        success: false,
+        partial: true,
+        message: `Posted ${posted} of ${total} tweets of the thread, ${next}`,
+        error: result.error,
+        data: {
+          instagram: instagramResult.data,
+          thread: result.thread,
+          job: result.job,
+        },
+      });
+    } else if (result.status === 'queued') {
+      res.status(202).json({
+        success: true,
+        queued: true,
+        message: 'Posting to Twitter failed with a temporary error, a retry is scheduled',
+        error: result.error,
+        data: {
+          instagram: instagramResult.data,
+          job: result.job,
+        },
+      });
+    } else if (result.status === 'drafted') {
+      res.status(202).json({
+        success: true,
+        message: 'Draft created, waiting for approval',
+        data: {
+          instagram: instagramResult.data,
+          draft: result.draft,
+        },
+      });
+    } else if (result.status === 'skipped' && result.draft) {
+      res.status(200).json({
+        success: true,
+        skipped: true,
+        message: 'Draft of this Instagram post was rejected',
+        data: {
+          instagram: instagramResult.data,
+          draft: result.draft,
+        },
+      });
+    } else if (result.status === 'skipped') {
+      res.status(200).json({
+        success: true,
+        skipped: true,
+        message: 'Instagram post was already posted to Twitter',
+        data: {
+          instagram: instagramResult.data,
+          twitter: {
+            tweetId: result.tweetId,
+            tweetText: result.summary,
           },
-        });
-      } else {
-        logger.error(`Failed to post to Twitter: ${tweetResult.error}`);
-        res.status(400).json({
-          success: false,
-          message: 'Failed to post to Twitter',
-          error: tweetResult.error,
-          data: {
-            instagram: instagramResult.data,
-            summary: summarizationResult.summary,
+          history: result.history,
+        },
+      });
+    } else if (result.status === 'published') {
+      res.status(200).json({
+        success: true,
+        message: 'Successfully fetched Instagram data and posted to Twitter',
+        data: {
+          instagram: instagramResult.data,
+          twitter: {
+            tweetId: result.tweetId,
+            tweetText: result.summary,
+            template: result.template,
+            thread: result.thread,
           },
-        });
-      }
+        },
+      });
+    } else {
+      res.status(400).json({
+        success: false,
+        message: 'Failed to post to Twitter',
+        error: result.error,
+        data: {
+          instagram: instagramResult.data,
+          summary: result.summary,
+        },
+      });
     }
-  );
+  };
 }
 
 export const commonController = new CommonController();
@@ -0,0 +1,150 @@
+import { Request, Response } from 'express';
+import { draftService } from '../services/draft.service';
+import { crossPostService } from '../services/crossPost.service';
+import { DraftInput, DraftStatus } from '../interfaces/draft.interface';
+import { asyncHandler, handleValidationError, logger } from '../utils';
+
+const DRAFT_STATUSES: DraftStatus[] = ['pending', 'published', 'rejected'];
+
+class DraftController {
+  constructor() {
+    logger.info('Draft controller initialized');
+  }
+
+  /**
+   * Lists drafts, newest first
+   * @param req Request object with optional `sourceId` and `status` query parameters
+   * @param res Response object
+   */
+  public listDrafts = asyncHandler(async (req: Request, res: Response) => {
+    const { sourceId, status } = req.query;
+
+    if (status !== undefined && !DRAFT_STATUSES.includes(status as DraftStatus)) {
+      return handleValidationError(res, `Status must be one of: ${DRAFT_STATUSES.join(', ')}`);
+    }
+
+    return res.status(200).json({
+      success: true,
+      data: draftService.list({
+        sourceId: typeof sourceId === 'string' ? sourceId : undefined,
+        status: status as DraftStatus | undefined,
+      }),
+    });
+  });
+
+  /**
+   * Gets a draft
+   * @param req Request object with the draft ID as route parameter
+   * @param res Response object
+   */
+  public getDraft = asyncHandler(async (req: Request, res: Response) => {
+    return res.status(200).json({
+      success: true,
+      data: draftService.get(req.params.id),
+    });
+  });
+
+  /**
+   * Edits the summary or the attached image of a pending draft
+   * @param req Request object containing the summary and the image URL, `null` for no image
+   * @param res Response object
+   */
+  public updateDraft = asyncHandler(async (req: Request, res: Response) => {
+    const { summary, imageUrl } = req.body as DraftInput;
+
+    const draft = draftService.update(req.params.id, { summary, imageUrl });
+
+    return res.status(200).json({
+      success: true,
+      message: `Draft updated: ${draft.id}`,
+      data: draft,
+    });
+  });
+
+  /**
+   * Approves a pending draft and posts it to Twitter
+   * @param req Request object with the draft ID as route parameter
+   * @param res Response object
+   */
+  public approveDraft = asyncHandler(async (req: Request, res: Response) => {
+    logger.info(`Received request to approve draft ${req.params.id}`);
+
+    const result = await crossPostService.approveDraft(req.params.id);
+
+    if (result.status === 'published') {
+      return res.status(200).json({
+        success: true,
+        message: 'Draft approved and posted to Twitter',
+        data: {
+          draft: result.draft,
+          twitter: {
+            tweetId: result.tweetId,
+            tweetText: result.summary,
+          },
+        },
+      });
+    }
+
+    if (result.status === 'queued') {
+      return res.status(202).json({
+        success: true,
+        queued: true,
+        message: 'Posting to Twitter failed with a temporary error, a retry is scheduled',
+        error: result.error,
+        data: {
+          draft: result.draft,
+          job: result.job,
+        },
+      });
+    }
+
+    return res.status(400).json({
+      success: false,
+      message: 'Failed to post to Twitter',
+      error: result.error,
+      data: {
+        draft: result.draft,
+      },
+    });
+  });
+
+  /**
+   * Rejects a pending draft
+   * @param req Request object containing an optional reason
+   * @param res Response object
+   */
+  public rejectDraft = asyncHandler(async (req: Request, res: Response) => {
+    const { reason } = req.body;
+
+    if (reason !== undefined && typeof reason !== 'string') {
+      return handleValidationError(res, 'Reason must be a string');
+    }
+
+    const draft = draftService.reject(req.params.id, reason);
+
+    return res.status(200).json({
+      success: true,
+      message: `Draft rejected: ${draft.id}`,
+      data: draft,
+    });
+  });
+
+  /**
+   * Replaces the summary of a pending draft with a newly generated one
+   * @param req Request object with the draft ID as route parameter and the optional
+   * promptTemplate
+   * @param res Response object
+   */
+  public regenerateDraft = asyncHandler(async (req: Request, res: Response) => {
+    const { promptTemplate } = req.body as { promptTemplate?: string };
+    const draft = await draftService.regenerate(req.params.id, promptTemplate);
+
+    return res.status(200).json({
+      success: true,
+      message: `Draft regenerated: ${draft.id}`,
+      data: draft,
+    });
+  });
+}
+
+export const draftController = new DraftController();
@@ -0,0 +1,63 @@
+import { Request, Response } from 'express';
+import { historyService, MAX_HISTORY_LIMIT } from '../services/history.service';
+import { HistoryStatus } from '../interfaces/history.interface';
+import { asyncHandler, handleValidationError, logger } from '../utils';
+
+const HISTORY_STATUSES: HistoryStatus[] = ['published', 'failed'];
+
+class HistoryController {
+  constructor() {
+    logger.info('History controller initialized');
+  }
+
+  /**
+   * Lists the cross-post history, newest first
+   * @param req Request object with optional `sourceId`, `status`, `since`, `until`, `search`,
+   * `limit` and `offset` query parameters
+   * @param res Response object
+   */
+  public listHistory = asyncHandler(async (req: Request, res: Response) => {
+    const { sourceId, status, since, until, search, limit, offset } = req.query;
+
+    if (status !== undefined && !HISTORY_STATUSES.includes(status as HistoryStatus)) {
+      return handleValidationError(res, `Status must be one of: ${HISTORY_STATUSES.join(', ')}`);
+    }
+    if (since !== undefined && isNaN(new Date(String(since)).getTime())) {
+      return handleValidationError(res, 'Since must be a valid date');
+    }
+    if (until !== undefined && isNaN(new Date(String(until)).getTime())) {
+      return handleValidationError(res, 'Until must be a valid date');
+    }
+
+    const parsedLimit = limit !== undefined ? Number(limit) : undefined;
+    if (parsedLimit !== undefined && (!Number.isInteger(parsedLimit) || parsedLimit < 1)) {
+      return handleValidationError(res, 'Limit must be a positive integer');
+    }
+    if (parsedLimit !== undefined && parsedLimit > MAX_HISTORY_LIMIT) {
+      return handleValidationError(res, `Limit must not exceed ${MAX_HISTORY_LIMIT}`);
+    }
+
+    const parsedOffset = offset !== undefined ? Number(offset) : undefined;
+    if (parsedOffset !== undefined && (!Number.isInteger(parsedOffset) || parsedOffset < 0)) {
+      return handleValidationError(res, 'Offset must be a non-negative integer');
+    }
+
+    const page = historyService.list({
+      sourceId: typeof sourceId === 'string' ? sourceId : undefined,
+      status: status as HistoryStatus | undefined,
+      since: since !== undefined ? new Date(String(since)) : undefined,
+      until: until !== undefined ? new Date(String(until)) : undefined,
+      search: typeof search === 'string' ? search : undefined,
+      limit: parsedLimit,
+      offset: parsedOffset,
+    });
+
+    return res.status(200).json({
+      success: true,
+      data: page.entries,
+      total: page.total,
+    });
+  });
+}
+
+export const historyController = new HistoryController();
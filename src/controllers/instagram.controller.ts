@@ -1,60 +1,119 @@
 import { Request, Response } from 'express';
-import InstagramService from '../services/instagram.service';
+import { MAX_RECENT_POSTS } from '../services/instagram.service';
+import { sourceService } from '../services/source.service';
 import { logger, asyncHandler, handleValidationError } from '../utils';
 
 class InstagramController {
-  private instagramService: InstagramService;
-
   constructor() {
-    this.instagramService = new InstagramService();
     logger.info('Instagram controller initialized');
   }
 
   /**
-   * Gets the latest post from the configured Instagram account
-   * @param req - Express request object
+   * Gets the latest post from an Instagram source
+   * @param req - Express request object with an optional `sourceId` query parameter
    * @param res - Express response object
    */
   public getLatestPost = asyncHandler(async (req: Request, res: Response): Promise<void> => {
-    logger.info('Received request to get latest Instagram post');
+    const sourceId = typeof req.query.sourceId === 'string' ? req.query.sourceId : undefined;
+
+    logger.info(`Received request to get latest Instagram post (source: ${sourceId ?? 'default'})`);
 
-    const result = await this.instagramService.getLatestPost();
+    const instagramService = sourceService.getInstagramService(sourceId);
+    const result = await instagramService.getLatestPost();
 
     if (result.success && result.data) {
       logger.info('Successfully retrieved latest Instagram post');
       res.status(200).json({
         success: true,
         data: result.data,
+        strategy: result.strategy,
+        attempts: result.attempts,
       });
     } else {
       logger.error(`Failed to retrieve latest Instagram post: ${result.error}`);
       res.status(404).json({
         success: false,
         error: result.error || 'Failed to retrieve latest Instagram post',
+        attempts: result.attempts,
       });
     }
   });
 
   /**
-   * Updates the target Instagram username
-   * @param req - Express request object
+   * Gets the most recent posts from an Instagram source, newest first
+   * @param req - Express request object with optional `sourceId`, `limit` and `since` query parameters
    * @param res - Express response object
    */
-  public updateUsername = asyncHandler(async (req: Request, res: Response): Promise<void> => {
-    const { username } = req.body;
+  public getRecentPosts = asyncHandler(async (req: Request, res: Response): Promise<void> => {
+    const { limit, since } = req.query;
+    const sourceId = typeof req.query.sourceId === 'string' ? req.query.sourceId : undefined;
 
-    if (!username) {
-      return handleValidationError(res, 'Username is required');
+    const parsedLimit = limit !== undefined ? Number(limit) : undefined;
+    if (parsedLimit !== undefined && (!Number.isInteger(parsedLimit) || parsedLimit < 1)) {
+      return handleValidationError(res, 'Limit must be a positive integer');
+    }
+    if (parsedLimit !== undefined && parsedLimit > MAX_RECENT_POSTS) {
+      return handleValidationError(res, `Limit must not exceed ${MAX_RECENT_POSTS}`);
+    }
+    if (since !== undefined && isNaN(new Date(String(since)).getTime())) {
+      return handleValidationError(res, 'Since must be a valid date');
     }
 
-    logger.info(`Received request to update Instagram username to: ${username}`);
-
-    this.instagramService.setUsername(username);
+    logger.info(`Received request to get recent Instagram posts (limit: ${limit ?? 'default'})`);
 
-    res.status(200).json({
-      success: true,
-      message: `Username updated to: ${username}`,
+    const instagramService = sourceService.getInstagramService(sourceId);
+    const result = await instagramService.getRecentPosts({
+      limit: parsedLimit,
+      since: since !== undefined ? String(since) : undefined,
     });
+
+    if (result.success && result.data) {
+      logger.info(`Successfully retrieved ${result.data.length} recent Instagram posts`);
+      res.status(200).json({
+        success: true,
+        data: result.data,
+        strategy: result.strategy,
+        attempts: result.attempts,
+      });
+    } else {
+      logger.error(`Failed to retrieve recent Instagram posts: ${result.error}`);
+      res.status(404).json({
+        success: false,
+        error: result.error || 'Failed to retrieve recent Instagram posts',
+        attempts: result.attempts,
+      });
+    }
+  });
+
+  /**
+   * Gets the profile metadata of an Instagram source
+   * @param req - Express request object with an optional `sourceId` query parameter
+   * @param res - Express response object
+   */
+  public getProfile = asyncHandler(async (req: Request, res: Response): Promise<void> => {
+    const sourceId = typeof req.query.sourceId === 'string' ? req.query.sourceId : undefined;
+
+    logger.info(`Received request to get Instagram profile (source: ${sourceId ?? 'default'})`);
+
+    const instagramService = sourceService.getInstagramService(sourceId);
+    const result = await instagramService.getProfile();
+
+    if (result.success && result.data) {
+      logger.info(`Successfully retrieved Instagram profile of ${result.data.username}`);
+      res.status(200).json({
+        success: true,
+        data: result.data,
+        strategy: result.strategy,
+        attempts: result.attempts,
+      });
+    } else {
+      logger.error(`Failed to retrieve Instagram profile: ${result.error}`);
+      res.status(404).json({
+        success: false,
+        error: result.error || 'Failed to retrieve Instagram profile',
+        attempts: result.attempts,
+      });
+    }
   });
 }
 
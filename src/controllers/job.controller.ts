@@ -0,0 +1,76 @@
+import { Request, Response } from 'express';
+import { jobQueue } from '../services/jobQueue.service';
+import { JobStatus } from '../interfaces/job.interface';
+import { asyncHandler, handleValidationError, logger } from '../utils';
+
+const JOB_STATUSES: JobStatus[] = ['queued', 'running', 'completed', 'dead'];
+
+class JobController {
+  constructor() {
+    logger.info('Job controller initialized');
+  }
+
+  /**
+   * Lists jobs, newest first
+   * @param req Request object with optional `status` and `type` query parameters
+   * @param res Response object
+   */
+  public listJobs = asyncHandler(async (req: Request, res: Response) => {
+    const { status, type } = req.query;
+
+    if (status !== undefined && !JOB_STATUSES.includes(status as JobStatus)) {
+      return handleValidationError(res, `Status must be one of: ${JOB_STATUSES.join(', ')}`);
+    }
+
+    return res.status(200).json({
+      success: true,
+      data: jobQueue.list({
+        status: status as JobStatus | undefined,
+        type: typeof type === 'string' ? type : undefined,
+      }),
+    });
+  });
+
+  /**
+   * Gets a job with its attempts and failures
+   * @param req Request object with the job ID as route parameter
+   * @param res Response object
+   */
+  public getJob = asyncHandler(async (req: Request, res: Response) => {
+    return res.status(200).json({
+      success: true,
+      data: jobQueue.get(req.params.id),
+    });
+  });
+
+  /**
+   * Queues a dead or waiting job for an immediate attempt
+   * @param req Request object with the job ID as route parameter
+   * @param res Response object
+   */
+  public retryJob = asyncHandler(async (req: Request, res: Response) => {
+    const job = jobQueue.retry(req.params.id);
+
+    return res.status(200).json({
+      success: true,
+      message: `Job queued for retry: ${job.id}`,
+      data: job,
+    });
+  });
+
+  /**
+   * Discards a job that is not running
+   * @param req Request object with the job ID as route parameter
+   * @param res Response object
+   */
+  public discardJob = asyncHandler(async (req: Request, res: Response) => {
+    jobQueue.discard(req.params.id);
+
+    return res.status(200).json({
+      success: true,
+      message: `Job discarded: ${req.params.id}`,
+    });
+  });
+}
+
+export const jobController = new JobController();
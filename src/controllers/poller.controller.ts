@@ -0,0 +1,85 @@
+import { Request, Response } from 'express';
+import { pollerService } from '../services/poller.service';
+import { asyncHandler, logger } from '../utils';
+
+class PollerController {
+  constructor() {
+    logger.info('Poller controller initialized');
+  }
+
+  /**
+   * Lists the polling state of every source with its last and next run
+   * @param req Request object
+   * @param res Response object
+   */
+  public listPollers = asyncHandler(async (req: Request, res: Response) => {
+    return res.status(200).json({
+      success: true,
+      data: pollerService.list(),
+    });
+  });
+
+  /**
+   * Gets the polling state of a source
+   * @param req Request object with the source ID as route parameter
+   * @param res Response object
+   */
+  public getPoller = asyncHandler(async (req: Request, res: Response) => {
+    return res.status(200).json({
+      success: true,
+      data: pollerService.getStatus(req.params.id),
+    });
+  });
+
+  /**
+   * Pauses scheduled polls of a source
+   * @param req Request object with the source ID as route parameter
+   * @param res Response object
+   */
+  public pausePoller = asyncHandler(async (req: Request, res: Response) => {
+    const status = pollerService.pause(req.params.id);
+
+    return res.status(200).json({
+      success: true,
+      message: `Polling paused: ${req.params.id}`,
+      data: status,
+    });
+  });
+
+  /**
+   * Resumes scheduled polls of a source
+   * @param req Request object with the source ID as route parameter
+   * @param res Response object
+   */
+  public resumePoller = asyncHandler(async (req: Request, res: Response) => {
+    const status = pollerService.resume(req.params.id);
+
+    return res.status(200).json({
+      success: true,
+      message: `Polling resumed: ${req.params.id}`,
+      data: status,
+    });
+  });
+
+  /**
+   * Polls a source now and cross-posts its new posts
+   * @param req Request object with the source ID as route parameter
+   * @param res Response object
+   */
+  public runPoller = asyncHandler(async (req: Request, res: Response) => {
+    logger.info(`Received request to poll source ${req.params.id}`);
+
+    const run = await pollerService.run(req.params.id);
+
+    return res.status(200).json({
+      success: !run.error,
+      message: run.error ? `Poll finished with errors: ${run.error}` : 'Poll finished',
+      data: {
+        run,
+        status: pollerService.getStatus(req.params.id),
+      },
+    });
+  });
+}
+
+export const pollerController = new PollerController();
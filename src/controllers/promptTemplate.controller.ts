@@ -0,0 +1,135 @@
+import { Request, Response } from 'express';
+import { promptTemplateService } from '../services/promptTemplate.service';
+import { PromptTemplateInput, PromptVariables } from '../interfaces/promptTemplate.interface';
+import { asyncHandler, handleValidationError, logger } from '../utils';
+
+class PromptTemplateController {
+  constructor() {
+    logger.info('Prompt template controller initialized');
+  }
+
+  /**
+   * Lists all prompt templates
+   * @param req Request object
+   * @param res Response object
+   */
+  public listTemplates = asyncHandler(async (req: Request, res: Response) => {
+    return res.status(200).json({
+      success: true,
+      data: promptTemplateService.list(),
+    });
+  });
+
+  /**
+   * Gets a single prompt template with all its versions
+   * @param req Request object with the template ID as route parameter
+   * @param res Response object
+   */
+  public getTemplate = asyncHandler(async (req: Request, res: Response) => {
+    return res.status(200).json({
+      success: true,
+      data: promptTemplateService.get(req.params.id),
+    });
+  });
+
+  /**
+   * Creates a prompt template
+   * @param req Request object containing the ID, name, description, body, emoji and hashtags
+   * flags and suffix
+   * @param res Response object
+   */
+  public createTemplate = asyncHandler(async (req: Request, res: Response) => {
+    const { id, name, description, body, emoji, hashtags, suffix } =
+      req.body as PromptTemplateInput;
+
+    const template = promptTemplateService.create({
+      id,
+      name,
+      description,
+      body,
+      emoji,
+      hashtags,
+      suffix,
+    });
+
+    return res.status(201).json({
+      success: true,
+      message: `Prompt template created: ${template.id}`,
+      data: template,
+    });
+  });
+
+  /**
+   * Updates a prompt template; changing how tweets are written creates a new version
+   * @param req Request object with the template ID as route parameter and the fields to change
+   * @param res Response object
+   */
+  public updateTemplate = asyncHandler(async (req: Request, res: Response) => {
+    const { name, description, body, emoji, hashtags, suffix } = req.body as PromptTemplateInput;
+
+    const template = promptTemplateService.update(req.params.id, {
+      name,
+      description,
+      body,
+      emoji,
+      hashtags,
+      suffix,
+    });
+
+    return res.status(200).json({
+      success: true,
+      message: `Prompt template ${template.id} is at version ${template.version}`,
+      data: template,
+    });
+  });
+
+  /**
+   * Removes a prompt template; sources using it fall back to the default template
+   * @param req Request object with the template ID as route parameter
+   * @param res Response object
+   */
+  public deleteTemplate = asyncHandler(async (req: Request, res: Response) => {
+    promptTemplateService.remove(req.params.id);
+
+    return res.status(200).json({
+      success: true,
+      message: `Prompt template deleted: ${req.params.id}`,
+    });
+  });
+
+  /**
+   * Renders the prompt a template would send for a caption, without summarizing it
+   * @param req Request object with the template ID as route parameter and the caption, and the
+   * optional username, postUrl, maxLength and date
+   * @param res Response object
+   */
+  public previewTemplate = asyncHandler(async (req: Request, res: Response) => {
+    const { caption, username, postUrl, maxLength = 280, date } = req.body as PromptVariables;
+
+    if (!caption) {
+      return handleValidationError(res, 'Caption is required');
+    }
+    if (!Number.isInteger(maxLength) || maxLength <= 0) {
+      return handleValidationError(res, 'maxLength must be a positive integer');
+    }
+
+    const template = promptTemplateService.get(req.params.id);
+    const prompt = promptTemplateService.render(template, {
+      caption,
+      username,
+      postUrl,
+      maxLength: promptTemplateService.getOutputLength(template, maxLength),
+      date: date || new Date().toISOString().slice(0, 10),
+    });
+
+    return res.status(200).json({
+      success: true,
+      data: {
+        template: promptTemplateService.toRef(template),
+        prompt,
+      },
+    });
+  });
+}
+
+export const promptTemplateController = new PromptTemplateController();
@@ -0,0 +1,88 @@
+import { Request, Response } from 'express';
+import { progressService } from '../services/progress.service';
+import { ProgressEvent } from '../interfaces/progress.interface';
+import { asyncHandler, logger } from '../utils';
+
+// Comment lines sent while a stage is quiet, so proxies do not drop the connection
+const HEARTBEAT_INTERVAL_MS = 15 * 1000;
+const FINAL_STAGES = ['run:done', 'run:failed'];
+
+class RunController {
+  constructor() {
+    logger.info('Run controller initialized');
+  }
+
+  /**
+   * Gets the status of a pipeline run with the events so far
+   * @param req Request object with the run ID as route parameter
+   * @param res Response object
+   */
+  public getRun = asyncHandler(async (req: Request, res: Response) => {
+    return res.status(200).json({
+      success: true,
+      data: progressService.get(req.params.id),
+    });
+  });
+
+  /**
+   * Streams the stage events of a pipeline run as Server-Sent Events
+   * Clients may connect before the run starts; events that already happened are replayed,
+   * after the one in the `Last-Event-ID` header when reconnecting
+   * The stream ends after the `run:done` or `run:failed` event
+   * @param req Request object with the run ID as route parameter
+   * @param res Response object
+   */
+  public streamEvents = asyncHandler(async (req: Request, res: Response) => {
+    const runId = progressService.validateRunId(req.params.id);
+    const lastEventId = Number(req.get('Last-Event-ID'));
+
+    res.status(200).set({
+      'Content-Type': 'text/event-stream',
+      'Cache-Control': 'no-cache',
+      Connection: 'keep-alive',
+      'X-Accel-Buffering': 'no',
+    });
+    res.flushHeaders();
+
+    let closed = false;
+    // Replayed events are sent before subscribe returns, so the stream may end before that
+    const subscription: { unsubscribe?: () => void } = {};
+    const heartbeat = setInterval(() => res.write(': heartbeat\n\n'), HEARTBEAT_INTERVAL_MS);
+    heartbeat.unref();
+
+    const close = () => {
+      if (closed) {
+        return;
+      }
+      closed = true;
+      clearInterval(heartbeat);
+      subscription.unsubscribe?.();
+      res.end();
+    };
+
+    const send = (event: ProgressEvent) => {
+      if (closed) {
+        return;
+      }
+      res.write(`id: ${event.seq}\nevent: ${event.stage}\ndata: ${JSON.stringify(event)}\n\n`);
+      if (FINAL_STAGES.includes(event.stage)) {
+        close();
+      }
+    };
+
+    const { run, unsubscribe } = progressService.subscribe(
+      runId,
+      send,
+      Number.isInteger(lastEventId) && lastEventId > 0 ? lastEventId : 0
+    );
+    subscription.unsubscribe = unsubscribe;
+    res.on('close', close);
+
+    if (closed || run.status === 'completed' || run.status === 'failed') {
+      unsubscribe();
+      close();
+    }
+  });
+}
+
+export const runController = new RunController();
@@ -0,0 +1,72 @@
+import { Request, Response } from 'express';
+import { scheduleService } from '../services/schedule.service';
+import { ScheduledStatus, ScheduledType } from '../interfaces/schedule.interface';
+import { asyncHandler, handleValidationError, logger } from '../utils';
+
+const SCHEDULED_STATUSES: ScheduledStatus[] = [
+  'scheduled',
+  'publishing',
+  'retrying',
+  'published',
+  'failed',
+];
+const SCHEDULED_TYPES: ScheduledType[] = ['tweet', 'crossPost'];
+
+class ScheduleController {
+  constructor() {
+    logger.info('Schedule controller initialized');
+  }
+
+  /**
+   * Lists scheduled tweets by publication time
+   * @param req Request object with optional `status` and `type` query parameters
+   * @param res Response object
+   */
+  public listScheduled = asyncHandler(async (req: Request, res: Response) => {
+    const { status, type } = req.query;
+
+    if (status !== undefined && !SCHEDULED_STATUSES.includes(status as ScheduledStatus)) {
+      return handleValidationError(res, `Status must be one of: ${SCHEDULED_STATUSES.join(', ')}`);
+    }
+    if (type !== undefined && !SCHEDULED_TYPES.includes(type as ScheduledType)) {
+      return handleValidationError(res, `Type must be one of: ${SCHEDULED_TYPES.join(', ')}`);
+    }
+
+    return res.status(200).json({
+      success: true,
+      data: scheduleService.list({
+        status: status as ScheduledStatus | undefined,
+        type: type as ScheduledType | undefined,
+      }),
+    });
+  });
+
+  /**
+   * Gets a scheduled tweet
+   * @param req Request object with the scheduled tweet ID as route parameter
+   * @param res Response object
+   */
+  public getScheduled = asyncHandler(async (req: Request, res: Response) => {
+    return res.status(200).json({
+      success: true,
+      data: scheduleService.get(req.params.id),
+    });
+  });
+
+  /**
+   * Cancels a scheduled tweet
+   * @param req Request object with the scheduled tweet ID as route parameter
+   * @param res Response object
+   */
+  public cancelScheduled = asyncHandler(async (req: Request, res: Response) => {
+    const scheduled = scheduleService.cancel(req.params.id);
+
+    return res.status(200).json({
+      success: true,
+      message: `Scheduled tweet cancelled: ${scheduled.id}`,
+      data: scheduled,
+    });
+  });
+}
+
+export const scheduleController = new ScheduleController();
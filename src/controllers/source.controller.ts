@@ -0,0 +1,132 @@
+import { Request, Response } from 'express';
+import { sourceService } from '../services/source.service';
+import { tokenService } from '../services/token.service';
+import { SourceInput } from '../interfaces/source.interface';
+import { asyncHandler, logger } from '../utils';
+
+class SourceController {
+  constructor() {
+    logger.info('Source controller initialized');
+  }
+
+  /**
+   * Lists all registered Instagram sources
+   * @param req Request object
+   * @param res Response object
+   */
+  public listSources = asyncHandler(async (req: Request, res: Response) => {
+    const sources = sourceService.list().map(source => sourceService.toPublic(source));
+
+    return res.status(200).json({
+      success: true,
+      data: sources,
+    });
+  });
+
+  /**
+   * Gets a single Instagram source
+   * @param req Request object with the source ID as route parameter
+   * @param res Response object
+   */
+  public getSource = asyncHandler(async (req: Request, res: Response) => {
+    const source = sourceService.get(req.params.id);
+
+    return res.status(200).json({
+      success: true,
+      data: sourceService.toPublic(source),
+    });
+  });
+
+  /**
+   * Registers a new Instagram source
+   * @param req Request object containing the username, name, access token and settings
+   * @param res Response object
+   */
+  public createSource = asyncHandler(async (req: Request, res: Response) => {
+    const { id, name, username, accessToken, businessAccountId, settings } =
+      req.body as SourceInput;
+
+    const source = sourceService.create({
+      id,
+      name,
+      username,
+      accessToken,
+      businessAccountId,
+      settings,
+    });
+
+    return res.status(201).json({
+      success: true,
+      message: `Source created: ${source.id}`,
+      data: sourceService.toPublic(source),
+    });
+  });
+
+  /**
+   * Updates an Instagram source
+   * @param req Request object with the source ID as route parameter and the fields to change
+   * @param res Response object
+   */
+  public updateSource = asyncHandler(async (req: Request, res: Response) => {
+    const { name, username, accessToken, businessAccountId, settings } = req.body as SourceInput;
+
+    const source = sourceService.update(req.params.id, {
+      name,
+      username,
+      accessToken,
+      businessAccountId,
+      settings,
+    });
+
+    return res.status(200).json({
+      success: true,
+      message: `Source updated: ${source.id}`,
+      data: sourceService.toPublic(source),
+    });
+  });
+
+  /**
+   * Removes an Instagram source
+   * @param req Request object with the source ID as route parameter
+   * @param res Response object
+   */
+  public deleteSource = asyncHandler(async (req: Request, res: Response) => {
+    sourceService.remove(req.params.id);
+
+    return res.status(200).json({
+      success: true,
+      message: `Source deleted: ${req.params.id}`,
+    });
+  });
+
+  /**
+   * Gets the expiry and refresh state of the access token of a source
+   * @param req Request object with the source ID as route parameter
+   * @param res Response object
+   */
+  public getTokenStatus = asyncHandler(async (req: Request, res: Response) => {
+    const status = tokenService.getStatus(req.params.id);
+
+    return res.status(200).json({
+      success: true,
+      data: status,
+    });
+  });
+
+  /**
+   * Refreshes the access token of a source right away
+   * @param req Request object with the source ID as route parameter
+   * @param res Response object
+   */
+  public refreshToken = asyncHandler(async (req: Request, res: Response) => {
+    const status = await tokenService.refresh(req.params.id);
+
+    return res.status(200).json({
+      success: true,
+      message: `Access token refreshed for source: ${req.params.id}`,
+      data: status,
+    });
+  });
+}
+
+export const sourceController = new SourceController();
@@ -1,9 +1,91 @@
 import { Request, Response } from 'express';
-import { llmService } from '../services/llm.service';
-import { twitterService } from '../services/twitter.service';
-import { MediaTweetRequest, TweetRequest } from '../interfaces/twitter.interface';
+import { llmService, MAX_CANDIDATES } from '../services/llm.service';
+import { scheduleService } from '../services/schedule.service';
+import { webhookService } from '../services/webhook.service';
+import {
+  MediaTweetRequest,
+  SummarizeRequest,
+  TweetMode,
+  TweetRequest,
+} from '../interfaces/twitter.interface';
+import {
+  ScheduledTweet,
+  TweetJobPayload,
+  TweetJobResult,
+  TweetSchedule,
+} from '../interfaces/schedule.interface';
+import { Job } from '../interfaces/job.interface';
+import { WebhookEventData } from '../interfaces/webhook.interface';
 import { asyncHandler, handleValidationError, logger } from '../utils';
 
+const TWEET_MODES: TweetMode[] = ['single', 'thread'];
+
+const scheduledResponse = (scheduled: ScheduledTweet) => ({
+  success: true,
+  scheduled: true,
+  message: `Tweet scheduled for ${scheduled.localPublishAt || scheduled.publishAt}`,
+  data: scheduled,
+});
+
+/**
+ * Builds the response of a tweet or a thread posted right away
+ * A failure after a temporary error reports the job that retries it; a thread that failed
+ * partway reports the tweets that were posted and the job that posts the rest, retried
+ * automatically after temporary errors or with `POST /api/jobs/:id/retry`
+ * @param job - The tweet job after its first attempt
+ */
+const tweetJobResponse = (job: Job<TweetJobPayload>) => {
+  const { thread, imageUrl } = job.payload;
+  const posted = job.payload.posted || [];
+  const total = thread?.length || 0;
+  const data = thread
+    ? { thread: posted, job }
+    : { ...(job.result as TweetJobResult | undefined)?.tweet, job };
+
+  if (job.status === 'completed') {
+    const message = thread
+      ? `Thread of ${total} tweets posted successfully`
+      : `Tweet${imageUrl ? ' with media' : ''} posted successfully`;
+    return { status: 200, body: { success: true, message, data } };
+  }
+  if (posted.length > 0) {
+    const next =
+      job.status === 'queued'
+        ? 'a retry is scheduled for the rest'
+        : `retry job ${job.id} to post the rest`;
+    return {
+      status: 207,
+      body: {
+        success: false,
+        partial: true,
+        message: `Posted ${posted.length} of ${total} tweets of the thread, ${next}`,
+        error: job.lastError,
+        data,
+      },
+    };
+  }
+  if (job.status === 'queued') {
+    return {
+      status: 202,
+      body: {
+        success: true,
+        queued: true,
+        message: 'Posting to Twitter failed with a temporary error, a retry is scheduled',
+        error: job.lastError,
+        data,
+      },
+    };
+  }
+
+  const message = thread
+    ? 'Failed to post thread'
+    : `Failed to post tweet${imageUrl ? ' with media' : ''}`;
+  return { status: 400, body: { success: false, message, error: job.lastError, data } };
+};
+
+const isTweetMode = (mode: unknown): mode is TweetMode =>
+  mode === undefined || TWEET_MODES.includes(mode as TweetMode);
+
 class TwitterController {
   constructor() {
     logger.info('Twitter controller initialized');
@@ -11,39 +93,83 @@ class TwitterController {
 
   /**
    * Summarizes an Instagram caption and posts it as a tweet
-   * @param req Request object containing the Instagram caption
+   * With publishAt, the summary is scheduled and posted at that time
+   * With mode thread, the caption is written as a numbered thread and posted as a reply chain
+   * @param req Request object containing the Instagram caption, the optional publishAt and
+   * timeZone, the optional promptTemplate and the optional mode
    * @param res Response object
    */
   public postTweet = asyncHandler(async (req: Request, res: Response) => {
-    const { instagramCaption } = req.body as TweetRequest;
+    const { instagramCaption, publishAt, timeZone, promptTemplate, mode } =
+      req.body as TweetRequest;
 
     if (!instagramCaption) {
       return handleValidationError(res, 'Instagram caption is required');
     }
+    if (!isTweetMode(mode)) {
+      return handleValidationError(res, `mode must be one of: ${TWEET_MODES.join(', ')}`);
+    }
+    const schedule =
+      publishAt !== undefined ? scheduleService.resolve(publishAt, timeZone) : undefined;
+
+    if (mode === 'thread') {
+      return this.postThread(res, instagramCaption, undefined, schedule, promptTemplate);
+    }
 
     const summarizationResult = await llmService.summarizeText({
       text: instagramCaption,
+      template: promptTemplate,
     });
 
-    const tweetResult = await twitterService.postTweet(summarizationResult.summary);
+    const eventData = { caption: instagramCaption, summary: summarizationResult.summary };
+    webhookService.emit('summary.generated', eventData);
 
-    return res.status(tweetResult.success ? 200 : 400).json(tweetResult);
+    if (schedule) {
+      const scheduled = scheduleService.scheduleTweet(
+        summarizationResult.summary,
+        undefined,
+        schedule,
+        undefined,
+        instagramCaption
+      );
+      return res.status(202).json(scheduledResponse(scheduled));
+    }
+
+    return this.postNow(res, eventData);
   });
 
   /**
    * Only summarizes an Instagram caption without posting it
-   * @param req Request object containing the Instagram caption
+   * With candidates, several summaries are written and scored, best first, so editors can pick
+   * another one than the best
+   * @param req Request object containing the Instagram caption, the optional promptTemplate and
+   * the optional number of candidates
    * @param res Response object
    */
   public summarizeCaption = asyncHandler(async (req: Request, res: Response) => {
-    const { instagramCaption } = req.body as TweetRequest;
+    const { instagramCaption, promptTemplate, candidates } = req.body as SummarizeRequest;
 
     if (!instagramCaption) {
       return handleValidationError(res, 'Instagram caption is required');
     }
+    if (
+      candidates !== undefined &&
+      (!Number.isInteger(candidates) || candidates < 1 || candidates > MAX_CANDIDATES)
+    ) {
+      return handleValidationError(
+        res,
+        `candidates must be an integer between 1 and ${MAX_CANDIDATES}`
+      );
+    }
 
     const summarizationResult = await llmService.summarizeText({
       text: instagramCaption,
+      template: promptTemplate,
+      candidates,
+    });
+    webhookService.emit('summary.generated', {
+      caption: instagramCaption,
+      summary: summarizationResult.summary,
     });
 
     return res.status(200).json({
@@ -51,33 +177,118 @@ class TwitterController {
       message: 'Caption summarized successfully',
       data: {
         tweetText: summarizationResult.summary,
+        template: summarizationResult.template,
+        candidates: summarizationResult.candidates,
       },
     });
   });
 
   /**
    * Summarizes an Instagram caption and posts it as a tweet with the associated image
-   * @param req Request object containing the Instagram caption and image URL
+   * With publishAt, the summary is scheduled and posted with the image at that time
+   * With mode thread, the image is attached to the first tweet of the thread
+   * @param req Request object containing the Instagram caption, image URL, the optional
+   * publishAt and timeZone, the optional promptTemplate and the optional mode
    * @param res Response object
    */
   public postTweetWithMedia = asyncHandler(async (req: Request, res: Response) => {
-    const { instagramCaption, imageUrl } = req.body as MediaTweetRequest;
+    const { instagramCaption, imageUrl, publishAt, timeZone, promptTemplate, mode } =
+      req.body as MediaTweetRequest;
 
     if (!instagramCaption || !imageUrl) {
       return handleValidationError(res, 'Both Instagram caption and image URL are required');
     }
+    if (!isTweetMode(mode)) {
+      return handleValidationError(res, `mode must be one of: ${TWEET_MODES.join(', ')}`);
+    }
+    const schedule =
+      publishAt !== undefined ? scheduleService.resolve(publishAt, timeZone) : undefined;
+
+    if (mode === 'thread') {
+      return this.postThread(res, instagramCaption, imageUrl, schedule, promptTemplate);
+    }
 
     const summarizationResult = await llmService.summarizeText({
       text: instagramCaption,
+      template: promptTemplate,
     });
 
-    const tweetResult = await twitterService.postTweetWithMedia(
-      summarizationResult.summary,
-      imageUrl
-    );
+    const eventData = {
+      caption: instagramCaption,
+      summary: summarizationResult.summary,
+      imageUrl,
+    };
+    webhookService.emit('summary.generated', eventData);
 
-    return res.status(tweetResult.success ? 200 : 400).json(tweetResult);
+    if (schedule) {
+      const scheduled = scheduleService.scheduleTweet(
+        summarizationResult.summary,
+        imageUrl,
+        schedule,
+        undefined,
+        instagramCaption
+      );
+      return res.status(202).json(scheduledResponse(scheduled));
+    }
+
+    return this.postNow(res, eventData);
   });
+
+  /**
+   * Writes a caption as a thread and posts it now or at the scheduled time
+   * @param res Response object
+   * @param caption The Instagram caption
+   * @param imageUrl The image of the first tweet, if any
+   * @param schedule The publication time, if scheduled
+   * @param promptTemplate The prompt template of the thread
+   */
+  private postThread = async (
+    res: Response,
+    caption: string,
+    imageUrl: string | undefined,
+    schedule: TweetSchedule | undefined,
+    promptTemplate?: string
+  ) => {
+    const { tweets } = await llmService.summarizeThread({
+      text: caption,
+      template: promptTemplate,
+    });
+
+    const eventData = { caption, summary: tweets.join('\n\n'), imageUrl };
+    webhookService.emit('summary.generated', eventData);
+
+    if (schedule) {
+      const scheduled = scheduleService.scheduleTweet(
+        eventData.summary,
+        imageUrl,
+        schedule,
+        tweets,
+        caption
+      );
+      return res.status(202).json(scheduledResponse(scheduled));
+    }
+
+    return this.postNow(res, eventData, tweets);
+  };
+
+  /**
+   * Posts a tweet or a thread right away through the job queue, which notifies webhooks of the
+   * tweet
+   * @param res Response object
+   * @param eventData The caption, summary and image of the tweet
+   * @param thread The tweets of a thread, posted instead of the summary
+   */
+  private postNow = async (
+    res: Response,
+    eventData: WebhookEventData & { summary: string; imageUrl?: string },
+    thread?: string[]
+  ) => {
+    const { summary, imageUrl, caption } = eventData;
+    const job = await scheduleService.postNow(summary, imageUrl, thread, caption);
+
+    const { status, body } = tweetJobResponse(job);
+    return res.status(status).json(body);
+  };
 }
 
 export const twitterController = new TwitterController();
@@ -0,0 +1,122 @@
+import { Request, Response } from 'express';
+import { webhookService } from '../services/webhook.service';
+import { WebhookDeliveryStatus, WebhookInput } from '../interfaces/webhook.interface';
+import { asyncHandler, handleValidationError, logger } from '../utils';
+
+const DELIVERY_STATUSES: WebhookDeliveryStatus[] = ['pending', 'delivered', 'failed'];
+const MAX_DELIVERY_LIMIT = 200;
+
+class WebhookController {
+  constructor() {
+    logger.info('Webhook controller initialized');
+  }
+
+  /**
+   * Lists all registered webhooks
+   * @param req Request object
+   * @param res Response object
+   */
+  public listWebhooks = asyncHandler(async (req: Request, res: Response) => {
+    return res.status(200).json({
+      success: true,
+      data: webhookService.list().map(webhook => webhookService.toPublic(webhook)),
+    });
+  });
+
+  /**
+   * Gets a single webhook
+   * @param req Request object with the webhook ID as route parameter
+   * @param res Response object
+   */
+  public getWebhook = asyncHandler(async (req: Request, res: Response) => {
+    return res.status(200).json({
+      success: true,
+      data: webhookService.toPublic(webhookService.get(req.params.id)),
+    });
+  });
+
+  /**
+   * Registers a webhook; the response is the only one that includes the secret
+   * @param req Request object containing the URL, events, secret, active flag and description
+   * @param res Response object
+   */
+  public createWebhook = asyncHandler(async (req: Request, res: Response) => {
+    const { url, events, secret, active, description } = req.body as WebhookInput;
+
+    const webhook = webhookService.create({ url, events, secret, active, description });
+
+    return res.status(201).json({
+      success: true,
+      message: `Webhook created: ${webhook.id}`,
+      data: { ...webhookService.toPublic(webhook), secret: webhook.secret },
+    });
+  });
+
+  /**
+   * Updates a webhook
+   * @param req Request object with the webhook ID as route parameter and the fields to change
+   * @param res Response object
+   */
+  public updateWebhook = asyncHandler(async (req: Request, res: Response) => {
+    const { url, events, secret, active, description } = req.body as WebhookInput;
+
+    const webhook = webhookService.update(req.params.id, {
+      url,
+      events,
+      secret,
+      active,
+      description,
+    });
+
+    return res.status(200).json({
+      success: true,
+      message: `Webhook updated: ${webhook.id}`,
+      data: webhookService.toPublic(webhook),
+    });
+  });
+
+  /**
+   * Removes a webhook
+   * @param req Request object with the webhook ID as route parameter
+   * @param res Response object
+   */
+  public deleteWebhook = asyncHandler(async (req: Request, res: Response) => {
+    webhookService.remove(req.params.id);
+
+    return res.status(200).json({
+      success: true,
+      message: `Webhook removed: ${req.params.id}`,
+    });
+  });
+
+  /**
+   * Lists the delivery log of a webhook, newest first
+   * @param req Request object with the webhook ID as route parameter and optional `status` and
+   * `limit` query parameters
+   * @param res Response object
+   */
+  public listDeliveries = asyncHandler(async (req: Request, res: Response) => {
+    const { status, limit } = req.query;
+
+    if (status !== undefined && !DELIVERY_STATUSES.includes(status as WebhookDeliveryStatus)) {
+      return handleValidationError(res, `Status must be one of: ${DELIVERY_STATUSES.join(', ')}`);
+    }
+    const parsedLimit = limit !== undefined ? Number(limit) : undefined;
+    if (
+      parsedLimit !== undefined &&
+      (!Number.isInteger(parsedLimit) || parsedLimit < 1 || parsedLimit > MAX_DELIVERY_LIMIT)
+    ) {
+      return handleValidationError(res, `Limit must be an integer from 1 to ${MAX_DELIVERY_LIMIT}`);
+    }
+
+    return res.status(200).json({
+      success: true,
+      data: webhookService.listDeliveries(req.params.id, {
+        status: status as WebhookDeliveryStatus | undefined,
+        limit: parsedLimit ?? 50,
+      }),
+    });
+  });
+}
+
+export const webhookController = new WebhookController();
@@ -5,6 +5,10 @@ import passport from 'passport';
 import session from 'express-session';
 import { Strategy as TwitterStrategy } from 'passport-twitter';
 import { mainRoutes } from './Routes';
+import { browserPool } from './services/browserPool.service';
+import { tokenService } from './services/token.service';
+import { pollerService } from './services/poller.service';
+import { jobQueue } from './services/jobQueue.service';
 
 const app: Application = express();
 const PORT = process.env.PORT || 3000;
@@ -61,9 +65,27 @@ app.get('/health', (req, res) => {
 app.use(errorMiddleware);
 
 if (process.env.NODE_ENV !== 'test') {
-  app.listen(PORT, () => {
+  const server = app.listen(PORT, () => {
     logger.info(`Server running on port ${PORT}`);
   });
+
+  tokenService.start();
+  jobQueue.start();
+  pollerService.start();
+
+  // Close pooled browsers so no Chrome processes outlive the server
+  const shutdown = async (signal: string) => {
+    logger.info(`Received ${signal}, shutting down`);
+    server.close();
+    tokenService.stop();
+    pollerService.stop();
+    jobQueue.stop();
+    await browserPool.shutdown();
+    process.exit(0);
+  };
+
+  process.once('SIGINT', () => shutdown('SIGINT'));
+  process.once('SIGTERM', () => shutdown('SIGTERM'));
 }
 
 export default app;
@@ -0,0 +1,69 @@
+import { InstagramPost } from './instagram.interface';
+import { PromptTemplateRef } from './promptTemplate.interface';
+
+export type BackfillStatus = 'running' | 'paused' | 'completed' | 'cancelled';
+
+/** `skipped` means the post was already published, or its draft rejected, when its turn came */
+export type BackfillItemStatus = 'pending' | 'published' | 'skipped' | 'failed';
+
+export interface BackfillItem {
+  postKey: string;
+  post: InstagramPost;
+  status: BackfillItemStatus;
+  /** Kept once generated, so a retried tweet is not summarized again */
+  summary?: string;
+  template?: PromptTemplateRef;
+  tweetId?: string;
+  error?: string;
+  processedAt?: string;
+}
+
+export interface BackfillProgress {
+  total: number;
+  published: number;
+  skipped: number;
+  failed: number;
+  pending: number;
+}
+
+/**
+ * Cross-post of the older posts of a source, oldest first, one tweet per interval
+ * Each step is a job of the job queue, so a backfill continues after a restart
+ */
+export interface Backfill {
+  id: string;
+  sourceId: string;
+  limit: number;
+  since?: string;
+  /** Time between two tweets */
+  intervalMs: number;
+  imageUpload: boolean;
+  status: BackfillStatus;
+  items: BackfillItem[];
+  progress: BackfillProgress;
+  /** The job of the next step */
+  jobId?: string;
+  nextRunAt?: string;
+  createdAt: string;
+  updatedAt: string;
+  finishedAt?: string;
+}
+
+export interface BackfillInput {
+  sourceId?: string;
+  /** How many of the most recent posts to cross-post */
+  limit?: number;
+  /** Only posts published at or after this date */
+  since?: string;
+  intervalMs?: number;
+  imageUpload?: boolean;
+}
+
+export interface BackfillFilters {
+  sourceId?: string;
+  status?: BackfillStatus;
+}
+
+export interface BackfillJobPayload {
+  backfillId: string;
+}
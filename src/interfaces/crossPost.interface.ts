@@ -0,0 +1,81 @@
+import { InstagramPost } from './instagram.interface';
+import { HistoryEntry } from './history.interface';
+import { Draft } from './draft.interface';
+import { ThreadTweet, TweetMode, TweetPreview } from './twitter.interface';
+import { Job } from './job.interface';
+import { TweetSchedule } from './schedule.interface';
+import { PromptTemplateRef } from './promptTemplate.interface';
+
+/**
+ * `queued` means the tweet failed with a transient error and its publish job will retry it
+ * `scheduled` means the publish job waits for the publication time
+ */
+export type CrossPostStatus =
+  | 'published'
+  | 'queued'
+  | 'scheduled'
+  | 'drafted'
+  | 'previewed'
+  | 'skipped'
+  | 'failed';
+
+export interface CrossPostOptions {
+  /** Attach the post image; defaults to the imageUpload setting of the source */
+  imageUpload?: boolean;
+  /** Post again even if the post was already published or its draft was rejected */
+  force?: boolean;
+  /** Run every step and check, but neither tweet nor store a draft or history entry */
+  dryRun?: boolean;
+  /** Publish at this time instead of now */
+  schedule?: TweetSchedule;
+  /** Prompt template of the summary instead of the one of the source */
+  promptTemplate?: string;
+  /** Post one summary tweet (default) or a thread of tweets */
+  mode?: TweetMode;
+}
+
+/**
+ * Outcome of running one Instagram post through the summarize and tweet pipeline
+ */
+export interface CrossPostResult {
+  status: CrossPostStatus;
+  post: InstagramPost;
+  tweetId?: string;
+  summary?: string;
+  /** The prompt template version that produced the summary */
+  template?: PromptTemplateRef;
+  /** The tweets of a thread that were posted, in order */
+  thread?: ThreadTweet[];
+  /** Whether a thread failed partway; retrying its job posts the rest */
+  partial?: boolean;
+  error?: string;
+  /** The recorded cross-post, or the earlier one when the post was skipped or previewed */
+  history?: HistoryEntry;
+  /** The draft waiting for approval, or the rejected draft when the post was skipped */
+  draft?: Draft;
+  /** What would have been tweeted, for dry runs */
+  preview?: TweetPreview;
+  /** The publish job, when the tweet failed or is scheduled */
+  job?: Job;
+}
+
+/**
+ * Data of a publish job, persisted with the job
+ */
+export interface PublishJobPayload {
+  sourceId: string;
+  post: InstagramPost;
+  summary: string;
+  /** The tweets of a thread, posted instead of the summary */
+  thread?: string[];
+  /** The tweets of the thread posted by earlier attempts, so a retry resumes with the next one */
+  posted?: ThreadTweet[];
+  template?: PromptTemplateRef;
+  imageUrl?: string;
+  /** The draft being approved */
+  draftId?: string;
+  /** Post even if the post was already published */
+  force?: boolean;
+  /** The publication time, for scheduled cross-posts */
+  schedule?: TweetSchedule;
+}
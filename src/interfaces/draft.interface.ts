@@ -0,0 +1,38 @@
+import { InstagramPost } from './instagram.interface';
+import { PromptTemplateRef } from './promptTemplate.interface';
+
+export type DraftStatus = 'pending' | 'published' | 'rejected';
+
+/**
+ * A cross-post waiting for an editor; only approval posts it to Twitter
+ */
+export interface Draft {
+  id: string;
+  sourceId: string;
+  postKey: string;
+  post: InstagramPost;
+  summary: string;
+  /** The prompt template version that generated the summary */
+  template?: PromptTemplateRef;
+  /** Image attached to the tweet, one of the images of the post; none posts text only */
+  imageUrl?: string;
+  status: DraftStatus;
+  tweetId?: string;
+  /** Reason of the last failed approval */
+  error?: string;
+  rejectionReason?: string;
+  createdAt: string;
+  updatedAt: string;
+  reviewedAt?: string;
+}
+
+export interface DraftFilters {
+  sourceId?: string;
+  status?: DraftStatus;
+}
+
+export interface DraftInput {
+  summary?: string;
+  /** `null` removes the image */
+  imageUrl?: string | null;
+}
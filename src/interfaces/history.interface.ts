@@ -0,0 +1,46 @@
+import { PromptTemplateRef } from './promptTemplate.interface';
+import { ThreadTweet } from './twitter.interface';
+
+export type HistoryStatus = 'published' | 'failed';
+
+/**
+ * A cross-post of an Instagram post to Twitter, successful or not
+ */
+export interface HistoryEntry {
+  id: string;
+  sourceId: string;
+  /** Instagram post ID, or the normalized post URL when the fetch method exposes no ID */
+  postKey: string;
+  instagramPostId?: string;
+  postUrl?: string;
+  caption: string;
+  status: HistoryStatus;
+  /** The tweet, or the first tweet of a thread */
+  tweetId?: string;
+  summary?: string;
+  /** Every tweet of a thread */
+  thread?: ThreadTweet[];
+  /** The prompt template version that produced the summary */
+  template?: PromptTemplateRef;
+  error?: string;
+  postedAt?: string;
+  createdAt: string;
+}
+
+export interface HistoryFilters {
+  sourceId?: string;
+  status?: HistoryStatus;
+  /** Only entries created at or after this date */
+  since?: Date;
+  /** Only entries created before this date */
+  until?: Date;
+  /** Case-insensitive search in caption and summary */
+  search?: string;
+  limit?: number;
+  offset?: number;
+}
+
+export interface HistoryPage {
+  entries: HistoryEntry[];
+  total: number;
+}
@@ -0,0 +1,16 @@
+export type IdempotencyStatus = 'in_progress' | 'completed';
+
+/**
+ * The first request made with an `Idempotency-Key`, and its response once it is known
+ */
+export interface IdempotencyRecord {
+  /** The key, scoped to the method and path of the request */
+  key: string;
+  /** Hash of the request body, a reused key must come with the same body */
+  fingerprint: string;
+  status: IdempotencyStatus;
+  statusCode?: number;
+  body?: unknown;
+  createdAt: string;
+  expiresAt: string;
+}
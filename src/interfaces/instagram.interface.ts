@@ -1,19 +1,134 @@
+export type InstagramMediaType = 'image' | 'video' | 'carousel';
+
+export interface InstagramMedia {
+  type: 'image' | 'video';
+  url: string;
+  width?: number;
+  height?: number;
+  thumbnailUrl?: string;
+}
+
+export type CaptionEntityType = 'hashtag' | 'mention' | 'url' | 'emoji' | 'lineBreak';
+
+export interface CaptionEntity {
+  type: CaptionEntityType;
+  /** The entity as written in the caption */
+  text: string;
+  /** Normalized value: lower-case tag or username without prefix, link with scheme */
+  value: string;
+  /** UTF-16 offset of the first character */
+  start: number;
+  /** UTF-16 offset after the last character */
+  end: number;
+}
+
+export interface CaptionEntities {
+  hashtags: CaptionEntity[];
+  mentions: CaptionEntity[];
+  urls: CaptionEntity[];
+  emoji: CaptionEntity[];
+  lineBreaks: CaptionEntity[];
+}
+
 export interface InstagramPost {
   id?: string;
   caption: string;
+  /** First image of the post, or the poster frame of a video. Kept for backward compatibility */
   imageUrl: string;
+  mediaType: InstagramMediaType;
+  media: InstagramMedia[];
   timestamp?: string;
   likes?: number;
   postUrl?: string;
+  /** Hashtags, mentions, links, emoji and line breaks of the caption */
+  entities?: CaptionEntities;
 }
 
+export type FetchStrategyName = 'puppeteer' | 'cheerio' | 'api';
+
+export interface FetchStrategyConfig {
+  name: FetchStrategyName;
+  enabled: boolean;
+  timeoutMs: number;
+}
+
+export type FetchStrategySetting = Pick<FetchStrategyConfig, 'name'> & Partial<FetchStrategyConfig>;
+
 export interface InstagramConfig {
   username: string;
   accessToken?: string;
+  /** Instagram business account ID owning the token, enables business discovery of `username` */
+  businessAccountId?: string;
+  /** Strategies in the order they are tried */
+  strategies: FetchStrategyConfig[];
+}
+
+export interface FetchAttempt {
+  strategy: FetchStrategyName;
+  success: boolean;
+  skipped?: boolean;
+  error?: string;
+  durationMs: number;
 }
 
 export interface InstagramResponse {
   success: boolean;
   data?: InstagramPost;
   error?: string;
+  strategy?: FetchStrategyName;
+  attempts?: FetchAttempt[];
+}
+
+export interface InstagramProfile {
+  id?: string;
+  username: string;
+  fullName?: string;
+  biography?: string;
+  avatarUrl?: string;
+  followers?: number;
+  following?: number;
+  postCount?: number;
+  isVerified?: boolean;
+  externalUrl?: string;
+}
+
+export interface InstagramProfileResponse {
+  success: boolean;
+  data?: InstagramProfile;
+  error?: string;
+  strategy?: FetchStrategyName;
+  attempts?: FetchAttempt[];
+}
+
+export interface RecentPostsOptions {
+  limit?: number;
+  since?: string | Date;
+}
+
+export interface InstagramFetchOptions {
+  limit: number;
+  since?: Date;
+}
+
+export interface InstagramPostsResponse {
+  success: boolean;
+  data?: InstagramPost[];
+  error?: string;
+  strategy?: FetchStrategyName;
+  attempts?: FetchAttempt[];
+}
+
+/**
+ * A method of fetching posts from Instagram, tried in turn by `InstagramService`
+ * The `signal` is aborted when the strategy times out, so the fetcher can free what it holds
+ */
+export interface InstagramFetcher {
+  readonly name: FetchStrategyName;
+  fetchRecentPosts(
+    config: InstagramConfig,
+    options: InstagramFetchOptions,
+    signal?: AbortSignal
+  ): Promise<InstagramPostsResponse>;
+  /** Fetches the profile metadata of `config.username`, when the strategy can read it */
+  fetchProfile?(config: InstagramConfig, signal?: AbortSignal): Promise<InstagramProfileResponse>;
 }
@@ -0,0 +1,49 @@
+export type JobStatus = 'queued' | 'running' | 'completed' | 'dead';
+
+export interface JobFailure {
+  attempt: number;
+  at: string;
+  error: string;
+}
+
+/**
+ * A unit of background work, persisted so it survives restarts
+ */
+export interface Job<T = unknown> {
+  id: string;
+  type: string;
+  status: JobStatus;
+  payload: T;
+  attempts: number;
+  maxAttempts: number;
+  /** Earliest time of the next attempt */
+  runAt: string;
+  lastError?: string;
+  failures: JobFailure[];
+  result?: unknown;
+  createdAt: string;
+  updatedAt: string;
+  completedAt?: string;
+}
+
+export interface JobFilters {
+  status?: JobStatus;
+  type?: string;
+}
+
+/**
+ * Exponential backoff: attempt n waits `baseDelayMs * 2^(n-1)`, at most `maxDelayMs`
+ */
+export interface RetryPolicy {
+  maxAttempts: number;
+  baseDelayMs: number;
+  maxDelayMs: number;
+}
+
+export interface EnqueueOptions {
+  /** Earliest time of the first attempt, now by default */
+  runAt?: Date;
+  maxAttempts?: number;
+}
+
+export type JobHandler<T> = (job: Job<T>) => Promise<unknown>;
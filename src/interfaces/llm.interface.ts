@@ -1,10 +1,94 @@
+import { PromptTemplateRef, PromptVariables } from './promptTemplate.interface';
+
 export interface SummarizationRequest {
   text: string;
   maxLength?: number;
+  /** ID of the prompt template requested, overriding the one of the source */
+  template?: string;
+  /** Template of the source the text belongs to */
+  sourceTemplate?: string;
+  /** Values of the template variables other than the caption and maximum length */
+  variables?: Pick<PromptVariables, 'username' | 'postUrl' | 'date'>;
+  /** Number of candidates to write and score; `SUMMARY_CANDIDATES` when unset */
+  candidates?: number;
 }
 
 export interface SummarizationResponse {
   summary: string;
+  /** The provider that wrote the summary, after falling back past the ones that failed */
+  provider?: SummarizationProviderName;
+  model?: string;
+  /** The template version the summary was written with */
+  template?: PromptTemplateRef;
+  /** Every candidate when several were written, best first; the summary is the first one */
+  candidates?: SummaryCandidate[];
+}
+
+/**
+ * How well a summary fits a tweet, each part between 0 and 1
+ */
+export interface SummaryScore {
+  /** Weighted total of the other parts; 0 when the summary uses a banned word */
+  total: number;
+  /** How much of the tweet the summary uses, without being cut to fit */
+  length: number;
+  /** Share of the names and numbers of the caption kept in the summary */
+  entities: number;
+  /** Flesch reading ease of the summary */
+  readability: number;
+  missingEntities: string[];
+  bannedWords: string[];
+}
+
+/**
+ * One of several summaries of a caption, written with its own temperature and prompt variant
+ */
+export interface SummaryCandidate {
+  summary: string;
+  temperature: number;
+  /** Instruction added to the prompt of the template, if any */
+  variant?: string;
+  score: SummaryScore;
+}
+
+export interface SummarizeOptions {
+  /** Sampling temperature, for providers that call a language model */
+  temperature?: number;
+}
+
+export interface ThreadSummarizationRequest extends SummarizationRequest {
+  /** Most tweets of the thread; `THREAD_MAX_TWEETS` when unset */
+  maxTweets?: number;
+}
+
+export interface ThreadSummarizationResponse extends Omit<SummarizationResponse, 'summary'> {
+  /** The tweets of the thread, in order and numbered when there are several */
+  tweets: string[];
+}
+
+export type SummarizationProviderName = 'gemini' | 'openai' | 'extractive';
+
+/**
+ * A backend that summarizes captions, tried in turn by `LLMService`
+ */
+export interface SummarizationProvider {
+  readonly name: SummarizationProviderName;
+  /** The model used, for providers that have one */
+  readonly model?: string;
+  /** Whether the provider has the configuration it needs, such as an API key */
+  isConfigured(): boolean;
+  /**
+   * Summarizes a text into at most `maxLength` characters
+   * @param prompt - The rendered prompt template, for providers that call a language model
+   * @param options - The sampling temperature of a candidate
+   * @throws Error when the backend fails or returns no text
+   */
+  summarize(
+    text: string,
+    maxLength: number,
+    prompt: string,
+    options?: SummarizeOptions
+  ): Promise<string>;
 }
 
 export interface ErrorResponse {
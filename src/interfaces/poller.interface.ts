@@ -0,0 +1,39 @@
+export type PollTrigger = 'schedule' | 'manual';
+
+/**
+ * Outcome of one poll of a source
+ */
+export interface PollRun {
+  trigger: PollTrigger;
+  startedAt: string;
+  finishedAt: string;
+  /** Posts newer than the last one seen */
+  found: number;
+  published: number;
+  /** Tweets that failed with a transient error and will be retried by the job queue */
+  queued: number;
+  drafted: number;
+  skipped: number;
+  failed: number;
+  error?: string;
+}
+
+/**
+ * Persisted polling state of a source
+ */
+export interface PollerRecord {
+  sourceId: string;
+  paused: boolean;
+  /** Timestamp and key of the newest post that has been handled */
+  lastSeenPostAt?: string;
+  lastSeenPostKey?: string;
+  lastRun?: PollRun;
+}
+
+export interface PollerStatus extends PollerRecord {
+  /** Whether the background schedule is running */
+  enabled: boolean;
+  running: boolean;
+  lastRunAt?: string;
+  nextRunAt?: string;
+}
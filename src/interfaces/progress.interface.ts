@@ -0,0 +1,30 @@
+/**
+ * `pending` runs have subscribers but were not started yet
+ */
+export type RunStatus = 'pending' | 'running' | 'completed' | 'failed';
+
+/**
+ * A stage event of a pipeline run, such as `fetch:strategy-start` or `summarize:done`
+ */
+export interface ProgressEvent {
+  runId: string;
+  /** Position of the event in the run, starting at 1; sent as the SSE event ID */
+  seq: number;
+  stage: string;
+  at: string;
+  /** Time since the run started */
+  elapsedMs: number;
+  /** Time the stage took, on `:done` and `:failed` events */
+  durationMs?: number;
+  data?: Record<string, unknown>;
+}
+
+export interface ProgressRun {
+  id: string;
+  status: RunStatus;
+  startedAt?: string;
+  finishedAt?: string;
+  events: ProgressEvent[];
+}
+
+export type ProgressListener = (event: ProgressEvent) => void;
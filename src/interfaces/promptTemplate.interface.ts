@@ -0,0 +1,67 @@
+/**
+ * Variables that a prompt template can refer to as `{{name}}`
+ */
+export interface PromptVariables {
+  caption: string;
+  /** Instagram username of the source, empty for captions sent without a post */
+  username?: string;
+  postUrl?: string;
+  /** Characters left for the model, after the call-to-action suffix */
+  maxLength: number;
+  /** Date of the post as YYYY-MM-DD, today when the post has no timestamp */
+  date?: string;
+}
+
+/**
+ * The parts of a template that shape the tweet; changing any of them creates a new version
+ */
+export interface PromptTemplateContent {
+  /** Prompt sent to language models, with `{{variable}}` placeholders */
+  body: string;
+  /** Whether emoji are kept in the tweet */
+  emoji: boolean;
+  /** Whether hashtags are kept in the tweet */
+  hashtags: boolean;
+  /** Call to action appended to every tweet */
+  suffix?: string;
+}
+
+export interface PromptTemplateVersion extends PromptTemplateContent {
+  version: number;
+  createdAt: string;
+}
+
+/**
+ * A named prompt template, the brand voice of the accounts that use it
+ */
+export interface PromptTemplate extends PromptTemplateContent {
+  id: string;
+  name: string;
+  description?: string;
+  /** The current version */
+  version: number;
+  /** Every version, oldest first, the current one included */
+  versions: PromptTemplateVersion[];
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface PromptTemplateInput {
+  id?: string;
+  name?: string;
+  /** `null` removes the description */
+  description?: string | null;
+  body?: string;
+  emoji?: boolean;
+  hashtags?: boolean;
+  /** `null` removes the suffix */
+  suffix?: string | null;
+}
+
+/**
+ * The template version that produced a summary
+ */
+export interface PromptTemplateRef {
+  id: string;
+  version: number;
+}
@@ -0,0 +1,74 @@
+import { JobStatus } from './job.interface';
+import { ThreadTweet } from './twitter.interface';
+
+/**
+ * When a tweet is published
+ */
+export interface TweetSchedule {
+  /** The publication time in UTC */
+  publishAt: string;
+  /** IANA time zone the time was given in, such as `Europe/London`; UTC offsets have none */
+  timeZone?: string;
+}
+
+/** `retrying` means the tweet failed at its publication time with a temporary error */
+export type ScheduledStatus = 'scheduled' | 'publishing' | 'retrying' | 'published' | 'failed';
+
+/** `tweet` comes from the tweet routes, `crossPost` from the integrated workflow */
+export type ScheduledType = 'tweet' | 'crossPost';
+
+/**
+ * A tweet scheduled for a future time, backed by a job of the job queue
+ */
+export interface ScheduledTweet extends TweetSchedule {
+  /** ID of the job that publishes the tweet */
+  id: string;
+  type: ScheduledType;
+  status: ScheduledStatus;
+  /** The publication time in the time zone it was given in, with its offset */
+  localPublishAt?: string;
+  text: string;
+  /** The tweets of a thread; `text` has them separated by blank lines */
+  thread?: string[];
+  imageUrl?: string;
+  sourceId?: string;
+  /** The Instagram post, for cross-posts */
+  postKey?: string;
+  tweetId?: string;
+  error?: string;
+  jobStatus: JobStatus;
+  createdAt: string;
+}
+
+export interface ScheduleFilters {
+  status?: ScheduledStatus;
+  type?: ScheduledType;
+}
+
+/**
+ * Data of a job that posts a tweet or a thread from the tweet routes, right away or scheduled
+ */
+export interface TweetJobPayload {
+  text: string;
+  /** The tweets of a thread, posted instead of the text */
+  thread?: string[];
+  /** The tweets of the thread posted by earlier attempts, so a retry resumes with the next one */
+  posted?: ThreadTweet[];
+  imageUrl?: string;
+  /** The Instagram caption the text was written from, sent to webhooks */
+  caption?: string;
+  /** The publication time; tweets posted right away have none */
+  schedule?: TweetSchedule;
+}
+
+/**
+ * Outcome of a completed tweet job
+ */
+export interface TweetJobResult {
+  /** ID of the tweet, or of the first tweet of a thread */
+  tweetId?: string;
+  /** The posted tweet, for single tweets */
+  tweet?: { id: string; text: string };
+  /** The posted tweets of a thread */
+  thread?: ThreadTweet[];
+}
@@ -0,0 +1,48 @@
+import { FetchStrategySetting } from './instagram.interface';
+
+/** `auto` tweets right away, `approval` stores a draft that an editor has to approve */
+export type PublishMode = 'auto' | 'approval';
+
+export interface SourceSettings {
+  /** Whether the cross-post pipeline attaches the post image when the request does not say */
+  imageUpload: boolean;
+  /** Fetch strategies in the order they are tried; the environment default applies when unset */
+  fetchStrategies?: FetchStrategySetting[];
+  /** How the cross-post pipeline publishes; `auto` when unset */
+  publishMode?: PublishMode;
+  /** Prompt template giving the tweets of the source their voice; the default template when unset */
+  promptTemplate?: string;
+}
+
+export interface InstagramSource {
+  id: string;
+  name: string;
+  username: string;
+  accessToken?: string;
+  /** Business account ID owning the access token, used to look up `username` via business discovery */
+  businessAccountId?: string;
+  settings: SourceSettings;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface SourceInput {
+  id?: string;
+  name?: string;
+  username?: string;
+  accessToken?: string | null;
+  businessAccountId?: string | null;
+  settings?: Partial<SourceSettings>;
+}
+
+export type SourceChange = 'created' | 'updated' | 'removed';
+
+/** Called after a source was registered, updated or removed */
+export type SourceListener = (sourceId: string, change: SourceChange) => void;
+
+/**
+ * Representation of a source returned by the API, without the access token itself
+ */
+export interface PublicSource extends Omit<InstagramSource, 'accessToken'> {
+  hasAccessToken: boolean;
+}
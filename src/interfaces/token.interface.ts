@@ -0,0 +1,36 @@
+/**
+ * Lifecycle state of the access token of a source, persisted next to the source registry
+ */
+export interface TokenRecord {
+  sourceId: string;
+  /** Hash of the token the record describes; a changed token starts a fresh record */
+  fingerprint: string;
+  expiresAt?: string;
+  refreshedAt?: string;
+  lastAttemptAt?: string;
+  lastError?: string;
+}
+
+export interface TokenStatus {
+  sourceId: string;
+  hasAccessToken: boolean;
+  /** Unknown until the token has been refreshed once */
+  expiresAt?: string;
+  expiresInDays?: number;
+  expired: boolean;
+  refreshedAt?: string;
+  /** When the scheduler refreshes the token next */
+  nextRefreshAt?: string;
+  lastAttemptAt?: string;
+  lastError?: string;
+}
+
+/**
+ * Response of the `refresh_access_token` endpoint
+ */
+export interface RefreshTokenResponse {
+  access_token: string;
+  token_type?: string;
+  /** Lifetime of the new token in seconds */
+  expires_in: number;
+}
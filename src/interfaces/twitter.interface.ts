@@ -1,5 +1,24 @@
+/**
+ * How a caption is posted: one summary tweet, or a numbered thread of replies
+ */
+export type TweetMode = 'single' | 'thread';
+
 export interface TweetRequest {
   instagramCaption: string;
+  /** Post one summary tweet (default) or a thread of tweets */
+  mode?: TweetMode;
+  /** Publish at this time instead of now, ISO 8601 with an offset or local time of `timeZone` */
+  publishAt?: string;
+  /** IANA time zone name of a `publishAt` without offset, such as `Europe/London` */
+  timeZone?: string;
+  /** ID of the prompt template of the summary; the default template when unset */
+  promptTemplate?: string;
+}
+
+export interface SummarizeRequest
+  extends Pick<TweetRequest, 'instagramCaption' | 'promptTemplate'> {
+  /** Number of candidates to write and score; editors may pick another one than the best */
+  candidates?: number;
 }
 
 export interface MediaTweetRequest extends TweetRequest {
@@ -15,3 +34,82 @@ export interface TweetResponse {
   };
   error?: string;
 }
+
+/**
+ * Outcome of posting a tweet
+ */
+export interface TweetResult {
+  success: boolean;
+  message: string;
+  data?: {
+    id: string;
+    text: string;
+  };
+  error?: string;
+  /** HTTP status of the failed Twitter or image request, if there was a response */
+  statusCode?: number;
+  /** Whether the failure is transient (network, 5xx, 429) and the post may be retried */
+  retryable?: boolean;
+  /** When the rate limit resets, for 429 failures */
+  retryAt?: string;
+}
+
+/**
+ * A tweet of a thread that was posted
+ */
+export interface ThreadTweet {
+  id: string;
+  text: string;
+}
+
+/**
+ * Outcome of posting a thread; a thread that failed partway lists the tweets already posted,
+ * so posting can resume with the next one
+ */
+export interface ThreadResult
+  extends Pick<
+    TweetResult,
+    'success' | 'message' | 'error' | 'statusCode' | 'retryable' | 'retryAt'
+  > {
+  /** The tweets posted so far, in order, including those of earlier attempts */
+  posted: ThreadTweet[];
+  /** Number of tweets of the thread */
+  total: number;
+}
+
+export type ImageFormat = 'jpeg' | 'png' | 'gif' | 'webp';
+
+/**
+ * An image downloaded for upload, after its format and size were checked
+ */
+export interface DownloadedImage {
+  path: string;
+  format: ImageFormat;
+  contentType: string;
+  sizeBytes: number;
+}
+
+export interface MediaPreview {
+  url: string;
+  valid: boolean;
+  format?: ImageFormat;
+  contentType?: string;
+  sizeBytes?: number;
+  error?: string;
+}
+
+/**
+ * What a tweet would look like, produced without posting it
+ */
+export interface TweetPreview {
+  text: string;
+  /** Length as counted by Twitter: links count 23, emoji and CJK characters count 2 */
+  characterCount: number;
+  maxCharacters: number;
+  /** Whether the tweet would be accepted; `errors` lists the reasons when it would not */
+  valid: boolean;
+  errors: string[];
+  media?: MediaPreview;
+  /** Every tweet of a thread, for previews of threads; `text` is the first one */
+  thread?: { text: string; characterCount: number }[];
+}
@@ -0,0 +1,102 @@
+import { InstagramPost } from './instagram.interface';
+
+/**
+ * Pipeline events delivered to webhooks
+ * `post.detected` fires for Instagram posts that are new to the pipeline,
+ * `summary.generated` for every generated tweet text
+ */
+export type WebhookEvent =
+  | 'post.detected'
+  | 'summary.generated'
+  | 'tweet.published'
+  | 'tweet.failed';
+
+export interface Webhook {
+  id: string;
+  url: string;
+  /** Events delivered to the URL */
+  events: WebhookEvent[];
+  /** Key of the HMAC-SHA256 signature of every delivery */
+  secret: string;
+  active: boolean;
+  description?: string;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface WebhookInput {
+  url?: string;
+  events?: WebhookEvent[];
+  secret?: string;
+  active?: boolean;
+  description?: string | null;
+}
+
+/**
+ * Representation of a webhook returned by the API, without its secret
+ */
+export type PublicWebhook = Omit<Webhook, 'secret'>;
+
+export interface WebhookEventData {
+  sourceId?: string;
+  post?: InstagramPost;
+  /** The caption sent to the tweet routes, which have no Instagram post */
+  caption?: string;
+  summary?: string;
+  imageUrl?: string;
+  tweet?: {
+    id: string;
+    text: string;
+  };
+  error?: string;
+}
+
+/**
+ * JSON body of a delivery
+ */
+export interface WebhookPayload {
+  /** Event ID, the same for every webhook and every attempt */
+  id: string;
+  type: WebhookEvent;
+  createdAt: string;
+  data: WebhookEventData;
+}
+
+export type WebhookDeliveryStatus = 'pending' | 'delivered' | 'failed';
+
+export interface WebhookAttempt {
+  at: string;
+  durationMs: number;
+  /** HTTP status of the response, missing when no response was received */
+  statusCode?: number;
+  error?: string;
+}
+
+/**
+ * Delivery of one event to one webhook, with every attempt
+ */
+export interface WebhookDelivery {
+  id: string;
+  webhookId: string;
+  event: WebhookEvent;
+  payload: WebhookPayload;
+  status: WebhookDeliveryStatus;
+  attempts: WebhookAttempt[];
+  /** The job that sends the delivery and retries it */
+  jobId: string;
+  createdAt: string;
+  updatedAt: string;
+  deliveredAt?: string;
+}
+
+export interface WebhookDeliveryFilters {
+  status?: WebhookDeliveryStatus;
+  limit?: number;
+}
+
+/**
+ * Data of a webhook delivery job
+ */
+export interface WebhookJobPayload {
+  deliveryId: string;
+}
@@ -0,0 +1,499 @@
+import { v4 as uuidv4 } from 'uuid';
+import logger from '../utils/logger';
+import { ApiError } from '../utils/errorHandler';
+import JsonStore from '../utils/jsonStore';
+import { sourceService } from './source.service';
+import { llmService } from './llm.service';
+import { twitterService } from './twitter.service';
+import { historyService } from './history.service';
+import { draftService } from './draft.service';
+import { jobQueue, JobError } from './jobQueue.service';
+import { webhookService } from './webhook.service';
+import { MAX_RECENT_POSTS } from './instagram.service';
+import { Job } from '../interfaces/job.interface';
+import { InstagramPost } from '../interfaces/instagram.interface';
+import { InstagramSource } from '../interfaces/source.interface';
+import {
+  Backfill,
+  BackfillFilters,
+  BackfillInput,
+  BackfillItem,
+  BackfillJobPayload,
+} from '../interfaces/backfill.interface';
+
+export const BACKFILL_JOB = 'backfill';
+
+const DEFAULT_BACKFILL_LIMIT = 10;
+
+interface BackfillState {
+  backfills: Backfill[];
+}
+
+interface BackfillStepResult {
+  postKey?: string;
+  tweetId?: string;
+}
+
+const readNumber = (name: string, fallback: number): number => {
+  const value = Number(process.env[name]);
+  return process.env[name] !== undefined && Number.isFinite(value) && value >= 0 ? value : fallback;
+};
+
+class BackfillService {
+  private store: JsonStore<BackfillState>;
+  private backfills: Map<string, Backfill>;
+
+  /**
+   * Creates the backfill store and loads the persisted backfills
+   */
+  constructor() {
+    this.store = new JsonStore<BackfillState>('backfills.json', () => ({ backfills: [] }));
+    this.backfills = new Map(this.store.read().backfills.map(backfill => [backfill.id, backfill]));
+
+    jobQueue.register<BackfillJobPayload>(BACKFILL_JOB, job => this.runBackfillJob(job));
+  }
+
+  private persist(): void {
+    this.store.write({ backfills: Array.from(this.backfills.values()) });
+  }
+
+  private save(backfill: Backfill): Backfill {
+    const count = (status: BackfillItem['status']) =>
+      backfill.items.filter(item => item.status === status).length;
+
+    backfill.progress = {
+      total: backfill.items.length,
+      published: count('published'),
+      skipped: count('skipped'),
+      failed: count('failed'),
+      pending: count('pending'),
+    };
+    backfill.updatedAt = new Date().toISOString();
+
+    this.backfills.set(backfill.id, backfill);
+    this.persist();
+    return backfill;
+  }
+
+  /**
+   * Checks the options of a backfill
+   * @param input - The options as sent by the client
+   * @throws ApiError with status 400 if an option is invalid
+   */
+  private validate(input: BackfillInput): void {
+    const { limit, since, intervalMs, imageUpload } = input;
+
+    if (
+      limit !== undefined &&
+      (!Number.isInteger(limit) || limit < 1 || limit > MAX_RECENT_POSTS)
+    ) {
+      throw new ApiError(`Limit must be an integer between 1 and ${MAX_RECENT_POSTS}`, 400);
+    }
+    if (since !== undefined && (typeof since !== 'string' || isNaN(new Date(since).getTime()))) {
+      throw new ApiError('Since must be a valid date', 400);
+    }
+    if (intervalMs !== undefined && (!Number.isInteger(intervalMs) || intervalMs < 0)) {
+      throw new ApiError('intervalMs must be a non-negative integer', 400);
+    }
+    if (imageUpload !== undefined && typeof imageUpload !== 'boolean') {
+      throw new ApiError('imageUpload must be a boolean', 400);
+    }
+  }
+
+  /**
+   * Backfills tweet without review, so sources that require approval cannot have one
+   * @throws ApiError with status 400 if the source requires approval
+   */
+  private checkPublishMode(source: InstagramSource): void {
+    if (source.settings.publishMode === 'approval') {
+      throw new ApiError('Sources that require approval cannot be backfilled', 400);
+    }
+  }
+
+  /**
+   * Whether a post was already published, or its draft was rejected while the source required
+   * approval
+   * @returns The tweet ID of a published post, or undefined
+   */
+  private findDone(post: InstagramPost): { tweetId?: string } | undefined {
+    const published = historyService.findPublished(post);
+    if (published) {
+      return { tweetId: published.tweetId };
+    }
+
+    return draftService.findByPost(post)?.status === 'rejected' ? {} : undefined;
+  }
+
+  /**
+   * Fetches the most recent posts of a source and starts cross-posting them, oldest first
+   * Posts that were already published, or whose draft was rejected, are skipped; the first
+   * tweet is posted right away and the next ones `intervalMs` apart, `BACKFILL_INTERVAL_MS`
+   * by default
+   * @param input - Source, number of posts, earliest date, interval and image upload flag
+   * @throws ApiError with status 400 if an option is invalid or the source requires approval,
+   * 404 if the source does not exist or its posts cannot be fetched, 409 if the source has a
+   * backfill that is not finished
+   */
+  public async create(input: BackfillInput): Promise<Backfill> {
+    this.validate(input);
+    const source = sourceService.resolve(input.sourceId);
+    this.checkPublishMode(source);
+
+    const unfinished = this.list({ sourceId: source.id }).find(
+      backfill => backfill.status === 'running' || backfill.status === 'paused'
+    );
+    if (unfinished) {
+      throw new ApiError(`Source ${source.id} already has backfill ${unfinished.id}`, 409);
+    }
+
+    const limit = input.limit ?? DEFAULT_BACKFILL_LIMIT;
+    const result = await sourceService.getInstagramService(source.id).getRecentPosts({
+      limit,
+      since: input.since,
+    });
+    if (!result.success || !result.data) {
+      throw new ApiError(result.error || 'Failed to fetch Instagram posts', 404);
+    }
+
+    const now = new Date().toISOString();
+    const items: BackfillItem[] = [...result.data].reverse().map(post => {
+      const done = this.findDone(post);
+      return {
+        postKey: historyService.getPostKey(post),
+        post,
+        status: done ? 'skipped' : 'pending',
+        tweetId: done?.tweetId,
+      };
+    });
+
+    const backfill = this.save({
+      id: uuidv4(),
+      sourceId: source.id,
+      limit,
+      since: input.since,
+      intervalMs: input.intervalMs ?? readNumber('BACKFILL_INTERVAL_MS', 30 * 60 * 1000),
+      imageUpload: input.imageUpload ?? source.settings.imageUpload,
+      status: 'running',
+      items,
+      progress: { total: 0, published: 0, skipped: 0, failed: 0, pending: 0 },
+      createdAt: now,
+      updatedAt: now,
+    });
+
+    logger.info(
+      `Started backfill ${backfill.id} of source ${source.id}: ` +
+        `${backfill.progress.pending} posts to publish, ${backfill.progress.skipped} already published`
+    );
+    return this.scheduleNext(backfill, new Date());
+  }
+
+  /**
+   * Lists backfills, newest first
+   * @param filters - Source and status filters
+   */
+  public list(filters: BackfillFilters = {}): Backfill[] {
+    return Array.from(this.backfills.values())
+      .filter(
+        backfill =>
+          (!filters.sourceId || backfill.sourceId === filters.sourceId) &&
+          (!filters.status || backfill.status === filters.status)
+      )
+      .reverse();
+  }
+
+  /**
+   * Gets a backfill with the outcome of every post
+   * @param id - The backfill ID
+   * @throws ApiError with status 404 if the backfill does not exist
+   */
+  public get(id: string): Backfill {
+    const backfill = this.backfills.get(id);
+    if (!backfill) {
+      throw new ApiError(`Backfill not found: ${id}`, 404);
+    }
+
+    return backfill;
+  }
+
+  /**
+   * Stops a running backfill after the post being published, if any
+   * @param id - The backfill ID
+   * @throws ApiError with status 404 if the backfill does not exist, 409 if it is not running
+   */
+  public pause(id: string): Backfill {
+    const backfill = this.get(id);
+    if (backfill.status !== 'running') {
+      throw new ApiError(`Backfill ${id} is ${backfill.status}`, 409);
+    }
+
+    this.discardStep(backfill);
+    logger.info(`Paused backfill ${id}`);
+    return this.save(Object.assign(backfill, { status: 'paused', jobId: undefined }));
+  }
+
+  /**
+   * Continues a paused backfill, keeping the interval since its last tweet
+   * @param id - The backfill ID
+   * @throws ApiError with status 400 if its source now requires approval, 404 if the backfill
+   * does not exist, 409 if it is not paused
+   */
+  public resume(id: string): Backfill {
+    const backfill = this.get(id);
+    if (backfill.status !== 'paused') {
+      throw new ApiError(`Backfill ${id} is ${backfill.status}`, 409);
+    }
+    this.checkPublishMode(sourceService.get(backfill.sourceId));
+
+    const nextRunAt = Math.max(Date.now(), new Date(backfill.nextRunAt || 0).getTime());
+    logger.info(`Resumed backfill ${id}`);
+    return this.scheduleNext(Object.assign(backfill, { status: 'running' }), new Date(nextRunAt));
+  }
+
+  /**
+   * Stops a backfill for good; posts that were not published yet stay pending
+   * @param id - The backfill ID
+   * @throws ApiError with status 404 if the backfill does not exist, 409 if it is finished
+   */
+  public cancel(id: string): Backfill {
+    const backfill = this.get(id);
+    if (backfill.status !== 'running' && backfill.status !== 'paused') {
+      throw new ApiError(`Backfill ${id} is already ${backfill.status}`, 409);
+    }
+
+    this.discardStep(backfill);
+    logger.info(`Cancelled backfill ${id}`);
+    return this.save(
+      Object.assign(backfill, {
+        status: 'cancelled',
+        jobId: undefined,
+        nextRunAt: undefined,
+        finishedAt: new Date().toISOString(),
+      })
+    );
+  }
+
+  /**
+   * Discards the job of the next step while it waits; a running step sees the new status
+   * when it is done
+   */
+  private discardStep(backfill: Backfill): void {
+    const queued = jobQueue
+      .list({ type: BACKFILL_JOB, status: 'queued' })
+      .find(job => job.id === backfill.jobId);
+    if (queued) {
+      jobQueue.discard(queued.id);
+    }
+  }
+
+  /**
+   * Queues the next step of a running backfill, or completes it when no post is pending
+   * @param backfill - The backfill
+   * @param runAt - When to publish the next post
+   */
+  private scheduleNext(backfill: Backfill, runAt: Date): Backfill {
+    if (!backfill.items.some(item => item.status === 'pending')) {
+      logger.info(`Backfill ${backfill.id} completed`);
+      return this.save(
+        Object.assign(backfill, {
+          status: 'completed',
+          jobId: undefined,
+          nextRunAt: undefined,
+          finishedAt: new Date().toISOString(),
+        })
+      );
+    }
+
+    const job = jobQueue.enqueue<BackfillJobPayload>(
+      BACKFILL_JOB,
+      { backfillId: backfill.id },
+      { runAt }
+    );
+    return this.save(Object.assign(backfill, { jobId: job.id, nextRunAt: runAt.toISOString() }));
+  }
+
+  /**
+   * Runs one step of a backfill: publishes its next pending post and queues the next step
+   * Posts published or rejected in the meantime are skipped without waiting for the interval
+   * A backfill whose source was switched to approval is paused, and so is a backfill whose
+   * step fails with an unexpected error, so it can be resumed once the cause is fixed
+   * @param job - The backfill job
+   * @throws JobError when the tweet fails with a temporary error, so the step is retried, or
+   * not retryable after an unexpected error
+   */
+  private async runBackfillJob(job: Job<BackfillJobPayload>): Promise<BackfillStepResult> {
+    const backfill = this.backfills.get(job.payload.backfillId);
+    // Steps of paused, cancelled or removed backfills are left over from before a restart
+    if (!backfill || backfill.status !== 'running' || backfill.jobId !== job.id) {
+      return {};
+    }
+
+    const source = sourceService.list().find(entry => entry.id === backfill.sourceId);
+    if (source?.settings.publishMode === 'approval') {
+      logger.warn(`Paused backfill ${backfill.id}, its source now requires approval`);
+      this.save(Object.assign(backfill, { status: 'paused', jobId: undefined }));
+      return {};
+    }
+
+    try {
+      return await this.publishNext(backfill, job);
+    } catch (error) {
+      if (error instanceof JobError) {
+        throw error;
+      }
+
+      const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+      logger.error(`Paused backfill ${backfill.id} after an unexpected error: ${errorMessage}`);
+      Object.assign(backfill, { status: 'paused', jobId: undefined });
+      this.save(backfill);
+      throw new JobError(errorMessage, { retryable: false });
+    }
+  }
+
+  /**
+   * Publishes the next pending post of a running backfill and queues the next step
+   */
+  private async publishNext(
+    backfill: Backfill,
+    job: Job<BackfillJobPayload>
+  ): Promise<BackfillStepResult> {
+    for (const item of backfill.items.filter(entry => entry.status === 'pending')) {
+      const done = this.findDone(item.post);
+      if (done) {
+        logger.info(
+          `Backfill ${backfill.id} skips ${item.postKey}, it was already published or rejected`
+        );
+        Object.assign(item, {
+          status: 'skipped',
+          tweetId: done.tweetId,
+          processedAt: new Date().toISOString(),
+        });
+        this.save(backfill);
+        continue;
+      }
+
+      const tweetId = await this.publishItem(backfill, item, job);
+      // Pausing or cancelling during the step is kept
+      if (backfill.status === 'running') {
+        this.scheduleNext(backfill, new Date(Date.now() + (tweetId ? backfill.intervalMs : 0)));
+      }
+      return { postKey: item.postKey, tweetId };
+    }
+
+    this.scheduleNext(backfill, new Date());
+    return {};
+  }
+
+  /**
+   * Records a post of a backfill that failed for good; the backfill goes on with the next one
+   */
+  private failItem(backfill: Backfill, item: BackfillItem, error: string): void {
+    logger.error(`Backfill ${backfill.id} failed to post ${item.postKey}: ${error}`);
+    historyService.record(backfill.sourceId, item.post, {
+      status: 'failed',
+      summary: item.summary,
+      template: item.template,
+      error,
+    });
+    Object.assign(item, { status: 'failed', error, processedAt: new Date().toISOString() });
+    this.save(backfill);
+    webhookService.emit('tweet.failed', {
+      sourceId: backfill.sourceId,
+      post: item.post,
+      summary: item.summary,
+      error,
+    });
+  }
+
+  /**
+   * Summarizes a post of a backfill and tweets it, recording the outcome
+   * Webhooks are notified like for other cross-posts: of the post and its summary once it is
+   * summarized, then of the tweet or of the failure once the post will not be retried
+   * @returns The tweet ID, or undefined when the post failed for good
+   * @throws JobError when the tweet fails with a temporary error and attempts are left
+   */
+  private async publishItem(
+    backfill: Backfill,
+    item: BackfillItem,
+    job: Job<BackfillJobPayload>
+  ): Promise<string | undefined> {
+    const attemptsLeft = job.attempts < job.maxAttempts;
+
+    if (!item.summary) {
+      try {
+        const source = sourceService.list().find(entry => entry.id === backfill.sourceId);
+        const { summary, template } = await llmService.summarizeText({
+          text: item.post.caption,
+          sourceTemplate: source?.settings.promptTemplate,
+          variables: {
+            username: source?.username,
+            postUrl: item.post.postUrl,
+            date: item.post.timestamp?.slice(0, 10),
+          },
+        });
+        item.summary = summary;
+        item.template = template;
+        this.save(backfill);
+        webhookService.emit('post.detected', { sourceId: backfill.sourceId, post: item.post });
+        webhookService.emit('summary.generated', {
+          sourceId: backfill.sourceId,
+          post: item.post,
+          summary,
+        });
+      } catch (error) {
+        const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+        if (attemptsLeft) {
+          throw new JobError(errorMessage);
+        }
+        this.failItem(backfill, item, errorMessage);
+        return undefined;
+      }
+    }
+
+    const imageUrl = backfill.imageUpload ? item.post.imageUrl : undefined;
+    const tweetResult = imageUrl
+      ? await twitterService.postTweetWithMedia(item.summary, imageUrl)
+      : await twitterService.postTweet(item.summary);
+
+    if (!tweetResult.success) {
+      const error = tweetResult.error || 'Unknown error';
+      if (tweetResult.retryable && attemptsLeft) {
+        item.error = error;
+        this.save(backfill);
+        throw new JobError(error, {
+          retryAt: tweetResult.retryAt ? new Date(tweetResult.retryAt) : undefined,
+        });
+      }
+
+      this.failItem(backfill, item, error);
+      return undefined;
+    }
+
+    const tweetId = tweetResult.data?.id;
+    historyService.record(backfill.sourceId, item.post, {
+      status: 'published',
+      tweetId,
+      summary: item.summary,
+      template: item.template,
+    });
+    Object.assign(item, {
+      status: 'published',
+      tweetId,
+      error: undefined,
+      processedAt: new Date().toISOString(),
+    });
+    this.save(backfill);
+    if (tweetId) {
+      webhookService.emit('tweet.published', {
+        sourceId: backfill.sourceId,
+        post: item.post,
+        summary: item.summary,
+        tweet: { id: tweetId, text: tweetResult.data?.text ?? item.summary },
+      });
+    }
+
+    logger.info(`Backfill ${backfill.id} posted ${item.postKey} as tweet ${tweetId}`);
+    return tweetId;
+  }
+}
+
+export const backfillService = new BackfillService();
@@ -0,0 +1,330 @@
+import puppeteer, { Browser, Page } from 'puppeteer';
+import { getChromePath } from 'chrome-launcher';
+import logger from '../utils/logger';
+
+export interface BrowserPoolOptions {
+  /** Maximum number of Chrome processes */
+  maxBrowsers: number;
+  /** Maximum number of open pages per browser */
+  pagesPerBrowser: number;
+  /** Maximum number of open pages across all browsers */
+  maxConcurrentPages: number;
+  /** Browsers without open pages are closed after this time */
+  idleTimeoutMs: number;
+  /** How long a caller waits for a free page before giving up */
+  acquireTimeoutMs: number;
+}
+
+export interface BrowserPoolStats {
+  browsers: number;
+  activePages: number;
+  waiting: number;
+}
+
+interface BrowserEntry {
+  id: number;
+  browser: Promise<Browser>;
+  activePages: number;
+  lastUsedAt: number;
+}
+
+interface Waiter {
+  resolve: (page: Page) => void;
+  reject: (error: Error) => void;
+  timer: NodeJS.Timeout;
+}
+
+const readNumber = (name: string, fallback: number): number => {
+  const value = Number(process.env[name]);
+  return Number.isInteger(value) && value > 0 ? value : fallback;
+};
+
+export class BrowserPool {
+  private options: BrowserPoolOptions;
+  private entries: BrowserEntry[] = [];
+  private pageOwners: WeakMap<Page, BrowserEntry> = new WeakMap();
+  private waiters: Waiter[] = [];
+  private nextId = 1;
+  private evictionTimer: NodeJS.Timeout | null = null;
+  private shuttingDown = false;
+
+  /**
+   * Creates a pool of headless browsers shared by all Puppeteer scraping
+   * Browsers are launched lazily on the first page request
+   * @param options - Pool limits, read from the environment when not given
+   */
+  constructor(options?: Partial<BrowserPoolOptions>) {
+    const maxBrowsers = options?.maxBrowsers ?? readNumber('BROWSER_POOL_MAX_BROWSERS', 1);
+    const pagesPerBrowser =
+      options?.pagesPerBrowser ?? readNumber('BROWSER_POOL_PAGES_PER_BROWSER', 2);
+
+    this.options = {
+      maxBrowsers,
+      pagesPerBrowser,
+      maxConcurrentPages: Math.min(
+        options?.maxConcurrentPages ??
+          readNumber('BROWSER_POOL_MAX_PAGES', maxBrowsers * pagesPerBrowser),
+        maxBrowsers * pagesPerBrowser
+      ),
+      idleTimeoutMs: options?.idleTimeoutMs ?? readNumber('BROWSER_POOL_IDLE_TIMEOUT_MS', 300000),
+      acquireTimeoutMs:
+        options?.acquireTimeoutMs ?? readNumber('BROWSER_POOL_ACQUIRE_TIMEOUT_MS', 120000),
+    };
+
+    logger.info(
+      `Browser pool configured with ${this.options.maxBrowsers} browsers, ` +
+        `${this.options.pagesPerBrowser} pages per browser, ` +
+        `${this.options.maxConcurrentPages} concurrent pages`
+    );
+  }
+
+  private launchBrowser(entryId: number): Promise<Browser> {
+    logger.info(`Launching pooled browser ${entryId}`);
+
+    return puppeteer.launch({
+      headless: 'new',
+      executablePath: getChromePath(),
+      args: [
+        '--no-sandbox',
+        '--disable-setuid-sandbox',
+        '--disable-features=IsolateOrigins,site-per-process',
+        '--disable-site-isolation-trials',
+        '--disable-web-security',
+        '--window-size=1920,1080',
+      ],
+    });
+  }
+
+  private get activePages(): number {
+    return this.entries.reduce((total, entry) => total + entry.activePages, 0);
+  }
+
+  private removeEntry(entry: BrowserEntry): void {
+    this.entries = this.entries.filter(existing => existing !== entry);
+  }
+
+  /**
+   * Reserves a page slot on the least busy browser, launching a new browser when all are full
+   */
+  private reserveEntry(): BrowserEntry {
+    const available = this.entries
+      .filter(entry => entry.activePages < this.options.pagesPerBrowser)
+      .sort((a, b) => a.activePages - b.activePages)[0];
+
+    if (available) {
+      available.activePages++;
+      return available;
+    }
+
+    const entry = { id: this.nextId++, activePages: 1, lastUsedAt: Date.now() } as BrowserEntry;
+    entry.browser = this.launchBrowser(entry.id).then(browser => {
+      // A crashed browser is dropped so the next request launches a fresh one
+      browser.on('disconnected', () => {
+        if (!this.shuttingDown && this.entries.includes(entry)) {
+          logger.warn(`Pooled browser ${entry.id} disconnected, removing it from the pool`);
+          this.removeEntry(entry);
+          this.drainWaiters();
+        }
+      });
+      return browser;
+    });
+    entry.browser.catch(() => this.removeEntry(entry));
+
+    this.entries.push(entry);
+    this.startEvictionTimer();
+
+    return entry;
+  }
+
+  private async openPage(): Promise<Page> {
+    const entry = this.reserveEntry();
+
+    try {
+      const browser = await entry.browser;
+      const page = await browser.newPage();
+      this.pageOwners.set(page, entry);
+      return page;
+    } catch (error) {
+      entry.activePages--;
+      const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+      logger.error(`Failed to open a page in pooled browser ${entry.id}: ${errorMessage}`);
+      this.drainWaiters();
+      throw error;
+    }
+  }
+
+  private drainWaiters(): void {
+    while (this.waiters.length > 0 && this.activePages < this.options.maxConcurrentPages) {
+      const waiter = this.waiters.shift() as Waiter;
+      clearTimeout(waiter.timer);
+      this.openPage().then(waiter.resolve, waiter.reject);
+    }
+  }
+
+  /**
+   * Gets a fresh page from the pool, waiting while the concurrent page cap is reached
+   * Every acquired page must be handed back with {@link releasePage}
+   * @param signal - Aborting it gives up waiting, or releases the page once it was acquired
+   */
+  public async acquirePage(signal?: AbortSignal): Promise<Page> {
+    const page = await this.waitForPage(signal);
+    if (!signal) {
+      return page;
+    }
+
+    if (signal.aborted) {
+      await this.releasePage(page);
+      throw new Error('Browser page request was aborted');
+    }
+    // The caller may still be using the page, which makes its pending calls fail
+    signal.addEventListener('abort', () => void this.releasePage(page), { once: true });
+    return page;
+  }
+
+  private waitForPage(signal?: AbortSignal): Promise<Page> {
+    if (this.shuttingDown) {
+      return Promise.reject(new Error('Browser pool is shutting down'));
+    }
+    if (signal?.aborted) {
+      return Promise.reject(new Error('Browser page request was aborted'));
+    }
+
+    if (this.activePages < this.options.maxConcurrentPages) {
+      return this.openPage();
+    }
+
+    logger.info(
+      `Browser pool is at capacity, waiting for a free page (${this.waiters.length} waiting)`
+    );
+
+    return new Promise<Page>((resolve, reject) => {
+      const waiter: Waiter = {
+        resolve,
+        reject,
+        timer: setTimeout(() => {
+          this.waiters = this.waiters.filter(existing => existing !== waiter);
+          reject(
+            new Error(
+              `Timed out after ${this.options.acquireTimeoutMs}ms waiting for a browser page`
+            )
+          );
+        }, this.options.acquireTimeoutMs),
+      };
+      this.waiters.push(waiter);
+
+      signal?.addEventListener(
+        'abort',
+        () => {
+          if (this.waiters.includes(waiter)) {
+            this.waiters = this.waiters.filter(existing => existing !== waiter);
+            clearTimeout(waiter.timer);
+            reject(new Error('Browser page request was aborted'));
+          }
+        },
+        { once: true }
+      );
+    });
+  }
+
+  /**
+   * Closes a page and returns its slot to the pool
+   * @param page - A page obtained from {@link acquirePage}
+   */
+  public async releasePage(page: Page): Promise<void> {
+    const entry = this.pageOwners.get(page);
+    this.pageOwners.delete(page);
+
+    try {
+      if (!page.isClosed()) {
+        await page.close();
+      }
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+      logger.warn(`Failed to close pooled page: ${errorMessage}`);
+    }
+
+    if (entry) {
+      entry.activePages = Math.max(0, entry.activePages - 1);
+      entry.lastUsedAt = Date.now();
+    }
+
+    this.drainWaiters();
+  }
+
+  private startEvictionTimer(): void {
+    if (this.evictionTimer) {
+      return;
+    }
+
+    this.evictionTimer = setInterval(
+      () => this.evictIdleBrowsers(),
+      Math.max(1000, Math.floor(this.options.idleTimeoutMs / 2))
+    );
+    // The eviction timer alone should not keep the process alive
+    this.evictionTimer.unref();
+  }
+
+  private evictIdleBrowsers(): void {
+    const now = Date.now();
+    const idle = this.entries.filter(
+      entry => entry.activePages === 0 && now - entry.lastUsedAt >= this.options.idleTimeoutMs
+    );
+
+    for (const entry of idle) {
+      logger.info(`Closing idle pooled browser ${entry.id}`);
+      this.removeEntry(entry);
+      entry.browser.then(browser => browser.close()).catch(() => undefined);
+    }
+
+    if (this.entries.length === 0 && this.evictionTimer) {
+      clearInterval(this.evictionTimer);
+      this.evictionTimer = null;
+    }
+  }
+
+  public getStats(): BrowserPoolStats {
+    return {
+      browsers: this.entries.length,
+      activePages: this.activePages,
+      waiting: this.waiters.length,
+    };
+  }
+
+  /**
+   * Rejects waiting callers and closes every browser
+   * Called when the process receives a termination signal
+   */
+  public async shutdown(): Promise<void> {
+    this.shuttingDown = true;
+
+    if (this.evictionTimer) {
+      clearInterval(this.evictionTimer);
+      this.evictionTimer = null;
+    }
+
+    for (const waiter of this.waiters) {
+      clearTimeout(waiter.timer);
+      waiter.reject(new Error('Browser pool is shutting down'));
+    }
+    this.waiters = [];
+
+    const entries = this.entries;
+    this.entries = [];
+
+    await Promise.all(
+      entries.map(async entry => {
+        try {
+          const browser = await entry.browser;
+          await browser.close();
+        } catch (error) {
+          const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+          logger.warn(`Failed to close pooled browser ${entry.id}: ${errorMessage}`);
+        }
+      })
+    );
+
+    logger.info('Browser pool shut down');
+  }
+}
+
+export const browserPool = new BrowserPool();
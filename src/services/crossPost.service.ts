@@ -0,0 +1,413 @@
+import logger from '../utils/logger';
+import { ApiError } from '../utils/errorHandler';
+import { llmService } from './llm.service';
+import { twitterService } from './twitter.service';
+import { historyService } from './history.service';
+import { draftService } from './draft.service';
+import { jobQueue, JobError } from './jobQueue.service';
+import { progressService } from './progress.service';
+import { webhookService } from './webhook.service';
+import { InstagramPost } from '../interfaces/instagram.interface';
+import { InstagramSource } from '../interfaces/source.interface';
+import { HistoryEntry } from '../interfaces/history.interface';
+import { Job } from '../interfaces/job.interface';
+import { SummarizationResponse } from '../interfaces/llm.interface';
+import { ThreadResult, ThreadTweet, TweetMode, TweetResult } from '../interfaces/twitter.interface';
+import {
+  CrossPostOptions,
+  CrossPostResult,
+  PublishJobPayload,
+} from '../interfaces/crossPost.interface';
+
+export const PUBLISH_JOB = 'publish';
+
+interface PublishJobResult {
+  tweetId?: string;
+  thread?: ThreadTweet[];
+  history: HistoryEntry;
+}
+
+class CrossPostService {
+  private approving: Map<string, Promise<CrossPostResult>> = new Map();
+
+  constructor() {
+    jobQueue.register<PublishJobPayload>(PUBLISH_JOB, job => this.runPublishJob(job));
+  }
+
+  /**
+   * Summarizes the caption of an Instagram post and posts it to Twitter, recording the outcome
+   * Sources with the `approval` publish mode get a pending draft instead of a tweet
+   * Posts that were already published, and posts whose draft was rejected, are skipped unless
+   * `force` is set
+   * A dry run only previews the tweet
+   * A scheduled cross-post is summarized now and tweeted by its publish job at the given time
+   * The summary is written with the prompt template of the options, else the one of the source
+   * In thread mode the caption is written as a thread, posted as a chain of replies
+   * Webhooks are notified of the detected post and its summary; the publish job notifies them
+   * of the tweet
+   * @param source - The source the post was fetched from
+   * @param post - The Instagram post
+   * @param options - Image upload, force and dry run flags, the publication time, the prompt
+   * template and the tweet mode
+   * @throws ApiError with status 400 if a publication time or thread mode is given for a source
+   * that requires approval
+   */
+  public async crossPost(
+    source: InstagramSource,
+    post: InstagramPost,
+    options: CrossPostOptions = {}
+  ): Promise<CrossPostResult> {
+    const {
+      imageUpload = source.settings.imageUpload,
+      force = false,
+      dryRun = false,
+      schedule,
+      promptTemplate,
+      mode = 'single',
+    } = options;
+
+    const published = historyService.findPublished(post);
+    if (dryRun) {
+      return this.preview(source, post, imageUpload, promptTemplate, mode, published);
+    }
+    if (published && !force) {
+      logger.info(
+        `Instagram post ${published.postKey} was already posted as tweet ${published.tweetId}`
+      );
+      return {
+        status: 'skipped',
+        post,
+        tweetId: published.tweetId,
+        summary: published.summary,
+        history: published,
+      };
+    }
+
+    if (schedule && source.settings.publishMode === 'approval') {
+      throw new ApiError('Sources that require approval cannot schedule tweets', 400);
+    }
+    if (mode === 'thread' && source.settings.publishMode === 'approval') {
+      throw new ApiError('Sources that require approval cannot post threads', 400);
+    }
+    if (schedule && !force) {
+      const scheduled = this.findScheduled(post);
+      if (scheduled) {
+        logger.info(`Instagram post is already scheduled as job ${scheduled.id}`);
+        return { status: 'scheduled', post, summary: scheduled.payload.summary, job: scheduled };
+      }
+    }
+
+    if (source.settings.publishMode === 'approval') {
+      const existing = draftService.findByPost(post);
+      if (existing?.status === 'pending') {
+        logger.info(`Instagram post ${existing.postKey} already has pending draft ${existing.id}`);
+        return { status: 'drafted', post, summary: existing.summary, draft: existing };
+      }
+      if (existing?.status === 'rejected' && !force) {
+        logger.info(`Draft ${existing.id} of Instagram post ${existing.postKey} was rejected`);
+        return { status: 'skipped', post, summary: existing.summary, draft: existing };
+      }
+    }
+
+    webhookService.emit('post.detected', { sourceId: source.id, post });
+    const summarizationResult = await this.summarize(source, post, promptTemplate, mode);
+    const { summary, thread, template } = summarizationResult;
+    const imageUrl = imageUpload ? post.imageUrl : undefined;
+    webhookService.emit('summary.generated', { sourceId: source.id, post, summary });
+
+    if (source.settings.publishMode === 'approval') {
+      const draft = draftService.create(source.id, post, summary, imageUrl, template);
+      progressService.emit('draft:created', { draftId: draft.id });
+      return { status: 'drafted', post, summary: draft.summary, template, draft };
+    }
+
+    if (schedule) {
+      const job = jobQueue.enqueue<PublishJobPayload>(
+        PUBLISH_JOB,
+        {
+          sourceId: source.id,
+          post,
+          summary,
+          thread,
+          template,
+          imageUrl,
+          force,
+          schedule,
+        },
+        { runAt: new Date(schedule.publishAt) }
+      );
+      logger.info(`Scheduled Instagram post for ${schedule.publishAt} as job ${job.id}`);
+      progressService.emit('publish:scheduled', { jobId: job.id, publishAt: schedule.publishAt });
+      return { status: 'scheduled', post, summary, template, job };
+    }
+
+    return this.publish(source.id, post, summary, imageUrl, { force, template, thread });
+  }
+
+  /**
+   * Summarizes the caption of a post as a stage of the tracked run
+   * A thread is summarized as its tweets, separated by blank lines
+   * @param source - The source the post was fetched from
+   * @param post - The Instagram post
+   * @param promptTemplate - Template requested instead of the one of the source
+   * @param mode - Whether to write one tweet or a thread
+   */
+  private summarize(
+    source: InstagramSource,
+    post: InstagramPost,
+    promptTemplate?: string,
+    mode: TweetMode = 'single'
+  ): Promise<SummarizationResponse & { thread?: string[] }> {
+    const request = {
+      text: post.caption,
+      template: promptTemplate,
+      sourceTemplate: source.settings.promptTemplate,
+      variables: {
+        username: source.username,
+        postUrl: post.postUrl,
+        date: post.timestamp?.slice(0, 10),
+      },
+    };
+
+    return progressService.stage('summarize', async () => {
+      if (mode === 'single') {
+        return llmService.summarizeText(request);
+      }
+
+      const { tweets, ...rest } = await llmService.summarizeThread(request);
+      return { ...rest, summary: tweets.join('\n\n'), thread: tweets };
+    });
+  }
+
+  /**
+   * Finds the scheduled publish job of an Instagram post that is still waiting
+   * @param post - The Instagram post
+   */
+  private findScheduled(post: InstagramPost): Job<PublishJobPayload> | undefined {
+    const postKey = historyService.getPostKey(post);
+
+    return (
+      jobQueue.list({ type: PUBLISH_JOB, status: 'queued' }) as Job<PublishJobPayload>[]
+    ).find(job => job.payload.schedule && historyService.getPostKey(job.payload.post) === postKey);
+  }
+
+  /**
+   * Summarizes an Instagram post and checks the tweet without posting it or storing anything
+   * @param source - The source the post was fetched from
+   * @param post - The Instagram post
+   * @param imageUpload - Whether the post image would be attached
+   * @param promptTemplate - Template requested instead of the one of the source
+   * @param mode - Whether to write one tweet or a thread
+   * @param published - The earlier cross-post of the post, if any
+   */
+  private async preview(
+    source: InstagramSource,
+    post: InstagramPost,
+    imageUpload: boolean,
+    promptTemplate?: string,
+    mode: TweetMode = 'single',
+    published?: HistoryEntry
+  ): Promise<CrossPostResult> {
+    logger.info('Dry run, the tweet is previewed but not posted');
+
+    const summarizationResult = await this.summarize(source, post, promptTemplate, mode);
+    const imageUrl = imageUpload ? post.imageUrl : undefined;
+    const preview = summarizationResult.thread
+      ? await twitterService.previewThread(summarizationResult.thread, imageUrl)
+      : await twitterService.previewTweet(summarizationResult.summary, imageUrl);
+
+    return {
+      status: 'previewed',
+      post,
+      summary: summarizationResult.summary,
+      template: summarizationResult.template,
+      preview,
+      history: published,
+    };
+  }
+
+  /**
+   * Posts the summary of an Instagram post to Twitter as a publish job
+   * The first attempt runs right away; transient failures are retried by the job queue
+   * @param sourceId - The source the post was fetched from
+   * @param post - The Instagram post
+   * @param summary - The tweet text
+   * @param imageUrl - The image to attach, if any
+   * @param options - The draft being approved, whether to post an already published post, the
+   * template version of the summary and the tweets of a thread
+   */
+  public async publish(
+    sourceId: string,
+    post: InstagramPost,
+    summary: string,
+    imageUrl?: string,
+    options: Pick<PublishJobPayload, 'draftId' | 'force' | 'template' | 'thread'> = {}
+  ): Promise<CrossPostResult> {
+    const job = jobQueue.enqueue<PublishJobPayload>(PUBLISH_JOB, {
+      sourceId,
+      post,
+      summary,
+      imageUrl,
+      ...options,
+    });
+
+    const startedAt = Date.now();
+    progressService.emit('publish:start', { jobId: job.id, withMedia: Boolean(imageUrl) });
+    const attempted = (await jobQueue.runNow(job.id)) as Job<PublishJobPayload>;
+    const durationMs = Date.now() - startedAt;
+
+    if (attempted.status === 'completed') {
+      const result = attempted.result as PublishJobResult;
+      progressService.emit('publish:done', { tweetId: result.tweetId }, { durationMs });
+      return {
+        status: 'published',
+        post,
+        tweetId: result.tweetId,
+        summary,
+        template: options.template,
+        thread: result.thread,
+        history: result.history,
+      };
+    }
+
+    const failed = attempted.status === 'dead';
+    progressService.emit(
+      failed ? 'publish:failed' : 'publish:queued',
+      { jobId: job.id, error: attempted.lastError, retryAt: failed ? undefined : attempted.runAt },
+      { durationMs }
+    );
+    const posted = attempted.payload.posted;
+    return {
+      status: failed ? 'failed' : 'queued',
+      post,
+      summary,
+      template: options.template,
+      thread: posted,
+      partial: posted && posted.length > 0 ? true : undefined,
+      error: attempted.lastError,
+      job: attempted,
+    };
+  }
+
+  /**
+   * Runs one attempt of a publish job, recording the outcome in the history
+   * and on the draft being approved
+   * Webhooks are notified of the tweet, or of the failure once the job will not be retried
+   * The tweets of a thread posted by an attempt are kept on the job, so the next attempt
+   * resumes with the tweet that failed
+   * @param job - The publish job
+   * @throws JobError when the tweet fails, retryable for network errors, 5xx and rate limits
+   */
+  private async runPublishJob(job: Job<PublishJobPayload>): Promise<PublishJobResult> {
+    const { sourceId, post, summary, thread, template, imageUrl, draftId, force } = job.payload;
+
+    // An attempt interrupted by a restart may have posted the tweet already
+    const published = historyService.findPublished(post);
+    if (published && (!force || published.createdAt >= job.createdAt)) {
+      logger.info(
+        `Instagram post ${published.postKey} was already posted, completing job ${job.id}`
+      );
+      return { tweetId: published.tweetId, history: published };
+    }
+
+    let tweetResult: TweetResult | ThreadResult;
+
+    if (thread) {
+      logger.info(`Posting thread of ${thread.length} tweets`);
+      const threadResult = await twitterService.postThread(thread, imageUrl, job.payload.posted);
+      job.payload.posted = threadResult.posted;
+      tweetResult = threadResult;
+    } else if (imageUrl) {
+      logger.info('Posting tweet with media');
+      tweetResult = await twitterService.postTweetWithMedia(summary, imageUrl);
+    } else {
+      logger.info('Posting tweet without media');
+      tweetResult = await twitterService.postTweet(summary);
+    }
+
+    if (!tweetResult.success) {
+      const error = tweetResult.error || 'Unknown error';
+      logger.error(`Failed to post to Twitter: ${error}`);
+
+      if (!tweetResult.retryable || job.attempts >= job.maxAttempts) {
+        historyService.record(sourceId, post, {
+          status: 'failed',
+          summary,
+          thread: job.payload.posted,
+          template,
+          error: tweetResult.error,
+        });
+        webhookService.emit('tweet.failed', { sourceId, post, summary, error });
+      }
+      if (draftId) {
+        draftService.recordApproval(draftId, { error });
+      }
+
+      throw new JobError(error, {
+        retryable: Boolean(tweetResult.retryable),
+        retryAt: tweetResult.retryAt ? new Date(tweetResult.retryAt) : undefined,
+      });
+    }
+
+    logger.info('Successfully posted to Twitter');
+    const posted = 'posted' in tweetResult ? tweetResult.posted : undefined;
+    const tweetId = posted ? posted[0]?.id : (tweetResult as TweetResult).data?.id;
+    const history = historyService.record(sourceId, post, {
+      status: 'published',
+      tweetId,
+      summary,
+      thread: posted,
+      template,
+    });
+    if (draftId) {
+      draftService.recordApproval(draftId, { tweetId });
+    }
+    if (tweetId) {
+      webhookService.emit('tweet.published', {
+        sourceId,
+        post,
+        summary,
+        tweet: { id: tweetId, text: posted?.[0]?.text ?? summary },
+      });
+    }
+
+    return { tweetId, thread: posted, history };
+  }
+
+  /**
+   * Posts a pending draft to Twitter with its current summary and image
+   * Concurrent approvals of the same draft share one post
+   * @param draftId - The draft ID
+   * @throws ApiError with status 404 if the draft does not exist, 409 if it was already reviewed
+   * or is queued for a retry
+   */
+  public approveDraft(draftId: string): Promise<CrossPostResult> {
+    const pending = this.approving.get(draftId);
+    if (pending) {
+      return pending;
+    }
+
+    const draft = draftService.getPending(draftId);
+    const queued = jobQueue
+      .list({ type: PUBLISH_JOB, status: 'queued' })
+      .find(job => (job.payload as PublishJobPayload).draftId === draftId);
+    if (queued) {
+      throw new ApiError(
+        `Draft ${draftId} is already queued for publishing as job ${queued.id}`,
+        409
+      );
+    }
+
+    const approval = this.publish(draft.sourceId, draft.post, draft.summary, draft.imageUrl, {
+      draftId,
+      template: draft.template,
+    })
+      .then(result => ({ ...result, draft: draftService.get(draftId) }))
+      .finally(() => this.approving.delete(draftId));
+
+    this.approving.set(draftId, approval);
+    return approval;
+  }
+}
+
+export const crossPostService = new CrossPostService();
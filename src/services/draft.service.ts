@@ -0,0 +1,266 @@
+import { v4 as uuidv4 } from 'uuid';
+import logger from '../utils/logger';
+import { ApiError } from '../utils/errorHandler';
+import JsonStore from '../utils/jsonStore';
+import { llmService } from './llm.service';
+import { historyService } from './history.service';
+import { sourceService } from './source.service';
+import { jobQueue } from './jobQueue.service';
+import { InstagramPost } from '../interfaces/instagram.interface';
+import { PublishJobPayload } from '../interfaces/crossPost.interface';
+import { Draft, DraftFilters, DraftInput } from '../interfaces/draft.interface';
+import { PromptTemplateRef } from '../interfaces/promptTemplate.interface';
+
+interface DraftState {
+  drafts: Draft[];
+}
+
+/**
+ * Lists the images of a post that can be attached to its tweet
+ * Videos contribute their thumbnail
+ * @param post - The Instagram post
+ */
+export const getImageOptions = (post: InstagramPost): string[] => {
+  const urls = [
+    post.imageUrl,
+    ...(post.media || []).map(media => (media.type === 'image' ? media.url : media.thumbnailUrl)),
+  ];
+
+  return Array.from(new Set(urls.filter((url): url is string => Boolean(url))));
+};
+
+class DraftService {
+  private store: JsonStore<DraftState>;
+  private drafts: Map<string, Draft>;
+
+  /**
+   * Creates the draft store and loads the persisted drafts
+   */
+  constructor() {
+    this.store = new JsonStore<DraftState>('drafts.json', () => ({ drafts: [] }));
+    this.drafts = new Map(this.store.read().drafts.map(draft => [draft.id, draft]));
+  }
+
+  private persist(): void {
+    this.store.write({ drafts: Array.from(this.drafts.values()) });
+  }
+
+  private save(draft: Draft): Draft {
+    this.drafts.set(draft.id, draft);
+    this.persist();
+    return draft;
+  }
+
+  /**
+   * Stores a pending draft of a cross-post
+   * @param sourceId - The source the post was fetched from
+   * @param post - The Instagram post
+   * @param summary - The generated tweet text
+   * @param imageUrl - The image to attach, if any
+   * @param template - The prompt template version that generated the summary
+   */
+  public create(
+    sourceId: string,
+    post: InstagramPost,
+    summary: string,
+    imageUrl?: string,
+    template?: PromptTemplateRef
+  ): Draft {
+    const now = new Date().toISOString();
+    const draft = this.save({
+      id: uuidv4(),
+      sourceId,
+      postKey: historyService.getPostKey(post),
+      post,
+      summary,
+      template,
+      imageUrl,
+      status: 'pending',
+      createdAt: now,
+      updatedAt: now,
+    });
+
+    logger.info(`Created draft ${draft.id} for Instagram post ${draft.postKey}`);
+    return draft;
+  }
+
+  /**
+   * Finds the most recent draft of an Instagram post
+   * @param post - The Instagram post
+   */
+  public findByPost(post: InstagramPost): Draft | undefined {
+    const postKey = historyService.getPostKey(post);
+    return this.list().find(draft => draft.postKey === postKey);
+  }
+
+  /**
+   * Lists drafts, newest first
+   * @param filters - Source and status filters
+   */
+  public list(filters: DraftFilters = {}): Draft[] {
+    return Array.from(this.drafts.values())
+      .filter(
+        draft =>
+          (!filters.sourceId || draft.sourceId === filters.sourceId) &&
+          (!filters.status || draft.status === filters.status)
+      )
+      .reverse();
+  }
+
+  /**
+   * Gets a draft by ID
+   * @param id - The draft ID
+   * @throws ApiError with status 404 if the draft does not exist
+   */
+  public get(id: string): Draft {
+    const draft = this.drafts.get(id);
+    if (!draft) {
+      throw new ApiError(`Draft not found: ${id}`, 404);
+    }
+
+    return draft;
+  }
+
+  /**
+   * Gets a draft that is still waiting for review
+   * @param id - The draft ID
+   * @throws ApiError with status 404 if the draft does not exist, 409 if it was already reviewed
+   */
+  public getPending(id: string): Draft {
+    const draft = this.get(id);
+    if (draft.status !== 'pending') {
+      throw new ApiError(`Draft ${id} is already ${draft.status}`, 409);
+    }
+
+    return draft;
+  }
+
+  /**
+   * Gets a pending draft whose approval is not being published, so it can still be changed
+   * @param id - The draft ID
+   * @throws ApiError with status 404 if the draft does not exist, 409 if it was already reviewed
+   * or its approval is queued for publishing
+   */
+  private getEditable(id: string): Draft {
+    const draft = this.getPending(id);
+    const publishing = jobQueue
+      .list()
+      .find(
+        job =>
+          (job.status === 'queued' || job.status === 'running') &&
+          (job.payload as PublishJobPayload).draftId === id
+      );
+    if (publishing) {
+      throw new ApiError(`Draft ${id} is queued for publishing as job ${publishing.id}`, 409);
+    }
+
+    return draft;
+  }
+
+  /**
+   * Edits the tweet text or the attached image of a pending draft
+   * @param id - The draft ID
+   * @param input - New summary, and an image of the post or `null` for none
+   */
+  public update(id: string, input: DraftInput): Draft {
+    const draft = this.getEditable(id);
+
+    if (
+      input.summary !== undefined &&
+      (typeof input.summary !== 'string' || !input.summary.trim())
+    ) {
+      throw new ApiError('Summary must be a non-empty string', 400);
+    }
+    if (
+      input.imageUrl !== undefined &&
+      input.imageUrl !== null &&
+      !getImageOptions(draft.post).includes(input.imageUrl)
+    ) {
+      throw new ApiError('Image URL must be one of the images of the Instagram post', 400);
+    }
+
+    const updated = this.save({
+      ...draft,
+      summary: input.summary !== undefined ? input.summary.trim() : draft.summary,
+      imageUrl: input.imageUrl === null ? undefined : (input.imageUrl ?? draft.imageUrl),
+      updatedAt: new Date().toISOString(),
+    });
+
+    logger.info(`Updated draft ${id}`);
+    return updated;
+  }
+
+  /**
+   * Replaces the summary of a pending draft with a newly generated one
+   * @param id - The draft ID
+   * @param promptTemplate - Template to write the summary with instead of the one of the source
+   */
+  public async regenerate(id: string, promptTemplate?: string): Promise<Draft> {
+    const draft = this.getEditable(id);
+    const source = sourceService.list().find(item => item.id === draft.sourceId);
+
+    const { summary, template } = await llmService.summarizeText({
+      text: draft.post.caption,
+      template: promptTemplate,
+      sourceTemplate: source?.settings.promptTemplate,
+      variables: {
+        username: source?.username,
+        postUrl: draft.post.postUrl,
+        date: draft.post.timestamp?.slice(0, 10),
+      },
+    });
+
+    logger.info(`Regenerated the summary of draft ${id}`);
+    return this.save({
+      ...this.getEditable(id),
+      summary,
+      template,
+      updatedAt: new Date().toISOString(),
+    });
+  }
+
+  /**
+   * Rejects a pending draft, the post is not cross-posted again unless forced
+   * @param id - The draft ID
+   * @param reason - Optional note for other editors
+   */
+  public reject(id: string, reason?: string): Draft {
+    const draft = this.getEditable(id);
+    const now = new Date().toISOString();
+
+    logger.info(`Rejected draft ${id}`);
+    return this.save({
+      ...draft,
+      status: 'rejected',
+      rejectionReason: reason,
+      updatedAt: now,
+      reviewedAt: now,
+    });
+  }
+
+  /**
+   * Records the outcome of posting an approved draft
+   * A failed post keeps the draft pending so it can be approved again
+   * @param id - The draft ID
+   * @param outcome - The tweet ID, or the error of the failed post
+   */
+  public recordApproval(id: string, outcome: { tweetId?: string; error?: string }): Draft {
+    const draft = this.get(id);
+    const now = new Date().toISOString();
+
+    if (outcome.error !== undefined) {
+      return this.save({ ...draft, error: outcome.error, updatedAt: now });
+    }
+
+    return this.save({
+      ...draft,
+      status: 'published',
+      tweetId: outcome.tweetId,
+      error: undefined,
+      updatedAt: now,
+      reviewedAt: now,
+    });
+  }
+}
+
+export const draftService = new DraftService();
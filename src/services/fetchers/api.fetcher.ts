@@ -0,0 +1,319 @@
+import logger from '../../utils/logger';
+import {
+  InstagramConfig,
+  InstagramFetcher,
+  InstagramFetchOptions,
+  InstagramMedia,
+  InstagramPost,
+  InstagramPostsResponse,
+  InstagramProfile,
+  InstagramProfileResponse,
+} from '../../interfaces/instagram.interface';
+import { describeMedia, isWithinRange } from './common';
+import { GraphApiError, getGraphApiUrl, toGraphApiError } from './graphApi';
+import { createTransport, InstagramTransport } from './transport';
+
+const MEDIA_FIELDS =
+  'id,caption,media_type,media_url,thumbnail_url,permalink,timestamp,like_count,' +
+  'children{media_type,media_url,thumbnail_url}';
+const PROFILE_FIELDS =
+  'id,username,name,biography,profile_picture_url,followers_count,follows_count,media_count,website';
+const MAX_PAGE_SIZE = 25;
+
+/** Media object of the Graph API, or a carousel child that only has the media fields */
+interface GraphMedia {
+  id?: string;
+  caption?: string;
+  media_type?: 'IMAGE' | 'VIDEO' | 'CAROUSEL_ALBUM';
+  media_url: string;
+  thumbnail_url?: string;
+  permalink?: string;
+  timestamp?: string;
+  like_count?: number;
+  username?: string;
+  children?: { data: GraphMedia[] };
+}
+
+/** Paged list of media objects */
+interface GraphMediaConnection {
+  data?: GraphMedia[];
+  paging?: { cursors?: { after?: string }; next?: string };
+}
+
+/** Instagram user requested with {@link PROFILE_FIELDS} */
+interface GraphProfile {
+  id?: string;
+  username?: string;
+  name?: string;
+  biography?: string;
+  profile_picture_url?: string;
+  followers_count?: number;
+  follows_count?: number;
+  media_count?: number;
+  website?: string;
+}
+
+interface MediaPage {
+  items: GraphMedia[];
+  /** Cursor or URL of the next page, absent on the last page */
+  next?: string;
+}
+
+export class ApiFetcher implements InstagramFetcher {
+  public readonly name = 'api' as const;
+
+  /**
+   * @param transport - HTTP access to the Graph API, recorded or replayed in fixture mode
+   */
+  constructor(private readonly transport: InstagramTransport = createTransport()) {}
+
+  /**
+   * Maps a Graph API media object (or carousel child) to a media item
+   * @param item - Object with `media_type`, `media_url` and `thumbnail_url` fields
+   */
+  private mapApiMedia(item: GraphMedia): InstagramMedia {
+    return item.media_type === 'VIDEO'
+      ? { type: 'video', url: item.media_url, thumbnailUrl: item.thumbnail_url }
+      : { type: 'image', url: item.media_url };
+  }
+
+  /**
+   * Maps a Graph API media object to a post
+   * @param item - Media object requested with {@link MEDIA_FIELDS}
+   */
+  private mapApiPost(item: GraphMedia): InstagramPost {
+    const children: GraphMedia[] = item.children?.data || [];
+    const media: InstagramMedia[] =
+      item.media_type === 'CAROUSEL_ALBUM' && children.length > 0
+        ? children.map(child => this.mapApiMedia(child))
+        : [this.mapApiMedia(item)];
+
+    return {
+      id: item.id,
+      caption: item.caption || 'No caption',
+      ...describeMedia(media),
+      media,
+      timestamp: item.timestamp,
+      likes: item.like_count,
+      postUrl: item.permalink,
+    };
+  }
+
+  /**
+   * Requests a Graph API URL, converting failures to {@link GraphApiError}
+   * @param url - The full request URL including the access token
+   */
+  private async request<T>(url: string): Promise<T> {
+    try {
+      const response = await this.transport.get<T>(url, { timeout: 30000 });
+      return response.data;
+    } catch (error) {
+      throw toGraphApiError(error);
+    }
+  }
+
+  /**
+   * Loads a page of media of any public business or creator account via Business Discovery
+   * @param config - Account to fetch from, with the business account ID that owns the token
+   * @param pageSize - Number of media objects to request
+   * @param cursor - The `after` cursor of the previous page
+   */
+  private async fetchDiscoveryPage(
+    config: InstagramConfig,
+    pageSize: number,
+    cursor?: string
+  ): Promise<MediaPage> {
+    const media = `media${cursor ? `.after(${cursor})` : ''}.limit(${pageSize}){${MEDIA_FIELDS}}`;
+    const fields = `business_discovery.username(${config.username}){id,username,${media}}`;
+    const data = await this.request<{ business_discovery?: { media?: GraphMediaConnection } }>(
+      `${getGraphApiUrl()}/${config.businessAccountId}?fields=${encodeURIComponent(fields)}` +
+        `&access_token=${encodeURIComponent(config.accessToken || '')}`
+    );
+
+    const page = data?.business_discovery?.media;
+    return {
+      items: page?.data || [],
+      next: page?.paging?.next ? page.paging.cursors?.after : undefined,
+    };
+  }
+
+  /**
+   * Loads a page of the token owner's own media
+   * The endpoint ignores the configured username, so a token of another account is rejected
+   * @param config - Account to fetch from
+   * @param pageSize - Number of media objects to request
+   * @param nextUrl - The `paging.next` URL of the previous page
+   */
+  private async fetchOwnMediaPage(
+    config: InstagramConfig,
+    pageSize: number,
+    nextUrl?: string
+  ): Promise<MediaPage> {
+    const data = await this.request<GraphMediaConnection>(
+      nextUrl ||
+        `https://graph.instagram.com/me/media?fields=${MEDIA_FIELDS},username` +
+          `&limit=${pageSize}&access_token=${encodeURIComponent(config.accessToken || '')}`
+    );
+
+    const items = data?.data || [];
+    const owner = items[0]?.username;
+    if (owner && owner.toLowerCase() !== config.username.toLowerCase()) {
+      throw new GraphApiError(
+        `Access token belongs to ${owner}, not ${config.username}; ` +
+          'set a business account ID to read other accounts via business discovery',
+        'permission_denied'
+      );
+    }
+
+    return { items, next: data?.paging?.next };
+  }
+
+  /**
+   * Attempts to fetch recent Instagram posts using the official API
+   * With a business account ID, Business Discovery reads any public business or creator account,
+   * otherwise only the media of the token owner can be read
+   * Follows the paging cursors until enough posts are collected
+   * @param config - Account to fetch from
+   * @param options - How many posts to fetch and how far back to go
+   * @returns Promise with Instagram posts response
+   */
+  public async fetchRecentPosts(
+    config: InstagramConfig,
+    options: InstagramFetchOptions
+  ): Promise<InstagramPostsResponse> {
+    try {
+      if (!config.accessToken) {
+        logger.warn('No Instagram access token provided, skipping API method');
+        return {
+          success: false,
+          error: 'No Instagram access token provided',
+        };
+      }
+
+      const useDiscovery = Boolean(config.businessAccountId);
+      logger.info(
+        useDiscovery
+          ? `Attempting to fetch Instagram data for ${config.username} via business discovery`
+          : 'Attempting to fetch Instagram data via official API'
+      );
+
+      const pageSize = Math.min(options.limit, MAX_PAGE_SIZE);
+      const posts: InstagramPost[] = [];
+      let next: string | undefined;
+      let reachedSince = false;
+
+      do {
+        const page = useDiscovery
+          ? await this.fetchDiscoveryPage(config, pageSize, next)
+          : await this.fetchOwnMediaPage(config, pageSize, next);
+
+        for (const item of page.items) {
+          const post = this.mapApiPost(item);
+
+          // The API returns media newest first, so older posts end the walk
+          if (!isWithinRange(post, options.since)) {
+            reachedSince = true;
+            break;
+          }
+
+          posts.push(post);
+          if (posts.length >= options.limit) {
+            break;
+          }
+        }
+
+        next = page.next;
+      } while (next && posts.length < options.limit && !reachedSince);
+
+      if (posts.length > 0) {
+        logger.info(`Successfully fetched ${posts.length} posts via API for ${config.username}`);
+        return { success: true, data: posts };
+      } else {
+        logger.warn('No posts found via API');
+        return {
+          success: false,
+          error: 'No posts found',
+        };
+      }
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+      logger.error(`Error fetching Instagram data via API: ${errorMessage}`);
+      return {
+        success: false,
+        error: `API error: ${errorMessage}`,
+      };
+    }
+  }
+
+  /**
+   * Fetches the profile metadata using the official API
+   * With a business account ID, any public business or creator account can be read via
+   * Business Discovery, otherwise only the profile of the token owner
+   * The API does not expose the verified flag
+   * @param config - Account to fetch from
+   * @returns Promise with the profile response
+   */
+  public async fetchProfile(config: InstagramConfig): Promise<InstagramProfileResponse> {
+    try {
+      if (!config.accessToken) {
+        logger.warn('No Instagram access token provided, skipping API method');
+        return {
+          success: false,
+          error: 'No Instagram access token provided',
+        };
+      }
+
+      logger.info(`Attempting to fetch Instagram profile of ${config.username} via official API`);
+
+      let account: GraphProfile | undefined;
+      if (config.businessAccountId) {
+        const fields = `business_discovery.username(${config.username}){${PROFILE_FIELDS}}`;
+        const data = await this.request<{ business_discovery?: GraphProfile }>(
+          `${getGraphApiUrl()}/${config.businessAccountId}?fields=${encodeURIComponent(fields)}` +
+            `&access_token=${encodeURIComponent(config.accessToken)}`
+        );
+        account = data?.business_discovery;
+      } else {
+        account = await this.request<GraphProfile>(
+          `https://graph.instagram.com/me?fields=${PROFILE_FIELDS}` +
+            `&access_token=${encodeURIComponent(config.accessToken)}`
+        );
+        if (account?.username && account.username.toLowerCase() !== config.username.toLowerCase()) {
+          throw new GraphApiError(
+            `Access token belongs to ${account.username}, not ${config.username}; ` +
+              'set a business account ID to read other accounts via business discovery',
+            'permission_denied'
+          );
+        }
+      }
+
+      if (!account) {
+        throw new Error('No profile data in the API response');
+      }
+
+      const profile: InstagramProfile = {
+        id: account.id,
+        username: account.username || config.username,
+        fullName: account.name,
+        biography: account.biography,
+        avatarUrl: account.profile_picture_url,
+        followers: account.followers_count,
+        following: account.follows_count,
+        postCount: account.media_count,
+        externalUrl: account.website,
+      };
+
+      logger.info(`Successfully fetched the profile via API for ${config.username}`);
+      return { success: true, data: profile };
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+      logger.error(`Error fetching Instagram profile via API: ${errorMessage}`);
+      return {
+        success: false,
+        error: `API error: ${errorMessage}`,
+      };
+    }
+  }
+}
+
+export const apiFetcher = new ApiFetcher();
@@ -0,0 +1,489 @@
+import * as cheerio from 'cheerio';
+import * as fs from 'fs';
+import logger from '../../utils/logger';
+import {
+  InstagramConfig,
+  InstagramFetcher,
+  InstagramFetchOptions,
+  InstagramMedia,
+  InstagramPost,
+  InstagramPostsResponse,
+  InstagramProfileResponse,
+} from '../../interfaces/instagram.interface';
+import { describeMedia, isWithinRange, parseProfileDescription, sortNewestFirst } from './common';
+import { createTransport, InstagramTransport } from './transport';
+
+const PROFILE_PAGE_SIZE = 12;
+// Query hash of the profile timeline query used by the instagram.com web client
+const TIMELINE_QUERY_HASH = 'e769aa130647d2354c40ea6a439bfc08';
+
+/** Media node of Instagram's GraphQL data: a timeline post or a carousel slide */
+interface GraphqlMediaNode {
+  is_video?: boolean;
+  display_url: string;
+  video_url?: string;
+  dimensions?: { width: number; height: number };
+}
+
+/** Post node of a profile timeline */
+interface TimelineNode extends GraphqlMediaNode {
+  id: string;
+  shortcode: string;
+  taken_at_timestamp: number;
+  edge_media_to_caption?: { edges: { node: { text: string } }[] };
+  edge_liked_by?: { count: number };
+  edge_sidecar_to_children?: { edges: { node: GraphqlMediaNode }[] };
+  pinned_for_users?: unknown[];
+}
+
+/** A page of the `edge_owner_to_timeline_media` connection of a profile */
+interface TimelineMedia {
+  count?: number;
+  page_info?: { has_next_page: boolean; end_cursor?: string | null };
+  edges?: { node: TimelineNode }[];
+}
+
+/** The `graphql.user` object embedded in a profile page */
+interface ProfileUser {
+  id?: string;
+  username?: string;
+  full_name?: string;
+  biography?: string;
+  profile_pic_url?: string;
+  profile_pic_url_hd?: string;
+  edge_followed_by?: { count: number };
+  edge_follow?: { count: number };
+  is_verified?: boolean;
+  external_url?: string | null;
+  edge_owner_to_timeline_media?: TimelineMedia;
+}
+
+export class CheerioFetcher implements InstagramFetcher {
+  public readonly name = 'cheerio' as const;
+
+  /**
+   * @param transport - HTTP access to instagram.com, recorded or replayed in fixture mode
+   */
+  constructor(private readonly transport: InstagramTransport = createTransport()) {}
+
+  /**
+   * Maps a GraphQL media node (a timeline post or a sidecar child) to a media item
+   * @param node - Node with `is_video`, `display_url`, `video_url` and `dimensions` fields
+   */
+  private mapGraphqlMedia(node: GraphqlMediaNode): InstagramMedia {
+    const dimensions = {
+      width: node.dimensions?.width,
+      height: node.dimensions?.height,
+    };
+
+    return node.is_video && node.video_url
+      ? { type: 'video', url: node.video_url, thumbnailUrl: node.display_url, ...dimensions }
+      : { type: 'image', url: node.display_url, ...dimensions };
+  }
+
+  /**
+   * Maps a timeline node from Instagram's GraphQL data to a post
+   * Carousel posts carry their slides in `edge_sidecar_to_children`
+   * @param node - The `edge_owner_to_timeline_media` edge node
+   */
+  private mapTimelineNode(node: TimelineNode): InstagramPost {
+    const children = node.edge_sidecar_to_children?.edges || [];
+    const media: InstagramMedia[] =
+      children.length > 0
+        ? children.map(child => this.mapGraphqlMedia(child.node))
+        : [this.mapGraphqlMedia(node)];
+    const { mediaType } = describeMedia(media);
+
+    return {
+      id: node.id,
+      caption: node.edge_media_to_caption?.edges?.[0]?.node?.text || 'No caption',
+      imageUrl: node.display_url,
+      mediaType,
+      media,
+      timestamp: new Date(node.taken_at_timestamp * 1000).toISOString(),
+      likes: node.edge_liked_by?.count,
+      postUrl: `https://www.instagram.com/p/${node.shortcode}/`,
+    };
+  }
+
+  /**
+   * Follows the timeline cursor of a profile to load further pages of posts
+   * @param userId - Instagram user ID of the profile
+   * @param cursor - The `end_cursor` of the last loaded page
+   * @param userAgent - User agent to send with the request
+   * @returns The next page of timeline data
+   */
+  private async fetchTimelinePage(
+    userId: string,
+    cursor: string,
+    userAgent: string
+  ): Promise<TimelineMedia | undefined> {
+    const variables = JSON.stringify({ id: userId, first: PROFILE_PAGE_SIZE, after: cursor });
+    const response = await this.transport.get<{
+      data?: { user?: { edge_owner_to_timeline_media?: TimelineMedia } };
+    }>(
+      `https://www.instagram.com/graphql/query/?query_hash=${TIMELINE_QUERY_HASH}&variables=${encodeURIComponent(variables)}`,
+      {
+        headers: {
+          'User-Agent': userAgent,
+          'Accept-Language': 'en-US,en;q=0.9',
+          'X-Requested-With': 'XMLHttpRequest',
+        },
+        timeout: 30000,
+      }
+    );
+
+    return response.data?.data?.user?.edge_owner_to_timeline_media;
+  }
+
+  /**
+   * Downloads a profile page and loads it with Cheerio
+   * Retries with exponential backoff, rotating between common browser user agents
+   * @param username - The Instagram username
+   * @returns The loaded page and the user agent to reuse for follow-up requests
+   */
+  private async loadProfilePage(
+    username: string
+  ): Promise<{ $: cheerio.CheerioAPI; userAgent: string }> {
+    const userAgents = [
+      'Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/120.0.0.0 Safari/537.36',
+      'Mozilla/5.0 (Macintosh; Intel Mac OS X 10_15_7) AppleWebKit/605.1.15 (KHTML, like Gecko) Version/16.0 Safari/605.1.15',
+      'Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/120.0.0.0 Safari/537.36 Edg/120.0.0.0',
+    ];
+
+    const userAgent = userAgents[Math.floor(Math.random() * userAgents.length)];
+
+    logger.info(`Using user agent: ${userAgent}`);
+
+    const maxRetries = 3;
+    let retryCount = 0;
+    let html = '';
+
+    while (retryCount < maxRetries) {
+      try {
+        logger.info(`Attempt ${retryCount + 1} to fetch Instagram profile`);
+
+        const response = await this.transport.get(`https://www.instagram.com/${username}/`, {
+          headers: {
+            'User-Agent': userAgent,
+            'Accept-Language': 'en-US,en;q=0.9',
+            Accept:
+              'text/html,application/xhtml+xml,application/xml;q=0.9,image/avif,image/webp,image/apng,*/*;q=0.8,application/signed-exchange;v=b3;q=0.7',
+            'Cache-Control': 'no-cache',
+            Pragma: 'no-cache',
+            'sec-ch-ua': '"Not_A Brand";v="8", "Chromium";v="120"',
+            'sec-ch-ua-mobile': '?0',
+            'sec-ch-ua-platform': '"Windows"',
+            'sec-fetch-dest': 'document',
+            'sec-fetch-mode': 'navigate',
+            'sec-fetch-site': 'none',
+            'sec-fetch-user': '?1',
+            'upgrade-insecure-requests': '1',
+          },
+          timeout: 30000,
+          maxRedirects: 5,
+        });
+
+        if (typeof response.data === 'string' && response.data) {
+          html = response.data;
+          logger.info('HTML fetched successfully');
+          break;
+        } else {
+          throw new Error('Empty response received');
+        }
+      } catch (error) {
+        retryCount++;
+        const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+        logger.warn(`Attempt ${retryCount} failed: ${errorMessage}`);
+
+        if (retryCount >= maxRetries) {
+          throw new Error(`Failed after ${maxRetries} attempts: ${errorMessage}`);
+        }
+
+        const delay = Math.pow(2, retryCount) * 1000 + Math.random() * 1000;
+        logger.info(`Retrying in ${Math.round(delay / 1000)} seconds...`);
+        await new Promise(resolve => setTimeout(resolve, delay));
+      }
+    }
+
+    fs.writeFileSync('logs/instagram-profile.html', html);
+    logger.info('Saved HTML to logs/instagram-profile.html for debugging');
+
+    if (!html || typeof html !== 'string' || html.trim().length === 0) {
+      throw new Error('Invalid HTML content received');
+    }
+
+    let $: cheerio.CheerioAPI;
+    try {
+      $ = cheerio.load(html);
+      logger.info('HTML loaded successfully with Cheerio');
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+      throw new Error(`Failed to parse HTML with Cheerio: ${errorMessage}`);
+    }
+
+    return { $, userAgent };
+  }
+
+  /**
+   * Finds the profile user objects in the data scripts embedded in a profile page
+   * Looks for `window._sharedData`, `window.__additionalDataLoaded` and `InstagramWebSharedData`
+   * @param $ - The loaded profile page
+   * @returns Candidate `graphql.user` objects, most specific first
+   */
+  private findProfileUsers($: cheerio.CheerioAPI): ProfileUser[] {
+    logger.info('Searching for data patterns in HTML');
+
+    const scriptTags = $('script').filter(function () {
+      const text = $(this).text() || '';
+      return (
+        text.includes('window._sharedData') ||
+        text.includes('__d("InstagramWebSharedData"') ||
+        text.includes('window.__additionalDataLoaded')
+      );
+    });
+
+    logger.info(`Found ${scriptTags.length} potential script tags with data`);
+
+    const users: ProfileUser[] = [];
+    for (let i = 0; i < scriptTags.length; i++) {
+      try {
+        const scriptContent = $(scriptTags[i]).html() || '';
+
+        let jsonData = null;
+
+        const sharedDataMatch = scriptContent.match(/window\._sharedData = (.+);/);
+        if (sharedDataMatch && sharedDataMatch.length >= 2) {
+          jsonData = JSON.parse(sharedDataMatch[1]);
+          logger.info('Found data in window._sharedData');
+        }
+
+        if (!jsonData) {
+          const additionalDataMatch = scriptContent.match(
+            /window\.__additionalDataLoaded\([^,]+,(.+)\);/
+          );
+          if (additionalDataMatch && additionalDataMatch.length >= 2) {
+            jsonData = JSON.parse(additionalDataMatch[1]);
+            logger.info('Found data in window.__additionalDataLoaded');
+          }
+        }
+
+        if (!jsonData) {
+          const webSharedDataMatch = scriptContent.match(
+            /__d\("InstagramWebSharedData",[^{]+({.+})\);/
+          );
+          if (webSharedDataMatch && webSharedDataMatch.length >= 2) {
+            try {
+              jsonData = JSON.parse(webSharedDataMatch[1]);
+              logger.info('Found data in InstagramWebSharedData');
+            } catch (e) {
+              logger.warn(
+                `Failed to parse InstagramWebSharedData: ${e instanceof Error ? e.message : 'Unknown error'}`
+              );
+            }
+          }
+        }
+
+        if (jsonData) {
+          users.push(
+            ...[
+              jsonData.entry_data?.ProfilePage?.[0]?.graphql?.user,
+              jsonData.user,
+              jsonData.data?.user,
+            ].filter(Boolean)
+          );
+        }
+      } catch (error) {
+        const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+        logger.warn(`Failed to process script tag ${i + 1}: ${errorMessage}`);
+      }
+    }
+
+    if (users.length === 0) {
+      logger.warn('Could not find any profile data in the data scripts');
+    }
+
+    return users;
+  }
+
+  /**
+   * Fetches recent Instagram posts using Cheerio for web scraping
+   * Reads the first page from the profile HTML and paginates with the timeline cursor
+   * @param config - Account to fetch from
+   * @param options - How many posts to fetch and how far back to go
+   * @returns Promise with Instagram posts response
+   */
+  public async fetchRecentPosts(
+    config: InstagramConfig,
+    options: InstagramFetchOptions
+  ): Promise<InstagramPostsResponse> {
+    try {
+      logger.info(`Attempting to fetch Instagram data via Cheerio for ${config.username}`);
+
+      const { $, userAgent } = await this.loadProfilePage(config.username);
+
+      for (const user of this.findProfileUsers($)) {
+        try {
+          let edges = user.edge_owner_to_timeline_media?.edges;
+          if (!edges || edges.length === 0) {
+            continue;
+          }
+
+          const posts: InstagramPost[] = [];
+          // Pinned posts do not count toward the limit, they may be older than the next page
+          let unpinnedCount = 0;
+          let pageInfo = user.edge_owner_to_timeline_media?.page_info;
+          let reachedSince = false;
+          let hasNextPage = true;
+
+          while (hasNextPage) {
+            for (const edge of edges) {
+              const post = this.mapTimelineNode(edge.node);
+              if (isWithinRange(post, options.since)) {
+                posts.push(post);
+                if (!edge.node.pinned_for_users?.length) {
+                  unpinnedCount++;
+                }
+              } else if (!edge.node.pinned_for_users?.length) {
+                // Pinned posts can be older than the rest of the feed
+                reachedSince = true;
+              }
+            }
+
+            const cursor = pageInfo?.has_next_page ? pageInfo.end_cursor : undefined;
+            hasNextPage = false;
+
+            if (!reachedSince && unpinnedCount < options.limit && cursor && user.id) {
+              try {
+                logger.info(`Loading next timeline page after cursor ${cursor}`);
+                const timeline = await this.fetchTimelinePage(user.id, cursor, userAgent);
+                edges = timeline?.edges || [];
+                pageInfo = timeline?.page_info;
+                hasNextPage = edges.length > 0;
+              } catch (error) {
+                const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+                logger.warn(`Failed to load next timeline page: ${errorMessage}`);
+              }
+            }
+          }
+
+          if (posts.length > 0) {
+            logger.info(`Successfully extracted ${posts.length} posts from the profile data`);
+            return { success: true, data: sortNewestFirst(posts).slice(0, options.limit) };
+          }
+        } catch (error) {
+          const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+          logger.warn(`Failed to extract post data from the profile data: ${errorMessage}`);
+        }
+      }
+
+      logger.info('Trying direct HTML parsing as fallback');
+
+      try {
+        const postLinks = $('a[href*="/p/"]')
+          .map((_, el) => $(el).attr('href'))
+          .get();
+        const imageUrls = $('img[src*="instagram"]')
+          .map((_, el) => $(el).attr('src'))
+          .get();
+
+        // Direct parsing carries no timestamps, so a `since` filter cannot be honoured here
+        const posts: InstagramPost[] = [];
+        for (let i = 0; i < postLinks.length && i < options.limit; i++) {
+          const imageUrl = imageUrls[i];
+          if (!imageUrl) {
+            break;
+          }
+
+          posts.push({
+            caption: 'Caption not available via direct HTML parsing',
+            imageUrl,
+            mediaType: 'image',
+            media: [{ type: 'image', url: imageUrl }],
+            postUrl: postLinks[i].startsWith('http')
+              ? postLinks[i]
+              : `https://www.instagram.com${postLinks[i]}`,
+          });
+        }
+
+        if (posts.length > 0) {
+          logger.info(`Successfully extracted ${posts.length} posts via direct HTML parsing`);
+          return { success: true, data: posts };
+        }
+      } catch (error) {
+        const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+        logger.warn(`Direct HTML parsing failed: ${errorMessage}`);
+      }
+
+      throw new Error('Could not extract Instagram post data using any available method');
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+      logger.error(`Error fetching Instagram data via Cheerio: ${errorMessage}`);
+      return {
+        success: false,
+        error: `Cheerio error: ${errorMessage}`,
+      };
+    }
+  }
+
+  /**
+   * Fetches the profile metadata from the profile page
+   * Uses the embedded `graphql.user` data, falling back to the description meta tags
+   * @param config - Account to fetch from
+   * @returns Promise with the profile response
+   */
+  public async fetchProfile(config: InstagramConfig): Promise<InstagramProfileResponse> {
+    try {
+      logger.info(`Attempting to fetch Instagram profile via Cheerio for ${config.username}`);
+
+      const { $ } = await this.loadProfilePage(config.username);
+
+      const user = this.findProfileUsers($).find(candidate => candidate.username || candidate.id);
+      if (user) {
+        logger.info('Successfully extracted the profile from the profile data');
+        return {
+          success: true,
+          data: {
+            id: user.id,
+            username: user.username || config.username,
+            fullName: user.full_name || undefined,
+            biography: user.biography || undefined,
+            avatarUrl: user.profile_pic_url_hd || user.profile_pic_url || undefined,
+            followers: user.edge_followed_by?.count,
+            following: user.edge_follow?.count,
+            postCount: user.edge_owner_to_timeline_media?.count,
+            isVerified: user.is_verified,
+            externalUrl: user.external_url || undefined,
+          },
+        };
+      }
+
+      logger.info('Trying the profile meta tags as fallback');
+
+      const description =
+        $('meta[property="og:description"]').attr('content') ||
+        $('meta[name="description"]').attr('content');
+      if (!description) {
+        throw new Error('Could not extract the Instagram profile using any available method');
+      }
+
+      return {
+        success: true,
+        data: {
+          username: config.username,
+          ...parseProfileDescription(description),
+          avatarUrl: $('meta[property="og:image"]').attr('content'),
+        },
+      };
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+      logger.error(`Error fetching Instagram profile via Cheerio: ${errorMessage}`);
+      return {
+        success: false,
+        error: `Cheerio error: ${errorMessage}`,
+      };
+    }
+  }
+}
+
+export const cheerioFetcher = new CheerioFetcher();
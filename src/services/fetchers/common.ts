@@ -0,0 +1,83 @@
+import {
+  InstagramMedia,
+  InstagramMediaType,
+  InstagramPost,
+  InstagramProfile,
+} from '../../interfaces/instagram.interface';
+
+/**
+ * Checks whether a post was published at or after the given date
+ * Posts without a timestamp are kept, as their age cannot be determined
+ * @param post - The post to check
+ * @param since - Lower bound for the post timestamp
+ */
+export const isWithinRange = (post: InstagramPost, since?: Date): boolean => {
+  if (!since || !post.timestamp) {
+    return true;
+  }
+  return new Date(post.timestamp).getTime() >= since.getTime();
+};
+
+/**
+ * Sorts posts newest first
+ * Pinned posts are listed first on a profile whatever their age, so fetchers sort before
+ * cutting the posts to the requested limit. Posts without a timestamp go last
+ * @param posts - The posts to sort, left unchanged
+ */
+export const sortNewestFirst = (posts: InstagramPost[]): InstagramPost[] =>
+  [...posts].sort((a, b) => {
+    const aTime = a.timestamp ? new Date(a.timestamp).getTime() : 0;
+    const bTime = b.timestamp ? new Date(b.timestamp).getTime() : 0;
+    return bTime - aTime;
+  });
+
+/**
+ * Derives the post-level media type and the backward compatible image URL from a media list
+ * @param media - Media items of the post, in display order
+ */
+export const describeMedia = (
+  media: InstagramMedia[]
+): { mediaType: InstagramMediaType; imageUrl: string } => {
+  const mediaType: InstagramMediaType =
+    media.length > 1 ? 'carousel' : media[0]?.type === 'video' ? 'video' : 'image';
+  const firstImage = media.find(item => item.type === 'image');
+  const imageUrl = firstImage?.url || media.find(item => item.thumbnailUrl)?.thumbnailUrl || '';
+
+  return { mediaType, imageUrl };
+};
+
+/**
+ * Parses an abbreviated count as shown on Instagram, such as `1,234`, `80K` or `1.2M`
+ * @param value - The displayed count
+ * @returns The count, or undefined when the value is not a count
+ */
+export const parseCount = (value: string): number | undefined => {
+  const match = value.trim().match(/^([\d.,]+)\s*([KMB])?$/i);
+  if (!match) {
+    return undefined;
+  }
+
+  const multiplier = { K: 1e3, M: 1e6, B: 1e9 }[match[2]?.toUpperCase() as 'K' | 'M' | 'B'] || 1;
+  const number = Number(match[2] ? match[1].replace(/,/g, '') : match[1].replace(/[.,]/g, ''));
+  return Number.isFinite(number) ? Math.round(number * multiplier) : undefined;
+};
+
+/**
+ * Reads profile metadata from the description meta tag of a profile page, e.g.
+ * `1M Followers, 612 Following, 80K Posts - See Instagram photos and videos from BBC News (@bbcnews)`
+ * @param description - Content of the `og:description` or `description` meta tag
+ */
+export const parseProfileDescription = (description: string): Partial<InstagramProfile> => {
+  const count = (label: string) => {
+    const match = description.match(new RegExp(`([\\d.,]+\\s*[KMB]?)\\s+${label}`, 'i'));
+    return match ? parseCount(match[1]) : undefined;
+  };
+  const owner = description.match(/from (.+?) \(@([a-z0-9._]+)\)/i);
+
+  return {
+    followers: count('Followers'),
+    following: count('Following'),
+    postCount: count('Posts'),
+    fullName: owner?.[1],
+  };
+};
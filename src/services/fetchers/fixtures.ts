@@ -0,0 +1,110 @@
+import crypto from 'crypto';
+import * as fs from 'fs';
+import path from 'path';
+import logger from '../../utils/logger';
+
+export type FixtureMode = 'off' | 'record' | 'replay';
+
+export interface Fixture {
+  url: string;
+  status: number;
+  contentType: string;
+  body: unknown;
+  recordedAt: string;
+}
+
+// Query parameters that must never end up in a fixture file
+const SECRET_PARAMS = ['access_token', 'client_secret'];
+
+/**
+ * Reads the record/replay mode from `INSTAGRAM_FIXTURE_MODE`
+ */
+export const getFixtureMode = (): FixtureMode => {
+  const mode = process.env.INSTAGRAM_FIXTURE_MODE;
+  return mode === 'record' || mode === 'replay' ? mode : 'off';
+};
+
+/**
+ * Removes secrets from a URL so it can be stored and used as a fixture key
+ * @param url - The requested URL
+ */
+export const redactUrl = (url: string): string => {
+  try {
+    const parsed = new URL(url);
+    for (const param of SECRET_PARAMS) {
+      parsed.searchParams.delete(param);
+    }
+    return parsed.toString();
+  } catch {
+    return url;
+  }
+};
+
+/**
+ * Stores raw Instagram responses as JSON files, one file per URL
+ */
+export class FixtureStore {
+  private readonly dir: string;
+
+  /**
+   * @param dir - Directory holding the fixture files
+   */
+  constructor(dir: string) {
+    this.dir = path.resolve(dir);
+  }
+
+  /**
+   * Builds the file path of the fixture for a URL
+   * The file name keeps the readable path of the URL and a hash of the full, redacted URL
+   * @param url - The requested URL
+   */
+  public fixturePath(url: string): string {
+    const key = redactUrl(url);
+    const hash = crypto.createHash('sha1').update(key).digest('hex').slice(0, 12);
+
+    let readable = 'request';
+    try {
+      const parsed = new URL(key);
+      readable = `${parsed.hostname}${parsed.pathname}`.replace(/[^a-z0-9]+/gi, '-');
+    } catch {
+      // Keep the generic prefix for URLs that cannot be parsed
+    }
+
+    return path.join(this.dir, `${readable.replace(/^-+|-+$/g, '').slice(0, 80)}-${hash}.json`);
+  }
+
+  /**
+   * Writes a fixture, replacing an earlier recording of the same URL
+   * @param fixture - The response to record
+   */
+  public save(fixture: Omit<Fixture, 'recordedAt'>): void {
+    const filePath = this.fixturePath(fixture.url);
+    const record: Fixture = {
+      ...fixture,
+      url: redactUrl(fixture.url),
+      recordedAt: new Date().toISOString(),
+    };
+
+    fs.mkdirSync(this.dir, { recursive: true });
+    fs.writeFileSync(filePath, JSON.stringify(record, null, 2));
+    logger.info(`Recorded fixture for ${record.url} to ${filePath}`);
+  }
+
+  /**
+   * Reads the fixture recorded for a URL
+   * @param url - The requested URL
+   * @returns The fixture, or null when the URL has not been recorded
+   */
+  public load(url: string): Fixture | null {
+    const filePath = this.fixturePath(url);
+    if (!fs.existsSync(filePath)) {
+      return null;
+    }
+
+    return JSON.parse(fs.readFileSync(filePath, 'utf8')) as Fixture;
+  }
+}
+
+export const fixtureStore = new FixtureStore(
+  process.env.INSTAGRAM_FIXTURE_DIR || path.join('fixtures', 'instagram')
+);
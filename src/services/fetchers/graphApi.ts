@@ -0,0 +1,123 @@
+import { TransportError } from './transport';
+
+export type GraphApiErrorKind =
+  | 'token_expired'
+  | 'rate_limited'
+  | 'permission_denied'
+  | 'not_found'
+  | 'invalid_request'
+  | 'unavailable'
+  | 'unknown';
+
+// Error codes documented for the Graph API, see
+// https://developers.facebook.com/docs/graph-api/guides/error-handling
+const RATE_LIMIT_CODES = [4, 17, 32, 613, 80002];
+const TOKEN_CODES = [102, 190, 463, 467];
+const PERMISSION_CODES = [3, 10];
+const UNAVAILABLE_CODES = [1, 2];
+
+// Subcode returned by business discovery when the username is not a business or creator account
+const BUSINESS_DISCOVERY_NOT_FOUND_SUBCODE = 2207013;
+
+const DEFAULT_GRAPH_API_URL = 'https://graph.facebook.com/v19.0';
+
+/**
+ * Gets the Graph API base URL used for business discovery, configurable with `INSTAGRAM_GRAPH_API_URL`
+ */
+export const getGraphApiUrl = (): string =>
+  (process.env.INSTAGRAM_GRAPH_API_URL || DEFAULT_GRAPH_API_URL).replace(/\/+$/, '');
+
+/**
+ * An error reported by the Graph API, classified by what the caller can do about it
+ */
+export class GraphApiError extends Error {
+  kind: GraphApiErrorKind;
+  code?: number;
+  subcode?: number;
+  status?: number;
+  /** Whether the same request may succeed when it is tried again later */
+  retryable: boolean;
+
+  constructor(
+    message: string,
+    kind: GraphApiErrorKind,
+    details: { code?: number; subcode?: number; status?: number } = {}
+  ) {
+    super(message);
+    this.kind = kind;
+    this.code = details.code;
+    this.subcode = details.subcode;
+    this.status = details.status;
+    this.retryable = kind === 'rate_limited' || kind === 'unavailable';
+    this.name = this.constructor.name;
+  }
+}
+
+const classify = (code?: number, subcode?: number, status?: number): GraphApiErrorKind => {
+  if (code === undefined) {
+    if (status === 429) return 'rate_limited';
+    if (status !== undefined && status >= 500) return 'unavailable';
+    return 'unknown';
+  }
+
+  if (RATE_LIMIT_CODES.includes(code)) return 'rate_limited';
+  if (TOKEN_CODES.includes(code)) return 'token_expired';
+  if (PERMISSION_CODES.includes(code) || (code >= 200 && code < 300)) return 'permission_denied';
+  if (UNAVAILABLE_CODES.includes(code)) return 'unavailable';
+  if (subcode === BUSINESS_DISCOVERY_NOT_FOUND_SUBCODE || code === 803) return 'not_found';
+  if (code === 100) return 'invalid_request';
+  return 'unknown';
+};
+
+/** The `error` object of a Graph API error response */
+interface GraphApiErrorBody {
+  message?: unknown;
+  code?: unknown;
+  error_subcode?: unknown;
+}
+
+const getErrorBody = (data: unknown): GraphApiErrorBody | undefined => {
+  const body =
+    typeof data === 'object' && data !== null && 'error' in data ? data.error : undefined;
+  return typeof body === 'object' && body !== null ? body : undefined;
+};
+
+const DESCRIPTIONS: Record<GraphApiErrorKind, string> = {
+  token_expired: 'Instagram access token is expired or invalid',
+  rate_limited: 'Instagram Graph API rate limit reached',
+  permission_denied: 'Instagram access token lacks the required permission',
+  not_found: 'Instagram account not found or not a business or creator account',
+  invalid_request: 'Invalid Instagram Graph API request',
+  unavailable: 'Instagram Graph API is temporarily unavailable',
+  unknown: 'Instagram Graph API request failed',
+};
+
+/**
+ * Converts a failed Graph API request into a {@link GraphApiError}
+ * Reads the `error` object of the response body when there is one
+ * @param error - Error thrown by the transport
+ */
+export const toGraphApiError = (error: unknown): GraphApiError => {
+  if (error instanceof GraphApiError) {
+    return error;
+  }
+
+  if (!(error instanceof TransportError)) {
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+    return new GraphApiError(errorMessage, 'unknown');
+  }
+
+  const body = getErrorBody(error.data);
+  const code = typeof body?.code === 'number' ? body.code : undefined;
+  const subcode = typeof body?.error_subcode === 'number' ? body.error_subcode : undefined;
+  const kind = classify(code, subcode, error.status);
+
+  const detail = typeof body?.message === 'string' ? body.message : error.message;
+  const codeText = code !== undefined ? ` (code ${code}${subcode ? `/${subcode}` : ''})` : '';
+
+  return new GraphApiError(`${DESCRIPTIONS[kind]}: ${detail}${codeText}`, kind, {
+    code,
+    subcode,
+    status: error.status,
+  });
+};
@@ -0,0 +1,79 @@
+import logger from '../../utils/logger';
+import {
+  FetchStrategyConfig,
+  FetchStrategyName,
+  FetchStrategySetting,
+  InstagramFetcher,
+} from '../../interfaces/instagram.interface';
+import { apiFetcher } from './api.fetcher';
+import { cheerioFetcher } from './cheerio.fetcher';
+import { puppeteerFetcher } from './puppeteer.fetcher';
+
+export const FETCHERS: Record<FetchStrategyName, InstagramFetcher> = {
+  puppeteer: puppeteerFetcher,
+  cheerio: cheerioFetcher,
+  api: apiFetcher,
+};
+
+export const FETCH_STRATEGY_NAMES = Object.keys(FETCHERS) as FetchStrategyName[];
+
+export const DEFAULT_STRATEGY_TIMEOUTS: Record<FetchStrategyName, number> = {
+  puppeteer: 180000,
+  cheerio: 90000,
+  api: 30000,
+};
+
+/**
+ * Builds the strategy chain used when a source does not configure its own
+ * `INSTAGRAM_FETCH_STRATEGIES` (e.g. `api,cheerio`) sets the order, unlisted strategies are disabled
+ */
+export const getDefaultStrategies = (): FetchStrategyConfig[] => {
+  const configured = (process.env.INSTAGRAM_FETCH_STRATEGIES || '')
+    .split(',')
+    .map(name => name.trim())
+    .filter(name => name.length > 0);
+
+  const names = configured.filter((name): name is FetchStrategyName => {
+    if (!FETCH_STRATEGY_NAMES.includes(name as FetchStrategyName)) {
+      logger.warn(`Ignoring unknown fetch strategy in INSTAGRAM_FETCH_STRATEGIES: ${name}`);
+      return false;
+    }
+    return true;
+  });
+  const order = names.length > 0 ? names : FETCH_STRATEGY_NAMES;
+
+  return FETCH_STRATEGY_NAMES.map(name => ({
+    name,
+    enabled: order.includes(name),
+    timeoutMs: DEFAULT_STRATEGY_TIMEOUTS[name],
+  })).sort((a, b) => {
+    const rank = (strategy: FetchStrategyConfig) =>
+      strategy.enabled ? order.indexOf(strategy.name) : FETCH_STRATEGY_NAMES.length;
+    return rank(a) - rank(b);
+  });
+};
+
+/**
+ * Completes the per-source strategy settings with the defaults
+ * Strategies missing from the settings are appended to the chain as disabled
+ * @param settings - Strategy settings of a source, in the order they should be tried
+ */
+export const resolveStrategies = (settings?: FetchStrategySetting[]): FetchStrategyConfig[] => {
+  if (!settings || settings.length === 0) {
+    return getDefaultStrategies();
+  }
+
+  const strategies: FetchStrategyConfig[] = settings.map(setting => ({
+    name: setting.name,
+    enabled: setting.enabled ?? true,
+    timeoutMs: setting.timeoutMs ?? DEFAULT_STRATEGY_TIMEOUTS[setting.name],
+  }));
+
+  for (const name of FETCH_STRATEGY_NAMES) {
+    if (!strategies.some(strategy => strategy.name === name)) {
+      strategies.push({ name, enabled: false, timeoutMs: DEFAULT_STRATEGY_TIMEOUTS[name] });
+    }
+  }
+
+  return strategies;
+};
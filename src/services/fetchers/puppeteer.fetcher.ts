@@ -0,0 +1,686 @@
+import { HTTPRequest, Page } from 'puppeteer';
+import logger from '../../utils/logger';
+import {
+  InstagramConfig,
+  InstagramFetcher,
+  InstagramFetchOptions,
+  InstagramMedia,
+  InstagramPost,
+  InstagramPostsResponse,
+  InstagramProfileResponse,
+} from '../../interfaces/instagram.interface';
+import { describeMedia, isWithinRange, parseProfileDescription, sortNewestFirst } from './common';
+import { browserPool } from '../browserPool.service';
+import { progressService } from '../progress.service';
+import { FixtureMode, FixtureStore, fixtureStore, getFixtureMode } from './fixtures';
+
+const MAX_PROFILE_SCROLLS = 10;
+const MAX_CAROUSEL_SLIDES = 20;
+// Replayed pages are complete once loaded, so a missing selector will not show up later
+const REPLAY_SELECTOR_TIMEOUT_MS = 500;
+
+export class PuppeteerFetcher implements InstagramFetcher {
+  public readonly name = 'puppeteer' as const;
+
+  /**
+   * @param fixtureMode - Whether rendered pages are recorded to or replayed from fixtures
+   * @param fixtures - Where page fixtures are stored
+   */
+  constructor(
+    private readonly fixtureMode: FixtureMode = getFixtureMode(),
+    private readonly fixtures: FixtureStore = fixtureStore
+  ) {}
+
+  /**
+   * Serves page navigations from recorded fixtures and blocks every other request
+   * The rendered HTML was recorded, so the page does not need Instagram's scripts or images
+   * @param page - Puppeteer page to intercept requests on
+   */
+  private async enableReplay(page: Page): Promise<void> {
+    await page.setRequestInterception(true);
+
+    page.on('request', (request: HTTPRequest) => {
+      if (!request.isNavigationRequest() || request.frame() !== page.mainFrame()) {
+        request.abort().catch(() => undefined);
+        return;
+      }
+
+      const fixture = this.fixtures.load(request.url());
+      if (!fixture) {
+        logger.warn(`No recorded fixture for ${request.url()}`);
+        request.abort().catch(() => undefined);
+        return;
+      }
+
+      request
+        .respond({
+          status: fixture.status,
+          contentType: fixture.contentType,
+          body: String(fixture.body),
+        })
+        .catch(() => undefined);
+    });
+  }
+
+  /**
+   * Stores the rendered HTML of the current page as the fixture of the requested URL
+   * @param page - Puppeteer page after navigation
+   * @param url - The URL that was navigated to
+   */
+  private async recordPage(page: Page, url: string): Promise<void> {
+    if (this.fixtureMode !== 'record') {
+      return;
+    }
+
+    try {
+      this.fixtures.save({
+        url,
+        status: 200,
+        contentType: 'text/html; charset=utf-8',
+        body: await page.content(),
+      });
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+      logger.warn(`Failed to record page fixture for ${url}: ${errorMessage}`);
+    }
+  }
+
+  /**
+   * Scrolls the profile page until enough post links are collected
+   * Pinned posts are collected as well but do not count toward the limit, as they can be
+   * older than the posts after them
+   * @param page - Puppeteer page showing the profile
+   * @param selector - Selector that matched the post links
+   * @param limit - Number of unpinned post links to collect
+   * @returns Post links in the order they appear on the profile
+   */
+  private async collectPostLinks(page: Page, selector: string, limit: number): Promise<string[]> {
+    const links: string[] = [];
+    let unpinnedCount = 0;
+
+    for (let scroll = 0; scroll <= MAX_PROFILE_SCROLLS; scroll++) {
+      // Callbacks run inside the page, where coverage counters do not exist
+      /* istanbul ignore next */
+      const pageLinks = await page.$$eval(selector, elements => {
+        return elements
+          .map(link => ({
+            href: (link as HTMLAnchorElement).href,
+            pinned: link.querySelector('svg[aria-label*="Pinned"]') !== null,
+          }))
+          .filter(link => link.href && link.href.includes('/p/'));
+      });
+
+      for (const link of pageLinks) {
+        if (unpinnedCount < limit && !links.includes(link.href)) {
+          links.push(link.href);
+          unpinnedCount += link.pinned ? 0 : 1;
+        }
+      }
+
+      if (unpinnedCount >= limit) {
+        break;
+      }
+
+      /* istanbul ignore next */
+      const previousHeight = await page.evaluate(() => document.body.scrollHeight);
+      /* istanbul ignore next */
+      await page.evaluate(() => window.scrollBy(0, window.innerHeight * 2));
+      await this.pause(page, 1500 + Math.floor(Math.random() * 1000));
+      /* istanbul ignore next */
+      const newHeight = await page.evaluate(() => document.body.scrollHeight);
+
+      if (newHeight === previousHeight) {
+        logger.info('Reached the end of the profile feed');
+        break;
+      }
+    }
+
+    return links;
+  }
+
+  /**
+   * Collects every image and video of the open post page
+   * Carousel posts are walked slide by slide with the "Next" button
+   * @param page - Puppeteer page showing the post
+   * @returns Media items in display order
+   */
+  private async collectPageMedia(page: Page): Promise<InstagramMedia[]> {
+    const media: InstagramMedia[] = [];
+
+    for (let slide = 0; slide < MAX_CAROUSEL_SLIDES; slide++) {
+      /* istanbul ignore next */
+      const slideMedia = await page.evaluate(() => {
+        const container =
+          document.querySelector('div[role="dialog"] article') ||
+          document.querySelector('article[role="presentation"]') ||
+          document.querySelector('main article') ||
+          document.body;
+
+        // Videos are usually served as blob: URLs, the og:video tag has the real source
+        const ogVideo =
+          document.querySelector('meta[property="og:video"]')?.getAttribute('content') || '';
+
+        return Array.from(container.querySelectorAll('img, video'))
+          .map(element => {
+            if (element instanceof HTMLVideoElement) {
+              return {
+                type: 'video' as const,
+                url: element.src && !element.src.startsWith('blob:') ? element.src : ogVideo,
+                width: element.videoWidth || undefined,
+                height: element.videoHeight || undefined,
+                thumbnailUrl: element.poster || undefined,
+              };
+            }
+
+            const image = element as HTMLImageElement;
+            // Avatars and icons are small, post media is not
+            if (image.naturalWidth <= 300 || image.naturalHeight <= 300) {
+              return null;
+            }
+
+            return {
+              type: 'image' as const,
+              url: image.currentSrc || image.src,
+              width: image.naturalWidth,
+              height: image.naturalHeight,
+              thumbnailUrl: undefined,
+            };
+          })
+          .filter(item => item !== null);
+      });
+
+      for (const item of slideMedia) {
+        if (item && item.url && !media.some(existing => existing.url === item.url)) {
+          media.push(item);
+        }
+      }
+
+      const nextButton = await page.$('button[aria-label="Next"]');
+      if (!nextButton) {
+        break;
+      }
+
+      await nextButton.click();
+      await this.pause(page, 800 + Math.floor(Math.random() * 400));
+    }
+
+    return media;
+  }
+
+  /**
+   * Waits on the page, reporting the wait to the progress stream of the run
+   * Replayed pages are not served by Instagram, so there is nothing to pace
+   * @param page - Puppeteer page to wait on
+   * @param delayMs - How long to wait
+   */
+  private async pause(page: Page, delayMs: number): Promise<void> {
+    if (this.fixtureMode === 'replay') {
+      return;
+    }
+
+    progressService.emit('fetch:wait', { delayMs });
+    await page.waitForTimeout(delayMs);
+  }
+
+  /**
+   * Waits for a selector, reporting whether it was found to the progress stream of the run
+   * @param page - Puppeteer page to wait on
+   * @param selector - The selector
+   * @param timeoutMs - How long to wait for it, at most `REPLAY_SELECTOR_TIMEOUT_MS` on
+   * replayed pages
+   * @throws The Puppeteer error when the selector is not found in time
+   */
+  private async waitForSelector(page: Page, selector: string, timeoutMs: number): Promise<void> {
+    const timeout =
+      this.fixtureMode === 'replay' ? Math.min(timeoutMs, REPLAY_SELECTOR_TIMEOUT_MS) : timeoutMs;
+    const startedAt = Date.now();
+    try {
+      await page.waitForSelector(selector, { timeout });
+      progressService.emit(
+        'fetch:selector-found',
+        { selector },
+        { durationMs: Date.now() - startedAt }
+      );
+    } catch (error) {
+      progressService.emit(
+        'fetch:selector-failed',
+        { selector, timeoutMs: timeout },
+        { durationMs: Date.now() - startedAt }
+      );
+      throw error;
+    }
+  }
+
+  /**
+   * Opens a post page and extracts the post data from it
+   * @param page - Puppeteer page to navigate with
+   * @param postLink - URL of the post
+   * @returns The extracted post
+   */
+  private async scrapePostPage(page: Page, postLink: string): Promise<InstagramPost> {
+    progressService.emit('fetch:navigate', { url: postLink });
+    await page.goto(postLink, {
+      waitUntil: 'networkidle2',
+      timeout: 30000,
+    });
+
+    logger.info(`Navigated to post page: ${postLink}`);
+    await this.recordPage(page, postLink);
+
+    await page.screenshot({ path: 'logs/instagram-post.png' });
+
+    await this.pause(page, 2000 + Math.floor(Math.random() * 1500));
+
+    const postPageSelectors = [
+      'article[role="presentation"]',
+      'div[role="dialog"]',
+      'main article',
+      'div._aatk',
+      'div[class*="_aa"]',
+      'section main',
+    ];
+
+    let foundSelector = false;
+    for (const selector of postPageSelectors) {
+      try {
+        logger.info(`Trying post page selector: ${selector}`);
+        await this.waitForSelector(page, selector, 5000);
+        foundSelector = true;
+        logger.info(`Found working post page selector: ${selector}`);
+        break;
+      } catch (error) {
+        logger.warn(`Post page selector ${selector} not found, trying next`);
+      }
+    }
+
+    if (!foundSelector) {
+      throw new Error('Post page elements not found after trying all selectors');
+    }
+
+    /* istanbul ignore next */
+    const postData = await page.evaluate(() => {
+      const captionSelectors = [
+        'div[role="dialog"] ul li span',
+        'article[role="presentation"] ul li span',
+        'div[role="dialog"] h1 + div span',
+        'article div._a9zs span',
+        'h1 + div span',
+        'div._a9zs span',
+        'span[dir="auto"]',
+        'div._ae5q span',
+        'div[class*="_ae"] span',
+        'div[class*="_aa"] span[dir="auto"]',
+        'ul li span[dir="auto"]',
+      ];
+
+      let captionElement = null;
+      for (const selector of captionSelectors) {
+        const elements = document.querySelectorAll(selector);
+        if (elements.length > 0) {
+          for (let i = 0; i < elements.length; i++) {
+            const text = elements[i].textContent;
+            if (text && text.length > 5) {
+              captionElement = elements[i];
+              break;
+            }
+          }
+          if (captionElement) break;
+        }
+      }
+
+      const imageSelectors = [
+        'div[role="dialog"] img[decoding="auto"]',
+        'article[role="presentation"] img[decoding="auto"]',
+        'div[role="dialog"] img[crossorigin="anonymous"]',
+        'article div._aagv img',
+        'article img',
+        'div._aagv img',
+        'div[class*="_aa"] img',
+        'div[class*="_ab"] img',
+        'img[crossorigin="anonymous"]',
+        'img[alt]',
+        'img[style*="object-fit"]',
+      ];
+
+      let imageElement = null;
+      for (const selector of imageSelectors) {
+        const elements = document.querySelectorAll(selector);
+        if (elements.length > 0) {
+          imageElement = elements[0];
+          break;
+        }
+      }
+
+      const timeSelectors = ['time', 'time[datetime]', 'div[class*="_aa"] time', 'a time'];
+
+      let timeElement = null;
+      for (const selector of timeSelectors) {
+        timeElement = document.querySelector(selector);
+        if (timeElement) break;
+      }
+
+      const timestamp = timeElement ? (timeElement as HTMLTimeElement).dateTime : null;
+
+      const postUrl = window.location.href;
+
+      return {
+        caption: captionElement ? captionElement.textContent || 'No caption' : 'No caption',
+        imageUrl: imageElement ? imageElement.getAttribute('src') || '' : '',
+        postUrl: postUrl,
+        timestamp: timestamp,
+      };
+    });
+
+    logger.info(`Extracted post data: ${JSON.stringify(postData)}`);
+
+    if (!postData.imageUrl) {
+      logger.info('Could not extract image URL with selectors, trying alternative approach');
+
+      /* istanbul ignore next */
+      const allImages = await page.$$eval('img', imgs => {
+        return imgs.map(img => ({
+          src: img.getAttribute('src'),
+          width: img.width,
+          height: img.height,
+          alt: img.getAttribute('alt') || '',
+        }));
+      });
+
+      const likelyPostImages = allImages.filter(
+        img => img.width > 300 && img.height > 300 && img.src && img.src.includes('instagram')
+      );
+
+      if (likelyPostImages.length > 0) {
+        logger.info(`Found ${likelyPostImages.length} potential post images`);
+        postData.imageUrl =
+          likelyPostImages[0].src !== null && likelyPostImages[0].src !== undefined
+            ? likelyPostImages[0].src
+            : '';
+      } else {
+        throw new Error('Could not extract image URL from the post');
+      }
+    }
+
+    let media = await this.collectPageMedia(page);
+    if (media.length === 0) {
+      logger.info('Could not collect media items from the post, using the extracted image');
+      media = [{ type: 'image', url: postData.imageUrl }];
+    }
+
+    logger.info(`Collected ${media.length} media items from the post`);
+
+    return {
+      caption: postData.caption,
+      imageUrl: postData.imageUrl,
+      mediaType: describeMedia(media).mediaType,
+      media,
+      postUrl: postData.postUrl,
+      timestamp: postData.timestamp || '',
+    };
+  }
+
+  /**
+   * Prepares a pooled page like a desktop browser and opens a profile on it
+   * @param page - Puppeteer page from the browser pool
+   * @param username - The Instagram username
+   */
+  private async openProfile(page: Page, username: string): Promise<void> {
+    await page.setUserAgent(
+      'Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/120.0.0.0 Safari/537.36'
+    );
+
+    await page.setExtraHTTPHeaders({
+      'Accept-Language': 'en-US,en;q=0.9',
+      Accept:
+        'text/html,application/xhtml+xml,application/xml;q=0.9,image/avif,image/webp,image/apng,*/*;q=0.8,application/signed-exchange;v=b3;q=0.7',
+      'sec-ch-ua': '"Not_A Brand";v="8", "Chromium";v="120"',
+      'sec-ch-ua-mobile': '?0',
+      'sec-ch-ua-platform': '"Windows"',
+      'sec-fetch-dest': 'document',
+      'sec-fetch-mode': 'navigate',
+      'sec-fetch-site': 'none',
+      'sec-fetch-user': '?1',
+      'upgrade-insecure-requests': '1',
+    });
+
+    await page.setViewport({
+      width: 1920,
+      height: 1080,
+      deviceScaleFactor: 1,
+    });
+
+    page.on('console', msg => {
+      logger.debug(`Browser console: ${msg.text()}`);
+    });
+
+    page.on('error', err => {
+      logger.error(`Page error: ${err.message}`);
+    });
+
+    logger.info(`Navigating to Instagram profile: ${username}`);
+
+    const profileUrl = `https://www.instagram.com/${username}/`;
+    progressService.emit('fetch:navigate', { url: profileUrl });
+    try {
+      await page.goto(profileUrl, {
+        waitUntil: 'networkidle2',
+        timeout: 120000,
+      });
+    } catch (error) {
+      logger.warn(
+        `Navigation with networkidle2 failed: ${error instanceof Error ? error.message : 'Unknown error'}`
+      );
+      logger.info('Retrying with domcontentloaded wait condition');
+
+      await page.goto(profileUrl, {
+        waitUntil: 'domcontentloaded',
+        timeout: 60000,
+      });
+    }
+
+    await this.recordPage(page, profileUrl);
+  }
+
+  /**
+   * Fetches recent Instagram posts using Puppeteer for web scraping
+   * Scrolls the profile to collect post links, then visits each post page
+   * Runs on a page borrowed from the shared browser pool
+   * @param config - Account to fetch from
+   * @param options - How many posts to fetch and how far back to go
+   * @param signal - Aborted on timeout, which hands the page back to the pool
+   * @returns Promise with Instagram posts response
+   */
+  public async fetchRecentPosts(
+    config: InstagramConfig,
+    options: InstagramFetchOptions,
+    signal?: AbortSignal
+  ): Promise<InstagramPostsResponse> {
+    let page: Page | null = null;
+    try {
+      logger.info(`Attempting to fetch Instagram data via Puppeteer for ${config.username}`);
+
+      page = await browserPool.acquirePage(signal);
+
+      if (this.fixtureMode === 'replay') {
+        await this.enableReplay(page);
+      }
+
+      await this.openProfile(page, config.username);
+
+      await page.screenshot({ path: 'logs/instagram-profile.png' });
+
+      await this.pause(page, 5000 + Math.floor(Math.random() * 3000));
+
+      try {
+        const cookieButton = await page.$('button[tabindex="0"][type="button"]:not([disabled])');
+        if (cookieButton) {
+          logger.info('Detected possible cookie consent button, attempting to click');
+          await cookieButton.click();
+          await this.pause(page, 2000);
+        }
+      } catch (error) {
+        logger.info('No cookie consent button found or error clicking it');
+      }
+
+      const postSelectors = [
+        'article a, a[href*="/p/"]',
+        'a[href*="/p/"]',
+        'div[role="button"] a',
+        'main article a',
+        'div._aagw a',
+        'div._aabd a',
+        'div[class*="_aa"] a[href*="/p/"]',
+        'a[role="link"][tabindex="0"][href*="/p/"]',
+        'main a[href^="/p/"]',
+        'div[role="presentation"] a[href^="/p/"]',
+      ];
+
+      let foundSelector = false;
+      let workingSelector = '';
+
+      for (const selector of postSelectors) {
+        try {
+          logger.info(`Trying selector: ${selector}`);
+          await this.waitForSelector(page, selector, 8000);
+          foundSelector = true;
+          workingSelector = selector;
+          logger.info(`Found working selector: ${selector}`);
+          break;
+        } catch (error) {
+          logger.warn(`Selector ${selector} not found, trying next`);
+        }
+      }
+
+      if (!foundSelector) {
+        await page.screenshot({ path: 'logs/instagram-no-posts.png' });
+        throw new Error('No posts found on the profile after trying all selectors');
+      }
+
+      const postLinks = await this.collectPostLinks(page, workingSelector, options.limit);
+
+      if (postLinks.length === 0) {
+        throw new Error('No post links found on the page');
+      }
+
+      logger.info(`Found ${postLinks.length} post links, visiting each post page`);
+
+      const posts: InstagramPost[] = [];
+      for (const postLink of postLinks) {
+        try {
+          const post = await this.scrapePostPage(page, postLink);
+          if (isWithinRange(post, options.since)) {
+            posts.push(post);
+          }
+        } catch (error) {
+          const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+          logger.warn(`Failed to scrape post ${postLink}: ${errorMessage}`);
+          progressService.emit('fetch:post-failed', { url: postLink, error: errorMessage });
+        }
+      }
+
+      if (posts.length === 0) {
+        throw new Error('Could not extract data from any post page');
+      }
+
+      logger.info(
+        `Successfully fetched ${posts.length} posts via Puppeteer for ${config.username}`
+      );
+      return { success: true, data: sortNewestFirst(posts).slice(0, options.limit) };
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+      logger.error(`Error fetching Instagram data via Puppeteer: ${errorMessage}`);
+      return {
+        success: false,
+        error: `Puppeteer error: ${errorMessage}`,
+      };
+    } finally {
+      if (page) {
+        await browserPool.releasePage(page);
+      }
+    }
+  }
+
+  /**
+   * Fetches the profile metadata from the rendered profile page
+   * Counts and the full name come from the description meta tag, the rest from the page header
+   * @param config - Account to fetch from
+   * @param signal - Aborted on timeout, which hands the page back to the pool
+   * @returns Promise with the profile response
+   */
+  public async fetchProfile(
+    config: InstagramConfig,
+    signal?: AbortSignal
+  ): Promise<InstagramProfileResponse> {
+    let page: Page | null = null;
+    try {
+      logger.info(`Attempting to fetch Instagram profile via Puppeteer for ${config.username}`);
+
+      page = await browserPool.acquirePage(signal);
+
+      if (this.fixtureMode === 'replay') {
+        await this.enableReplay(page);
+      }
+
+      await this.openProfile(page, config.username);
+
+      /* istanbul ignore next */
+      const pageData = await page.evaluate(() => {
+        const meta = (selector: string) =>
+          document.querySelector(selector)?.getAttribute('content') || '';
+        const header = document.querySelector('header');
+        const externalLink = header?.querySelector(
+          'a[href*="l.instagram.com"], a[rel~="nofollow"]'
+        );
+
+        return {
+          description: meta('meta[property="og:description"]') || meta('meta[name="description"]'),
+          avatarUrl: meta('meta[property="og:image"]'),
+          fullName:
+            header?.querySelector('section h1, section span[dir="auto"]')?.textContent || '',
+          biography: header?.querySelector('section > div:last-child span')?.textContent || '',
+          isVerified: Boolean(header?.querySelector('svg[aria-label="Verified"]')),
+          externalUrl: externalLink?.textContent || '',
+        };
+      });
+
+      logger.info(`Extracted profile data: ${JSON.stringify(pageData)}`);
+
+      if (!pageData.description) {
+        throw new Error('Profile description not found on the page');
+      }
+
+      const parsed = parseProfileDescription(pageData.description);
+      const externalUrl = pageData.externalUrl.trim();
+
+      return {
+        success: true,
+        data: {
+          username: config.username,
+          ...parsed,
+          fullName: parsed.fullName || pageData.fullName.trim() || undefined,
+          biography: pageData.biography.trim() || undefined,
+          avatarUrl: pageData.avatarUrl || undefined,
+          isVerified: pageData.isVerified,
+          externalUrl: externalUrl
+            ? externalUrl.startsWith('http')
+              ? externalUrl
+              : `https://${externalUrl}`
+            : undefined,
+        },
+      };
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+      logger.error(`Error fetching Instagram profile via Puppeteer: ${errorMessage}`);
+      return {
+        success: false,
+        error: `Puppeteer error: ${errorMessage}`,
+      };
+    } finally {
+      if (page) {
+        await browserPool.releasePage(page);
+      }
+    }
+  }
+}
+
+export const puppeteerFetcher = new PuppeteerFetcher();
@@ -0,0 +1,155 @@
+import axios, { isAxiosError } from 'axios';
+import logger from '../../utils/logger';
+import { FixtureMode, FixtureStore, fixtureStore, getFixtureMode, redactUrl } from './fixtures';
+
+export interface TransportRequestConfig {
+  headers?: Record<string, string>;
+  timeout?: number;
+  maxRedirects?: number;
+}
+
+/**
+ * A response with its body, typed by the caller that knows the endpoint
+ */
+export interface TransportResponse<T = unknown> {
+  status: number;
+  data: T;
+  contentType?: string;
+}
+
+/**
+ * Raised for responses with an error status, keeping the body so callers can read API error details
+ */
+export class TransportError extends Error {
+  status: number;
+  data: unknown;
+
+  constructor(message: string, status: number, data?: unknown) {
+    super(message);
+    this.status = status;
+    this.data = data;
+    this.name = this.constructor.name;
+  }
+}
+
+/**
+ * HTTP access used by the Cheerio and API fetchers, injectable so responses can be recorded
+ * and replayed without reaching instagram.com
+ */
+export interface InstagramTransport {
+  get<T = unknown>(url: string, config?: TransportRequestConfig): Promise<TransportResponse<T>>;
+}
+
+/**
+ * Performs real HTTP requests with axios
+ */
+export class HttpTransport implements InstagramTransport {
+  public async get<T = unknown>(
+    url: string,
+    config?: TransportRequestConfig
+  ): Promise<TransportResponse<T>> {
+    let response;
+    try {
+      response = await axios.get<T>(url, config);
+    } catch (error) {
+      if (isAxiosError(error) && error.response) {
+        throw new TransportError(error.message, error.response.status, error.response.data);
+      }
+      throw error;
+    }
+
+    return {
+      status: response.status,
+      data: response.data,
+      contentType: String(response.headers['content-type'] || ''),
+    };
+  }
+}
+
+/**
+ * Performs real HTTP requests and stores every response as a fixture
+ */
+export class RecordingTransport implements InstagramTransport {
+  constructor(
+    private readonly inner: InstagramTransport,
+    private readonly store: FixtureStore
+  ) {}
+
+  private record(url: string, response: TransportResponse): void {
+    try {
+      this.store.save({
+        url,
+        status: response.status,
+        contentType: response.contentType || '',
+        body: response.data,
+      });
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+      logger.warn(`Failed to record fixture for ${redactUrl(url)}: ${errorMessage}`);
+    }
+  }
+
+  public async get<T = unknown>(
+    url: string,
+    config?: TransportRequestConfig
+  ): Promise<TransportResponse<T>> {
+    try {
+      const response = await this.inner.get<T>(url, config);
+      this.record(url, response);
+      return response;
+    } catch (error) {
+      // Error responses are recorded too, so error handling can be replayed
+      if (error instanceof TransportError) {
+        this.record(url, { status: error.status, data: error.data });
+      }
+      throw error;
+    }
+  }
+}
+
+/**
+ * Serves recorded fixtures and never touches the network
+ */
+export class ReplayTransport implements InstagramTransport {
+  constructor(private readonly store: FixtureStore) {}
+
+  public async get<T = unknown>(url: string): Promise<TransportResponse<T>> {
+    const fixture = this.store.load(url);
+    if (!fixture) {
+      throw new Error(`No recorded fixture for ${redactUrl(url)}`);
+    }
+
+    if (fixture.status >= 400) {
+      throw new TransportError(
+        `Request failed with status code ${fixture.status}`,
+        fixture.status,
+        fixture.body
+      );
+    }
+
+    // Fixtures were recorded from the same endpoint, so the body has the shape the caller expects
+    return { status: fixture.status, data: fixture.body as T, contentType: fixture.contentType };
+  }
+}
+
+/**
+ * Creates the transport for the configured fixture mode
+ * @param mode - Record/replay mode, read from `INSTAGRAM_FIXTURE_MODE` by default
+ * @param store - Where fixtures are recorded to and replayed from
+ */
+export const createTransport = (
+  mode: FixtureMode = getFixtureMode(),
+  store: FixtureStore = fixtureStore
+): InstagramTransport => {
+  if (mode === 'record') {
+    logger.info('Recording Instagram responses as fixtures');
+    return new RecordingTransport(new HttpTransport(), store);
+  }
+
+  if (mode === 'replay') {
+    logger.info('Replaying Instagram responses from fixtures');
+    return new ReplayTransport(store);
+  }
+
+  return new HttpTransport();
+};
@@ -0,0 +1,126 @@
+import { v4 as uuidv4 } from 'uuid';
+import logger from '../utils/logger';
+import JsonStore from '../utils/jsonStore';
+import { InstagramPost } from '../interfaces/instagram.interface';
+import { HistoryEntry, HistoryFilters, HistoryPage } from '../interfaces/history.interface';
+
+export const DEFAULT_HISTORY_LIMIT = 50;
+export const MAX_HISTORY_LIMIT = 200;
+
+interface HistoryState {
+  entries: HistoryEntry[];
+}
+
+class HistoryService {
+  private store: JsonStore<HistoryState>;
+  private entries: HistoryEntry[];
+
+  /**
+   * Creates the cross-post history and loads the persisted entries
+   */
+  constructor() {
+    this.store = new JsonStore<HistoryState>('history.json', () => ({ entries: [] }));
+    this.entries = this.store.read().entries;
+
+    logger.info(`Cross-post history loaded with ${this.entries.length} entries`);
+  }
+
+  private persist(): void {
+    this.store.write({ entries: this.entries });
+  }
+
+  /**
+   * Derives the key that identifies an Instagram post across fetch methods
+   * The shortcode of the post URL is preferred, as each method reports a different post ID: the
+   * Graph API media ID, the web media ID or none at all
+   * @param post - The Instagram post
+   */
+  public getPostKey(post: Pick<InstagramPost, 'id' | 'postUrl' | 'caption'>): string {
+    const shortcode = post.postUrl?.match(/\/(?:p|reel|tv)\/([^/?#]+)/);
+    if (shortcode) {
+      return `shortcode:${shortcode[1]}`;
+    }
+
+    if (post.id) {
+      return post.id;
+    }
+
+    // Methods differ in query string and trailing slash
+    if (post.postUrl) {
+      return post.postUrl.split(/[?#]/)[0].replace(/\/+$/, '');
+    }
+
+    return `caption:${post.caption}`;
+  }
+
+  /**
+   * Finds the successful cross-post of an Instagram post, if it has been published before
+   * @param post - The Instagram post
+   */
+  public findPublished(post: InstagramPost): HistoryEntry | undefined {
+    const postKey = this.getPostKey(post);
+    return this.entries.find(entry => entry.postKey === postKey && entry.status === 'published');
+  }
+
+  /**
+   * Records the outcome of a cross-post
+   * @param sourceId - The source the post was fetched from
+   * @param post - The Instagram post
+   * @param outcome - Tweet ID, summary and template of a published post, or the error of a failed
+   * one
+   */
+  public record(
+    sourceId: string,
+    post: InstagramPost,
+    outcome: Pick<HistoryEntry, 'status' | 'tweetId' | 'summary' | 'thread' | 'template' | 'error'>
+  ): HistoryEntry {
+    const now = new Date().toISOString();
+    const entry: HistoryEntry = {
+      id: uuidv4(),
+      sourceId,
+      postKey: this.getPostKey(post),
+      instagramPostId: post.id,
+      postUrl: post.postUrl,
+      caption: post.caption,
+      ...outcome,
+      postedAt: outcome.status === 'published' ? now : undefined,
+      createdAt: now,
+    };
+
+    this.entries.push(entry);
+    this.persist();
+
+    logger.info(`Recorded ${entry.status} cross-post of Instagram post ${entry.postKey}`);
+    return entry;
+  }
+
+  /**
+   * Lists history entries, newest first
+   * @param filters - Source, status, date range and text filters with pagination
+   */
+  public list(filters: HistoryFilters = {}): HistoryPage {
+    const search = filters.search?.toLowerCase();
+
+    const matching = this.entries
+      .filter(entry => {
+        const createdAt = new Date(entry.createdAt).getTime();
+        return (
+          (!filters.sourceId || entry.sourceId === filters.sourceId) &&
+          (!filters.status || entry.status === filters.status) &&
+          (!filters.since || createdAt >= filters.since.getTime()) &&
+          (!filters.until || createdAt < filters.until.getTime()) &&
+          (!search ||
+            entry.caption.toLowerCase().includes(search) ||
+            Boolean(entry.summary?.toLowerCase().includes(search)))
+        );
+      })
+      .reverse();
+
+    const offset = filters.offset ?? 0;
+    const limit = filters.limit ?? DEFAULT_HISTORY_LIMIT;
+
+    return { entries: matching.slice(offset, offset + limit), total: matching.length };
+  }
+}
+
+export const historyService = new HistoryService();
@@ -0,0 +1,142 @@
+import { createHash } from 'crypto';
+import logger from '../utils/logger';
+import { ApiError } from '../utils/errorHandler';
+import JsonStore from '../utils/jsonStore';
+import { IdempotencyRecord } from '../interfaces/idempotency.interface';
+
+export const MAX_IDEMPOTENCY_KEY_LENGTH = 255;
+
+interface IdempotencyState {
+  records: IdempotencyRecord[];
+}
+
+const readNumber = (name: string, fallback: number): number => {
+  const value = Number(process.env[name]);
+  return Number.isFinite(value) && value > 0 ? value : fallback;
+};
+
+class IdempotencyService {
+  private store: JsonStore<IdempotencyState>;
+  private records: Map<string, IdempotencyRecord>;
+
+  /**
+   * Creates the idempotency store and loads the stored responses
+   * Requests that were in progress when the process stopped are forgotten, so they can be retried
+   */
+  constructor() {
+    this.store = new JsonStore<IdempotencyState>('idempotency.json', () => ({ records: [] }));
+    this.records = new Map(
+      this.store
+        .read()
+        .records.filter(record => record.status === 'completed')
+        .map(record => [record.key, record])
+    );
+    this.prune();
+  }
+
+  private get ttlMs(): number {
+    return readNumber('IDEMPOTENCY_TTL_MS', 24 * 60 * 60 * 1000);
+  }
+
+  private persist(): void {
+    this.store.write({ records: Array.from(this.records.values()) });
+  }
+
+  private prune(): void {
+    const now = Date.now();
+
+    Array.from(this.records.values())
+      .filter(record => new Date(record.expiresAt).getTime() <= now)
+      .forEach(record => this.records.delete(record.key));
+    this.persist();
+  }
+
+  /**
+   * Hashes a request body, independent of the order of its properties
+   * @param body - The parsed request body
+   */
+  public fingerprint(body: unknown): string {
+    const normalize = (value: unknown): unknown => {
+      if (Array.isArray(value)) {
+        return value.map(normalize);
+      }
+      if (value && typeof value === 'object') {
+        return Object.keys(value as Record<string, unknown>)
+          .sort()
+          .reduce<Record<string, unknown>>((sorted, name) => {
+            sorted[name] = normalize((value as Record<string, unknown>)[name]);
+            return sorted;
+          }, {});
+      }
+      return value;
+    };
+
+    return createHash('sha256')
+      .update(JSON.stringify(normalize(body ?? {})))
+      .digest('hex');
+  }
+
+  /**
+   * Claims a key for a request, or returns the stored response of an earlier request with the key
+   * @param key - The key, scoped to the method and path of the request
+   * @param fingerprint - Hash of the request body
+   * @returns The completed record to replay, or undefined when the request should run
+   * @throws ApiError with status 409 if a request with the key is still in progress, 422 if the
+   * key was used with a different request body
+   */
+  public begin(key: string, fingerprint: string): IdempotencyRecord | undefined {
+    this.prune();
+
+    const existing = this.records.get(key);
+    if (existing && existing.fingerprint !== fingerprint) {
+      throw new ApiError('Idempotency-Key was already used with a different request body', 422);
+    }
+    if (existing?.status === 'in_progress') {
+      throw new ApiError('A request with this Idempotency-Key is still in progress', 409);
+    }
+    if (existing) {
+      logger.info(`Replaying the stored response of idempotency key ${key}`);
+      return existing;
+    }
+
+    const now = new Date();
+    this.records.set(key, {
+      key,
+      fingerprint,
+      status: 'in_progress',
+      createdAt: now.toISOString(),
+      expiresAt: new Date(now.getTime() + this.ttlMs).toISOString(),
+    });
+    this.persist();
+    return undefined;
+  }
+
+  /**
+   * Stores the response of a request so repeats with its key get the same response
+   * @param key - The key claimed with {@link begin}
+   * @param statusCode - HTTP status code of the response
+   * @param body - The response body
+   */
+  public complete(key: string, statusCode: number, body: unknown): void {
+    const record = this.records.get(key);
+    if (!record) {
+      return;
+    }
+
+    this.records.set(key, { ...record, status: 'completed', statusCode, body });
+    this.persist();
+  }
+
+  /**
+   * Frees a key without storing a response, so the request can be retried with it
+   * @param key - The key claimed with {@link begin}
+   */
+  public release(key: string): void {
+    if (this.records.get(key)?.status === 'in_progress') {
+      this.records.delete(key);
+      this.persist();
+    }
+  }
+}
+
+export const idempotencyService = new IdempotencyService();
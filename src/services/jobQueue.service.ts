@@ -0,0 +1,393 @@
+import { v4 as uuidv4 } from 'uuid';
+import logger from '../utils/logger';
+import { ApiError } from '../utils/errorHandler';
+import JsonStore from '../utils/jsonStore';
+import {
+  EnqueueOptions,
+  Job,
+  JobFilters,
+  JobHandler,
+  RetryPolicy,
+} from '../interfaces/job.interface';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+// Longest delay setTimeout accepts
+const MAX_TIMER_MS = 2 ** 31 - 1;
+
+interface JobState {
+  jobs: Job[];
+}
+
+interface RegisteredHandler {
+  handler: JobHandler<unknown>;
+  policy: RetryPolicy;
+}
+
+const readNumber = (name: string, fallback: number): number => {
+  const value = Number(process.env[name]);
+  return Number.isFinite(value) && value > 0 ? value : fallback;
+};
+
+/**
+ * Failure of a job attempt
+ * Errors that are not retryable send the job to the dead-letter list right away
+ */
+export class JobError extends Error {
+  public retryable: boolean;
+  /** Earliest time of the next attempt, for example when a rate limit resets */
+  public retryAt?: Date;
+
+  constructor(message: string, options: { retryable?: boolean; retryAt?: Date } = {}) {
+    super(message);
+    this.name = 'JobError';
+    this.retryable = options.retryable ?? true;
+    this.retryAt = options.retryAt;
+  }
+}
+
+/**
+ * Gets the default retry policy, configurable with `JOB_MAX_ATTEMPTS`, `JOB_BACKOFF_BASE_MS`
+ * and `JOB_BACKOFF_MAX_MS`
+ */
+export const getDefaultRetryPolicy = (): RetryPolicy => ({
+  maxAttempts: readNumber('JOB_MAX_ATTEMPTS', 5),
+  baseDelayMs: readNumber('JOB_BACKOFF_BASE_MS', 30 * 1000),
+  maxDelayMs: readNumber('JOB_BACKOFF_MAX_MS', 60 * 60 * 1000),
+});
+
+class JobQueueService {
+  private store: JsonStore<JobState>;
+  private jobs: Map<string, Job>;
+  private handlers: Map<string, RegisteredHandler> = new Map();
+  private timer: NodeJS.Timeout | null = null;
+  private draining = false;
+  private started = false;
+
+  /**
+   * Creates the job queue and loads the persisted jobs
+   * Jobs that were running when the process stopped are queued again
+   */
+  constructor() {
+    this.store = new JsonStore<JobState>('jobs.json', () => ({ jobs: [] }));
+    this.jobs = new Map(this.store.read().jobs.map(job => [job.id, job]));
+
+    const interrupted = Array.from(this.jobs.values()).filter(job => job.status === 'running');
+    interrupted.forEach(job => {
+      job.status = 'queued';
+      job.updatedAt = new Date().toISOString();
+    });
+    if (interrupted.length > 0) {
+      logger.warn(`Requeued ${interrupted.length} jobs that were interrupted by a restart`);
+    }
+    this.prune();
+    this.persist();
+  }
+
+  private persist(): void {
+    this.store.write({ jobs: Array.from(this.jobs.values()) });
+  }
+
+  /**
+   * Drops finished jobs past their retention: completed jobs older than `JOB_RETENTION_DAYS` or
+   * beyond the newest `JOB_RETENTION_COUNT`, and dead jobs older than `JOB_DEAD_RETENTION_DAYS`,
+   * which are kept longer so they can still be retried
+   */
+  private prune(): void {
+    const now = Date.now();
+    const completedCutoff = now - readNumber('JOB_RETENTION_DAYS', 7) * DAY_MS;
+    const deadCutoff = now - readNumber('JOB_DEAD_RETENTION_DAYS', 30) * DAY_MS;
+    const maxCompleted = readNumber('JOB_RETENTION_COUNT', 1000);
+    const finishedAt = (job: Job) => new Date(job.updatedAt).getTime();
+
+    // Newest queued first, so jobs that finished in the same millisecond keep that order
+    Array.from(this.jobs.values())
+      .reverse()
+      .filter(job => job.status === 'completed')
+      .sort((a, b) => finishedAt(b) - finishedAt(a))
+      .filter((job, index) => index >= maxCompleted || finishedAt(job) < completedCutoff)
+      .forEach(job => this.jobs.delete(job.id));
+    Array.from(this.jobs.values())
+      .filter(job => job.status === 'dead' && finishedAt(job) < deadCutoff)
+      .forEach(job => this.jobs.delete(job.id));
+  }
+
+  /**
+   * Registers the handler of a job type
+   * A handler fails an attempt by throwing; a {@link JobError} tells whether to retry
+   * @param type - The job type
+   * @param handler - Runs one attempt of a job and returns its result
+   * @param policy - Overrides of the default retry policy
+   */
+  public register<T>(
+    type: string,
+    handler: JobHandler<T>,
+    policy: Partial<RetryPolicy> = {}
+  ): void {
+    this.handlers.set(type, {
+      handler: handler as JobHandler<unknown>,
+      policy: { ...getDefaultRetryPolicy(), ...policy },
+    });
+    this.schedule();
+  }
+
+  /**
+   * Adds a job to the queue
+   * @param type - The job type, which needs a registered handler
+   * @param payload - Data of the job, persisted as JSON
+   * @param options - Time of the first attempt and maximum number of attempts
+   */
+  public enqueue<T>(type: string, payload: T, options: EnqueueOptions = {}): Job<T> {
+    const registered = this.handlers.get(type);
+    const now = new Date().toISOString();
+    const job: Job<T> = {
+      id: uuidv4(),
+      type,
+      status: 'queued',
+      payload,
+      attempts: 0,
+      maxAttempts:
+        options.maxAttempts ??
+        registered?.policy.maxAttempts ??
+        getDefaultRetryPolicy().maxAttempts,
+      runAt: (options.runAt || new Date()).toISOString(),
+      failures: [],
+      createdAt: now,
+      updatedAt: now,
+    };
+
+    this.jobs.set(job.id, job);
+    this.persist();
+    this.schedule();
+
+    logger.info(`Queued ${type} job ${job.id}`);
+    return job;
+  }
+
+  /**
+   * Lists jobs, newest first
+   * @param filters - Status and type filters
+   */
+  public list(filters: JobFilters = {}): Job[] {
+    return Array.from(this.jobs.values())
+      .filter(
+        job =>
+          (!filters.status || job.status === filters.status) &&
+          (!filters.type || job.type === filters.type)
+      )
+      .reverse();
+  }
+
+  /**
+   * Gets a job by ID
+   * @param id - The job ID
+   * @throws ApiError with status 404 if the job does not exist
+   */
+  public get(id: string): Job {
+    const job = this.jobs.get(id);
+    if (!job) {
+      throw new ApiError(`Job not found: ${id}`, 404);
+    }
+
+    return job;
+  }
+
+  /**
+   * Runs the next attempt of a queued job right away, without waiting for its backoff
+   * @param id - The job ID
+   * @returns The job after the attempt
+   * @throws ApiError with status 404 if the job does not exist, 409 if it is not queued
+   */
+  public async runNow(id: string): Promise<Job> {
+    const job = this.get(id);
+    if (job.status !== 'queued') {
+      throw new ApiError(`Job ${id} is ${job.status}`, 409);
+    }
+
+    return this.attempt(job);
+  }
+
+  /**
+   * Queues a dead or waiting job for an immediate attempt, with a fresh set of attempts
+   * @param id - The job ID
+   * @throws ApiError with status 404 if the job does not exist, 409 if it is running or completed
+   */
+  public retry(id: string): Job {
+    const job = this.get(id);
+    if (job.status === 'running' || job.status === 'completed') {
+      throw new ApiError(`Job ${id} is ${job.status} and cannot be retried`, 409);
+    }
+
+    job.status = 'queued';
+    job.attempts = 0;
+    job.runAt = new Date().toISOString();
+    job.updatedAt = job.runAt;
+    this.persist();
+    this.schedule();
+
+    logger.info(`Job ${id} queued for retry`);
+    return job;
+  }
+
+  /**
+   * Removes a job that is not running
+   * @param id - The job ID
+   * @throws ApiError with status 404 if the job does not exist, 409 if it is running
+   */
+  public discard(id: string): void {
+    const job = this.get(id);
+    if (job.status === 'running') {
+      throw new ApiError(`Job ${id} is running and cannot be discarded`, 409);
+    }
+
+    this.jobs.delete(id);
+    this.persist();
+    this.schedule();
+
+    logger.info(`Discarded ${job.type} job ${id}`);
+  }
+
+  private async attempt(job: Job): Promise<Job> {
+    const registered = this.handlers.get(job.type);
+    if (!registered) {
+      throw new Error(`No handler registered for ${job.type} jobs`);
+    }
+
+    job.status = 'running';
+    job.attempts += 1;
+    job.updatedAt = new Date().toISOString();
+    this.persist();
+
+    try {
+      job.result = await registered.handler(job);
+      job.status = 'completed';
+      job.lastError = undefined;
+      job.completedAt = new Date().toISOString();
+
+      logger.info(`${job.type} job ${job.id} completed after ${job.attempts} attempts`);
+    } catch (error) {
+      const jobError = error instanceof JobError ? error : undefined;
+      const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+      const retryable = jobError ? jobError.retryable : true;
+
+      job.lastError = errorMessage;
+      job.failures.push({
+        attempt: job.attempts,
+        at: new Date().toISOString(),
+        error: errorMessage,
+      });
+
+      if (retryable && job.attempts < job.maxAttempts) {
+        const { baseDelayMs, maxDelayMs } = registered.policy;
+        const backoffMs = Math.min(maxDelayMs, baseDelayMs * 2 ** (job.attempts - 1));
+        const runAt = Math.max(Date.now() + backoffMs, jobError?.retryAt?.getTime() ?? 0);
+
+        job.status = 'queued';
+        job.runAt = new Date(runAt).toISOString();
+        logger.warn(
+          `${job.type} job ${job.id} failed attempt ${job.attempts}/${job.maxAttempts}, ` +
+            `retrying at ${job.runAt}: ${errorMessage}`
+        );
+      } else {
+        job.status = 'dead';
+        logger.error(
+          `${job.type} job ${job.id} failed permanently after ${job.attempts} attempts: ${errorMessage}`
+        );
+      }
+    }
+
+    job.updatedAt = new Date().toISOString();
+    if (job.status !== 'queued') {
+      this.prune();
+    }
+    this.persist();
+    this.schedule();
+    return job;
+  }
+
+  /**
+   * Arms the timer for the earliest queued job that has a handler
+   */
+  private schedule(): void {
+    if (this.timer) {
+      clearTimeout(this.timer);
+      this.timer = null;
+    }
+    if (!this.started) {
+      return;
+    }
+
+    const next = Array.from(this.jobs.values())
+      .filter(job => job.status === 'queued' && this.handlers.has(job.type))
+      .reduce<number | undefined>((earliest, job) => {
+        const runAt = new Date(job.runAt).getTime();
+        return earliest === undefined || runAt < earliest ? runAt : earliest;
+      }, undefined);
+    if (next === undefined) {
+      return;
+    }
+
+    this.timer = setTimeout(
+      () => this.drain(),
+      Math.min(MAX_TIMER_MS, Math.max(0, next - Date.now()))
+    );
+    // The queue alone should not keep the process alive
+    this.timer.unref();
+  }
+
+  /**
+   * Runs due jobs one at a time, oldest due first
+   */
+  private async drain(): Promise<void> {
+    if (this.draining) {
+      return;
+    }
+    this.draining = true;
+
+    try {
+      for (;;) {
+        const now = Date.now();
+        const due = Array.from(this.jobs.values())
+          .filter(
+            job =>
+              job.status === 'queued' &&
+              this.handlers.has(job.type) &&
+              new Date(job.runAt).getTime() <= now
+          )
+          .sort((a, b) => new Date(a.runAt).getTime() - new Date(b.runAt).getTime())[0];
+
+        if (!due || !this.started) {
+          break;
+        }
+        await this.attempt(due);
+      }
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+      logger.error(`Job queue failed: ${errorMessage}`);
+    } finally {
+      this.draining = false;
+      this.schedule();
+    }
+  }
+
+  /**
+   * Starts running queued jobs in the background when they are due
+   */
+  public start(): void {
+    if (this.started) {
+      return;
+    }
+
+    this.started = true;
+    this.schedule();
+
+    const queued = this.list({ status: 'queued' }).length;
+    logger.info(`Job queue started with ${queued} queued jobs`);
+  }
+
+  public stop(): void {
+    this.started = false;
+    this.schedule();
+  }
+}
+
+export const jobQueue = new JobQueueService();
@@ -1,52 +1,385 @@
-import { GoogleGenerativeAI } from '@google/generative-ai';
-import { SummarizationRequest, SummarizationResponse } from '../interfaces/llm.interface';
+import {
+  SummarizationProvider,
+  SummarizationRequest,
+  SummarizationResponse,
+  SummaryCandidate,
+  ThreadSummarizationRequest,
+  ThreadSummarizationResponse,
+} from '../interfaces/llm.interface';
 import logger from '../utils/logger';
+import { getProviderChain } from './summarizers';
+import { progressService } from './progress.service';
+import { promptTemplateService } from './promptTemplate.service';
+import { getTweetLength, shortenTweet, splitThread } from '../utils/tweetLength';
+import { scoreSummary } from '../utils/summaryScore';
+import { PromptTemplate } from '../interfaces/promptTemplate.interface';
+
+// Line between the tweets of a thread written by a model
+const THREAD_SEPARATOR = /^\s*-{3,}\s*$/m;
+
+// Each candidate is written with its own temperature and instruction added to the prompt
+const CANDIDATE_VARIANTS: { temperature: number; variant?: string }[] = [
+  { temperature: 0.7 },
+  { temperature: 0.3, variant: 'Lead with the most important fact.' },
+  { temperature: 0.5, variant: 'Keep the names and numbers of the caption.' },
+  { temperature: 0.9, variant: 'Use short, plain sentences.' },
+  { temperature: 1.0, variant: 'Make it lively, but stay accurate.' },
+];
+export const MAX_CANDIDATES = CANDIDATE_VARIANTS.length;
+
+const readNumber = (name: string, fallback: number): number => {
+  const value = Number(process.env[name]);
+  return Number.isInteger(value) && value > 0 ? value : fallback;
+};
 
 class LLMService {
-  private gemini: GoogleGenerativeAI;
   private readonly DEFAULT_MAX_LENGTH = 280;
 
+  /**
+   * Creates the service; providers are checked when a summary is requested, so a missing
+   * API key does not stop the application from starting
+   */
   constructor() {
-    const apiKey = process.env.GEMINI_API_KEY;
-    if (!apiKey) {
-      logger.error('GEMINI_API_KEY is not defined in environment variables');
-      throw new Error('GEMINI_API_KEY is not defined in environment variables');
+    const chain = this.getProviders();
+    const names = chain.map(provider => provider.name).join(', ');
+    if (chain.some(provider => provider.isConfigured())) {
+      logger.info(`LLM service initialized with providers: ${names}`);
+    } else {
+      logger.warn(`None of the summarization providers is configured: ${names}`);
     }
-    this.gemini = new GoogleGenerativeAI(apiKey);
-    logger.info('LLM service initialized with Gemini model');
+  }
+
+  /**
+   * Gets the provider chain, configurable with `LLM_PROVIDERS`
+   */
+  public getProviders(): SummarizationProvider[] {
+    return getProviderChain();
   }
 
   /**
    * Summarizes a text (Instagram caption) into a tweet-sized summary
+   * The prompt is rendered from the requested template, else the template of the source,
+   * else the default template, and the voice of the template is applied to the summary
+   * Lengths are counted like Twitter does; a summary that is too long is asked for again with
+   * a shorter limit, then shortened at a sentence or word boundary
+   * Providers of the chain are tried in order; unconfigured ones are skipped and a failed one
+   * falls back to the next
+   * When several candidates are requested, the provider writes each with its own temperature
+   * and prompt variant, and the candidate with the best score is the summary
    * @param request The summarization request containing the text to summarize
-   * @returns A promise that resolves to the summarized text
+   * @returns A promise that resolves to the summarized text, the provider that wrote it and the
+   * template version used, with the scored candidates when there were several
+   * @throws ApiError with status 404 if the requested template does not exist
+   * @throws Error if every provider failed
    */
   async summarizeText(request: SummarizationRequest): Promise<SummarizationResponse> {
-    const { text, maxLength = this.DEFAULT_MAX_LENGTH } = request;
+    const {
+      text,
+      maxLength = this.DEFAULT_MAX_LENGTH,
+      variables = {},
+      candidates: count = this.getCandidateCount(),
+    } = request;
+    const template = promptTemplateService.resolve(request.template, request.sourceTemplate);
+    const outputLength = promptTemplateService.getOutputLength(template, maxLength);
+    const render = (length: number): string =>
+      promptTemplateService.render(template, {
+        ...variables,
+        caption: text,
+        maxLength: length,
+        date: variables.date || new Date().toISOString().slice(0, 10),
+      });
+    logger.info(
+      `Summarizing text of length ${text.length} with max output length ${maxLength} ` +
+        `and template ${template.id} v${template.version}`
+    );
 
-    try {
-      logger.info(`Summarizing text of length ${text.length} with max output length ${maxLength}`);
+    if (count > 1) {
+      const { result: candidates, provider } = await this.withFallback(provider =>
+        this.writeCandidates(
+          provider,
+          template,
+          text,
+          Math.min(count, MAX_CANDIDATES),
+          maxLength,
+          render
+        )
+      );
 
-      const model = this.gemini.getGenerativeModel({
-        model: 'gemini-2.0-flash',
-      });
-      logger.debug('Using gemini-2.0-flash model for summarization');
+      return {
+        summary: candidates[0].summary,
+        provider: provider.name,
+        model: provider.model,
+        template: promptTemplateService.toRef(template),
+        candidates,
+      };
+    }
+
+    const { result: summary, provider } = await this.withFallback(async provider => {
+      const output = await provider.summarize(text, outputLength, render(outputLength));
+      const summary = promptTemplateService.finish(
+        template,
+        await this.retryShorter(provider, template, text, output, outputLength, render),
+        maxLength
+      );
+      if (!summary) {
+        throw new Error('Nothing is left of the summary after applying the template');
+      }
+
+      logger.info(
+        `Successfully summarized text to ${getTweetLength(summary)} characters with ${provider.name}`
+      );
+      return summary;
+    });
+
+    return {
+      summary,
+      provider: provider.name,
+      model: provider.model,
+      template: promptTemplateService.toRef(template),
+    };
+  }
+
+  /**
+   * Number of candidates the pipeline writes for each summary, configurable with
+   * `SUMMARY_CANDIDATES`; one skips scoring
+   */
+  public getCandidateCount(): number {
+    return Math.min(readNumber('SUMMARY_CANDIDATES', 1), MAX_CANDIDATES);
+  }
+
+  /**
+   * Words and phrases that disqualify a candidate, configurable with `SUMMARY_BANNED_WORDS`
+   */
+  public getBannedWords(): string[] {
+    return (process.env.SUMMARY_BANNED_WORDS || '')
+      .split(',')
+      .map(word => word.trim())
+      .filter(word => word.length > 0);
+  }
+
+  /**
+   * Writes candidates of a summary with one provider and scores them, best first
+   * Candidates that fail are left out and identical ones are kept once
+   * @param provider The provider
+   * @param template The prompt template
+   * @param text The text to summarize
+   * @param count The number of candidates
+   * @param maxLength Maximum weighted length of the tweet
+   * @param render Renders the prompt for a maximum length
+   * @throws Error if every candidate failed
+   */
+  private async writeCandidates(
+    provider: SummarizationProvider,
+    template: PromptTemplate,
+    text: string,
+    count: number,
+    maxLength: number,
+    render: (length: number) => string
+  ): Promise<SummaryCandidate[]> {
+    const outputLength = promptTemplateService.getOutputLength(template, maxLength);
+    const bannedWords = this.getBannedWords();
+
+    const results = await Promise.allSettled(
+      CANDIDATE_VARIANTS.slice(0, count).map(async ({ temperature, variant }) => {
+        const prompt = variant ? `${render(outputLength)}\n\n${variant}` : render(outputLength);
+        const output = await provider.summarize(text, outputLength, prompt, { temperature });
+        const summary = promptTemplateService.finish(template, output, maxLength);
+        const truncated =
+          getTweetLength(promptTemplateService.applyVoice(template, output)) > outputLength;
+
+        return {
+          summary,
+          temperature,
+          variant,
+          score: scoreSummary(summary, text, { maxLength, bannedWords, truncated }),
+        };
+      })
+    );
 
-      const prompt = `Summarize this Instagram caption into a tweet (max ${maxLength} characters), keeping the message engaging:\n\n"${text}"`;
+    const candidates = results
+      .flatMap(result =>
+        result.status === 'fulfilled' && result.value.summary ? [result.value] : []
+      )
+      .filter(
+        (candidate, index, all) =>
+          all.findIndex(other => other.summary === candidate.summary) === index
+      )
+      .sort((a, b) => b.score.total - a.score.total);
+    if (candidates.length === 0) {
+      const failure = results.find(result => result.status === 'rejected');
+      throw failure?.status === 'rejected'
+        ? failure.reason
+        : new Error('Nothing is left of the summary after applying the template');
+    }
+
+    logger.info(
+      `Wrote ${candidates.length} summary candidates with ${provider.name}, ` +
+        `the best scored ${candidates[0].score.total}`
+    );
+    return candidates;
+  }
+
+  /**
+   * Most tweets of a thread, configurable with `THREAD_MAX_TWEETS`
+   */
+  public getMaxThreadTweets(): number {
+    return readNumber('THREAD_MAX_TWEETS', 8);
+  }
+
+  /**
+   * Writes a caption as a thread of tweets, numbered such as "1/4" when there are several
+   * The model is asked for tweets separated by `---` lines; output without separators is split
+   * at sentence boundaries. Every tweet leaves room for its number, the voice of the template
+   * applies to each one and the suffix goes at the end of the last one
+   * @param request The summarization request, with the most tweets of the thread
+   * @returns A promise that resolves to the tweets, the provider that wrote them and the
+   * template version used
+   * @throws ApiError with status 404 if the requested template does not exist
+   * @throws Error if every provider failed
+   */
+  async summarizeThread(request: ThreadSummarizationRequest): Promise<ThreadSummarizationResponse> {
+    const {
+      text,
+      maxLength = this.DEFAULT_MAX_LENGTH,
+      maxTweets = this.getMaxThreadTweets(),
+      variables = {},
+    } = request;
+    const template = promptTemplateService.resolve(request.template, request.sourceTemplate);
+    // Room for the widest number, such as " 10/10"
+    const tweetLength = maxLength - ` ${maxTweets}/${maxTweets}`.length;
+    const prompt =
+      promptTemplateService.render(template, {
+        ...variables,
+        caption: text,
+        maxLength: tweetLength,
+        date: variables.date || new Date().toISOString().slice(0, 10),
+      }) +
+      `\n\nWrite it as a thread of at most ${maxTweets} tweets of at most ${tweetLength} ` +
+      'characters each instead of a single tweet. Put a line with only --- between the tweets ' +
+      'and do not number them.';
+    logger.info(
+      `Writing thread of at most ${maxTweets} tweets from text of length ${text.length} ` +
+        `with template ${template.id} v${template.version}`
+    );
+
+    const { result: tweets, provider } = await this.withFallback(async provider => {
+      const output = await provider.summarize(text, tweetLength * maxTweets, prompt);
+      const tweets = this.toThread(template, output, tweetLength, maxTweets);
+      if (tweets.length === 0) {
+        throw new Error('Nothing is left of the thread after applying the template');
+      }
+
+      logger.info(`Successfully wrote thread of ${tweets.length} tweets with ${provider.name}`);
+      return tweets;
+    });
+
+    return {
+      tweets:
+        tweets.length > 1
+          ? tweets.map((tweet, index) => `${tweet} ${index + 1}/${tweets.length}`)
+          : tweets,
+      provider: provider.name,
+      model: provider.model,
+      template: promptTemplateService.toRef(template),
+    };
+  }
+
+  /**
+   * Splits the output of a provider into the tweets of a thread, without their numbers
+   * Tweets past the most allowed are merged into the last one, which is shortened to fit
+   * @param template The prompt template
+   * @param output The thread written by the provider
+   * @param tweetLength The weighted length of each tweet
+   * @param maxTweets The most tweets of the thread
+   */
+  private toThread(
+    template: PromptTemplate,
+    output: string,
+    tweetLength: number,
+    maxTweets: number
+  ): string[] {
+    const tweets = output
+      .split(THREAD_SEPARATOR)
+      .flatMap(part => splitThread(promptTemplateService.applyVoice(template, part), tweetLength));
+    if (tweets.length === 0) {
+      return tweets;
+    }
+
+    const kept = tweets.slice(0, Math.min(tweets.length, maxTweets) - 1);
+    const last = shortenTweet(tweets.slice(kept.length).join(' '), tweetLength);
+    return [...kept, promptTemplateService.finish(template, last, tweetLength)];
+  }
 
-      logger.debug('Sending request to Gemini API');
-      const result = await model.generateContent(prompt);
-      const response = result.response;
-      const summary = response.text().trim();
+  /**
+   * Runs a summarization with each provider of the chain in turn until one succeeds
+   * Unconfigured providers are skipped and a failed one falls back to the next
+   * @param write Writes the summary with a provider, throwing when it fails
+   * @returns What the first provider that succeeded wrote, and that provider
+   * @throws Error if every provider failed
+   */
+  private async withFallback<T>(
+    write: (provider: SummarizationProvider) => Promise<T>
+  ): Promise<{ result: T; provider: SummarizationProvider }> {
+    const errors: string[] = [];
+    for (const provider of this.getProviders()) {
+      if (!provider.isConfigured()) {
+        logger.debug(`Skipping summarization provider ${provider.name}, it is not configured`);
+        continue;
+      }
 
-      const finalSummary = summary.substring(0, maxLength);
-      logger.info(`Successfully summarized text to ${finalSummary.length} characters`);
+      try {
+        return { result: await write(provider), provider };
+      } catch (error) {
+        const errorMessage = error instanceof Error ? error.message : String(error);
+        logger.warn(`Summarization provider ${provider.name} failed: ${errorMessage}`);
+        progressService.emit('summarize:provider-failed', {
+          provider: provider.name,
+          error: errorMessage,
+        });
+        errors.push(`${provider.name}: ${errorMessage}`);
+      }
+    }
 
-      return { summary: finalSummary };
+    const errorMessage =
+      errors.length > 0 ? errors.join('; ') : 'No summarization provider is configured';
+    logger.error(`Error summarizing text with LLM: ${errorMessage}`);
+    throw new Error(`Failed to summarize text: ${errorMessage}`);
+  }
+
+  /**
+   * Asks a provider once more for a summary that exceeds the length it was given, with the
+   * limit lowered by the excess; the first summary is kept when the second one fails
+   * @param provider The provider that wrote the summary
+   * @param template The prompt template
+   * @param text The text to summarize
+   * @param output The summary written by the provider
+   * @param outputLength The weighted length the summary had to fit
+   * @param render Renders the prompt for a maximum length
+   */
+  private async retryShorter(
+    provider: SummarizationProvider,
+    template: PromptTemplate,
+    text: string,
+    output: string,
+    outputLength: number,
+    render: (length: number) => string
+  ): Promise<string> {
+    const excess =
+      getTweetLength(promptTemplateService.applyVoice(template, output)) - outputLength;
+    if (excess <= 0 || outputLength - excess < 1) {
+      return output;
+    }
+
+    logger.info(
+      `Summary of ${provider.name} is ${excess} characters too long, asking for a shorter one`
+    );
+    try {
+      const shorterLength = outputLength - excess;
+      return await provider.summarize(text, shorterLength, render(shorterLength));
     } catch (error) {
       const errorMessage = error instanceof Error ? error.message : String(error);
-      logger.error(`Error summarizing text with LLM: ${errorMessage}`);
-      throw new Error(`Failed to summarize text: ${errorMessage}`);
+      logger.warn(`Shorter summary of ${provider.name} failed, shortening it: ${errorMessage}`);
+      return output;
     }
   }
 }
@@ -0,0 +1,329 @@
+import logger from '../utils/logger';
+import { ApiError } from '../utils/errorHandler';
+import JsonStore from '../utils/jsonStore';
+import { sourceService } from './source.service';
+import { historyService } from './history.service';
+import { crossPostService } from './crossPost.service';
+import { MAX_RECENT_POSTS } from './instagram.service';
+import { InstagramPost } from '../interfaces/instagram.interface';
+import { PollerRecord, PollerStatus, PollRun, PollTrigger } from '../interfaces/poller.interface';
+
+interface PollerState {
+  pollers: PollerRecord[];
+}
+
+const readNumber = (name: string, fallback: number, minimum = 1): number => {
+  const value = Number(process.env[name]);
+  return process.env[name] !== undefined && Number.isFinite(value) && value >= minimum
+    ? value
+    : fallback;
+};
+
+const postTime = (post: InstagramPost): number | undefined =>
+  post.timestamp ? new Date(post.timestamp).getTime() : undefined;
+
+class PollerService {
+  private store: JsonStore<PollerState>;
+  private records: Map<string, PollerRecord>;
+  private timers: Map<string, NodeJS.Timeout> = new Map();
+  private nextRuns: Map<string, Date> = new Map();
+  private running: Map<string, Promise<PollRun>> = new Map();
+  private started = false;
+
+  /**
+   * Creates the polling worker and loads the persisted polling state of every source
+   * Registered sources are scheduled and removed ones forgotten as soon as the registry changes
+   */
+  constructor() {
+    this.store = new JsonStore<PollerState>('pollers.json', () => ({ pollers: [] }));
+    this.records = new Map(this.store.read().pollers.map(record => [record.sourceId, record]));
+    sourceService.subscribe(() => this.sync());
+  }
+
+  private get intervalMs(): number {
+    return readNumber('POLL_INTERVAL_MS', 15 * 60 * 1000);
+  }
+
+  private get jitterMs(): number {
+    return readNumber('POLL_JITTER_MS', 60 * 1000, 0);
+  }
+
+  private get maxPosts(): number {
+    return Math.min(readNumber('POLL_MAX_POSTS', 5), MAX_RECENT_POSTS);
+  }
+
+  private persist(): void {
+    this.store.write({ pollers: Array.from(this.records.values()) });
+  }
+
+  private getRecord(sourceId: string): PollerRecord {
+    return this.records.get(sourceId) || { sourceId, paused: false };
+  }
+
+  private saveRecord(record: PollerRecord): void {
+    this.records.set(record.sourceId, record);
+    this.persist();
+  }
+
+  /**
+   * Gets the polling state of a source with its last and next run
+   * @param sourceId - The source ID
+   * @throws ApiError with status 404 if the source does not exist
+   */
+  public getStatus(sourceId: string): PollerStatus {
+    sourceService.get(sourceId);
+    this.sync();
+
+    return this.toStatus(sourceId);
+  }
+
+  /**
+   * Gets the polling state of every source
+   */
+  public list(): PollerStatus[] {
+    this.sync();
+
+    return sourceService.list().map(source => this.toStatus(source.id));
+  }
+
+  private toStatus(sourceId: string): PollerStatus {
+    const record = this.getRecord(sourceId);
+    return {
+      ...record,
+      enabled: this.started,
+      running: this.running.has(sourceId),
+      lastRunAt: record.lastRun?.startedAt,
+      nextRunAt: this.nextRuns.get(sourceId)?.toISOString(),
+    };
+  }
+
+  /**
+   * Stops scheduled polls of a source until it is resumed; a running poll is finished
+   * @param sourceId - The source ID
+   * @throws ApiError with status 404 if the source does not exist
+   */
+  public pause(sourceId: string): PollerStatus {
+    sourceService.get(sourceId);
+
+    this.saveRecord({ ...this.getRecord(sourceId), paused: true });
+    this.unschedule(sourceId);
+
+    logger.info(`Polling of source ${sourceId} paused`);
+    return this.getStatus(sourceId);
+  }
+
+  /**
+   * Resumes scheduled polls of a source
+   * @param sourceId - The source ID
+   * @throws ApiError with status 404 if the source does not exist
+   */
+  public resume(sourceId: string): PollerStatus {
+    sourceService.get(sourceId);
+
+    this.saveRecord({ ...this.getRecord(sourceId), paused: false });
+    if (this.started && !this.running.has(sourceId)) {
+      this.schedule(sourceId, this.intervalMs);
+    }
+
+    logger.info(`Polling of source ${sourceId} resumed`);
+    return this.getStatus(sourceId);
+  }
+
+  /**
+   * Polls a source now, also when it is paused; concurrent calls share the running poll
+   * @param sourceId - The source ID
+   * @param trigger - Whether the poll was scheduled or requested
+   * @throws ApiError with status 404 if the source does not exist
+   */
+  public run(sourceId: string, trigger: PollTrigger = 'manual'): Promise<PollRun> {
+    const pending = this.running.get(sourceId);
+    if (pending) {
+      return pending;
+    }
+
+    sourceService.get(sourceId);
+    this.unschedule(sourceId);
+
+    const run = this.poll(sourceId, trigger).finally(() => {
+      this.running.delete(sourceId);
+      if (this.started && !this.getRecord(sourceId).paused) {
+        this.schedule(sourceId, this.intervalMs);
+      }
+    });
+    this.running.set(sourceId, run);
+    return run;
+  }
+
+  /**
+   * Cross-posts the posts of a source that are newer than the last one seen, oldest first
+   * The first poll of a source only remembers its latest post, so older posts are not flooded
+   * A failed cross-post stops the poll, it is retried on the next poll
+   */
+  private async poll(sourceId: string, trigger: PollTrigger): Promise<PollRun> {
+    const source = sourceService.get(sourceId);
+    const record = { ...this.getRecord(sourceId) };
+    const run: PollRun = {
+      trigger,
+      startedAt: new Date().toISOString(),
+      finishedAt: '',
+      found: 0,
+      published: 0,
+      queued: 0,
+      drafted: 0,
+      skipped: 0,
+      failed: 0,
+    };
+
+    logger.info(`Polling Instagram source ${sourceId} (${trigger})`);
+
+    try {
+      const result = await sourceService.getInstagramService(sourceId).getRecentPosts({
+        limit: this.maxPosts,
+        since: record.lastSeenPostAt,
+      });
+      if (!result.success || !result.data) {
+        throw new Error(result.error || 'Failed to fetch Instagram posts');
+      }
+
+      if (!record.lastSeenPostAt && !record.lastSeenPostKey) {
+        const latest = result.data[0];
+        record.lastSeenPostAt = latest?.timestamp || run.startedAt;
+        record.lastSeenPostKey = latest ? historyService.getPostKey(latest) : undefined;
+        logger.info(
+          `First poll of source ${sourceId}, waiting for posts after ${record.lastSeenPostAt}`
+        );
+      } else {
+        const newPosts = result.data.filter(post => this.isNewer(post, record)).reverse();
+        run.found = newPosts.length;
+
+        for (const post of newPosts) {
+          const outcome = await crossPostService.crossPost(source, post);
+          // Polls never dry-run or schedule
+          if (outcome.status !== 'previewed' && outcome.status !== 'scheduled') {
+            run[outcome.status] += 1;
+          }
+
+          if (outcome.status === 'failed') {
+            run.error = outcome.error;
+            break;
+          }
+
+          record.lastSeenPostAt = post.timestamp || record.lastSeenPostAt;
+          record.lastSeenPostKey = historyService.getPostKey(post);
+        }
+      }
+    } catch (error) {
+      run.error = error instanceof Error ? error.message : 'Unknown error';
+      logger.error(`Polling of source ${sourceId} failed: ${run.error}`);
+    }
+
+    run.finishedAt = new Date().toISOString();
+    // Pausing during the poll is kept
+    this.saveRecord({ ...record, paused: this.getRecord(sourceId).paused, lastRun: run });
+
+    logger.info(
+      `Polled source ${sourceId}: ${run.found} new, ${run.published} published, ` +
+        `${run.queued} queued, ${run.drafted} drafted, ${run.skipped} skipped, ${run.failed} failed`
+    );
+    return run;
+  }
+
+  private isNewer(post: InstagramPost, record: PollerRecord): boolean {
+    if (historyService.getPostKey(post) === record.lastSeenPostKey) {
+      return false;
+    }
+
+    const time = postTime(post);
+    return time === undefined || !record.lastSeenPostAt
+      ? true
+      : time > new Date(record.lastSeenPostAt).getTime();
+  }
+
+  private schedule(sourceId: string, baseDelayMs: number): void {
+    this.unschedule(sourceId);
+
+    // Jitter keeps sources from being polled in lockstep
+    const delayMs = baseDelayMs + Math.round(Math.random() * this.jitterMs);
+    const timer = setTimeout(() => {
+      this.timers.delete(sourceId);
+      this.run(sourceId, 'schedule').catch(error => {
+        const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+        logger.error(`Scheduled poll of source ${sourceId} failed: ${errorMessage}`);
+        if (error instanceof ApiError && error.statusCode === 404) {
+          this.sync();
+        }
+      });
+    }, delayMs);
+    // The schedule alone should not keep the process alive
+    timer.unref();
+
+    this.timers.set(sourceId, timer);
+    this.nextRuns.set(sourceId, new Date(Date.now() + delayMs));
+  }
+
+  private unschedule(sourceId: string): void {
+    const timer = this.timers.get(sourceId);
+    if (timer) {
+      clearTimeout(timer);
+    }
+    this.timers.delete(sourceId);
+    this.nextRuns.delete(sourceId);
+  }
+
+  /**
+   * Schedules sources registered since the last sync and forgets removed sources
+   */
+  private sync(): void {
+    const sourceIds = new Set(sourceService.list().map(source => source.id));
+
+    Array.from(this.timers.keys())
+      .filter(id => !sourceIds.has(id))
+      .forEach(id => this.unschedule(id));
+
+    const stale = Array.from(this.records.keys()).filter(id => !sourceIds.has(id));
+    if (stale.length > 0) {
+      stale.forEach(id => this.records.delete(id));
+      this.persist();
+    }
+
+    if (!this.started) {
+      return;
+    }
+
+    for (const sourceId of sourceIds) {
+      if (!this.timers.has(sourceId) && !this.running.has(sourceId)) {
+        if (!this.getRecord(sourceId).paused) {
+          this.schedule(sourceId, 0);
+        }
+      }
+    }
+  }
+
+  /**
+   * Starts polling every source that is not paused, when `POLL_ENABLED` is `true`
+   * Each source is polled every `POLL_INTERVAL_MS` plus up to `POLL_JITTER_MS`
+   */
+  public start(): void {
+    if (this.started) {
+      return;
+    }
+    if (process.env.POLL_ENABLED !== 'true') {
+      logger.info('Polling worker disabled, set POLL_ENABLED=true to cross-post new posts');
+      return;
+    }
+
+    this.started = true;
+    this.sync();
+
+    logger.info(
+      `Polling worker started, polling every ${Math.round(this.intervalMs / 60000)} minutes`
+    );
+  }
+
+  public stop(): void {
+    this.started = false;
+    Array.from(this.timers.keys()).forEach(id => this.unschedule(id));
+  }
+}
+
+export const pollerService = new PollerService();
@@ -0,0 +1,218 @@
+import { AsyncLocalStorage } from 'async_hooks';
+import logger from '../utils/logger';
+import { ApiError } from '../utils/errorHandler';
+import { ProgressEvent, ProgressListener, ProgressRun } from '../interfaces/progress.interface';
+
+const RUN_ID_PATTERN = /^[a-z0-9_-]{1,64}$/i;
+// Events beyond this are dropped from the replay buffer, live subscribers still get them
+const MAX_BUFFERED_EVENTS = 500;
+
+interface RunState extends ProgressRun {
+  startedAtMs?: number;
+  listeners: Set<ProgressListener>;
+}
+
+const readNumber = (name: string, fallback: number): number => {
+  const value = Number(process.env[name]);
+  return Number.isFinite(value) && value > 0 ? value : fallback;
+};
+
+class ProgressService {
+  private runs: Map<string, RunState> = new Map();
+  private context = new AsyncLocalStorage<RunState>();
+
+  /**
+   * How long finished runs are kept for late subscribers, configurable with `RUN_RETENTION_MS`
+   */
+  private get retentionMs(): number {
+    return readNumber('RUN_RETENTION_MS', 10 * 60 * 1000);
+  }
+
+  /**
+   * Checks a run ID chosen by a client
+   * @param runId - The run ID
+   * @returns The run ID
+   * @throws ApiError with status 400 if the run ID is not a string of letters, digits, dashes
+   * and underscores, up to 64 characters
+   */
+  public validateRunId(runId: unknown): string {
+    if (typeof runId !== 'string' || !RUN_ID_PATTERN.test(runId)) {
+      throw new ApiError(
+        'Run ID may only contain letters, digits, dashes and underscores, up to 64 characters',
+        400
+      );
+    }
+
+    return runId;
+  }
+
+  private getOrCreate(runId: string): RunState {
+    let run = this.runs.get(runId);
+    if (!run) {
+      run = { id: runId, status: 'pending', events: [], listeners: new Set() };
+      this.runs.set(runId, run);
+    }
+    return run;
+  }
+
+  /**
+   * Runs a pipeline as a tracked run; stages emitted anywhere inside it belong to the run
+   * Emits `run:start`, then `run:done` or `run:failed` with the total duration
+   * @param runId - The run ID, chosen by the client so it can subscribe before the run starts
+   * @param task - The pipeline
+   * @throws ApiError with status 400 if the run ID is malformed, 409 if it was already used
+   */
+  public async track<T>(runId: string, task: () => Promise<T>): Promise<T> {
+    const run = this.getOrCreate(this.validateRunId(runId));
+    if (run.status !== 'pending') {
+      throw new ApiError(`Run ID was already used: ${runId}`, 409);
+    }
+
+    run.status = 'running';
+    run.startedAtMs = Date.now();
+    run.startedAt = new Date(run.startedAtMs).toISOString();
+
+    return this.context.run(run, async () => {
+      this.emit('run:start');
+      try {
+        const result = await task();
+        this.finish(run, 'completed');
+        return result;
+      } catch (error) {
+        const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+        this.finish(run, 'failed', errorMessage);
+        throw error;
+      }
+    });
+  }
+
+  private finish(run: RunState, status: 'completed' | 'failed', error?: string): void {
+    const durationMs = Date.now() - (run.startedAtMs as number);
+    this.emit(status === 'completed' ? 'run:done' : 'run:failed', error ? { error } : undefined, {
+      durationMs,
+    });
+
+    run.status = status;
+    run.finishedAt = new Date().toISOString();
+    run.listeners.clear();
+
+    const timer = setTimeout(() => this.runs.delete(run.id), this.retentionMs);
+    // Cleanup alone should not keep the process alive
+    timer.unref();
+  }
+
+  /**
+   * Emits a stage event for the run the caller is part of; outside a run it does nothing
+   * @param stage - The stage, such as `fetch:selector-failed`
+   * @param data - Details of the stage
+   * @param timing - Time the stage took
+   */
+  public emit(
+    stage: string,
+    data?: Record<string, unknown>,
+    timing: { durationMs?: number } = {}
+  ): void {
+    const run = this.context.getStore();
+    // Strategies that timed out may still be running after the run finished
+    if (!run || run.status !== 'running') {
+      return;
+    }
+
+    const now = Date.now();
+    const event: ProgressEvent = {
+      runId: run.id,
+      seq: (run.events[run.events.length - 1]?.seq || 0) + 1,
+      stage,
+      at: new Date(now).toISOString(),
+      elapsedMs: now - (run.startedAtMs as number),
+      durationMs: timing.durationMs,
+      data,
+    };
+
+    run.events.push(event);
+    if (run.events.length > MAX_BUFFERED_EVENTS) {
+      run.events.shift();
+    }
+    run.listeners.forEach(listener => {
+      try {
+        listener(event);
+      } catch (error) {
+        const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+        logger.warn(`Progress listener of run ${run.id} failed: ${errorMessage}`);
+      }
+    });
+  }
+
+  /**
+   * Runs a step as a stage, emitting `<name>:start`, then `<name>:done` or `<name>:failed`
+   * @param name - The stage name, such as `summarize`
+   * @param task - The step
+   * @param data - Details added to the start event
+   */
+  public async stage<T>(
+    name: string,
+    task: () => Promise<T>,
+    data?: Record<string, unknown>
+  ): Promise<T> {
+    const startedAt = Date.now();
+    this.emit(`${name}:start`, data);
+
+    try {
+      const result = await task();
+      this.emit(`${name}:done`, undefined, { durationMs: Date.now() - startedAt });
+      return result;
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+      this.emit(`${name}:failed`, { error: errorMessage }, { durationMs: Date.now() - startedAt });
+      throw error;
+    }
+  }
+
+  /**
+   * Gets a run with its buffered events
+   * @param runId - The run ID
+   * @throws ApiError with status 404 if the run is unknown or expired
+   */
+  public get(runId: string): ProgressRun {
+    const run = this.runs.get(runId);
+    if (!run) {
+      throw new ApiError(`Run not found: ${runId}`, 404);
+    }
+
+    const { id, status, startedAt, finishedAt, events } = run;
+    return { id, status, startedAt, finishedAt, events: [...events] };
+  }
+
+  /**
+   * Subscribes to the events of a run, also before it starts
+   * Buffered events after `afterSeq` are replayed first
+   * @param runId - The run ID
+   * @param listener - Called with every event
+   * @param afterSeq - Sequence number of the last event the subscriber already has
+   * @returns The run, and a function that ends the subscription
+   * @throws ApiError with status 400 if the run ID is malformed
+   */
+  public subscribe(
+    runId: string,
+    listener: ProgressListener,
+    afterSeq = 0
+  ): { run: ProgressRun; unsubscribe: () => void } {
+    const run = this.getOrCreate(this.validateRunId(runId));
+
+    run.events.filter(event => event.seq > afterSeq).forEach(event => listener(event));
+    if (run.status === 'pending' || run.status === 'running') {
+      run.listeners.add(listener);
+    }
+
+    const unsubscribe = () => {
+      run.listeners.delete(listener);
+      // Runs nobody started are forgotten once nobody waits for them
+      if (run.status === 'pending' && run.listeners.size === 0) {
+        this.runs.delete(runId);
+      }
+    };
+    return { run: this.get(runId), unsubscribe };
+  }
+}
+
+export const progressService = new ProgressService();
@@ -0,0 +1,368 @@
+import logger from '../utils/logger';
+import { ApiError } from '../utils/errorHandler';
+import JsonStore from '../utils/jsonStore';
+import { parseCaption } from '../utils/captionParser';
+import { getTweetLength, shortenTweet } from '../utils/tweetLength';
+import { CaptionEntity } from '../interfaces/instagram.interface';
+import {
+  PromptTemplate,
+  PromptTemplateContent,
+  PromptTemplateInput,
+  PromptTemplateRef,
+  PromptVariables,
+} from '../interfaces/promptTemplate.interface';
+
+export const DEFAULT_TEMPLATE_ID = 'default';
+
+const TEMPLATE_ID_PATTERN = /^[a-z0-9][a-z0-9_-]{0,63}$/i;
+const VARIABLE_PATTERN = /\{\{\s*([^}\s]*)\s*\}\}/g;
+const MAX_BODY_LENGTH = 4000;
+const MAX_SUFFIX_LENGTH = 100;
+
+export const PROMPT_VARIABLES: (keyof PromptVariables)[] = [
+  'caption',
+  'username',
+  'postUrl',
+  'maxLength',
+  'date',
+];
+
+// Seeded on first start; the default template is the prompt used before templates existed
+const BUILT_IN_TEMPLATES: (PromptTemplateContent & { id: string; description: string })[] = [
+  {
+    id: DEFAULT_TEMPLATE_ID,
+    description: 'Engaging summary, used when neither the request nor the source picks one',
+    body:
+      'Summarize this Instagram caption into a tweet (max {{maxLength}} characters), ' +
+      'keeping the message engaging:\n\n"{{caption}}"',
+    emoji: true,
+    hashtags: true,
+  },
+  {
+    id: 'news',
+    description: 'Neutral and factual, without emoji or hashtags',
+    body:
+      'Summarize this Instagram caption by @{{username}} into a tweet of at most {{maxLength}} ' +
+      'characters. Use a neutral, factual tone and report only what the caption says. ' +
+      'Do not use emoji or hashtags:\n\n"{{caption}}"',
+    emoji: false,
+    hashtags: false,
+  },
+  {
+    id: 'lifestyle',
+    description: 'Playful and upbeat, with emoji and hashtags',
+    body:
+      'Turn this Instagram caption by @{{username}} into a playful, upbeat tweet of at most ' +
+      '{{maxLength}} characters. Add a few fitting emoji and keep the most relevant ' +
+      'hashtags:\n\n"{{caption}}"',
+    emoji: true,
+    hashtags: true,
+  },
+];
+
+interface PromptTemplateState {
+  templates: PromptTemplate[];
+}
+
+const removeEntities = (text: string, entities: CaptionEntity[]): string =>
+  entities
+    .sort((a, b) => b.start - a.start)
+    .reduce((result, entity) => result.slice(0, entity.start) + result.slice(entity.end), text)
+    .replace(/[^\S\n]{2,}/g, ' ')
+    .replace(/[^\S\n]+([.,!?;:])/g, '$1')
+    .trim();
+
+class PromptTemplateService {
+  private store: JsonStore<PromptTemplateState>;
+  private templates: Map<string, PromptTemplate>;
+
+  /**
+   * Creates the template store and loads the persisted templates
+   * When nothing has been persisted yet, the built-in templates are seeded
+   */
+  constructor() {
+    this.store = new JsonStore<PromptTemplateState>('templates.json', () => ({
+      templates: this.buildBuiltInTemplates(),
+    }));
+    this.templates = new Map(this.store.read().templates.map(template => [template.id, template]));
+  }
+
+  private buildBuiltInTemplates(): PromptTemplate[] {
+    const now = new Date().toISOString();
+
+    return BUILT_IN_TEMPLATES.map(({ id, description, ...content }) => ({
+      id,
+      name: id,
+      description,
+      ...content,
+      version: 1,
+      versions: [{ ...content, version: 1, createdAt: now }],
+      createdAt: now,
+      updatedAt: now,
+    }));
+  }
+
+  private persist(): void {
+    this.store.write({ templates: Array.from(this.templates.values()) });
+  }
+
+  public list(): PromptTemplate[] {
+    return Array.from(this.templates.values());
+  }
+
+  /**
+   * Gets a template by ID
+   * @param id - The template ID
+   * @throws ApiError with status 404 if the template does not exist
+   */
+  public get(id: string): PromptTemplate {
+    const template = this.templates.get(id);
+    if (!template) {
+      throw new ApiError(`Prompt template not found: ${id}`, 404);
+    }
+
+    return template;
+  }
+
+  public has(id: string): boolean {
+    return this.templates.has(id);
+  }
+
+  /**
+   * Resolves the template of a summary: the one of the request, else the one of the source,
+   * else the default template
+   * A template picked by a source that no longer exists falls back to the default template
+   * @param requested - Template ID given with the request
+   * @param sourceTemplate - Template ID of the source settings
+   * @throws ApiError with status 404 if the requested template does not exist
+   */
+  public resolve(requested?: string, sourceTemplate?: string): PromptTemplate {
+    if (requested) {
+      return this.get(requested);
+    }
+
+    if (sourceTemplate && !this.templates.has(sourceTemplate)) {
+      logger.warn(`Prompt template ${sourceTemplate} no longer exists, using the default template`);
+    }
+
+    return (
+      (sourceTemplate && this.templates.get(sourceTemplate)) ||
+      this.templates.get(DEFAULT_TEMPLATE_ID) ||
+      this.buildBuiltInTemplates()[0]
+    );
+  }
+
+  private validate(input: PromptTemplateInput): void {
+    if (input.name !== undefined && (typeof input.name !== 'string' || !input.name.trim())) {
+      throw new ApiError('Name must be a non-empty string', 400);
+    }
+    if (
+      input.description !== undefined &&
+      input.description !== null &&
+      typeof input.description !== 'string'
+    ) {
+      throw new ApiError('Description must be a string', 400);
+    }
+    if (input.body !== undefined) {
+      if (typeof input.body !== 'string' || !input.body.trim()) {
+        throw new ApiError('Body must be a non-empty string', 400);
+      }
+      if (input.body.length > MAX_BODY_LENGTH) {
+        throw new ApiError(`Body must be at most ${MAX_BODY_LENGTH} characters`, 400);
+      }
+
+      const variables = Array.from(input.body.matchAll(VARIABLE_PATTERN), match => match[1]);
+      const unknown = variables.filter(
+        name => !PROMPT_VARIABLES.includes(name as keyof PromptVariables)
+      );
+      if (unknown.length > 0) {
+        throw new ApiError(
+          `Unknown template variables: ${unknown.join(', ')}. ` +
+            `Variables must be one of: ${PROMPT_VARIABLES.join(', ')}`,
+          400
+        );
+      }
+      if (!variables.includes('caption')) {
+        throw new ApiError('Body must include the {{caption}} variable', 400);
+      }
+    }
+    if (input.emoji !== undefined && typeof input.emoji !== 'boolean') {
+      throw new ApiError('emoji must be a boolean', 400);
+    }
+    if (input.hashtags !== undefined && typeof input.hashtags !== 'boolean') {
+      throw new ApiError('hashtags must be a boolean', 400);
+    }
+    if (
+      input.suffix !== undefined &&
+      input.suffix !== null &&
+      (typeof input.suffix !== 'string' || getTweetLength(input.suffix) > MAX_SUFFIX_LENGTH)
+    ) {
+      throw new ApiError(`Suffix must be a string of at most ${MAX_SUFFIX_LENGTH} characters`, 400);
+    }
+  }
+
+  /**
+   * Creates a template at version 1
+   * @param input - ID and body are required; emoji and hashtags are kept unless turned off
+   * @throws ApiError with status 400 if the input is invalid, 409 if the ID is taken
+   */
+  public create(input: PromptTemplateInput): PromptTemplate {
+    if (!input.id || !TEMPLATE_ID_PATTERN.test(input.id)) {
+      throw new ApiError(
+        'Template ID is required and may only contain letters, digits, dashes and underscores',
+        400
+      );
+    }
+    if (input.body === undefined) {
+      throw new ApiError('Body is required', 400);
+    }
+    this.validate(input);
+    if (this.templates.has(input.id)) {
+      throw new ApiError(`Prompt template already exists: ${input.id}`, 409);
+    }
+
+    const now = new Date().toISOString();
+    const content: PromptTemplateContent = {
+      body: input.body,
+      emoji: input.emoji ?? true,
+      hashtags: input.hashtags ?? true,
+      suffix: input.suffix?.trim() || undefined,
+    };
+    const template: PromptTemplate = {
+      id: input.id,
+      name: input.name?.trim() || input.id,
+      description: input.description?.trim() || undefined,
+      ...content,
+      version: 1,
+      versions: [{ ...content, version: 1, createdAt: now }],
+      createdAt: now,
+      updatedAt: now,
+    };
+
+    this.templates.set(template.id, template);
+    this.persist();
+
+    logger.info(`Created prompt template ${template.id}`);
+    return template;
+  }
+
+  /**
+   * Updates a template; a change of the body, emoji, hashtags or suffix creates a new version
+   * @param id - The template ID
+   * @param input - Fields to change, `null` removes the description or suffix
+   * @throws ApiError with status 400 if the input is invalid, 404 if the template does not exist
+   */
+  public update(id: string, input: PromptTemplateInput): PromptTemplate {
+    const existing = this.get(id);
+    this.validate(input);
+
+    const content: PromptTemplateContent = {
+      body: input.body ?? existing.body,
+      emoji: input.emoji ?? existing.emoji,
+      hashtags: input.hashtags ?? existing.hashtags,
+      suffix: input.suffix === null ? undefined : input.suffix?.trim() || existing.suffix,
+    };
+    const changed =
+      content.body !== existing.body ||
+      content.emoji !== existing.emoji ||
+      content.hashtags !== existing.hashtags ||
+      content.suffix !== existing.suffix;
+
+    const now = new Date().toISOString();
+    const version = changed ? existing.version + 1 : existing.version;
+    const template: PromptTemplate = {
+      ...existing,
+      name: input.name?.trim() || existing.name,
+      description:
+        input.description === null ? undefined : input.description?.trim() || existing.description,
+      ...content,
+      version,
+      versions: changed
+        ? [...existing.versions, { ...content, version, createdAt: now }]
+        : existing.versions,
+      updatedAt: now,
+    };
+
+    this.templates.set(id, template);
+    this.persist();
+
+    logger.info(`Updated prompt template ${id} to version ${version}`);
+    return template;
+  }
+
+  /**
+   * Removes a template
+   * @param id - The template ID
+   * @throws ApiError with status 404 if the template does not exist, 409 for the default template
+   */
+  public remove(id: string): void {
+    this.get(id);
+    if (id === DEFAULT_TEMPLATE_ID) {
+      throw new ApiError('The default prompt template cannot be deleted', 409);
+    }
+
+    this.templates.delete(id);
+    this.persist();
+
+    logger.info(`Removed prompt template ${id}`);
+  }
+
+  /**
+   * Builds the prompt of a template; variables without a value are left empty
+   * @param template - The template
+   * @param variables - Values of the template variables
+   */
+  public render(template: PromptTemplateContent, variables: PromptVariables): string {
+    return template.body.replace(VARIABLE_PATTERN, (_match, name: keyof PromptVariables) =>
+      String(variables[name] ?? '')
+    );
+  }
+
+  /**
+   * Characters a model may use, leaving room for the call-to-action suffix
+   * @param template - The template
+   * @param maxLength - Maximum weighted length of the tweet
+   */
+  public getOutputLength(template: PromptTemplateContent, maxLength: number): number {
+    return template.suffix
+      ? Math.max(1, maxLength - getTweetLength(template.suffix) - 1)
+      : maxLength;
+  }
+
+  /**
+   * Drops emoji and hashtags from a generated summary when the template turns them off
+   * @param template - The template
+   * @param summary - The text written by the summarization provider
+   */
+  public applyVoice(template: PromptTemplateContent, summary: string): string {
+    const entities = parseCaption(summary);
+
+    return removeEntities(summary, [
+      ...(template.hashtags ? [] : entities.hashtags),
+      ...(template.emoji ? [] : entities.emoji),
+    ]);
+  }
+
+  /**
+   * Applies the voice of a template to a generated summary and appends the suffix, shortening
+   * the summary at a sentence or word boundary when it does not fit
+   * @param template - The template
+   * @param summary - The text written by the summarization provider
+   * @param maxLength - Maximum weighted length of the tweet
+   */
+  public finish(template: PromptTemplateContent, summary: string, maxLength: number): string {
+    const text = shortenTweet(
+      this.applyVoice(template, summary),
+      this.getOutputLength(template, maxLength)
+    );
+
+    // An empty summary stays empty, so the provider counts as failed
+    return template.suffix && text ? `${text} ${template.suffix}` : text;
+  }
+
+  public toRef(template: PromptTemplate): PromptTemplateRef {
+    return { id: template.id, version: template.version };
+  }
+}
+
+export const promptTemplateService = new PromptTemplateService();
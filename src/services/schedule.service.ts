@@ -0,0 +1,241 @@
+import logger from '../utils/logger';
+import { ApiError } from '../utils/errorHandler';
+import { formatInTimeZone, parseDateTime } from '../utils/timeZone';
+import { twitterService } from './twitter.service';
+import { historyService } from './history.service';
+import { jobQueue, JobError } from './jobQueue.service';
+import { PUBLISH_JOB } from './crossPost.service';
+import { webhookService } from './webhook.service';
+import { Job } from '../interfaces/job.interface';
+import { PublishJobPayload } from '../interfaces/crossPost.interface';
+import { ThreadResult, TweetResult } from '../interfaces/twitter.interface';
+import {
+  ScheduledStatus,
+  ScheduledTweet,
+  ScheduleFilters,
+  TweetJobPayload,
+  TweetJobResult,
+  TweetSchedule,
+} from '../interfaces/schedule.interface';
+
+export const TWEET_JOB = 'tweet';
+
+type ScheduledJob = Job<(TweetJobPayload | PublishJobPayload) & { schedule: TweetSchedule }>;
+
+const isScheduled = (job: Job): job is ScheduledJob =>
+  (job.type === TWEET_JOB || job.type === PUBLISH_JOB) &&
+  Boolean((job.payload as Partial<TweetJobPayload>).schedule);
+
+class ScheduleService {
+  constructor() {
+    jobQueue.register<TweetJobPayload>(TWEET_JOB, job => this.runTweetJob(job));
+  }
+
+  /**
+   * Resolves the publication time of a request
+   * @param publishAt - ISO 8601 date and time with `Z` or an offset, or local date and time
+   * @param timeZone - IANA time zone name, required when `publishAt` has no offset
+   * @throws ApiError with status 400 if the time is invalid, ambiguous without a time zone or not
+   * in the future
+   */
+  public resolve(publishAt: unknown, timeZone?: unknown): TweetSchedule {
+    if (typeof publishAt !== 'string') {
+      throw new ApiError('publishAt must be an ISO 8601 date and time string', 400);
+    }
+    if (timeZone !== undefined && typeof timeZone !== 'string') {
+      throw new ApiError('timeZone must be an IANA time zone name such as Europe/London', 400);
+    }
+
+    let date: Date;
+    try {
+      date = parseDateTime(publishAt.trim(), timeZone);
+    } catch (error) {
+      throw new ApiError(error instanceof Error ? error.message : 'Invalid publishAt', 400);
+    }
+    if (date.getTime() <= Date.now()) {
+      throw new ApiError(`publishAt must be in the future: ${date.toISOString()}`, 400);
+    }
+
+    return { publishAt: date.toISOString(), timeZone };
+  }
+
+  /**
+   * Schedules a tweet or a thread from the tweet routes
+   * @param text - The tweet text
+   * @param imageUrl - The image to attach, if any
+   * @param schedule - The publication time
+   * @param thread - The tweets of a thread, posted instead of the text
+   * @param caption - The Instagram caption the text was written from
+   */
+  public scheduleTweet(
+    text: string,
+    imageUrl: string | undefined,
+    schedule: TweetSchedule,
+    thread?: string[],
+    caption?: string
+  ): ScheduledTweet {
+    const job = jobQueue.enqueue<TweetJobPayload>(
+      TWEET_JOB,
+      { text, thread, imageUrl, schedule, caption },
+      { runAt: new Date(schedule.publishAt) }
+    );
+
+    logger.info(`Scheduled tweet for ${schedule.publishAt} as job ${job.id}`);
+    return this.toScheduledTweet(job as ScheduledJob);
+  }
+
+  /**
+   * Posts a tweet or a thread from the tweet routes right away as a tweet job
+   * Temporary failures are retried by the job queue, and a thread that fails partway is retried
+   * from the tweet that failed; dead jobs can be retried with `POST /api/jobs/:id/retry`
+   * @param text - The tweet text
+   * @param imageUrl - The image to attach, to the first tweet of a thread, if any
+   * @param thread - The tweets of a thread, posted instead of the text
+   * @param caption - The Instagram caption the text was written from
+   * @returns The job after its first attempt
+   */
+  public async postNow(
+    text: string,
+    imageUrl?: string,
+    thread?: string[],
+    caption?: string
+  ): Promise<Job<TweetJobPayload>> {
+    const job = jobQueue.enqueue<TweetJobPayload>(TWEET_JOB, { text, thread, imageUrl, caption });
+
+    return (await jobQueue.runNow(job.id)) as Job<TweetJobPayload>;
+  }
+
+  /**
+   * Lists scheduled tweets and cross-posts by publication time
+   * @param filters - Status and type filters
+   */
+  public list(filters: ScheduleFilters = {}): ScheduledTweet[] {
+    return jobQueue
+      .list()
+      .filter(isScheduled)
+      .map(job => this.toScheduledTweet(job))
+      .filter(
+        item =>
+          (!filters.status || item.status === filters.status) &&
+          (!filters.type || item.type === filters.type)
+      )
+      .sort((a, b) => new Date(a.publishAt).getTime() - new Date(b.publishAt).getTime());
+  }
+
+  /**
+   * Gets a scheduled tweet by ID
+   * @param id - The ID of its job
+   * @throws ApiError with status 404 if there is no scheduled tweet with the ID
+   */
+  public get(id: string): ScheduledTweet {
+    const job = jobQueue.list().find(item => item.id === id);
+    if (!job || !isScheduled(job)) {
+      throw new ApiError(`Scheduled tweet not found: ${id}`, 404);
+    }
+
+    return this.toScheduledTweet(job);
+  }
+
+  /**
+   * Cancels a scheduled tweet, or removes a failed one from the list
+   * @param id - The ID of its job
+   * @throws ApiError with status 404 if there is no scheduled tweet with the ID, 409 if it is
+   * being published or was published
+   */
+  public cancel(id: string): ScheduledTweet {
+    const scheduled = this.get(id);
+    if (scheduled.status === 'published') {
+      throw new ApiError(`Scheduled tweet ${id} was already published`, 409);
+    }
+
+    jobQueue.discard(id);
+
+    logger.info(`Cancelled scheduled tweet ${id}`);
+    return scheduled;
+  }
+
+  private toScheduledTweet(job: ScheduledJob): ScheduledTweet {
+    const { schedule } = job.payload;
+    const statuses: Record<Job['status'], ScheduledStatus> = {
+      queued: job.attempts > 0 ? 'retrying' : 'scheduled',
+      running: 'publishing',
+      completed: 'published',
+      dead: 'failed',
+    };
+    const result = job.result as { tweetId?: string } | undefined;
+
+    const item: ScheduledTweet = {
+      id: job.id,
+      type: job.type === TWEET_JOB ? 'tweet' : 'crossPost',
+      status: statuses[job.status],
+      publishAt: schedule.publishAt,
+      timeZone: schedule.timeZone,
+      localPublishAt: schedule.timeZone
+        ? formatInTimeZone(new Date(schedule.publishAt), schedule.timeZone)
+        : undefined,
+      text: 'text' in job.payload ? job.payload.text : job.payload.summary,
+      thread: job.payload.thread,
+      imageUrl: job.payload.imageUrl,
+      tweetId: result?.tweetId,
+      error: job.lastError,
+      jobStatus: job.status,
+      createdAt: job.createdAt,
+    };
+
+    if ('post' in job.payload) {
+      item.sourceId = job.payload.sourceId;
+      item.postKey = historyService.getPostKey(job.payload.post);
+    }
+    return item;
+  }
+
+  /**
+   * Posts a tweet or a thread with the existing Twitter posting methods
+   * The tweets of a thread posted by an attempt are kept on the job, so the next attempt
+   * resumes with the tweet that failed
+   * Webhooks are notified of the tweet, or of the failure once the job will not be retried
+   * @param job - The tweet job
+   * @throws JobError when the tweet fails, retryable for network errors, 5xx and rate limits
+   */
+  private async runTweetJob(job: Job<TweetJobPayload>): Promise<TweetJobResult> {
+    const { text, thread, imageUrl, caption } = job.payload;
+    const eventData = { caption, summary: text, imageUrl };
+
+    let tweetResult: TweetResult | ThreadResult;
+
+    if (thread) {
+      const threadResult = await twitterService.postThread(thread, imageUrl, job.payload.posted);
+      job.payload.posted = threadResult.posted;
+      tweetResult = threadResult;
+    } else if (imageUrl) {
+      tweetResult = await twitterService.postTweetWithMedia(text, imageUrl);
+    } else {
+      tweetResult = await twitterService.postTweet(text);
+    }
+
+    if (!tweetResult.success) {
+      const error = tweetResult.error || 'Unknown error';
+      if (!tweetResult.retryable || job.attempts >= job.maxAttempts) {
+        webhookService.emit('tweet.failed', { ...eventData, error });
+      }
+
+      throw new JobError(error, {
+        retryable: Boolean(tweetResult.retryable),
+        retryAt: tweetResult.retryAt ? new Date(tweetResult.retryAt) : undefined,
+      });
+    }
+
+    if ('posted' in tweetResult) {
+      const posted = tweetResult.posted;
+      logger.info(`Posted thread starting with tweet ${posted[0]?.id}`);
+      webhookService.emit('tweet.published', { ...eventData, tweet: posted[0] });
+      return { tweetId: posted[0]?.id, thread: posted };
+    }
+
+    logger.info(`Posted tweet ${tweetResult.data?.id}`);
+    webhookService.emit('tweet.published', { ...eventData, tweet: tweetResult.data });
+    return { tweetId: tweetResult.data?.id, tweet: tweetResult.data };
+  }
+}
+
+export const scheduleService = new ScheduleService();
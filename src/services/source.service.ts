@@ -0,0 +1,326 @@
+import { v4 as uuidv4 } from 'uuid';
+import InstagramService from './instagram.service';
+import { FETCH_STRATEGY_NAMES, resolveStrategies } from './fetchers';
+import { promptTemplateService } from './promptTemplate.service';
+import logger from '../utils/logger';
+import { ApiError } from '../utils/errorHandler';
+import JsonStore from '../utils/jsonStore';
+import { FetchStrategyName, FetchStrategySetting } from '../interfaces/instagram.interface';
+import {
+  InstagramSource,
+  PublicSource,
+  PublishMode,
+  SourceChange,
+  SourceInput,
+  SourceListener,
+  SourceSettings,
+} from '../interfaces/source.interface';
+
+export const DEFAULT_SOURCE_ID = 'default';
+
+const DEFAULT_SETTINGS: SourceSettings = {
+  imageUpload: false,
+};
+
+const SOURCE_ID_PATTERN = /^[a-z0-9][a-z0-9_-]{0,63}$/i;
+const USERNAME_PATTERN = /^[a-z0-9._]{1,30}$/i;
+const BUSINESS_ACCOUNT_ID_PATTERN = /^\d{1,32}$/;
+const PUBLISH_MODES: PublishMode[] = ['auto', 'approval'];
+
+interface SourceState {
+  sources: InstagramSource[];
+}
+
+class SourceService {
+  private store: JsonStore<SourceState>;
+  private sources: Map<string, InstagramSource>;
+  private instagramServices: Map<string, InstagramService> = new Map();
+  private listeners: Set<SourceListener> = new Set();
+
+  /**
+   * Creates the source registry and loads the persisted sources
+   * When nothing has been persisted yet, a default source is seeded from the environment
+   */
+  constructor() {
+    this.store = new JsonStore<SourceState>('sources.json', () => ({
+      sources: [this.buildDefaultSource()],
+    }));
+    this.sources = new Map(this.store.read().sources.map(source => [source.id, source]));
+
+    logger.info(`Source registry initialized with ${this.sources.size} sources`);
+  }
+
+  /**
+   * Builds the default source from `TARGET_USERNAME` and `INSTAGRAM_ACCESS_TOKEN`
+   */
+  private buildDefaultSource(): InstagramSource {
+    const now = new Date().toISOString();
+    const username = process.env.TARGET_USERNAME || 'bbcnews';
+
+    return {
+      id: DEFAULT_SOURCE_ID,
+      name: username,
+      username,
+      accessToken: process.env.INSTAGRAM_ACCESS_TOKEN,
+      businessAccountId: process.env.INSTAGRAM_BUSINESS_ACCOUNT_ID || undefined,
+      settings: { ...DEFAULT_SETTINGS },
+      createdAt: now,
+      updatedAt: now,
+    };
+  }
+
+  private persist(): void {
+    this.store.write({ sources: Array.from(this.sources.values()) });
+  }
+
+  /**
+   * Registers a listener that is called after a source is registered, updated or removed
+   * @param listener - The listener
+   * @returns A function that unregisters the listener
+   */
+  public subscribe(listener: SourceListener): () => void {
+    this.listeners.add(listener);
+    return () => this.listeners.delete(listener);
+  }
+
+  private notify(sourceId: string, change: SourceChange): void {
+    for (const listener of this.listeners) {
+      try {
+        listener(sourceId, change);
+      } catch (error) {
+        const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+        logger.warn(`Source listener failed for ${change} source ${sourceId}: ${errorMessage}`);
+      }
+    }
+  }
+
+  /**
+   * Strips the access token from a source before it leaves the service
+   * @param source - The stored source
+   */
+  public toPublic(source: InstagramSource): PublicSource {
+    const { accessToken, ...rest } = source;
+    return { ...rest, hasAccessToken: Boolean(accessToken) };
+  }
+
+  public list(): InstagramSource[] {
+    return Array.from(this.sources.values());
+  }
+
+  /**
+   * Gets a source by its ID
+   * @param id - The source ID
+   * @throws ApiError with status 404 if the source does not exist
+   */
+  public get(id: string): InstagramSource {
+    const source = this.sources.get(id);
+    if (!source) {
+      throw new ApiError(`Source not found: ${id}`, 404);
+    }
+    return source;
+  }
+
+  /**
+   * Resolves the source a request refers to
+   * Without an ID, the default source is used, or the only source when there is exactly one
+   * @param id - Optional source ID from the request
+   */
+  public resolve(id?: string): InstagramSource {
+    if (id) {
+      return this.get(id);
+    }
+
+    const defaultSource = this.sources.get(DEFAULT_SOURCE_ID);
+    if (defaultSource) {
+      return defaultSource;
+    }
+
+    if (this.sources.size === 1) {
+      return this.list()[0];
+    }
+
+    throw new ApiError('sourceId is required', 400);
+  }
+
+  /**
+   * Gets the Instagram service bound to a source
+   * Services are cached per source and rebuilt when the source changes
+   * @param id - Optional source ID, resolved like {@link resolve}
+   */
+  public getInstagramService(id?: string): InstagramService {
+    const source = this.resolve(id);
+
+    let service = this.instagramServices.get(source.id);
+    if (!service) {
+      service = new InstagramService({
+        username: source.username,
+        accessToken: source.accessToken,
+        businessAccountId: source.businessAccountId,
+        strategies: resolveStrategies(source.settings.fetchStrategies),
+      });
+      this.instagramServices.set(source.id, service);
+    }
+
+    return service;
+  }
+
+  private validateStrategies(strategies: FetchStrategySetting[]): void {
+    if (!Array.isArray(strategies)) {
+      throw new ApiError('settings.fetchStrategies must be an array', 400);
+    }
+
+    const seen = new Set<FetchStrategyName>();
+    for (const strategy of strategies) {
+      if (!FETCH_STRATEGY_NAMES.includes(strategy?.name)) {
+        throw new ApiError(
+          `Fetch strategy name must be one of: ${FETCH_STRATEGY_NAMES.join(', ')}`,
+          400
+        );
+      }
+      if (seen.has(strategy.name)) {
+        throw new ApiError(`Fetch strategy listed more than once: ${strategy.name}`, 400);
+      }
+      if (strategy.enabled !== undefined && typeof strategy.enabled !== 'boolean') {
+        throw new ApiError(`enabled of fetch strategy ${strategy.name} must be a boolean`, 400);
+      }
+      if (
+        strategy.timeoutMs !== undefined &&
+        (!Number.isInteger(strategy.timeoutMs) || strategy.timeoutMs <= 0)
+      ) {
+        throw new ApiError(
+          `timeoutMs of fetch strategy ${strategy.name} must be a positive integer`,
+          400
+        );
+      }
+      seen.add(strategy.name);
+    }
+  }
+
+  private validate(input: SourceInput): void {
+    if (input.username !== undefined && !USERNAME_PATTERN.test(input.username)) {
+      throw new ApiError('Username must be a valid Instagram username', 400);
+    }
+    if (
+      input.businessAccountId !== undefined &&
+      input.businessAccountId !== null &&
+      !BUSINESS_ACCOUNT_ID_PATTERN.test(input.businessAccountId)
+    ) {
+      throw new ApiError('Business account ID must be a numeric Instagram user ID', 400);
+    }
+    if (input.name !== undefined && !input.name.trim()) {
+      throw new ApiError('Name must not be empty', 400);
+    }
+    if (input.settings !== undefined && typeof input.settings !== 'object') {
+      throw new ApiError('Settings must be an object', 400);
+    }
+    if (
+      input.settings?.imageUpload !== undefined &&
+      typeof input.settings.imageUpload !== 'boolean'
+    ) {
+      throw new ApiError('settings.imageUpload must be a boolean', 400);
+    }
+    if (
+      input.settings?.publishMode !== undefined &&
+      !PUBLISH_MODES.includes(input.settings.publishMode)
+    ) {
+      throw new ApiError(`settings.publishMode must be one of: ${PUBLISH_MODES.join(', ')}`, 400);
+    }
+    if (
+      input.settings?.promptTemplate !== undefined &&
+      (typeof input.settings.promptTemplate !== 'string' ||
+        !promptTemplateService.has(input.settings.promptTemplate))
+    ) {
+      throw new ApiError('settings.promptTemplate must be the ID of a prompt template', 400);
+    }
+    if (input.settings?.fetchStrategies !== undefined) {
+      this.validateStrategies(input.settings.fetchStrategies);
+    }
+  }
+
+  /**
+   * Registers a new source
+   * @param input - Username is required, the ID is generated when not given
+   */
+  public create(input: SourceInput): InstagramSource {
+    if (!input.username) {
+      throw new ApiError('Username is required', 400);
+    }
+    if (input.id !== undefined && !SOURCE_ID_PATTERN.test(input.id)) {
+      throw new ApiError('Source ID may only contain letters, digits, dashes and underscores', 400);
+    }
+    this.validate(input);
+
+    const id = input.id || uuidv4();
+    if (this.sources.has(id)) {
+      throw new ApiError(`Source already exists: ${id}`, 409);
+    }
+
+    const now = new Date().toISOString();
+    const source: InstagramSource = {
+      id,
+      name: input.name?.trim() || input.username,
+      username: input.username,
+      accessToken: input.accessToken || undefined,
+      businessAccountId: input.businessAccountId || undefined,
+      settings: { ...DEFAULT_SETTINGS, ...input.settings },
+      createdAt: now,
+      updatedAt: now,
+    };
+
+    this.sources.set(id, source);
+    this.persist();
+
+    logger.info(`Registered Instagram source ${id} for username: ${source.username}`);
+    this.notify(id, 'created');
+    return source;
+  }
+
+  /**
+   * Updates a source; settings are merged, a `null` access token or business account ID removes it
+   * @param id - The source ID
+   * @param input - Fields to change
+   */
+  public update(id: string, input: SourceInput): InstagramSource {
+    const existing = this.get(id);
+    this.validate(input);
+
+    const source: InstagramSource = {
+      ...existing,
+      name: input.name?.trim() || existing.name,
+      username: input.username || existing.username,
+      accessToken:
+        input.accessToken === null ? undefined : input.accessToken || existing.accessToken,
+      businessAccountId:
+        input.businessAccountId === null
+          ? undefined
+          : input.businessAccountId || existing.businessAccountId,
+      settings: { ...existing.settings, ...input.settings },
+      updatedAt: new Date().toISOString(),
+    };
+
+    this.sources.set(id, source);
+    this.instagramServices.delete(id);
+    this.persist();
+
+    logger.info(`Updated Instagram source ${id}`);
+    this.notify(id, 'updated');
+    return source;
+  }
+
+  /**
+   * Removes a source from the registry
+   * @param id - The source ID
+   */
+  public remove(id: string): void {
+    this.get(id);
+
+    this.sources.delete(id);
+    this.instagramServices.delete(id);
+    this.persist();
+
+    logger.info(`Removed Instagram source ${id}`);
+    this.notify(id, 'removed');
+  }
+}
+
+export const sourceService = new SourceService();
@@ -0,0 +1,16 @@
+/**
+ * Cleans up the text returned by a model, which may quote the tweet
+ * @param text - The model output
+ * @throws Error if the output is empty
+ */
+export const cleanOutput = (text: string): string => {
+  const summary = text
+    .trim()
+    .replace(/^"([\s\S]*)"$/, '$1')
+    .trim();
+  if (!summary) {
+    throw new Error('The model returned an empty summary');
+  }
+
+  return summary;
+};
@@ -0,0 +1,55 @@
+import { GoogleGenerativeAI } from '@google/generative-ai';
+import logger from '../../utils/logger';
+import { SummarizationProvider, SummarizeOptions } from '../../interfaces/llm.interface';
+import { cleanOutput } from './common';
+
+export class GeminiSummarizer implements SummarizationProvider {
+  public readonly name = 'gemini' as const;
+  private client: GoogleGenerativeAI | null = null;
+  private clientKey?: string;
+
+  /**
+   * The model, configurable with `GEMINI_MODEL`
+   */
+  public get model(): string {
+    return process.env.GEMINI_MODEL || 'gemini-2.0-flash';
+  }
+
+  public isConfigured(): boolean {
+    return Boolean(process.env.GEMINI_API_KEY);
+  }
+
+  /**
+   * Creates the client on first use, so a missing key only matters when Gemini is tried
+   */
+  private getClient(): GoogleGenerativeAI {
+    const apiKey = process.env.GEMINI_API_KEY;
+    if (!apiKey) {
+      throw new Error('GEMINI_API_KEY is not defined in environment variables');
+    }
+    if (!this.client || this.clientKey !== apiKey) {
+      this.client = new GoogleGenerativeAI(apiKey);
+      this.clientKey = apiKey;
+    }
+
+    return this.client;
+  }
+
+  public async summarize(
+    _text: string,
+    _maxLength: number,
+    prompt: string,
+    options: SummarizeOptions = {}
+  ): Promise<string> {
+    const model = this.getClient().getGenerativeModel({
+      model: this.model,
+      generationConfig: { temperature: options.temperature },
+    });
+    logger.debug(`Sending request to Gemini API with the ${this.model} model`);
+
+    const result = await model.generateContent(prompt);
+    return cleanOutput(result.response.text());
+  }
+}
+
+export const geminiSummarizer = new GeminiSummarizer();
@@ -0,0 +1,38 @@
+import logger from '../../utils/logger';
+import { SummarizationProvider, SummarizationProviderName } from '../../interfaces/llm.interface';
+import { geminiSummarizer } from './gemini.summarizer';
+import { openAISummarizer } from './openai.summarizer';
+import { extractiveSummarizer } from './extractive.summarizer';
+
+export const SUMMARIZERS: Record<SummarizationProviderName, SummarizationProvider> = {
+  gemini: geminiSummarizer,
+  openai: openAISummarizer,
+  extractive: extractiveSummarizer,
+};
+
+export const SUMMARIZATION_PROVIDER_NAMES = Object.keys(SUMMARIZERS) as SummarizationProviderName[];
+
+const DEFAULT_PROVIDERS: SummarizationProviderName[] = ['gemini', 'extractive'];
+
+/**
+ * Builds the provider chain from `LLM_PROVIDERS` (e.g. `openai,gemini,extractive`)
+ * The first provider is the primary, the next ones are tried in order when it fails
+ */
+export const getProviderChain = (): SummarizationProvider[] => {
+  const configured = (process.env.LLM_PROVIDERS || '')
+    .split(',')
+    .map(name => name.trim())
+    .filter(name => name.length > 0);
+
+  const names = configured.filter((name): name is SummarizationProviderName => {
+    if (!SUMMARIZATION_PROVIDER_NAMES.includes(name as SummarizationProviderName)) {
+      logger.warn(`Ignoring unknown summarization provider in LLM_PROVIDERS: ${name}`);
+      return false;
+    }
+    return true;
+  });
+
+  return Array.from(new Set(names.length > 0 ? names : DEFAULT_PROVIDERS)).map(
+    name => SUMMARIZERS[name]
+  );
+};
@@ -0,0 +1,69 @@
+import axios from 'axios';
+import logger from '../../utils/logger';
+import { SummarizationProvider, SummarizeOptions } from '../../interfaces/llm.interface';
+import { cleanOutput } from './common';
+
+const DEFAULT_BASE_URL = 'https://api.openai.com/v1';
+
+/** Chat completion response, with only the fields read here; servers may leave any of them out */
+interface ChatCompletionResponse {
+  choices?: { message?: { content?: string | null } }[];
+}
+
+/**
+ * Summarizes with any server that implements the OpenAI chat completions API, such as vLLM,
+ * Ollama, LM Studio or llama.cpp for self-hosted models
+ */
+export class OpenAISummarizer implements SummarizationProvider {
+  public readonly name = 'openai' as const;
+
+  /**
+   * The model, configurable with `OPENAI_MODEL`
+   */
+  public get model(): string {
+    return process.env.OPENAI_MODEL || 'gpt-4o-mini';
+  }
+
+  private get baseUrl(): string {
+    return (process.env.OPENAI_BASE_URL || DEFAULT_BASE_URL).replace(/\/+$/, '');
+  }
+
+  /**
+   * Self-hosted servers need `OPENAI_BASE_URL`, often without a key; the OpenAI API needs a key
+   */
+  public isConfigured(): boolean {
+    return Boolean(process.env.OPENAI_BASE_URL || process.env.OPENAI_API_KEY);
+  }
+
+  public async summarize(
+    _text: string,
+    _maxLength: number,
+    prompt: string,
+    options: SummarizeOptions = {}
+  ): Promise<string> {
+    const apiKey = process.env.OPENAI_API_KEY;
+    logger.debug(`Sending request to ${this.baseUrl} with the ${this.model} model`);
+
+    const response = await axios.post<ChatCompletionResponse>(
+      `${this.baseUrl}/chat/completions`,
+      {
+        model: this.model,
+        messages: [{ role: 'user', content: prompt }],
+        temperature: options.temperature ?? 0.7,
+      },
+      {
+        headers: apiKey ? { Authorization: `Bearer ${apiKey}` } : {},
+        timeout: Number(process.env.OPENAI_TIMEOUT_MS) || 30000,
+      }
+    );
+
+    const content = response.data?.choices?.[0]?.message?.content;
+    if (typeof content !== 'string') {
+      throw new Error('The OpenAI-compatible server returned no message');
+    }
+
+    return cleanOutput(content);
+  }
+}
+
+export const openAISummarizer = new OpenAISummarizer();
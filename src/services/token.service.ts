@@ -0,0 +1,254 @@
+import crypto from 'crypto';
+import logger from '../utils/logger';
+import { ApiError } from '../utils/errorHandler';
+import JsonStore from '../utils/jsonStore';
+import { sourceService } from './source.service';
+import { toGraphApiError } from './fetchers/graphApi';
+import { HttpTransport } from './fetchers/transport';
+import { RefreshTokenResponse, TokenRecord, TokenStatus } from '../interfaces/token.interface';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const DEFAULT_TOKEN_API_URL = 'https://graph.instagram.com';
+
+interface TokenState {
+  tokens: TokenRecord[];
+}
+
+const readNumber = (name: string, fallback: number): number => {
+  const value = Number(process.env[name]);
+  return Number.isFinite(value) && value > 0 ? value : fallback;
+};
+
+/**
+ * Gets the base URL of the token endpoints, configurable with `INSTAGRAM_TOKEN_API_URL`
+ * so refreshes can be pointed at a local stand-in
+ */
+export const getTokenApiUrl = (): string =>
+  (process.env.INSTAGRAM_TOKEN_API_URL || DEFAULT_TOKEN_API_URL).replace(/\/+$/, '');
+
+const fingerprint = (token: string): string =>
+  crypto.createHash('sha256').update(token).digest('hex').slice(0, 16);
+
+class TokenService {
+  private store: JsonStore<TokenState>;
+  private records: Map<string, TokenRecord>;
+  // Refreshes are never sent to the fixture recorder, the response carries a live token
+  private transport = new HttpTransport();
+  private refreshing: Map<string, Promise<TokenStatus>> = new Map();
+  private timer: NodeJS.Timeout | null = null;
+
+  /**
+   * Creates the token lifecycle manager and loads the persisted token records
+   */
+  constructor() {
+    this.store = new JsonStore<TokenState>('tokens.json', () => ({ tokens: [] }));
+    this.records = new Map(this.store.read().tokens.map(record => [record.sourceId, record]));
+  }
+
+  private get refreshWindowMs(): number {
+    return readNumber('INSTAGRAM_TOKEN_REFRESH_DAYS', 7) * DAY_MS;
+  }
+
+  private get retryDelayMs(): number {
+    return readNumber('INSTAGRAM_TOKEN_RETRY_MS', DAY_MS);
+  }
+
+  private persist(): void {
+    this.store.write({ tokens: Array.from(this.records.values()) });
+  }
+
+  /**
+   * Gets the record of the current token of a source
+   * A record of a previous token is discarded, for example after the token was replaced by hand
+   * @param sourceId - The source ID
+   * @param token - The current access token of the source
+   */
+  private getRecord(sourceId: string, token: string): TokenRecord {
+    const existing = this.records.get(sourceId);
+    if (existing && existing.fingerprint === fingerprint(token)) {
+      return existing;
+    }
+
+    return { sourceId, fingerprint: fingerprint(token) };
+  }
+
+  private saveRecord(record: TokenRecord): void {
+    this.records.set(record.sourceId, record);
+    this.persist();
+  }
+
+  /**
+   * Gets the expiry and refresh state of the access token of a source
+   * @param sourceId - The source ID
+   * @throws ApiError with status 404 if the source does not exist
+   */
+  public getStatus(sourceId: string): TokenStatus {
+    const source = sourceService.get(sourceId);
+    if (!source.accessToken) {
+      return { sourceId, hasAccessToken: false, expired: false };
+    }
+
+    const record = this.getRecord(sourceId, source.accessToken);
+    const now = Date.now();
+    const expiresAt = record.expiresAt ? new Date(record.expiresAt).getTime() : undefined;
+    // A failed refresh is not tried again before the retry delay has passed
+    const retryAt =
+      record.lastError && record.lastAttemptAt
+        ? new Date(record.lastAttemptAt).getTime() + this.retryDelayMs
+        : undefined;
+    const refreshAt = Math.max(
+      now,
+      expiresAt !== undefined ? expiresAt - this.refreshWindowMs : now,
+      retryAt ?? now
+    );
+
+    return {
+      sourceId,
+      hasAccessToken: true,
+      expiresAt: record.expiresAt,
+      expiresInDays:
+        expiresAt !== undefined ? Math.max(0, Math.floor((expiresAt - now) / DAY_MS)) : undefined,
+      expired: expiresAt !== undefined && expiresAt <= now,
+      refreshedAt: record.refreshedAt,
+      nextRefreshAt:
+        !source.businessAccountId && (expiresAt !== undefined || retryAt !== undefined)
+          ? new Date(refreshAt).toISOString()
+          : undefined,
+      lastAttemptAt: record.lastAttemptAt,
+      lastError: record.lastError,
+    };
+  }
+
+  /**
+   * Exchanges the access token of a source for a new long-lived token
+   * The new token replaces the old one in the source registry
+   * @param sourceId - The source ID
+   * @throws ApiError with status 400 if the source has no token, 502 if the refresh fails
+   */
+  public refresh(sourceId: string): Promise<TokenStatus> {
+    const pending = this.refreshing.get(sourceId);
+    if (pending) {
+      return pending;
+    }
+
+    const refresh = this.runRefresh(sourceId).finally(() => this.refreshing.delete(sourceId));
+    this.refreshing.set(sourceId, refresh);
+    return refresh;
+  }
+
+  private async runRefresh(sourceId: string): Promise<TokenStatus> {
+    const source = sourceService.get(sourceId);
+    if (!source.accessToken) {
+      throw new ApiError(`Source ${sourceId} has no access token`, 400);
+    }
+
+    const record = this.getRecord(sourceId, source.accessToken);
+    const attemptedAt = new Date();
+
+    let data: RefreshTokenResponse;
+    try {
+      const response = await this.transport.get<RefreshTokenResponse>(
+        `${getTokenApiUrl()}/refresh_access_token?grant_type=ig_refresh_token` +
+          `&access_token=${encodeURIComponent(source.accessToken)}`,
+        { timeout: 30000 }
+      );
+      data = response.data;
+
+      if (!data?.access_token || !Number.isFinite(data.expires_in)) {
+        throw new Error('Refresh response is missing access_token or expires_in');
+      }
+    } catch (error) {
+      const errorMessage = toGraphApiError(error).message;
+      logger.warn(
+        `Failed to refresh the Instagram access token of source ${sourceId}: ${errorMessage}`
+      );
+
+      this.saveRecord({
+        ...record,
+        lastAttemptAt: attemptedAt.toISOString(),
+        lastError: errorMessage,
+      });
+      throw new ApiError(`Token refresh failed: ${errorMessage}`, 502);
+    }
+
+    sourceService.update(sourceId, { accessToken: data.access_token });
+    this.saveRecord({
+      sourceId,
+      fingerprint: fingerprint(data.access_token),
+      expiresAt: new Date(attemptedAt.getTime() + data.expires_in * 1000).toISOString(),
+      refreshedAt: attemptedAt.toISOString(),
+      lastAttemptAt: attemptedAt.toISOString(),
+    });
+
+    logger.info(`Refreshed the Instagram access token of source ${sourceId}`);
+    return this.getStatus(sourceId);
+  }
+
+  /**
+   * Refreshes every token that expires within the refresh window or whose expiry is unknown
+   * Failures are logged and retried after `INSTAGRAM_TOKEN_RETRY_MS`. Sources with a business
+   * account ID are skipped, their Facebook tokens cannot be refreshed by the Instagram endpoint
+   */
+  public async refreshDueTokens(): Promise<void> {
+    for (const source of sourceService.list()) {
+      if (!source.accessToken || source.businessAccountId) {
+        continue;
+      }
+
+      const status = this.getStatus(source.id);
+      if (status.expired) {
+        logger.warn(
+          `Instagram access token of source ${source.id} expired at ${status.expiresAt}, ` +
+            'a new token has to be set'
+        );
+        continue;
+      }
+
+      const due = !status.nextRefreshAt || new Date(status.nextRefreshAt).getTime() <= Date.now();
+      if (due) {
+        await this.refresh(source.id).catch(() => undefined);
+      }
+    }
+
+    // Drop records of removed sources
+    const sourceIds = new Set(sourceService.list().map(source => source.id));
+    const stale = Array.from(this.records.keys()).filter(id => !sourceIds.has(id));
+    if (stale.length > 0) {
+      stale.forEach(id => this.records.delete(id));
+      this.persist();
+    }
+  }
+
+  /**
+   * Starts the in-process refresh schedule, checking the tokens right away and then periodically
+   * The interval is configurable with `INSTAGRAM_TOKEN_CHECK_INTERVAL_MS`
+   */
+  public start(): void {
+    if (this.timer) {
+      return;
+    }
+
+    const intervalMs = readNumber('INSTAGRAM_TOKEN_CHECK_INTERVAL_MS', 60 * 60 * 1000);
+    const check = () =>
+      this.refreshDueTokens().catch(error => {
+        const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+        logger.error(`Token refresh check failed: ${errorMessage}`);
+      });
+
+    this.timer = setInterval(check, intervalMs);
+    // The schedule alone should not keep the process alive
+    this.timer.unref();
+    check();
+
+    logger.info(`Token refresh scheduled every ${Math.round(intervalMs / 60000)} minutes`);
+  }
+
+  public stop(): void {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+  }
+}
+
+export const tokenService = new TokenService();
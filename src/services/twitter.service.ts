@@ -1,14 +1,119 @@
-import { TwitterApi } from 'twitter-api-v2';
+import { ApiRequestError, ApiResponseError, TwitterApi } from 'twitter-api-v2';
 import dotenv from 'dotenv';
 import axios from 'axios';
 import fs from 'fs';
 import path from 'path';
 import { v4 as uuidv4 } from 'uuid';
 import logger from '../utils/logger';
+import { getTweetLength } from '../utils/tweetLength';
 import { Stream } from 'stream';
+import {
+  DownloadedImage,
+  ImageFormat,
+  ThreadResult,
+  ThreadTweet,
+  TweetPreview,
+  TweetResult,
+} from '../interfaces/twitter.interface';
 
 dotenv.config();
 
+export const MAX_TWEET_LENGTH = 280;
+// Twitter rejects images above 5 MB
+export const MAX_IMAGE_BYTES = 5 * 1024 * 1024;
+
+const IMAGE_SIGNATURES: {
+  format: ImageFormat;
+  contentType: string;
+  test: (header: Buffer) => boolean;
+}[] = [
+  {
+    format: 'jpeg',
+    contentType: 'image/jpeg',
+    test: header => header[0] === 0xff && header[1] === 0xd8 && header[2] === 0xff,
+  },
+  {
+    format: 'png',
+    contentType: 'image/png',
+    test: header => header.subarray(0, 8).equals(Buffer.from('89504e470d0a1a0a', 'hex')),
+  },
+  {
+    format: 'gif',
+    contentType: 'image/gif',
+    test: header => header.subarray(0, 4).toString('ascii') === 'GIF8',
+  },
+  {
+    format: 'webp',
+    contentType: 'image/webp',
+    test: header =>
+      header.subarray(0, 4).toString('ascii') === 'RIFF' &&
+      header.subarray(8, 12).toString('ascii') === 'WEBP',
+  },
+];
+
+/**
+ * Error of an image download, with the HTTP status of the image request if there was a response
+ */
+class ImageDownloadError extends Error {
+  constructor(
+    message: string,
+    public statusCode?: number,
+    public retryable = false
+  ) {
+    super(message);
+    this.name = 'ImageDownloadError';
+  }
+}
+
+const isTransientStatus = (status: number): boolean => status === 429 || status >= 500;
+
+/**
+ * Describes why posting a tweet failed and whether trying again later may succeed
+ * Network errors, 5xx responses and rate limits are transient
+ * @param error The error thrown by the Twitter client or the image download
+ */
+const describeError = (
+  error: unknown
+): Pick<TweetResult, 'error' | 'statusCode' | 'retryable' | 'retryAt'> => {
+  const errorMessage = error instanceof Error ? error.message : String(error);
+
+  if (error instanceof ApiResponseError) {
+    return {
+      error: errorMessage,
+      statusCode: error.code,
+      retryable: isTransientStatus(error.code),
+      retryAt:
+        error.code === 429 && error.rateLimit?.reset
+          ? new Date(error.rateLimit.reset * 1000).toISOString()
+          : undefined,
+    };
+  }
+  if (error instanceof ApiRequestError) {
+    return { error: errorMessage, retryable: true };
+  }
+  if (error instanceof ImageDownloadError) {
+    return { error: errorMessage, statusCode: error.statusCode, retryable: error.retryable };
+  }
+
+  return { error: errorMessage, retryable: false };
+};
+
+/**
+ * Detects the image format from the first bytes of a file
+ * @param filePath Path of the file
+ */
+const detectImageFormat = (filePath: string) => {
+  const header = Buffer.alloc(12);
+  const fd = fs.openSync(filePath, 'r');
+  try {
+    fs.readSync(fd, header, 0, header.length, 0);
+  } finally {
+    fs.closeSync(fd);
+  }
+
+  return IMAGE_SIGNATURES.find(signature => signature.test(header));
+};
+
 class TwitterService {
   private client: TwitterApi;
   private tempDir: string;
@@ -39,22 +144,46 @@ class TwitterService {
     }
   }
 
-  async postTweet(tweetText: string) {
+  /**
+   * Checks the tweet text against the character limit, counting characters like Twitter does
+   * @param tweetText The text content of the tweet
+   * @returns The reason the text would be rejected, if any
+   */
+  private checkLength(tweetText: string): string | undefined {
+    const length = getTweetLength(tweetText);
+    if (length > MAX_TWEET_LENGTH) {
+      logger.warn(`Tweet exceeds character limit: ${length} characters`);
+      return `Tweet must be ${MAX_TWEET_LENGTH} characters or less`;
+    }
+
+    return undefined;
+  }
+
+  /**
+   * Posts a text-only tweet
+   * @param tweetText The text content of the tweet
+   * @param replyTo ID of the tweet this one replies to, for the tweets of a thread
+   * @returns Result of the tweet posting operation
+   */
+  async postTweet(tweetText: string, replyTo?: string): Promise<TweetResult> {
     try {
       logger.info(
         `Attempting to post tweet: ${tweetText.substring(0, 30)}${tweetText.length > 30 ? '...' : ''}`
       );
 
-      if (tweetText.length > 280) {
-        logger.warn(`Tweet exceeds character limit: ${tweetText.length} characters`);
+      const lengthError = this.checkLength(tweetText);
+      if (lengthError) {
         return {
           success: false,
           message: 'Tweet exceeds character limit',
-          error: 'Tweet must be 280 characters or less',
+          error: lengthError,
+          retryable: false,
         };
       }
 
-      const response = await this.client.v2.tweet(tweetText);
+      const response = replyTo
+        ? await this.client.v2.tweet(tweetText, { reply: { in_reply_to_tweet_id: replyTo } })
+        : await this.client.v2.tweet(tweetText);
       logger.info(`Tweet posted successfully with ID: ${response.data.id}`);
       return {
         success: true,
@@ -62,21 +191,23 @@ class TwitterService {
         data: response.data,
       };
     } catch (error) {
-      const errorMessage = error instanceof Error ? error.message : String(error);
-      logger.error(`Error posting tweet: ${errorMessage}`);
-      return { success: false, message: 'Failed to post tweet', error: errorMessage };
+      const failure = describeError(error);
+      logger.error(`Error posting tweet: ${failure.error}`);
+      return { success: false, message: 'Failed to post tweet', ...failure };
     }
   }
 
   /**
    * Downloads an image from a URL and saves it temporarily
+   * The image must be a JPEG, PNG, GIF or WebP file of at most 5 MB
    * @param imageUrl URL of the image to download
-   * @returns Path to the downloaded image
+   * @returns The downloaded image with its detected format and size
    */
-  private async downloadImage(imageUrl: string): Promise<string> {
+  private async downloadImage(imageUrl: string): Promise<DownloadedImage> {
+    const imagePath = path.join(this.tempDir, `${uuidv4()}.img`);
+
     try {
       logger.info(`Downloading image from: ${imageUrl.substring(0, 30)}...`);
-      const imagePath = path.join(this.tempDir, `${uuidv4()}.jpg`);
       const writer = fs.createWriteStream(imagePath);
 
       const response = await axios({
@@ -87,10 +218,10 @@ class TwitterService {
 
       response.data.pipe(writer);
 
-      return new Promise((resolve, reject) => {
+      await new Promise<void>((resolve, reject) => {
         writer.on('finish', () => {
           logger.info(`Image downloaded successfully to: ${imagePath}`);
-          resolve(imagePath);
+          resolve();
         });
         writer.on('error', (err: Error) => {
           logger.error(`Error writing image to file: ${err.message}`);
@@ -101,40 +232,205 @@ class TwitterService {
           reject(err);
         });
       });
+
+      const sizeBytes = fs.statSync(imagePath).size;
+      const signature = detectImageFormat(imagePath);
+      if (!signature) {
+        const contentType = response.headers['content-type'] || 'unknown content type';
+        throw new Error(
+          `Unsupported image format (${contentType}), expected JPEG, PNG, GIF or WebP`
+        );
+      }
+      if (sizeBytes > MAX_IMAGE_BYTES) {
+        throw new Error(
+          `Image is ${(sizeBytes / 1024 / 1024).toFixed(1)} MB, Twitter accepts up to 5 MB`
+        );
+      }
+
+      return {
+        path: imagePath,
+        format: signature.format,
+        contentType: signature.contentType,
+        sizeBytes,
+      };
     } catch (error) {
+      if (fs.existsSync(imagePath)) {
+        fs.unlinkSync(imagePath);
+      }
+
       const errorMessage = error instanceof Error ? error.message : String(error);
       logger.error(`Error downloading image: ${errorMessage}`);
-      throw new Error(`Failed to download image: ${errorMessage}`);
+
+      // Network errors and 5xx/429 responses of the image host are worth retrying
+      const status = axios.isAxiosError(error) ? error.response?.status : undefined;
+      const retryable = axios.isAxiosError(error) && (!status || isTransientStatus(status));
+      throw new ImageDownloadError(`Failed to download image: ${errorMessage}`, status, retryable);
     }
   }
 
+  /**
+   * Runs every check of posting a tweet without posting it
+   * The image is downloaded and checked like for a real post, but not uploaded
+   * @param tweetText The text content of the tweet
+   * @param imageUrl URL of the image to include in the tweet, if any
+   * @returns The text, its character count and the media details, with the reasons the tweet
+   * would be rejected
+   */
+  async previewTweet(tweetText: string, imageUrl?: string): Promise<TweetPreview> {
+    const errors: string[] = [];
+
+    const lengthError = this.checkLength(tweetText);
+    if (lengthError) {
+      errors.push(lengthError);
+    }
+
+    let media: TweetPreview['media'];
+    if (imageUrl) {
+      try {
+        const image = await this.downloadImage(imageUrl);
+        fs.unlinkSync(image.path);
+        media = {
+          url: imageUrl,
+          valid: true,
+          format: image.format,
+          contentType: image.contentType,
+          sizeBytes: image.sizeBytes,
+        };
+      } catch (error) {
+        const errorMessage = error instanceof Error ? error.message : String(error);
+        errors.push(errorMessage);
+        media = { url: imageUrl, valid: false, error: errorMessage };
+      }
+    }
+
+    return {
+      text: tweetText,
+      characterCount: getTweetLength(tweetText),
+      maxCharacters: MAX_TWEET_LENGTH,
+      valid: errors.length === 0,
+      errors,
+      media,
+    };
+  }
+
+  /**
+   * Runs every check of posting a thread without posting it
+   * @param tweets The texts of the tweets, in order
+   * @param imageUrl URL of the image of the first tweet, if any
+   * @returns The preview of the first tweet with every tweet of the thread and the reasons any
+   * of them would be rejected
+   */
+  async previewThread(tweets: string[], imageUrl?: string): Promise<TweetPreview> {
+    const preview = await this.previewTweet(tweets[0], imageUrl);
+    const errors = [
+      ...tweets.flatMap((text, index) => {
+        const lengthError = this.checkLength(text);
+        return lengthError ? [`Tweet ${index + 1} of the thread: ${lengthError}`] : [];
+      }),
+      ...(preview.media?.error ? [preview.media.error] : []),
+    ];
+
+    return {
+      ...preview,
+      valid: errors.length === 0,
+      errors,
+      thread: tweets.map(text => ({ text, characterCount: getTweetLength(text) })),
+    };
+  }
+
+  /**
+   * Posts a thread as a chain of replies, attaching the image to the first tweet
+   * Posting stops at the first tweet that fails; passing the tweets posted by that attempt
+   * resumes the thread with the next tweet, replying to the last one posted
+   * @param tweets The texts of the tweets, in order
+   * @param imageUrl URL of the image of the first tweet, if any
+   * @param posted Tweets posted by an earlier attempt
+   * @returns Result of the thread posting operation, with the tweets posted so far
+   */
+  async postThread(
+    tweets: string[],
+    imageUrl?: string,
+    posted: ThreadTweet[] = []
+  ): Promise<ThreadResult> {
+    const total = tweets.length;
+
+    // Nothing is posted when any tweet is too long, so a thread never stops on a known error
+    const tooLong = tweets.findIndex(text => this.checkLength(text));
+    if (tooLong !== -1) {
+      return {
+        success: false,
+        message: 'Tweet exceeds character limit',
+        error: `Tweet ${tooLong + 1} of the thread: ${this.checkLength(tweets[tooLong])}`,
+        retryable: false,
+        posted,
+        total,
+      };
+    }
+
+    logger.info(`Posting thread of ${total} tweets, ${posted.length} already posted`);
+    const thread = [...posted];
+    for (const text of tweets.slice(posted.length)) {
+      const replyTo = thread[thread.length - 1]?.id;
+      const result =
+        replyTo || !imageUrl
+          ? await this.postTweet(text, replyTo)
+          : await this.postTweetWithMedia(text, imageUrl);
+
+      if (!result.success || !result.data) {
+        logger.warn(`Thread stopped after ${thread.length} of ${total} tweets: ${result.error}`);
+        return {
+          success: false,
+          message: `Posted ${thread.length} of ${total} tweets of the thread`,
+          error: result.error,
+          statusCode: result.statusCode,
+          retryable: result.retryable,
+          retryAt: result.retryAt,
+          posted: thread,
+          total,
+        };
+      }
+      thread.push({ id: result.data.id, text });
+    }
+
+    logger.info(`Thread posted successfully, starting with tweet ${thread[0]?.id}`);
+    return {
+      success: true,
+      message: `Thread of ${total} tweets posted successfully`,
+      posted: thread,
+      total,
+    };
+  }
+
   /**
    * Posts a tweet with an image
    * @param tweetText The text content of the tweet
    * @param imageUrl URL of the image to include in the tweet
    * @returns Result of the tweet posting operation
    */
-  async postTweetWithMedia(tweetText: string, imageUrl: string) {
-    let imagePath: string | null = null;
+  async postTweetWithMedia(tweetText: string, imageUrl: string): Promise<TweetResult> {
+    let image: DownloadedImage | null = null;
 
     try {
       logger.info(
         `Attempting to post tweet with media: ${tweetText.substring(0, 30)}${tweetText.length > 30 ? '...' : ''}`
       );
 
-      if (tweetText.length > 280) {
-        logger.warn(`Tweet exceeds character limit: ${tweetText.length} characters`);
+      const lengthError = this.checkLength(tweetText);
+      if (lengthError) {
         return {
           success: false,
           message: 'Tweet exceeds character limit',
-          error: 'Tweet must be 280 characters or less',
+          error: lengthError,
+          retryable: false,
         };
       }
 
-      imagePath = await this.downloadImage(imageUrl);
+      image = await this.downloadImage(imageUrl);
       logger.info('Uploading media to Twitter');
 
-      const mediaId = await this.client.v1.uploadMedia(imagePath);
+      const mediaId = await this.client.v1.uploadMedia(image.path, {
+        mimeType: image.contentType,
+      });
       logger.info(`Media uploaded successfully with ID: ${mediaId}`);
 
       const response = await this.client.v2.tweet({
@@ -149,17 +445,17 @@ class TwitterService {
         data: response.data,
       };
     } catch (error) {
-      const errorMessage = error instanceof Error ? error.message : String(error);
-      logger.error(`Error posting tweet with media: ${errorMessage}`);
+      const failure = describeError(error);
+      logger.error(`Error posting tweet with media: ${failure.error}`);
       return {
         success: false,
         message: 'Failed to post tweet with media',
-        error: errorMessage,
+        ...failure,
       };
     } finally {
-      if (imagePath && fs.existsSync(imagePath)) {
-        logger.debug(`Cleaning up temporary image file: ${imagePath}`);
-        fs.unlinkSync(imagePath);
+      if (image && fs.existsSync(image.path)) {
+        logger.debug(`Cleaning up temporary image file: ${image.path}`);
+        fs.unlinkSync(image.path);
       }
     }
   }
@@ -0,0 +1,379 @@
+import axios from 'axios';
+import { createHmac, randomBytes } from 'crypto';
+import { v4 as uuidv4 } from 'uuid';
+import logger from '../utils/logger';
+import { ApiError } from '../utils/errorHandler';
+import JsonStore from '../utils/jsonStore';
+import { jobQueue, JobError } from './jobQueue.service';
+import { Job } from '../interfaces/job.interface';
+import {
+  PublicWebhook,
+  Webhook,
+  WebhookDelivery,
+  WebhookDeliveryFilters,
+  WebhookEvent,
+  WebhookEventData,
+  WebhookInput,
+  WebhookJobPayload,
+  WebhookPayload,
+} from '../interfaces/webhook.interface';
+
+export const WEBHOOK_JOB = 'webhook';
+export const WEBHOOK_EVENTS: WebhookEvent[] = [
+  'post.detected',
+  'summary.generated',
+  'tweet.published',
+  'tweet.failed',
+];
+// Oldest deliveries are dropped from the log beyond this
+export const MAX_WEBHOOK_DELIVERIES = 1000;
+
+const MAX_DESCRIPTION_LENGTH = 200;
+
+interface WebhookState {
+  webhooks: Webhook[];
+  deliveries: WebhookDelivery[];
+}
+
+const readNumber = (name: string, fallback: number): number => {
+  const value = Number(process.env[name]);
+  return Number.isFinite(value) && value > 0 ? value : fallback;
+};
+
+/**
+ * Signs a delivery body, sent as `X-Webhook-Signature: sha256=<hex>`
+ * Receivers recompute the HMAC-SHA256 of `<timestamp>.<body>` with the webhook secret
+ * @param secret - The webhook secret
+ * @param timestamp - Unix time in seconds, sent as `X-Webhook-Timestamp`
+ * @param body - The raw JSON body
+ */
+export const signPayload = (secret: string, timestamp: number, body: string): string =>
+  `sha256=${createHmac('sha256', secret).update(`${timestamp}.${body}`).digest('hex')}`;
+
+// Timeouts, rate limits and server errors can pass; other responses will not change on retry
+const isTransientStatus = (statusCode: number): boolean =>
+  statusCode === 408 || statusCode === 429 || statusCode >= 500;
+
+class WebhookService {
+  private store: JsonStore<WebhookState>;
+  private webhooks: Map<string, Webhook>;
+  private deliveries: Map<string, WebhookDelivery>;
+
+  /**
+   * Creates the webhook registry and loads the persisted webhooks and delivery log
+   */
+  constructor() {
+    this.store = new JsonStore<WebhookState>('webhooks.json', () => ({
+      webhooks: [],
+      deliveries: [],
+    }));
+    const state = this.store.read();
+    this.webhooks = new Map(state.webhooks.map(webhook => [webhook.id, webhook]));
+    this.deliveries = new Map(state.deliveries.map(delivery => [delivery.id, delivery]));
+
+    jobQueue.register<WebhookJobPayload>(WEBHOOK_JOB, job => this.runDeliveryJob(job));
+  }
+
+  private get timeoutMs(): number {
+    return readNumber('WEBHOOK_TIMEOUT_MS', 10 * 1000);
+  }
+
+  private persist(): void {
+    const deliveries = Array.from(this.deliveries.values());
+    deliveries
+      .slice(0, Math.max(0, deliveries.length - MAX_WEBHOOK_DELIVERIES))
+      .forEach(delivery => this.deliveries.delete(delivery.id));
+
+    this.store.write({
+      webhooks: Array.from(this.webhooks.values()),
+      deliveries: Array.from(this.deliveries.values()),
+    });
+  }
+
+  /**
+   * Strips the secret from a webhook before it leaves the service
+   * @param webhook - The stored webhook
+   */
+  public toPublic(webhook: Webhook): PublicWebhook {
+    const { id, url, events, active, description, createdAt, updatedAt } = webhook;
+    return { id, url, events, active, description, createdAt, updatedAt };
+  }
+
+  public list(): Webhook[] {
+    return Array.from(this.webhooks.values());
+  }
+
+  /**
+   * Gets a webhook by its ID
+   * @param id - The webhook ID
+   * @throws ApiError with status 404 if the webhook does not exist
+   */
+  public get(id: string): Webhook {
+    const webhook = this.webhooks.get(id);
+    if (!webhook) {
+      throw new ApiError(`Webhook not found: ${id}`, 404);
+    }
+    return webhook;
+  }
+
+  private validate(input: WebhookInput): void {
+    if (input.url !== undefined) {
+      let url: URL | undefined;
+      try {
+        url = new URL(input.url);
+      } catch {
+        url = undefined;
+      }
+      if (!url || !['http:', 'https:'].includes(url.protocol)) {
+        throw new ApiError('URL must be an http or https URL', 400);
+      }
+    }
+    if (
+      input.events !== undefined &&
+      (!Array.isArray(input.events) ||
+        input.events.length === 0 ||
+        input.events.some(event => !WEBHOOK_EVENTS.includes(event)))
+    ) {
+      throw new ApiError(`Events must be a non-empty list of: ${WEBHOOK_EVENTS.join(', ')}`, 400);
+    }
+    if (
+      input.secret !== undefined &&
+      (typeof input.secret !== 'string' || input.secret.length < 16)
+    ) {
+      throw new ApiError('Secret must be a string of at least 16 characters', 400);
+    }
+    if (input.active !== undefined && typeof input.active !== 'boolean') {
+      throw new ApiError('Active must be a boolean', 400);
+    }
+    if (
+      input.description !== undefined &&
+      input.description !== null &&
+      (typeof input.description !== 'string' || input.description.length > MAX_DESCRIPTION_LENGTH)
+    ) {
+      throw new ApiError(
+        `Description must be a string of at most ${MAX_DESCRIPTION_LENGTH} characters`,
+        400
+      );
+    }
+  }
+
+  /**
+   * Registers a webhook
+   * @param input - URL is required; every event is delivered and a secret is generated when not given
+   */
+  public create(input: WebhookInput): Webhook {
+    if (!input.url) {
+      throw new ApiError('URL is required', 400);
+    }
+    this.validate(input);
+
+    const now = new Date().toISOString();
+    const webhook: Webhook = {
+      id: uuidv4(),
+      url: input.url,
+      events: input.events ? Array.from(new Set(input.events)) : [...WEBHOOK_EVENTS],
+      secret: input.secret || randomBytes(32).toString('hex'),
+      active: input.active ?? true,
+      description: input.description || undefined,
+      createdAt: now,
+      updatedAt: now,
+    };
+
+    this.webhooks.set(webhook.id, webhook);
+    this.persist();
+
+    logger.info(`Registered webhook ${webhook.id} for ${webhook.events.join(', ')}`);
+    return webhook;
+  }
+
+  /**
+   * Updates a webhook; a `null` description removes it
+   * @param id - The webhook ID
+   * @param input - Fields to change
+   */
+  public update(id: string, input: WebhookInput): Webhook {
+    const existing = this.get(id);
+    this.validate(input);
+
+    const webhook: Webhook = {
+      ...existing,
+      url: input.url || existing.url,
+      events: input.events ? Array.from(new Set(input.events)) : existing.events,
+      secret: input.secret || existing.secret,
+      active: input.active ?? existing.active,
+      description:
+        input.description === null ? undefined : input.description || existing.description,
+      updatedAt: new Date().toISOString(),
+    };
+
+    this.webhooks.set(id, webhook);
+    this.persist();
+
+    logger.info(`Updated webhook ${id}`);
+    return webhook;
+  }
+
+  /**
+   * Removes a webhook; its deliveries still waiting for a retry fail on their next attempt
+   * @param id - The webhook ID
+   */
+  public remove(id: string): void {
+    this.get(id);
+
+    this.webhooks.delete(id);
+    this.persist();
+
+    logger.info(`Removed webhook ${id}`);
+  }
+
+  /**
+   * Queues an event for every active webhook subscribed to it
+   * Deliveries are sent in the background, so emitting never delays or fails the caller
+   * @param event - The event type
+   * @param data - The event data
+   * @returns The queued deliveries
+   */
+  public emit(event: WebhookEvent, data: WebhookEventData): WebhookDelivery[] {
+    const subscribed = this.list().filter(
+      webhook => webhook.active && webhook.events.includes(event)
+    );
+    if (subscribed.length === 0) {
+      return [];
+    }
+
+    const now = new Date().toISOString();
+    const payload: WebhookPayload = { id: uuidv4(), type: event, createdAt: now, data };
+
+    try {
+      const deliveries = subscribed.map(webhook => {
+        const delivery: WebhookDelivery = {
+          id: uuidv4(),
+          webhookId: webhook.id,
+          event,
+          payload,
+          status: 'pending',
+          attempts: [],
+          jobId: '',
+          createdAt: now,
+          updatedAt: now,
+        };
+        this.deliveries.set(delivery.id, delivery);
+        delivery.jobId = jobQueue.enqueue<WebhookJobPayload>(WEBHOOK_JOB, {
+          deliveryId: delivery.id,
+        }).id;
+        return delivery;
+      });
+      this.persist();
+
+      logger.info(`Queued ${event} event ${payload.id} for ${deliveries.length} webhooks`);
+      return deliveries;
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+      logger.error(`Failed to queue ${event} event: ${errorMessage}`);
+      return [];
+    }
+  }
+
+  /**
+   * Lists the delivery log of a webhook, newest first
+   * @param webhookId - The webhook ID
+   * @param filters - Status filter and maximum number of deliveries
+   * @throws ApiError with status 404 if the webhook does not exist
+   */
+  public listDeliveries(
+    webhookId: string,
+    filters: WebhookDeliveryFilters = {}
+  ): WebhookDelivery[] {
+    this.get(webhookId);
+
+    return Array.from(this.deliveries.values())
+      .filter(
+        delivery =>
+          delivery.webhookId === webhookId &&
+          (!filters.status || delivery.status === filters.status)
+      )
+      .reverse()
+      .slice(0, filters.limit);
+  }
+
+  /**
+   * Sends one attempt of a delivery and logs it
+   * @param job - The delivery job
+   * @throws JobError when the receiver does not answer with 2xx, retryable for network errors,
+   * timeouts, 429 and 5xx
+   */
+  private async runDeliveryJob(job: Job<WebhookJobPayload>): Promise<{ statusCode: number }> {
+    const delivery = this.deliveries.get(job.payload.deliveryId);
+    if (!delivery) {
+      throw new JobError('Delivery is no longer in the log', { retryable: false });
+    }
+    const webhook = this.webhooks.get(delivery.webhookId);
+    if (!webhook) {
+      this.saveDelivery(delivery, 'failed', { error: 'Webhook was removed' }, 0);
+      throw new JobError('Webhook was removed', { retryable: false });
+    }
+
+    const body = JSON.stringify(delivery.payload);
+    const timestamp = Math.floor(Date.now() / 1000);
+    const startedAt = Date.now();
+
+    let statusCode: number | undefined;
+    let error: string | undefined;
+    try {
+      const response = await axios.post(webhook.url, body, {
+        headers: {
+          'Content-Type': 'application/json',
+          'User-Agent': 'insta-data-fetching-webhooks',
+          'X-Webhook-Id': delivery.id,
+          'X-Webhook-Event': delivery.event,
+          'X-Webhook-Timestamp': String(timestamp),
+          'X-Webhook-Signature': signPayload(webhook.secret, timestamp, body),
+        },
+        timeout: this.timeoutMs,
+        maxRedirects: 0,
+        validateStatus: () => true,
+      });
+      statusCode = response.status;
+      if (statusCode < 200 || statusCode >= 300) {
+        error = `Webhook responded with status ${statusCode}`;
+      }
+    } catch (requestError) {
+      error = requestError instanceof Error ? requestError.message : 'Unknown error';
+    }
+
+    const retryable = statusCode === undefined || isTransientStatus(statusCode);
+    const final = !error || !retryable || job.attempts >= job.maxAttempts;
+    this.saveDelivery(
+      delivery,
+      error ? (final ? 'failed' : 'pending') : 'delivered',
+      { statusCode, error },
+      Date.now() - startedAt
+    );
+
+    if (error) {
+      logger.warn(`Delivery ${delivery.id} of ${delivery.event} failed: ${error}`);
+      throw new JobError(error, { retryable });
+    }
+    return { statusCode: statusCode as number };
+  }
+
+  private saveDelivery(
+    delivery: WebhookDelivery,
+    status: WebhookDelivery['status'],
+    outcome: { statusCode?: number; error?: string },
+    durationMs: number
+  ): void {
+    const now = new Date().toISOString();
+
+    this.deliveries.set(delivery.id, {
+      ...delivery,
+      status,
+      attempts: [...delivery.attempts, { at: now, durationMs, ...outcome }],
+      updatedAt: now,
+      deliveredAt: status === 'delivered' ? now : delivery.deliveredAt,
+    });
+    this.persist();
+  }
+}
+
+export const webhookService = new WebhookService();
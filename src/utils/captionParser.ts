@@ -0,0 +1,122 @@
+import { CaptionEntities, CaptionEntity } from '../interfaces/instagram.interface';
+
+// Top-level domains recognised in links written without a scheme, such as `bbc.co.uk/news`
+const BARE_DOMAIN_TLDS = ['com', 'org', 'net', 'co', 'uk', 'io', 'news', 'tv', 'me', 'info', 'app'];
+
+const URL_PATTERN = new RegExp(
+  '(?:https?:\\/\\/|www\\.)[^\\s]+' +
+    `|\\b[a-z0-9][a-z0-9-]*(?:\\.[a-z0-9-]+)*\\.(?:${BARE_DOMAIN_TLDS.join('|')})\\b(?:\\/[^\\s]*)?`,
+  'giu'
+);
+const HASHTAG_PATTERN = /(^|[^\p{L}\p{N}_&#])#([\p{L}\p{M}\p{N}_]+)/gu;
+const MENTION_PATTERN = /(^|[^\p{L}\p{N}_.@])@([a-z0-9._]{1,30})/giu;
+const EMOJI_PATTERN =
+  /\p{Regional_Indicator}{2}|[0-9#*]\uFE0F?\u20E3|\p{Extended_Pictographic}(?:\uFE0F|[\u{1F3FB}-\u{1F3FF}]|\u200D\p{Extended_Pictographic}\uFE0F?)*/gu;
+const LINE_BREAK_PATTERN = /\r\n|\r|\n/g;
+
+// Punctuation that ends a sentence rather than a link
+const TRAILING_URL_PUNCTUATION = /[.,!?;:'")\]]+$/;
+
+const overlaps = (entity: CaptionEntity, others: CaptionEntity[]): boolean =>
+  others.some(other => entity.start < other.end && other.start < entity.end);
+
+const findUrls = (caption: string): CaptionEntity[] => {
+  const urls: CaptionEntity[] = [];
+
+  for (const match of caption.matchAll(URL_PATTERN)) {
+    const text = match[0].replace(TRAILING_URL_PUNCTUATION, '');
+    const start = match.index as number;
+
+    // Bare domains right after an @ are part of an e-mail address
+    if (start > 0 && caption[start - 1] === '@') {
+      continue;
+    }
+
+    urls.push({
+      type: 'url',
+      text,
+      value: /^https?:\/\//i.test(text) ? text : `https://${text}`,
+      start,
+      end: start + text.length,
+    });
+  }
+
+  return urls;
+};
+
+const findPrefixed = (
+  caption: string,
+  pattern: RegExp,
+  type: 'hashtag' | 'mention',
+  normalize: (value: string) => string
+): CaptionEntity[] => {
+  const entities: CaptionEntity[] = [];
+
+  for (const match of caption.matchAll(pattern)) {
+    // Usernames cannot end with a period, so a trailing one ends the sentence
+    const name = type === 'mention' ? match[2].replace(/\.+$/, '') : match[2];
+    if (!name) {
+      continue;
+    }
+
+    const start = (match.index as number) + match[1].length;
+    const text = caption.substring(start, start + name.length + 1);
+    entities.push({ type, text, value: normalize(name), start, end: start + text.length });
+  }
+
+  return entities;
+};
+
+const findAll = (
+  caption: string,
+  pattern: RegExp,
+  type: 'emoji' | 'lineBreak'
+): CaptionEntity[] => {
+  return Array.from(caption.matchAll(pattern), match => ({
+    type,
+    text: match[0],
+    value: match[0],
+    start: match.index as number,
+    end: (match.index as number) + match[0].length,
+  }));
+};
+
+/**
+ * Parses an Instagram caption into hashtags, mentions, links, emoji and line breaks
+ * Offsets are UTF-16 indices into the caption, as used by `String.prototype.slice`;
+ * `end` is exclusive
+ * Hashtags and mentions inside links are not reported
+ * @param caption - The caption text
+ * @returns The entities of each type, in order of appearance
+ */
+export const parseCaption = (caption: string): CaptionEntities => {
+  const urls = findUrls(caption);
+
+  return {
+    hashtags: findPrefixed(caption, HASHTAG_PATTERN, 'hashtag', name => name.toLowerCase()).filter(
+      hashtag => !overlaps(hashtag, urls)
+    ),
+    mentions: findPrefixed(caption, MENTION_PATTERN, 'mention', name => name.toLowerCase()).filter(
+      mention => !overlaps(mention, urls)
+    ),
+    urls,
+    emoji: findAll(caption, EMOJI_PATTERN, 'emoji'),
+    lineBreaks: findAll(caption, LINE_BREAK_PATTERN, 'lineBreak'),
+  };
+};
+
+/**
+ * Lists every entity of a parsed caption in order of appearance
+ * @param entities - Entities returned by {@link parseCaption}
+ */
+export const flattenEntities = (entities: CaptionEntities): CaptionEntity[] => {
+  return [
+    ...entities.hashtags,
+    ...entities.mentions,
+    ...entities.urls,
+    ...entities.emoji,
+    ...entities.lineBreaks,
+  ].sort((a, b) => a.start - b.start);
+};
+
+export default parseCaption;
@@ -0,0 +1,57 @@
+import { Request, Response, NextFunction } from 'express';
+import { ApiError, createErrorResponse } from './errorHandler';
+import { idempotencyService, MAX_IDEMPOTENCY_KEY_LENGTH } from '../services/idempotency.service';
+
+/**
+ * Middleware that makes a route safe to retry with an `Idempotency-Key` header
+ * The first response with a key is stored and replayed to repeats within `IDEMPOTENCY_TTL_MS`,
+ * with the `Idempotent-Replayed` header set. A repeat while the first request is still running
+ * gets a 409, also after the client of the first request disconnected: the key stays claimed
+ * until the handler responds, or until the TTL for responses that are never written. Server
+ * errors are not stored, so the request can be retried with the same key.
+ * Requests without the header are not affected
+ */
+export const idempotent = (req: Request, res: Response, next: NextFunction): void => {
+  const header = req.get('Idempotency-Key');
+  if (header === undefined) {
+    next();
+    return;
+  }
+
+  const key = header.trim();
+  if (!key || key.length > MAX_IDEMPOTENCY_KEY_LENGTH) {
+    const message = `Idempotency-Key must be 1 to ${MAX_IDEMPOTENCY_KEY_LENGTH} characters`;
+    res.status(400).json(createErrorResponse('Validation failed', message, 400));
+    return;
+  }
+
+  const scopedKey = `${req.method} ${req.baseUrl}${req.path} ${key}`;
+
+  let stored;
+  try {
+    stored = idempotencyService.begin(scopedKey, idempotencyService.fingerprint(req.body));
+  } catch (error) {
+    const statusCode = error instanceof ApiError ? error.statusCode : 500;
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+    res.status(statusCode).json(createErrorResponse('Request failed', errorMessage, statusCode));
+    return;
+  }
+
+  if (stored) {
+    res.set('Idempotent-Replayed', 'true');
+    res.status(stored.statusCode || 200).json(stored.body);
+    return;
+  }
+
+  const json = res.json.bind(res);
+  res.json = (body: unknown) => {
+    if (res.statusCode < 500) {
+      idempotencyService.complete(scopedKey, res.statusCode, body);
+    } else {
+      idempotencyService.release(scopedKey);
+    }
+    return json(body);
+  };
+
+  next();
+};
@@ -0,0 +1,60 @@
+import * as fs from 'fs';
+import path from 'path';
+import logger from './logger';
+
+/**
+ * Returns the directory that holds the persisted application state
+ * Configurable through the `DATA_DIR` environment variable
+ */
+export const getDataDir = (): string => {
+  return path.resolve(process.env.DATA_DIR || 'data');
+};
+
+/**
+ * Minimal JSON file persistence used by the registries and stores of the application
+ * Reads are served from the file on first access, writes replace the file atomically
+ */
+export class JsonStore<T> {
+  private readonly filePath: string;
+  private readonly defaults: () => T;
+
+  /**
+   * @param fileName - Name of the file inside the data directory
+   * @param defaults - Factory for the initial state when the file does not exist yet
+   */
+  constructor(fileName: string, defaults: () => T) {
+    this.filePath = path.join(getDataDir(), fileName);
+    this.defaults = defaults;
+  }
+
+  /**
+   * Reads the persisted state, falling back to the defaults when nothing has been saved yet
+   */
+  public read(): T {
+    try {
+      if (!fs.existsSync(this.filePath)) {
+        return this.defaults();
+      }
+
+      return JSON.parse(fs.readFileSync(this.filePath, 'utf8')) as T;
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+      logger.error(`Failed to read ${this.filePath}, starting from defaults: ${errorMessage}`);
+      return this.defaults();
+    }
+  }
+
+  /**
+   * Persists the state, writing to a temporary file first so a crash never leaves a partial file
+   * @param data - The complete state to persist
+   */
+  public write(data: T): void {
+    fs.mkdirSync(path.dirname(this.filePath), { recursive: true });
+
+    const tempPath = `${this.filePath}.tmp`;
+    fs.writeFileSync(tempPath, JSON.stringify(data, null, 2));
+    fs.renameSync(tempPath, this.filePath);
+  }
+}
+
+export default JsonStore;
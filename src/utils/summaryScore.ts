@@ -0,0 +1,122 @@
+import { parseCaption } from './captionParser';
+import { getTweetLength } from './tweetLength';
+import { SummaryScore } from '../interfaces/llm.interface';
+
+// Weights of the parts of the total score
+const WEIGHTS = { length: 0.35, entities: 0.4, readability: 0.25 };
+// Summaries that use at least this share of the tweet get the full length score
+const FULL_LENGTH_SHARE = 0.6;
+
+const round = (value: number): number => Math.round(value * 1000) / 1000;
+
+const escapeRegExp = (text: string): string => text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+// Whole words or phrases only, so "ban" does not match "banner"
+const containsWord = (text: string, word: string): boolean =>
+  new RegExp(`(?<![\\p{L}\\p{N}])${escapeRegExp(word.trim())}(?![\\p{L}\\p{N}])`, 'iu').test(text);
+
+// Numbers match with or without thousands separators
+const normalize = (text: string): string => text.toLowerCase().replace(/(?<=\d)[,\s](?=\d)/g, '');
+
+/**
+ * Finds the names and numbers of a caption: runs of capitalized words, without the word that
+ * starts a sentence, and numbers such as 2,000 or 3.5%
+ * Links, hashtags and mentions are left out
+ * @param caption - The caption text
+ */
+export const extractEntities = (caption: string): string[] => {
+  const { urls, hashtags, mentions } = parseCaption(caption);
+  const text = [...urls, ...hashtags, ...mentions]
+    .sort((a, b) => b.start - a.start)
+    .reduce((result, entity) => result.slice(0, entity.start) + result.slice(entity.end), caption);
+
+  const names = Array.from(
+    text.matchAll(/\p{Lu}[\p{L}'’-]*(?:[^\S\n]+\p{Lu}[\p{L}'’-]*)*/gu),
+    match => {
+      const words = match[0].split(/\s+/);
+      const startsSentence = /(^|[.!?…:]\s+|\n\s*)$/.test(text.slice(0, match.index));
+      // Any word is capitalized at the start of a sentence, except that acronyms always are
+      return startsSentence && words[0] !== words[0].toUpperCase()
+        ? words.slice(1).join(' ')
+        : match[0];
+    }
+  ).filter(name => name.length > 1);
+  const numbers = text.match(/\p{N}+(?:[.,]\p{N}+)*%?/gu) || [];
+
+  const seen = new Set<string>();
+  return [...names, ...numbers].filter(entity => {
+    const key = normalize(entity);
+    if (seen.has(key)) {
+      return false;
+    }
+    seen.add(key);
+    return true;
+  });
+};
+
+/**
+ * Flesch reading ease of a text between 0 and 1, counting syllables as vowel groups
+ * Texts without Latin words, such as CJK, are not measured and get 1
+ * @param text - The text
+ */
+export const getReadability = (text: string): number => {
+  const words = text.match(/[a-z]+(?:'[a-z]+)?/gi) || [];
+  if (words.length === 0) {
+    return 1;
+  }
+
+  const sentences = Math.max(1, (text.match(/[.!?…]+(?=\s|$)/g) || []).length);
+  const syllables = words.reduce(
+    (total, word) => total + Math.max(1, (word.toLowerCase().match(/[aeiouy]+/g) || []).length),
+    0
+  );
+  const ease = 206.835 - 1.015 * (words.length / sentences) - 84.6 * (syllables / words.length);
+
+  return Math.min(1, Math.max(0, ease / 100));
+};
+
+/**
+ * Scores a summary of a caption on how well it fills the tweet, the names and numbers it keeps,
+ * its readability, and banned words
+ * A summary that uses a banned word scores 0
+ * @param summary - The summary
+ * @param caption - The caption it summarizes
+ * @param options - Maximum weighted length, banned words and whether the summary was cut to fit,
+ * which halves its length score
+ */
+export const scoreSummary = (
+  summary: string,
+  caption: string,
+  options: { maxLength: number; bannedWords?: string[]; truncated?: boolean }
+): SummaryScore => {
+  const { maxLength, bannedWords = [], truncated = false } = options;
+
+  const share = getTweetLength(summary) / maxLength;
+  const length = (share > 1 ? 0 : Math.min(1, share / FULL_LENGTH_SHARE)) * (truncated ? 0.5 : 1);
+
+  const entities = extractEntities(caption);
+  const normalizedSummary = normalize(summary);
+  const missingEntities = entities.filter(entity => !normalizedSummary.includes(normalize(entity)));
+  const entityScore =
+    entities.length > 0 ? (entities.length - missingEntities.length) / entities.length : 1;
+
+  const readability = getReadability(summary);
+
+  const used = bannedWords.filter(word => containsWord(summary, word));
+
+  const total =
+    used.length > 0
+      ? 0
+      : WEIGHTS.length * length +
+        WEIGHTS.entities * entityScore +
+        WEIGHTS.readability * readability;
+
+  return {
+    total: round(total),
+    length: round(length),
+    entities: round(entityScore),
+    readability: round(readability),
+    missingEntities,
+    bannedWords: used,
+  };
+};
@@ -0,0 +1,118 @@
+// Local date and time without a UTC offset, such as `2024-01-02T08:00` or `2024-01-02 08:00:30`
+const LOCAL_DATE_TIME_PATTERN = /^(\d{4})-(\d{2})-(\d{2})[T ](\d{2}):(\d{2})(?::(\d{2}))?$/;
+// ISO 8601 date and time ending in `Z` or an offset such as `+01:00`
+const OFFSET_DATE_TIME_PATTERN =
+  /^\d{4}-\d{2}-\d{2}T\d{2}:\d{2}(?::\d{2}(?:\.\d+)?)?(?:Z|[+-]\d{2}:\d{2})$/i;
+
+/**
+ * Checks that a time zone is a known IANA name such as `Europe/London`
+ * @param timeZone - The time zone name
+ */
+export const isValidTimeZone = (timeZone: string): boolean => {
+  try {
+    new Intl.DateTimeFormat('en-US', { timeZone });
+    return true;
+  } catch {
+    return false;
+  }
+};
+
+/**
+ * Gets the offset of a time zone from UTC at an instant, in milliseconds
+ * @param date - The instant
+ * @param timeZone - IANA time zone name
+ */
+export const getTimeZoneOffset = (date: Date, timeZone: string): number => {
+  const parts = new Intl.DateTimeFormat('en-US', {
+    timeZone,
+    hourCycle: 'h23',
+    year: 'numeric',
+    month: '2-digit',
+    day: '2-digit',
+    hour: '2-digit',
+    minute: '2-digit',
+    second: '2-digit',
+  }).formatToParts(date);
+  const part = (type: Intl.DateTimeFormatPartTypes) =>
+    Number(parts.find(item => item.type === type)?.value);
+
+  const localAsUtc = Date.UTC(
+    part('year'),
+    part('month') - 1,
+    part('day'),
+    part('hour'),
+    part('minute'),
+    part('second')
+  );
+  return localAsUtc - Math.floor(date.getTime() / 1000) * 1000;
+};
+
+/**
+ * Parses a date and time, either with a UTC offset or as local time of a time zone
+ * @param value - ISO 8601 date and time with `Z` or an offset, or local date and time
+ * @param timeZone - IANA time zone name, required for local date and time
+ * @throws Error if the value is malformed, the time zone is unknown, a local time comes without a
+ * time zone, or the local time does not exist because the clocks were put forward
+ */
+export const parseDateTime = (value: string, timeZone?: string): Date => {
+  if (timeZone !== undefined && !isValidTimeZone(timeZone)) {
+    throw new Error(`Unknown time zone: ${timeZone}`);
+  }
+
+  if (OFFSET_DATE_TIME_PATTERN.test(value)) {
+    const date = new Date(value);
+    if (isNaN(date.getTime())) {
+      throw new Error(`Invalid date and time: ${value}`);
+    }
+    return date;
+  }
+
+  const match = value.match(LOCAL_DATE_TIME_PATTERN);
+  if (!match) {
+    throw new Error(
+      `Invalid date and time: ${value}, expected ISO 8601 such as 2024-01-02T08:00:00+01:00`
+    );
+  }
+  if (timeZone === undefined) {
+    throw new Error(`Date and time without a UTC offset needs a time zone: ${value}`);
+  }
+
+  const [year, month, day, hour, minute, second] = match.slice(1).map(field => Number(field || 0));
+  const localAsUtc = Date.UTC(year, month - 1, day, hour, minute, second);
+  const normalized = new Date(localAsUtc);
+  // Date.UTC rolls over out of range fields, such as February 30 into March
+  if (
+    normalized.getUTCMonth() !== month - 1 ||
+    normalized.getUTCDate() !== day ||
+    normalized.getUTCHours() !== hour ||
+    normalized.getUTCMinutes() !== minute ||
+    normalized.getUTCSeconds() !== second
+  ) {
+    throw new Error(`Invalid date and time: ${value}`);
+  }
+
+  // The offset at the guessed instant can differ from the offset at the result around DST changes
+  let utc = localAsUtc - getTimeZoneOffset(new Date(localAsUtc), timeZone);
+  utc = localAsUtc - getTimeZoneOffset(new Date(utc), timeZone);
+
+  if (utc + getTimeZoneOffset(new Date(utc), timeZone) !== localAsUtc) {
+    throw new Error(`${value} does not exist in ${timeZone}, the clocks skip it`);
+  }
+  return new Date(utc);
+};
+
+/**
+ * Formats an instant as local ISO 8601 date and time of a time zone, with its offset
+ * @param date - The instant
+ * @param timeZone - IANA time zone name
+ * @returns For example `2024-01-02T08:00:00+01:00`
+ */
+export const formatInTimeZone = (date: Date, timeZone: string): string => {
+  const offsetMinutes = Math.round(getTimeZoneOffset(date, timeZone) / 60000);
+  const local = new Date(date.getTime() + offsetMinutes * 60000).toISOString().slice(0, 19);
+  const sign = offsetMinutes < 0 ? '-' : '+';
+  const hours = String(Math.floor(Math.abs(offsetMinutes) / 60)).padStart(2, '0');
+  const minutes = String(Math.abs(offsetMinutes) % 60).padStart(2, '0');
+
+  return `${local}${sign}${hours}:${minutes}`;
+};
@@ -0,0 +1,158 @@
+import { parseCaption } from './captionParser';
+
+// Length of every link once Twitter wraps it in a t.co link
+export const TRANSFORMED_URL_LENGTH = 23;
+const ELLIPSIS = '…';
+
+// Code points that count as one character; everything else, such as CJK, counts as two
+// (ranges of the v3 configuration of twitter-text)
+const LIGHT_RANGES: [number, number][] = [
+  [0x0000, 0x10ff],
+  [0x2000, 0x200d],
+  [0x2010, 0x201f],
+  [0x2032, 0x2037],
+];
+
+const codePointWeight = (char: string): number => {
+  const codePoint = char.codePointAt(0) as number;
+  return LIGHT_RANGES.some(([start, end]) => codePoint >= start && codePoint <= end) ? 1 : 2;
+};
+
+/**
+ * Counts the characters of a tweet the way Twitter does
+ * Links count as 23 characters whatever their length, emoji count as two characters including
+ * skin tones and joined sequences, and CJK and most other scripts count two per character
+ * @param text - The tweet text
+ * @returns The weighted length, to compare with the 280 character limit
+ */
+export const getTweetLength = (text: string): number => {
+  const normalized = text.normalize('NFC');
+  const { urls, emoji } = parseCaption(normalized);
+  const entities = [...urls, ...emoji].sort((a, b) => a.start - b.start);
+
+  let length = 0;
+  let offset = 0;
+  for (const entity of entities) {
+    if (entity.start < offset) {
+      continue;
+    }
+
+    for (const char of normalized.slice(offset, entity.start)) {
+      length += codePointWeight(char);
+    }
+    length += entity.type === 'url' ? TRANSFORMED_URL_LENGTH : 2;
+    offset = entity.end;
+  }
+  for (const char of normalized.slice(offset)) {
+    length += codePointWeight(char);
+  }
+
+  return length;
+};
+
+/**
+ * Shortens a text to fit a weighted length, preferring the end of a sentence, else the end of a
+ * word followed by an ellipsis; links and emoji are never split
+ * A sentence boundary is only used when it keeps at least half of the allowed length
+ * @param text - The text
+ * @param maxLength - Maximum weighted length, as counted by {@link getTweetLength}
+ */
+export const shortenTweet = (text: string, maxLength: number): string => {
+  const trimmed = text.trim();
+  if (getTweetLength(trimmed) <= maxLength) {
+    return trimmed;
+  }
+
+  const sentenceEnds = Array.from(
+    trimmed.matchAll(/[.!?…](?=\s|$)/g),
+    match => (match.index as number) + 1
+  );
+  const sentences = sentenceEnds
+    .map(end => trimmed.slice(0, end))
+    .filter(prefix => getTweetLength(prefix) <= maxLength);
+  const longest = sentences[sentences.length - 1];
+  if (longest && getTweetLength(longest) >= maxLength / 2) {
+    return longest;
+  }
+
+  const words = trimmed.split(/\s+/);
+  let shortened = '';
+  for (const word of words) {
+    const candidate = shortened ? `${shortened} ${word}` : word;
+    if (getTweetLength(`${candidate}${ELLIPSIS}`) > maxLength) {
+      break;
+    }
+    shortened = candidate;
+  }
+
+  // A first word longer than the limit is cut by character, keeping surrogate pairs whole
+  if (!shortened) {
+    for (const char of trimmed) {
+      if (getTweetLength(`${shortened}${char}${ELLIPSIS}`) > maxLength) {
+        break;
+      }
+      shortened += char;
+    }
+  }
+
+  return `${shortened.replace(/[\s,;:.-]+$/, '')}${ELLIPSIS}`;
+};
+
+/**
+ * Splits a text into the tweets of a thread, filling each tweet with whole sentences
+ * Sentences longer than a tweet are split between words, and words longer than a tweet between
+ * characters
+ * @param text - The text
+ * @param maxLength - Maximum weighted length of each tweet
+ */
+export const splitThread = (text: string, maxLength: number): string[] => {
+  const pieces = text
+    .split(/(?<=[.!?…])\s+|\s*\n+\s*/)
+    .map(sentence => sentence.replace(/\s+/g, ' ').trim())
+    .filter(sentence => sentence.length > 0)
+    .flatMap(sentence =>
+      getTweetLength(sentence) <= maxLength ? [sentence] : splitLongSentence(sentence, maxLength)
+    );
+
+  const tweets: string[] = [];
+  for (const piece of pieces) {
+    const last = tweets[tweets.length - 1];
+    if (last !== undefined && getTweetLength(`${last} ${piece}`) <= maxLength) {
+      tweets[tweets.length - 1] = `${last} ${piece}`;
+    } else {
+      tweets.push(piece);
+    }
+  }
+
+  return tweets;
+};
+
+const splitLongSentence = (sentence: string, maxLength: number): string[] => {
+  const words = sentence
+    .split(' ')
+    .flatMap(word => (getTweetLength(word) <= maxLength ? [word] : splitWord(word, maxLength)));
+
+  return words.reduce<string[]>((parts, word) => {
+    const last = parts[parts.length - 1];
+    if (last !== undefined && getTweetLength(`${last} ${word}`) <= maxLength) {
+      parts[parts.length - 1] = `${last} ${word}`;
+    } else {
+      parts.push(word);
+    }
+    return parts;
+  }, []);
+};
+
+const splitWord = (word: string, maxLength: number): string[] => {
+  const parts = [''];
+  for (const char of word) {
+    const last = parts[parts.length - 1];
+    if (last && getTweetLength(`${last}${char}`) > maxLength) {
+      parts.push(char);
+    } else {
+      parts[parts.length - 1] = `${last}${char}`;
+    }
+  }
+
+  return parts;
+};